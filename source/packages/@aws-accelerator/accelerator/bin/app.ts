@@ -28,6 +28,7 @@ import {
   IamConfig,
   NetworkConfig,
   OrganizationConfig,
+  ReplacementsConfig,
   SecurityConfig,
 } from '@aws-accelerator/config';
 import { createLogger } from '@aws-accelerator/utils';
@@ -418,12 +419,13 @@ async function main() {
   }
 
   if (configDirPath) {
-    const globalConfig = GlobalConfig.load(configDirPath);
+    const replacementsConfig = ReplacementsConfig.load(configDirPath);
+    const globalConfig = GlobalConfig.load(configDirPath, replacementsConfig);
     let customizationsConfig: CustomizationsConfig;
 
     // Create empty customizationsConfig if optional configuration file does not exist
     if (fs.existsSync(path.join(configDirPath, 'customizations-config.yaml'))) {
-      customizationsConfig = CustomizationsConfig.load(configDirPath);
+      customizationsConfig = CustomizationsConfig.load(configDirPath, replacementsConfig);
     } else {
       customizationsConfig = new CustomizationsConfig();
     }
@@ -433,13 +435,13 @@ async function main() {
     //
     const props = {
       configDirPath,
-      accountsConfig: AccountsConfig.load(configDirPath),
+      accountsConfig: AccountsConfig.load(configDirPath, replacementsConfig),
       customizationsConfig: customizationsConfig,
-      globalConfig: GlobalConfig.load(configDirPath),
-      iamConfig: IamConfig.load(configDirPath),
-      networkConfig: NetworkConfig.load(configDirPath),
-      organizationConfig: OrganizationConfig.load(configDirPath),
-      securityConfig: SecurityConfig.load(configDirPath),
+      globalConfig: globalConfig,
+      iamConfig: IamConfig.load(configDirPath, replacementsConfig),
+      networkConfig: NetworkConfig.load(configDirPath, replacementsConfig),
+      organizationConfig: OrganizationConfig.load(configDirPath, replacementsConfig),
+      securityConfig: SecurityConfig.load(configDirPath, replacementsConfig),
       partition: partition,
       configRepositoryName,
       qualifier: process.env['ACCELERATOR_QUALIFIER'],
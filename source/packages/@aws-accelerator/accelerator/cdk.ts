@@ -20,7 +20,7 @@ import { AcceleratorStage } from './lib/accelerator-stage';
 import { AcceleratorToolkit } from './lib/toolkit';
 
 (async () => {
-  const usage = `Usage: cdk.ts <command> --stage STAGE --config-dir CONFIG_DIRECTORY [--account ACCOUNT] [--region REGION]`;
+  const usage = `Usage: cdk.ts <command> --stage STAGE --config-dir CONFIG_DIRECTORY [--environment ENVIRONMENT] [--account ACCOUNT] [--region REGION]`;
 
   const args = mri(process.argv.slice(2), {
     boolean: ['ec2Creds'],
@@ -34,6 +34,9 @@ import { AcceleratorToolkit } from './lib/toolkit';
       'app',
       'ca-bundle-path',
       'proxy',
+      'baseline-dir',
+      'output-dir',
+      'environment',
     ],
     alias: {
       c: 'config-dir',
@@ -55,6 +58,9 @@ import { AcceleratorToolkit } from './lib/toolkit';
   const caBundlePath = args['ca-bundle-path'];
   const ec2Creds = args['ec2Creds'];
   const proxyAddress = args['proxy'];
+  const baselineDirPath = args['baseline-dir'];
+  const outputDirPath = args['output-dir'];
+  const environment = args['environment'];
 
   //
   // Validate args: must specify a command
@@ -89,6 +95,14 @@ import { AcceleratorToolkit } from './lib/toolkit';
     }
   }
 
+  // Check if the plan baseline directory exists
+  if (baselineDirPath !== undefined) {
+    if (baselineDirPath.length === 0 || !fs.existsSync(baselineDirPath)) {
+      console.log(`Invalid --baseline-dir ${baselineDirPath}`);
+      throw new Error(usage);
+    }
+  }
+
   // Boolean to set single account deployment mode
   const enableSingleAccountMode = process.env['ACCELERATOR_ENABLE_SINGLE_ACCOUNT_MODE']
     ? process.env['ACCELERATOR_ENABLE_SINGLE_ACCOUNT_MODE'] === 'true'
@@ -109,7 +123,10 @@ import { AcceleratorToolkit } from './lib/toolkit';
     caBundlePath,
     ec2Creds,
     proxyAddress,
+    baselineDirPath,
+    outputDirPath,
     enableSingleAccountMode: enableSingleAccountMode,
+    environment,
   }).catch(function (err) {
     console.log(err.message);
     process.exit(1);
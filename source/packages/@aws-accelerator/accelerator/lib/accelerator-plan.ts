@@ -0,0 +1,346 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as cfnDiff from '@aws-cdk/cloudformation-diff';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { createLogger } from '@aws-accelerator/utils';
+
+const logger = createLogger(['accelerator-plan']);
+
+/**
+ * Resource types that hold data or are depended on by workloads.
+ * Replacing or deleting these resources is flagged in the plan report.
+ */
+export const AcceleratorPlanStatefulResourceTypes = [
+  'AWS::Backup::BackupVault',
+  'AWS::CloudTrail::Trail',
+  'AWS::DynamoDB::GlobalTable',
+  'AWS::DynamoDB::Table',
+  'AWS::EC2::InternetGateway',
+  'AWS::EC2::NatGateway',
+  'AWS::EC2::Subnet',
+  'AWS::EC2::TransitGateway',
+  'AWS::EC2::TransitGatewayAttachment',
+  'AWS::EC2::VPC',
+  'AWS::EC2::VPCCidrBlock',
+  'AWS::EC2::Volume',
+  'AWS::EFS::FileSystem',
+  'AWS::KMS::Key',
+  'AWS::Kinesis::Stream',
+  'AWS::Logs::LogGroup',
+  'AWS::Organizations::Account',
+  'AWS::Organizations::OrganizationalUnit',
+  'AWS::RDS::DBCluster',
+  'AWS::RDS::DBInstance',
+  'AWS::Route53::HostedZone',
+  'AWS::S3::Bucket',
+  'AWS::SecretsManager::Secret',
+  'AWS::SQS::Queue',
+];
+
+/**
+ * Planned action for a resource
+ */
+export type AcceleratorPlanAction = 'add' | 'change' | 'replace' | 'delete';
+
+/**
+ * A planned change to a single resource
+ */
+export interface AcceleratorPlanResourceChange {
+  /**
+   * The logical ID of the resource
+   */
+  readonly logicalId: string;
+  /**
+   * The CloudFormation resource type
+   */
+  readonly resourceType: string;
+  /**
+   * The planned action
+   */
+  readonly action: AcceleratorPlanAction;
+  /**
+   * The CloudFormation change impact, i.e. WILL_REPLACE or MAY_REPLACE
+   */
+  readonly impact: string;
+  /**
+   * True if the resource type is stateful
+   */
+  readonly stateful: boolean;
+  /**
+   * True if a stateful resource will be replaced or deleted
+   */
+  readonly flagged: boolean;
+}
+
+/**
+ * Planned changes for a single stack
+ */
+export interface AcceleratorPlanStack {
+  readonly stackName: string;
+  readonly accountId: string;
+  readonly region: string;
+  readonly changes: AcceleratorPlanResourceChange[];
+}
+
+/**
+ * Count of planned changes by action
+ */
+export interface AcceleratorPlanSummary {
+  add: number;
+  change: number;
+  replace: number;
+  delete: number;
+  flagged: number;
+}
+
+/**
+ * Accelerator plan report. Summarizes the resource changes of every synthesized
+ * stack, grouped by account, region and resource type.
+ */
+export class AcceleratorPlan {
+  /**
+   * Markdown report file name
+   */
+  static readonly MARKDOWN_FILENAME = 'accelerator-plan.md';
+  /**
+   * JSON report file name
+   */
+  static readonly JSON_FILENAME = 'accelerator-plan.json';
+
+  readonly stacks: AcceleratorPlanStack[];
+
+  constructor(stacks: AcceleratorPlanStack[]) {
+    this.stacks = stacks
+      .filter(stack => stack.changes.length > 0)
+      .sort(
+        (a, b) =>
+          a.accountId.localeCompare(b.accountId) ||
+          a.region.localeCompare(b.region) ||
+          a.stackName.localeCompare(b.stackName),
+      );
+  }
+
+  /**
+   * Compare the current and new template of a stack and return the planned resource changes
+   * @param props
+   * @returns
+   */
+  static createStackPlan(props: {
+    stackName: string;
+    accountId: string;
+    region: string;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    currentTemplate: { [key: string]: any };
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    newTemplate: { [key: string]: any };
+  }): AcceleratorPlanStack {
+    const changes: AcceleratorPlanResourceChange[] = [];
+    const diff = cfnDiff.diffTemplate(props.currentTemplate, props.newTemplate);
+
+    diff.resources.forEachDifference((logicalId: string, change: cfnDiff.ResourceDifference) => {
+      const resourceType = change.newResourceType ?? change.oldResourceType ?? 'Unknown';
+      const action = AcceleratorPlan.getAction(change.changeImpact);
+      if (resourceType === 'AWS::CDK::Metadata' || !action) {
+        return;
+      }
+      const stateful = AcceleratorPlanStatefulResourceTypes.includes(resourceType);
+      const flagged =
+        stateful &&
+        [
+          cfnDiff.ResourceImpact.WILL_REPLACE,
+          cfnDiff.ResourceImpact.MAY_REPLACE,
+          cfnDiff.ResourceImpact.WILL_DESTROY,
+        ].includes(change.changeImpact);
+
+      changes.push({ logicalId, resourceType, action, impact: change.changeImpact, stateful, flagged });
+    });
+
+    return {
+      stackName: props.stackName,
+      accountId: props.accountId,
+      region: props.region,
+      changes: changes.sort((a, b) => a.logicalId.localeCompare(b.logicalId)),
+    };
+  }
+
+  /**
+   * Map a CloudFormation change impact to a plan action
+   * @param impact
+   * @returns
+   */
+  private static getAction(impact: cfnDiff.ResourceImpact): AcceleratorPlanAction | undefined {
+    switch (impact) {
+      case cfnDiff.ResourceImpact.WILL_CREATE:
+        return 'add';
+      case cfnDiff.ResourceImpact.WILL_UPDATE:
+        return 'change';
+      case cfnDiff.ResourceImpact.WILL_REPLACE:
+      case cfnDiff.ResourceImpact.MAY_REPLACE:
+        return 'replace';
+      case cfnDiff.ResourceImpact.WILL_DESTROY:
+      case cfnDiff.ResourceImpact.WILL_ORPHAN:
+        return 'delete';
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Count planned changes by action
+   * @param changes
+   * @returns
+   */
+  static summarize(changes: AcceleratorPlanResourceChange[]): AcceleratorPlanSummary {
+    const summary: AcceleratorPlanSummary = { add: 0, change: 0, replace: 0, delete: 0, flagged: 0 };
+    for (const change of changes) {
+      summary[change.action] += 1;
+      if (change.flagged) {
+        summary.flagged += 1;
+      }
+    }
+    return summary;
+  }
+
+  /**
+   * Returns the plan grouped by account, region and resource type
+   * @returns
+   */
+  toJson() {
+    const allChanges = this.stacks.flatMap(stack => stack.changes);
+    const accountIds = [...new Set(this.stacks.map(stack => stack.accountId))];
+
+    return {
+      summary: AcceleratorPlan.summarize(allChanges),
+      flagged: this.stacks.flatMap(stack =>
+        stack.changes
+          .filter(change => change.flagged)
+          .map(change => ({
+            accountId: stack.accountId,
+            region: stack.region,
+            stackName: stack.stackName,
+            ...change,
+          })),
+      ),
+      accounts: accountIds.map(accountId => {
+        const accountStacks = this.stacks.filter(stack => stack.accountId === accountId);
+        const regions = [...new Set(accountStacks.map(stack => stack.region))];
+        return {
+          accountId,
+          summary: AcceleratorPlan.summarize(accountStacks.flatMap(stack => stack.changes)),
+          regions: regions.map(region => {
+            const regionStacks = accountStacks.filter(stack => stack.region === region);
+            const regionChanges = regionStacks.flatMap(stack => stack.changes);
+            const resourceTypes = [...new Set(regionChanges.map(change => change.resourceType))].sort();
+            return {
+              region,
+              summary: AcceleratorPlan.summarize(regionChanges),
+              resourceTypes: resourceTypes.map(resourceType => ({
+                resourceType,
+                summary: AcceleratorPlan.summarize(
+                  regionChanges.filter(change => change.resourceType === resourceType),
+                ),
+              })),
+              stacks: regionStacks.map(stack => ({
+                stackName: stack.stackName,
+                summary: AcceleratorPlan.summarize(stack.changes),
+                changes: stack.changes,
+              })),
+            };
+          }),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Returns the plan as a Markdown document
+   * @returns
+   */
+  toMarkdown(): string {
+    const plan = this.toJson();
+    const lines: string[] = ['# Accelerator plan', ''];
+
+    if (this.stacks.length === 0) {
+      lines.push('No changes.', '');
+      return lines.join('\n');
+    }
+
+    lines.push(...AcceleratorPlan.summaryTable(plan.summary), '');
+
+    if (plan.flagged.length > 0) {
+      lines.push('## Stateful resources replaced or deleted', '');
+      lines.push('| Account | Region | Stack | Logical ID | Resource type | Impact |');
+      lines.push('| --- | --- | --- | --- | --- | --- |');
+      for (const item of plan.flagged) {
+        lines.push(
+          `| ${item.accountId} | ${item.region} | ${item.stackName} | ${item.logicalId} | ${item.resourceType} | ${item.impact} |`,
+        );
+      }
+      lines.push('');
+    }
+
+    for (const account of plan.accounts) {
+      lines.push(`## Account ${account.accountId}`, '');
+      lines.push(...AcceleratorPlan.summaryTable(account.summary), '');
+
+      for (const region of account.regions) {
+        lines.push(`### ${account.accountId} / ${region.region}`, '');
+        lines.push('| Resource type | Add | Change | Replace | Delete |');
+        lines.push('| --- | --- | --- | --- | --- |');
+        for (const item of region.resourceTypes) {
+          lines.push(
+            `| ${item.resourceType} | ${item.summary.add} | ${item.summary.change} | ${item.summary.replace} | ${item.summary.delete} |`,
+          );
+        }
+        lines.push('');
+
+        for (const stack of region.stacks) {
+          lines.push(`#### ${stack.stackName}`, '');
+          lines.push('| Action | Logical ID | Resource type | Impact |');
+          lines.push('| --- | --- | --- | --- |');
+          for (const change of stack.changes) {
+            const action = change.flagged ? `**${change.action}** :warning:` : change.action;
+            lines.push(`| ${action} | ${change.logicalId} | ${change.resourceType} | ${change.impact} |`);
+          }
+          lines.push('');
+        }
+      }
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Write the Markdown and JSON reports to the given directory
+   * @param outputDirPath
+   */
+  write(outputDirPath: string) {
+    fs.mkdirSync(outputDirPath, { recursive: true });
+    const markdownPath = path.join(outputDirPath, AcceleratorPlan.MARKDOWN_FILENAME);
+    const jsonPath = path.join(outputDirPath, AcceleratorPlan.JSON_FILENAME);
+
+    fs.writeFileSync(markdownPath, this.toMarkdown(), 'utf8');
+    fs.writeFileSync(jsonPath, JSON.stringify(this.toJson(), null, 2), 'utf8');
+    logger.info(`Plan report written to ${markdownPath} and ${jsonPath}`);
+  }
+
+  private static summaryTable(summary: AcceleratorPlanSummary): string[] {
+    return [
+      '| Add | Change | Replace | Delete | Flagged |',
+      '| --- | --- | --- | --- | --- |',
+      `| ${summary.add} | ${summary.change} | ${summary.replace} | ${summary.delete} | ${summary.flagged} |`,
+    ];
+  }
+}
@@ -27,12 +27,12 @@ import {
 } from '@aws-sdk/client-ssm';
 import { S3Client, HeadBucketCommand } from '@aws-sdk/client-s3';
 
-import { AccountsConfig, GlobalConfig } from '@aws-accelerator/config';
+import { AccountsConfig, ConfigOverlay, GlobalConfig, ReplacementsConfig } from '@aws-accelerator/config';
 import { createLogger, throttlingBackOff } from '@aws-accelerator/utils';
 import { AssumeProfilePlugin } from '@aws-cdk-extensions/cdk-plugin-assume-role';
 
 import { AcceleratorStage } from './accelerator-stage';
-import { AcceleratorToolkit } from './toolkit';
+import { AcceleratorToolkit, AcceleratorToolkitCommand } from './toolkit';
 
 const logger = createLogger(['accelerator']);
 
@@ -132,7 +132,14 @@ export interface AcceleratorProps {
   readonly caBundlePath?: string;
   readonly ec2Creds?: boolean;
   readonly proxyAddress?: string;
+  readonly baselineDirPath?: string;
+  readonly outputDirPath?: string;
   readonly enableSingleAccountMode: boolean;
+  /**
+   * Name of the environment overlay applied to the configuration directory,
+   * defaults to the `ACCELERATOR_ENVIRONMENT` environment variable
+   */
+  readonly environment?: string;
 }
 
 /**
@@ -151,11 +158,30 @@ export abstract class Accelerator {
     return Object.values(AcceleratorStage).includes(stage);
   }
 
+  /**
+   * Returns the props with the configuration directory of the selected environment overlay
+   * @param props
+   * @returns
+   */
+  static applyEnvironment(props: AcceleratorProps): AcceleratorProps {
+    const environment = props.environment ?? process.env['ACCELERATOR_ENVIRONMENT'];
+    if (!environment) {
+      return props;
+    }
+    // Replacements of the CDK app are selected by the environment variable
+    process.env['ACCELERATOR_ENVIRONMENT'] = environment;
+    if (!props.configDirPath) {
+      return props;
+    }
+    return { ...props, environment, configDirPath: ConfigOverlay.resolve(props.configDirPath, environment) };
+  }
+
   /**
    *
    * @returns
    */
-  static async run(props: AcceleratorProps): Promise<void> {
+  static async run(acceleratorProps: AcceleratorProps): Promise<void> {
+    const props = Accelerator.applyEnvironment(acceleratorProps);
     let managementAccountCredentials: AWS.STS.Credentials | undefined;
     let globalConfig = undefined;
     let assumeRolePlugin = undefined;
@@ -177,7 +203,7 @@ export abstract class Accelerator {
       managementAccountCredentials = await this.getManagementAccountCredentials(props.partition);
 
       // Load in the global config to read in the management account access roles
-      globalConfig = GlobalConfig.load(props.configDirPath);
+      globalConfig = GlobalConfig.load(props.configDirPath, ReplacementsConfig.load(props.configDirPath));
 
       //
       // Load Plugins
@@ -219,12 +245,19 @@ export abstract class Accelerator {
         proxyAddress: props.proxyAddress,
         centralizeCdkBootstrap: globalConfig?.centralizeCdkBuckets?.enable,
         cdkOptions: globalConfig?.cdkOptions,
+        baselineDirPath: props.baselineDirPath,
+        outputDirPath: props.outputDirPath,
         enableSingleAccountMode: props.enableSingleAccountMode,
       });
     }
 
     // Treat synthesize as a single - do not need parallel paths to generate all stacks
-    if (props.command === Command.SYNTH || props.command === Command.SYNTHESIZE || props.command === Command.DIFF) {
+    if (
+      props.command === Command.SYNTH ||
+      props.command === Command.SYNTHESIZE ||
+      props.command === Command.DIFF ||
+      props.command === AcceleratorToolkitCommand.PLAN
+    ) {
       return AcceleratorToolkit.execute({
         command: props.command,
         accountId: props.account,
@@ -239,6 +272,8 @@ export abstract class Accelerator {
         proxyAddress: props.proxyAddress,
         centralizeCdkBootstrap: globalConfig?.centralizeCdkBuckets?.enable,
         cdkOptions: globalConfig?.cdkOptions,
+        baselineDirPath: props.baselineDirPath,
+        outputDirPath: props.outputDirPath,
         enableSingleAccountMode: props.enableSingleAccountMode,
       });
     }
@@ -248,8 +283,9 @@ export abstract class Accelerator {
     // to the stacks that need them. Exceptions are thrown if any of the
     // configuration files are malformed.
     //
-    globalConfig = GlobalConfig.load(props.configDirPath);
-    const accountsConfig = AccountsConfig.load(props.configDirPath);
+    const replacementsConfig = ReplacementsConfig.load(props.configDirPath);
+    globalConfig = GlobalConfig.load(props.configDirPath, replacementsConfig);
+    const accountsConfig = AccountsConfig.load(props.configDirPath, replacementsConfig);
 
     //
     // Will load in account IDs using the Organizations client if not provided
@@ -11,11 +11,17 @@
  *  and limitations under the License.
  */
 import * as fs from 'fs';
+import mri from 'mri';
 import * as path from 'path';
 
 import {
   AccountsConfig,
   AccountsConfigValidator,
+  ConfigErrorDetail,
+  ConfigIncludes,
+  ConfigOverlay,
+  ConfigSourceMap,
+  ConfigValidationError,
   CustomizationsConfig,
   CustomizationsConfigValidator,
   GlobalConfig,
@@ -26,25 +32,116 @@ import {
   NetworkConfigValidator,
   OrganizationConfig,
   OrganizationConfigValidator,
+  ReplacementsConfig,
   SecurityConfig,
   SecurityConfigValidator,
 } from '@aws-accelerator/config';
 import { createLogger } from '@aws-accelerator/utils';
 
 const logger = createLogger(['config-validator']);
-const configDirPath = process.argv[2];
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const initErrors: { file: string; message: any }[] = [];
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const configErrors: any[] = [];
+const args = mri(process.argv.slice(2), { string: ['format', 'output', 'environment'] });
+const configDirPath: string = args['_'][0];
+// Report format, one of text, json or sarif
+const reportFormat: string = args['format'] ?? 'text';
+const reportOutputPath: string | undefined = args['output'];
+// Environment overlay to validate, every environment overlay is validated when undefined
+const selectedEnvironment: string | undefined = args['environment'] ?? process.env['ACCELERATOR_ENVIRONMENT'];
 
 if (configDirPath) {
   logger.info(`Config source directory -  ${configDirPath}`);
 
+  // Validate the base configuration and each environment overlay, or the selected environment only
+  const environments = selectedEnvironment
+    ? [selectedEnvironment]
+    : [undefined, ...ConfigOverlay.getEnvironments(configDirPath)];
+  const details: ConfigErrorDetail[] = [];
+  let isValid = true;
+
+  for (const environment of environments) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const initErrors: { file: string; message: any }[] = [];
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const configErrors: any[] = [];
+
+    if (environment) {
+      logger.info(`Validating environment ${environment}`);
+    }
+
+    let environmentDirPath: string | undefined = undefined;
+    try {
+      environmentDirPath = ConfigOverlay.resolve(configDirPath, environment);
+    } catch (e) {
+      initErrors.push({ file: `${ConfigOverlay.ENVIRONMENTS_DIR}/${environment}`, message: e });
+    }
+
+    let replacementsConfig: ReplacementsConfig | undefined = undefined;
+    if (environmentDirPath) {
+      replacementsConfig = validateConfigDir(environmentDirPath, environment, initErrors, configErrors);
+    }
+
+    // Errors of an environment are located in the base and overlay files, rather than in the merged files
+    const getSourceMap = createSourceMapLoader(configDirPath, environment, replacementsConfig);
+
+    //
+    // Collect machine-readable report entries
+    //
+    if (reportFormat !== 'text') {
+      details.push(
+        ...getErrorDetails(getSourceMap, environment, initErrors, configErrors).map(detail =>
+          environment ? { ...detail, message: `[${environment}] ${detail.message}` } : detail,
+        ),
+      );
+    }
+
+    //
+    // Process errors
+    //
+    isValid = processErrors(initErrors, configErrors, getSourceMap, environment) && isValid;
+  }
+
+  //
+  // Write machine-readable report
+  //
+  if (reportFormat !== 'text') {
+    writeReport(details);
+  }
+
+  if (!isValid) {
+    // Exit with error code
+    process.exit(1);
+  }
+} else {
+  logger.info('Config source directory undefined !!!');
+}
+
+/**
+ * Load and validate the configuration files of a directory
+ * @param configDirPath
+ * @param environment
+ * @param initErrors
+ * @param configErrors
+ * @returns
+ */
+function validateConfigDir(
+  configDirPath: string,
+  environment: string | undefined,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  initErrors: { file: string; message: any }[],
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  configErrors: any[],
+): ReplacementsConfig | undefined {
+  // Load replacements config
+  let replacementsConfig: ReplacementsConfig | undefined = undefined;
+  try {
+    replacementsConfig = ReplacementsConfig.load(configDirPath, environment);
+  } catch (e) {
+    initErrors.push({ file: 'replacements-config.yaml', message: e });
+  }
+
   // Load accounts config
   let accountsConfig: AccountsConfig | undefined = undefined;
   try {
-    accountsConfig = AccountsConfig.load(configDirPath);
+    accountsConfig = AccountsConfig.load(configDirPath, replacementsConfig);
   } catch (e) {
     initErrors.push({ file: 'accounts-config.yaml', message: e });
   }
@@ -52,7 +149,7 @@ if (configDirPath) {
   // Load global config
   let globalConfig: GlobalConfig | undefined = undefined;
   try {
-    globalConfig = GlobalConfig.load(configDirPath);
+    globalConfig = GlobalConfig.load(configDirPath, replacementsConfig);
   } catch (e) {
     initErrors.push({ file: 'global-config.yaml', message: e });
   }
@@ -60,7 +157,7 @@ if (configDirPath) {
   // Load IAM config
   let iamConfig: IamConfig | undefined = undefined;
   try {
-    iamConfig = IamConfig.load(configDirPath);
+    iamConfig = IamConfig.load(configDirPath, replacementsConfig);
   } catch (e) {
     initErrors.push({ file: 'iam-config.yaml', message: e });
   }
@@ -68,7 +165,7 @@ if (configDirPath) {
   // Load network config
   let networkConfig: NetworkConfig | undefined = undefined;
   try {
-    networkConfig = NetworkConfig.load(configDirPath);
+    networkConfig = NetworkConfig.load(configDirPath, replacementsConfig);
   } catch (e) {
     initErrors.push({ file: 'network-config.yaml', message: e });
   }
@@ -76,7 +173,7 @@ if (configDirPath) {
   // Load organization config
   let organizationConfig: OrganizationConfig | undefined = undefined;
   try {
-    organizationConfig = OrganizationConfig.load(configDirPath);
+    organizationConfig = OrganizationConfig.load(configDirPath, replacementsConfig);
   } catch (e) {
     initErrors.push({ file: 'organization-config.yaml', message: e });
   }
@@ -84,7 +181,7 @@ if (configDirPath) {
   // Load security config
   let securityConfig: SecurityConfig | undefined = undefined;
   try {
-    securityConfig = SecurityConfig.load(configDirPath);
+    securityConfig = SecurityConfig.load(configDirPath, replacementsConfig);
   } catch (e) {
     initErrors.push({ file: 'security-config.yaml', message: e });
   }
@@ -93,7 +190,7 @@ if (configDirPath) {
   let customizationsConfig: CustomizationsConfig | undefined = undefined;
   if (fs.existsSync(path.join(configDirPath, 'customizations-config.yaml'))) {
     try {
-      customizationsConfig = CustomizationsConfig.load(configDirPath);
+      customizationsConfig = CustomizationsConfig.load(configDirPath, replacementsConfig);
     } catch (e) {
       initErrors.push({ file: 'customizations-config.yaml', message: e });
     }
@@ -103,6 +200,7 @@ if (configDirPath) {
   // Run config validators
   //
   runValidators(
+    configErrors,
     configDirPath,
     accountsConfig,
     customizationsConfig,
@@ -113,16 +211,12 @@ if (configDirPath) {
     securityConfig,
   );
 
-  //
-  // Process errors
-  //
-  processErrors(initErrors, configErrors);
-} else {
-  logger.info('Config source directory undefined !!!');
+  return replacementsConfig;
 }
 
 /**
  * Run config validation classes
+ * @param configErrors
  * @param configDirPath
  * @param accountsConfig
  * @param globalConfig
@@ -132,6 +226,8 @@ if (configDirPath) {
  * @param securityConfig
  */
 function runValidators(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  configErrors: any[],
   configDirPath: string,
   accountsConfig?: AccountsConfig,
   customizationsConfig?: CustomizationsConfig,
@@ -232,22 +328,201 @@ function runValidators(
  * Process errors encountered during validation
  * @param initErrors
  * @param configErrors
+ * @param getSourceMap
+ * @param environment
+ * @returns true when no errors were encountered
  */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function processErrors(initErrors: { file: string; message: any }[], configErrors: any[]) {
+function processErrors(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  initErrors: { file: string; message: any }[],
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  configErrors: any[],
+  getSourceMap: (file: string) => ConfigSourceMap | undefined,
+  environment?: string,
+) {
+  const target = environment ? `Config file validation of environment ${environment}` : 'Config file validation';
   if (initErrors.length > 0 || configErrors.length > 0) {
-    logger.warn(`Config file validation failed !!!`);
+    logger.warn(`${target} failed !!!`);
     // Process initial file load errors
     initErrors.forEach(initItem => {
-      logger.warn(`${initItem.message} in ${initItem.file} config file`);
+      if (environment && initItem.message instanceof ConfigValidationError) {
+        // The error message holds the locations of the merged file
+        for (const detail of getLoadErrorDetails(getSourceMap, environment, initItem.file, initItem.message)) {
+          const location = detail.line ? ` (${detail.file}:${detail.line}:${detail.column})` : '';
+          logger.warn(`${detail.message}${location} in ${initItem.file} config file`);
+        }
+      } else {
+        logger.warn(`${initItem.message} in ${initItem.file} config file`);
+      }
     });
     // Process config validation errors
     configErrors.forEach(configItem => {
       logger.warn(configItem);
     });
-    // Exit with error code
-    process.exit(1);
+    return false;
+  }
+  logger.info(`${target} successful.`);
+  return true;
+}
+
+/**
+ * Returns a function loading the source maps of the configuration files, which locate validation errors.
+ * The source maps of an environment locate errors in the base and overlay files the configuration was merged from.
+ * @param configDirPath
+ * @param environment
+ * @param replacementsConfig
+ * @returns
+ */
+function createSourceMapLoader(
+  configDirPath: string,
+  environment: string | undefined,
+  replacementsConfig: ReplacementsConfig | undefined,
+): (file: string) => ConfigSourceMap | undefined {
+  const sourceMaps = new Map<string, ConfigSourceMap | undefined>();
+  return (file: string) => {
+    if (!sourceMaps.has(file)) {
+      let sourceMap: ConfigSourceMap | undefined = undefined;
+      try {
+        sourceMap = environment
+          ? ConfigOverlay.getSourceMap(configDirPath, environment, file, replacementsConfig)
+          : ConfigIncludes.load(configDirPath, file, replacementsConfig);
+      } catch (e) {
+        logger.warn(`Unable to read ${file} to locate validation errors`);
+      }
+      sourceMaps.set(file, sourceMap);
+    }
+    return sourceMaps.get(file);
+  };
+}
+
+/**
+ * Returns the located errors of a configuration file that failed to load. The config loaders locate the errors
+ * in the loaded files, the errors of an environment are located again in its base and overlay files.
+ * @param getSourceMap
+ * @param environment
+ * @param file
+ * @param error
+ * @returns
+ */
+function getLoadErrorDetails(
+  getSourceMap: (file: string) => ConfigSourceMap | undefined,
+  environment: string | undefined,
+  file: string,
+  error: ConfigValidationError,
+): ConfigErrorDetail[] {
+  const sourceMap = environment ? getSourceMap(error.file ?? file) : undefined;
+  return error.errors.map(detail => (sourceMap ? sourceMap.locate(detail) : { ...detail, file: detail.file ?? file }));
+}
+
+/**
+ * Returns the located errors encountered during validation.
+ * Schema errors are located by the config loaders, semantic errors are located
+ * by matching the error message against the source map of the offending file.
+ * @param getSourceMap
+ * @param environment
+ * @param initErrors
+ * @param configErrors
+ * @returns
+ */
+function getErrorDetails(
+  getSourceMap: (file: string) => ConfigSourceMap | undefined,
+  environment: string | undefined,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  initErrors: { file: string; message: any }[],
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  configErrors: any[],
+): ConfigErrorDetail[] {
+  const details: ConfigErrorDetail[] = [];
+  for (const initItem of initErrors) {
+    if (initItem.message instanceof ConfigValidationError) {
+      details.push(...getLoadErrorDetails(getSourceMap, environment, initItem.file, initItem.message));
+    } else {
+      details.push({ message: `${initItem.message}`, file: initItem.file });
+    }
+  }
+  for (const configItem of configErrors) {
+    if (configItem instanceof ConfigValidationError && configItem.file) {
+      const sourceMap = getSourceMap(configItem.file);
+      details.push(...configItem.errors.map(detail => (sourceMap ? sourceMap.locate(detail) : detail)));
+    } else {
+      details.push({ message: `${configItem}` });
+    }
+  }
+  return details;
+}
+
+/**
+ * Write the validation errors in the requested report format
+ * @param details
+ */
+function writeReport(details: ConfigErrorDetail[]) {
+  let report: object;
+  switch (reportFormat) {
+    case 'json':
+      report = { errors: details };
+      break;
+    case 'sarif':
+      report = toSarif(details);
+      break;
+    default:
+      logger.error(`Unsupported report format ${reportFormat}, supported formats are text, json and sarif`);
+      process.exit(1);
+  }
+
+  const content = JSON.stringify(report, null, 2);
+  if (reportOutputPath) {
+    fs.writeFileSync(reportOutputPath, content, 'utf8');
+    logger.info(`Validation report written to ${reportOutputPath}`);
   } else {
-    logger.info(`Config file validation successful.`);
+    console.log(content);
   }
 }
+
+/**
+ * Convert validation errors to a SARIF 2.1.0 log
+ * @param details
+ * @returns
+ */
+function toSarif(details: ConfigErrorDetail[]) {
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'accelerator-config-validator',
+            informationUri: 'https://github.com/awslabs/landing-zone-accelerator-on-aws',
+            rules: [
+              {
+                id: 'config-validation',
+                shortDescription: { text: 'Accelerator configuration validation' },
+              },
+            ],
+          },
+        },
+        results: details.map(detail => ({
+          ruleId: 'config-validation',
+          level: 'error',
+          message: { text: detail.message },
+          locations: detail.file
+            ? [
+                {
+                  physicalLocation: {
+                    artifactLocation: { uri: detail.file },
+                    region: detail.line
+                      ? {
+                          startLine: detail.line,
+                          startColumn: detail.column,
+                          snippet: { text: detail.snippet },
+                        }
+                      : undefined,
+                  },
+                },
+              ]
+            : [],
+        })),
+      },
+    ],
+  };
+}
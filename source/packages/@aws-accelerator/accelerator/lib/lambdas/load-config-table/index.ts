@@ -249,6 +249,7 @@ async function onCreateUpdateFunction(
   PhysicalResourceId: string | undefined;
   Status: string;
 }> {
+  // Config file assets are uploaded with replacements expanded and include files merged
   const organizationConfigContent = await getConfigFileContents(bucket.name, bucket.organizationsConfigS3Key);
   const organizationValues = t.parse(OrganizationConfigTypes.organizationConfig, yaml.load(organizationConfigContent));
   const organizationConfig = new OrganizationConfig(organizationValues);
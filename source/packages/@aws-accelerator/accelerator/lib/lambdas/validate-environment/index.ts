@@ -34,6 +34,11 @@ type serviceControlPolicyType = {
   targets: { name: string; id: string }[];
 };
 
+type identityCenterPrincipalType = {
+  principalType: string;
+  principalName: string;
+};
+
 const marshallOptions = {
   convertEmptyValues: false,
   //overriding default value of false
@@ -113,6 +118,8 @@ export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent
   const commitId = event.ResourceProperties['commitId'];
   const stackName = event.ResourceProperties['stackName'];
   const serviceControlPolicies: serviceControlPolicyType[] = event.ResourceProperties['serviceControlPolicies'];
+  const identityCenterPrincipals: identityCenterPrincipalType[] =
+    event.ResourceProperties['identityCenterPrincipals'] ?? [];
   driftDetectionParameterName = event.ResourceProperties['driftDetectionParameterName'];
   driftDetectionMessageParameterName = event.ResourceProperties['driftDetectionMessageParameterName'];
 
@@ -293,6 +300,11 @@ export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent
       //
       await validateServiceControlPolicyCount(organizationsClient, serviceControlPolicies, policyTagKey);
 
+      //
+      // Validate Identity Center principals referenced by name
+      //
+      await validateIdentityCenterPrincipals(identityCenterPrincipals, solutionId);
+
       console.log(`validationErrors: ${JSON.stringify(validationErrors)}`);
 
       if (validationErrors.length > 0) {
@@ -375,6 +387,70 @@ async function validateServiceControlPolicyCount(
   }
 }
 
+/**
+ * Function to validate Identity Center users and groups referenced by name exist in the identity store
+ * @param identityCenterPrincipals
+ * @param solutionId
+ */
+async function validateIdentityCenterPrincipals(
+  identityCenterPrincipals: identityCenterPrincipalType[],
+  solutionId: string | undefined,
+) {
+  if (identityCenterPrincipals.length === 0) {
+    return;
+  }
+
+  const ssoAdminClient = new AWS.SSOAdmin({ customUserAgent: solutionId });
+  const identityStoreClient = new AWS.IdentityStore({ customUserAgent: solutionId });
+
+  const instances = await throttlingBackOff(() => ssoAdminClient.listInstances({}).promise());
+  const identityStoreId = instances.Instances?.[0]?.IdentityStoreId;
+  if (!identityStoreId) {
+    validationErrors.push(
+      `No Identity Center instance found to look up principals [${identityCenterPrincipals.map(
+        item => item.principalName,
+      )}]`,
+    );
+    return;
+  }
+
+  for (const principal of identityCenterPrincipals) {
+    try {
+      if (principal.principalType === 'GROUP') {
+        await throttlingBackOff(() =>
+          identityStoreClient
+            .getGroupId({
+              IdentityStoreId: identityStoreId,
+              AlternateIdentifier: {
+                UniqueAttribute: { AttributePath: 'DisplayName', AttributeValue: principal.principalName },
+              },
+            })
+            .promise(),
+        );
+      } else {
+        await throttlingBackOff(() =>
+          identityStoreClient
+            .getUserId({
+              IdentityStoreId: identityStoreId,
+              AlternateIdentifier: {
+                UniqueAttribute: { AttributePath: 'UserName', AttributeValue: principal.principalName },
+              },
+            })
+            .promise(),
+        );
+      }
+    } catch (e: unknown) {
+      if ((e as AWS.AWSError).code === 'ResourceNotFoundException') {
+        validationErrors.push(
+          `Identity Center ${principal.principalType} ${principal.principalName} not found in identity store ${identityStoreId}`,
+        );
+      } else {
+        throw e;
+      }
+    }
+  }
+}
+
 /**
  * Function to get total scps to be attached to the target
  * @param targetName
@@ -463,6 +463,21 @@ export abstract class AcceleratorStack extends cdk.Stack {
     return new SsmParameterPath(ssmPrefix, resourceType, replacements).parameterPath;
   }
 
+  /**
+   * Returns the CloudWatch Observability Access Manager resource types of the given
+   * observability resource types of the security config
+   * @param resourceTypes
+   * @returns
+   */
+  protected getObservabilityResourceTypes(resourceTypes: string[]): string[] {
+    const oamResourceTypes: { [key: string]: string } = {
+      metrics: 'AWS::CloudWatch::Metric',
+      logs: 'AWS::Logs::LogGroup',
+      traces: 'AWS::XRay::Trace',
+    };
+    return resourceTypes.map(item => oamResourceTypes[item]);
+  }
+
   /**
    * Function to get list of targets by type organization unit or account for given scp
    * @param targetName
@@ -36,6 +36,7 @@ import {
   S3PublicAccessBlock,
   SsmParameterLookup,
 } from '@aws-accelerator/constructs';
+import { SsmResourceType } from '@aws-accelerator/utils';
 
 import { AcceleratorElbRootAccounts, OptInRegions } from '../accelerator';
 import { AcceleratorStack, AcceleratorStackProps } from './accelerator-stack';
@@ -56,6 +57,7 @@ export class LoggingStack extends AcceleratorStack {
   private centralLogBucketKey: cdk.aws_kms.IKey | undefined;
   private centralSnsKey: cdk.aws_kms.IKey | undefined;
   private snsForwarderFunction: cdk.aws_lambda.IFunction | undefined;
+  private customerKeys: Map<string, cdk.aws_kms.Key> = new Map();
 
   constructor(scope: Construct, id: string, props: AcceleratorStackProps) {
     super(scope, id, props);
@@ -254,6 +256,10 @@ export class LoggingStack extends AcceleratorStack {
     // Create VPC Flow logs destination bucket
     this.createVpcFlowLogsBucket(s3Key, serverAccessLogsBucket, replicationProps);
 
+    //
+    // Create customer managed S3 buckets defined in config
+    this.createCustomerBuckets(serverAccessLogsBucket);
+
     /**
      * Create S3 Bucket for ELB Access Logs, this is created in log archive account
      * For ELB to write access logs bucket is needed to have SSE-S3 server-side encryption
@@ -1191,6 +1197,7 @@ export class LoggingStack extends AcceleratorStack {
         enableKeyRotation: keyItem.enableKeyRotation,
         removalPolicy: keyItem.removalPolicy as cdk.RemovalPolicy,
       });
+      this.customerKeys.set(keyItem.name, key);
 
       if (keyItem.policy) {
         // Read in the policy document which should be properly formatted json
@@ -1232,6 +1239,102 @@ export class LoggingStack extends AcceleratorStack {
       );
     }
   }
+  /**
+   * Function to create customer managed S3 buckets defined in config file
+   * @param serverAccessLogsBucket
+   */
+  private createCustomerBuckets(serverAccessLogsBucket: Bucket) {
+    for (const bucketItem of this.props.securityConfig.s3Buckets ?? []) {
+      const regions = bucketItem.regions ?? [this.props.globalConfig.homeRegion];
+      if (!this.isIncluded(bucketItem.deploymentTargets) || !regions.includes(cdk.Stack.of(this).region)) {
+        this.logger.info(`S3 bucket ${bucketItem.name} excluded`);
+        continue;
+      }
+      this.logger.info(`Create S3 bucket ${bucketItem.name}`);
+
+      let kmsKey: cdk.aws_kms.Key | undefined;
+      if (bucketItem.kmsKey) {
+        kmsKey = this.customerKeys.get(bucketItem.kmsKey);
+        if (!kmsKey) {
+          this.logger.error(
+            `S3 bucket ${bucketItem.name} KMS key ${bucketItem.kmsKey} is not deployed to this account`,
+          );
+          throw new Error(`Configuration validation failed at runtime.`);
+        }
+      }
+
+      let replicationProps: BucketReplicationProps | undefined;
+      if (bucketItem.replication) {
+        replicationProps = {
+          destination: {
+            bucketName: bucketItem.replication.bucketName,
+            accountId: this.props.accountsConfig.getAccountId(bucketItem.replication.account),
+            keyArn: bucketItem.replication.keyArn,
+          },
+          kmsKey: this.cloudwatchKey,
+          logRetentionInDays: this.props.globalConfig.cloudwatchLogRetentionInDays,
+        };
+      }
+
+      let objectLockDefaultRetention: cdk.aws_s3.ObjectLockRetention | undefined;
+      if (bucketItem.objectLock) {
+        const retention = cdk.Duration.days(bucketItem.objectLock.retentionDays);
+        objectLockDefaultRetention =
+          bucketItem.objectLock.mode === 'COMPLIANCE'
+            ? cdk.aws_s3.ObjectLockRetention.compliance(retention)
+            : cdk.aws_s3.ObjectLockRetention.governance(retention);
+      }
+
+      const bucketId = 'CustomerBucket' + pascalCase(bucketItem.name);
+      const bucket = new Bucket(this, bucketId, {
+        encryptionType: BucketEncryptionType.SSE_KMS,
+        s3BucketName: `${bucketItem.name}-${cdk.Stack.of(this).account}-${cdk.Stack.of(this).region}`,
+        kmsKey,
+        kmsDescription: `${bucketItem.name} bucket encryption key`,
+        serverAccessLogsBucket: serverAccessLogsBucket.getS3Bucket(),
+        s3LifeCycleRules: this.getS3LifeCycleRules(bucketItem.lifecycleRules),
+        replicationProps,
+        objectLockDefaultRetention,
+      });
+
+      if (bucketItem.policy) {
+        // Read in the policy document which should be properly formatted json
+        const policyDocument = JSON.parse(
+          this.generatePolicyReplacements(
+            path.join(this.props.configDirPath, bucketItem.policy),
+            false,
+            this.organizationId,
+          ),
+        );
+        for (const statement of policyDocument.Statement) {
+          bucket.getS3Bucket().addToResourcePolicy(cdk.aws_iam.PolicyStatement.fromJson(statement));
+        }
+      }
+
+      if (bucketItem.replication) {
+        // AwsSolutions-IAM5: The IAM entity contains wildcard permissions and does not have a cdk_nag rule suppression with evidence for those permission.
+        NagSuppressions.addResourceSuppressionsByPath(
+          this,
+          `/${this.stackName}/${bucketId}/${bucketId}Replication/` +
+            pascalCase(bucketItem.replication.bucketName) +
+            '-ReplicationRole/DefaultPolicy/Resource',
+          [
+            {
+              id: 'AwsSolutions-IAM5',
+              reason: 'Allows only specific policy.',
+            },
+          ],
+        );
+      }
+
+      this.ssmParameters.push({
+        logicalId: 'SsmParam' + bucketId + 'Name',
+        parameterName: this.getSsmPath(SsmResourceType.S3_BUCKET, [bucketItem.name]),
+        stringValue: bucket.getS3Bucket().bucketName,
+      });
+    }
+  }
+
   /*
    * Function to create CentralLogs bucket in LogArchive account home region only
    * @param serverAccessLogsBucket
@@ -32,6 +32,7 @@ import {
   ShareTargets,
   TargetGroupItemConfig,
   TransitGatewayConfig,
+  TransitGatewayConnectConfig,
   TransitGatewayRouteEntryConfig,
   TransitGatewayRouteTableConfig,
   VpcConfig,
@@ -61,6 +62,8 @@ import {
   TargetGroup,
   TransitGatewayAttachment,
   TransitGatewayAttachmentType,
+  TransitGatewayConnect,
+  TransitGatewayConnectPeer,
   TransitGatewayPrefixListReference,
   TransitGatewayRouteTableAssociation,
   TransitGatewayRouteTablePropagation,
@@ -152,6 +155,7 @@ export class NetworkAssociationsStack extends NetworkStack {
       // Create Route 53 private hosted zone associations
       //
       this.createHostedZoneAssociations();
+      this.createPrivateHostedZoneAssociations();
 
       //
       // Create central network service VPC associations
@@ -168,6 +172,11 @@ export class NetworkAssociationsStack extends NetworkStack {
       //
       this.createDirectConnectResources(props);
 
+      //
+      // Create transit gateway Connect attachments and peers
+      //
+      this.createTransitGatewayConnectResources(props);
+
       //
       // Create transit gateway static routes, blackhole
       // routes, and prefix list references
@@ -1206,6 +1215,52 @@ export class NetworkAssociationsStack extends NetworkStack {
     }
   }
 
+  /**
+   * Create Route 53 private hosted zone associations for VPCs associated with
+   * private hosted zones of VPCs in this account+region
+   */
+  private createPrivateHostedZoneAssociations(): void {
+    for (const vpcItem of this.vpcsInScope) {
+      for (const zoneItem of vpcItem.privateHostedZones ?? []) {
+        if (!zoneItem.associatedVpcs || zoneItem.associatedVpcs.length === 0) {
+          continue;
+        }
+        const hostedZoneId = cdk.aws_ssm.StringParameter.valueForStringParameter(
+          this,
+          this.getSsmPath(SsmResourceType.PRIVATE_HOSTED_ZONE_ID, [vpcItem.name, zoneItem.name]),
+        );
+
+        for (const associatedVpcName of zoneItem.associatedVpcs) {
+          const associatedVpc = this.props.networkConfig.vpcs.find(item => item.name === associatedVpcName);
+          if (!associatedVpc) {
+            this.logger.error(`Unable to locate VPC ${associatedVpcName}`);
+            throw new Error(`Configuration validation failed at runtime.`);
+          }
+
+          this.logger.info(`Associating private hosted zone ${zoneItem.name} with VPC ${associatedVpcName}`);
+          new AssociateHostedZones(
+            this,
+            `${pascalCase(vpcItem.name)}Vpc${pascalCase(zoneItem.name)}${pascalCase(associatedVpcName)}Association`,
+            {
+              accountIds: [this.props.accountsConfig.getAccountId(associatedVpc.account)],
+              hostedZoneIds: [hostedZoneId],
+              hostedZoneAccountId: cdk.Stack.of(this).account,
+              roleName: `${this.props.prefixes.accelerator}-HostedZoneAssociationRole-${cdk.Stack.of(this).region}`,
+              tagFilters: [
+                {
+                  key: 'Name',
+                  value: associatedVpc.name,
+                },
+              ],
+              kmsKey: this.cloudwatchKey,
+              logRetentionInDays: this.logRetention,
+            },
+          );
+        }
+      }
+    }
+  }
+
   /**
    * Create central network service associations
    * @param props
@@ -1881,6 +1936,112 @@ export class NetworkAssociationsStack extends NetworkStack {
     }
   }
 
+  /**
+   * Create transit gateway Connect attachments, Connect peers,
+   * and route table associations and propagations
+   * @param props
+   */
+  private createTransitGatewayConnectResources(props: AcceleratorStackProps) {
+    for (const tgwItem of props.networkConfig.transitGateways ?? []) {
+      const accountId = this.props.accountsConfig.getAccountId(tgwItem.account);
+      if (this.isTargetStack([accountId], [tgwItem.region])) {
+        for (const connectItem of tgwItem.connects ?? []) {
+          const connect = this.createTransitGatewayConnectItem(tgwItem, connectItem);
+          this.transitGatewayAttachments.set(`${connectItem.name}_${tgwItem.name}`, connect.transitGatewayAttachmentId);
+
+          for (const peerItem of connectItem.peers ?? []) {
+            this.logger.info(`Creating TGW Connect peer ${peerItem.name} for Connect attachment ${connectItem.name}`);
+            new TransitGatewayConnectPeer(this, pascalCase(`${connectItem.name}${peerItem.name}ConnectPeer`), {
+              name: peerItem.name,
+              transitGatewayAttachmentId: connect.transitGatewayAttachmentId,
+              peerAddress: peerItem.peerAddress,
+              insideCidrBlocks: peerItem.insideCidrBlocks,
+              peerAsn: peerItem.bgpAsn,
+              transitGatewayAddress: peerItem.transitGatewayAddress,
+              logGroupKmsKey: this.cloudwatchKey,
+              logRetentionInDays: this.logRetention,
+              tags: peerItem.tags,
+            });
+          }
+
+          for (const routeTableItem of connectItem.routeTableAssociations ?? []) {
+            const transitGatewayRouteTableId = this.transitGatewayRouteTables.get(`${tgwItem.name}_${routeTableItem}`);
+            if (!transitGatewayRouteTableId) {
+              this.logger.error(`Transit Gateway Route Table ${tgwItem.name}_${routeTableItem} not found`);
+              throw new Error(`Configuration validation failed at runtime.`);
+            }
+
+            this.logger.info(
+              `Creating TGW route table association to ${routeTableItem} for Connect attachment ${connectItem.name}`,
+            );
+            new TransitGatewayRouteTableAssociation(
+              this,
+              pascalCase(`${connectItem.name}${routeTableItem}ConnectAssociation`),
+              {
+                transitGatewayAttachmentId: connect.transitGatewayAttachmentId,
+                transitGatewayRouteTableId,
+              },
+            );
+          }
+
+          for (const routeTableItem of connectItem.routeTablePropagations ?? []) {
+            const transitGatewayRouteTableId = this.transitGatewayRouteTables.get(`${tgwItem.name}_${routeTableItem}`);
+            if (!transitGatewayRouteTableId) {
+              this.logger.error(`Transit Gateway Route Table ${tgwItem.name}_${routeTableItem} not found`);
+              throw new Error(`Configuration validation failed at runtime.`);
+            }
+
+            this.logger.info(
+              `Creating TGW route table propagation for Connect attachment ${connectItem.name} to route table ${routeTableItem}`,
+            );
+            new TransitGatewayRouteTablePropagation(
+              this,
+              pascalCase(`${connectItem.name}${routeTableItem}ConnectPropagation`),
+              {
+                transitGatewayAttachmentId: connect.transitGatewayAttachmentId,
+                transitGatewayRouteTableId,
+              },
+            );
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Create transit gateway Connect attachment
+   * @param tgwItem
+   * @param connectItem
+   * @returns
+   */
+  private createTransitGatewayConnectItem(
+    tgwItem: TransitGatewayConfig,
+    connectItem: TransitGatewayConnectConfig,
+  ): TransitGatewayConnect {
+    // Get transport attachment ID
+    let transportKey: string;
+    if (NetworkConfigTypes.transitGatewayRouteTableVpcEntryConfig.is(connectItem.transportAttachment)) {
+      transportKey = `${tgwItem.name}_${connectItem.transportAttachment.account}_${connectItem.transportAttachment.vpcName}`;
+    } else {
+      transportKey = `${connectItem.transportAttachment.directConnectGatewayName}_${tgwItem.name}`;
+    }
+    const transportTransitGatewayAttachmentId = this.transitGatewayAttachments.get(transportKey);
+
+    if (!transportTransitGatewayAttachmentId) {
+      this.logger.error(
+        `Unable to locate transport attachment ${transportKey} for Connect attachment ${connectItem.name}`,
+      );
+      throw new Error(`Configuration validation failed at runtime.`);
+    }
+
+    this.logger.info(`Creating TGW Connect attachment ${connectItem.name} for TGW ${tgwItem.name}`);
+    return new TransitGatewayConnect(this, pascalCase(`${connectItem.name}TransitGatewayConnect`), {
+      name: connectItem.name,
+      transportTransitGatewayAttachmentId,
+      tags: connectItem.tags,
+    });
+  }
+
   /**
    * Create transit gateway static routes, blackhole routes,
    * and prefix list references for VPC and DX Gateway attachments
@@ -1993,6 +2154,22 @@ export class NetworkAssociationsStack extends NetworkStack {
         );
       }
 
+      // If route is for TGW Connect attachment
+      if (
+        routeItem.attachment &&
+        NetworkConfigTypes.transitGatewayRouteTableConnectEntryConfig.is(routeItem.attachment)
+      ) {
+        this.logger.info(
+          `Adding route ${routeItem.destinationCidrBlock} to TGW route table ${routeTableItem.name} for TGW ${tgwItem.name} in account: ${tgwItem.account}`,
+        );
+        routeId = `${routeTableItem.name}-${routeItem.destinationCidrBlock}-${routeItem.attachment.transitGatewayConnectName}`;
+
+        // Get TGW attachment ID
+        transitGatewayAttachmentId = this.transitGatewayAttachments.get(
+          `${routeItem.attachment.transitGatewayConnectName}_${tgwItem.name}`,
+        );
+      }
+
       if (routeItem.attachment && !transitGatewayAttachmentId) {
         this.logger.error(`Unable to locate transit gateway attachment ID for route table item ${routeTableItem.name}`);
         throw new Error(`Configuration validation failed at runtime.`);
@@ -2094,6 +2271,24 @@ export class NetworkAssociationsStack extends NetworkStack {
         );
       }
 
+      // If route is for TGW Connect attachment
+      if (
+        routeItem.attachment &&
+        NetworkConfigTypes.transitGatewayRouteTableConnectEntryConfig.is(routeItem.attachment)
+      ) {
+        this.logger.info(
+          `Adding prefix list reference ${routeItem.destinationPrefixList} to TGW route table ${routeTableItem.name} for TGW ${tgwItem.name} in account: ${tgwItem.account}`,
+        );
+        plRouteId = pascalCase(
+          `${routeTableItem.name}${routeItem.destinationPrefixList}${routeItem.attachment.transitGatewayConnectName}`,
+        );
+
+        // Get TGW attachment ID
+        transitGatewayAttachmentId = this.transitGatewayAttachments.get(
+          `${routeItem.attachment.transitGatewayConnectName}_${tgwItem.name}`,
+        );
+      }
+
       if (routeItem.attachment && !transitGatewayAttachmentId) {
         this.logger.error(`Unable to locate transit gateway attachment ID for route table item ${routeTableItem.name}`);
         throw new Error(`Configuration validation failed at runtime.`);
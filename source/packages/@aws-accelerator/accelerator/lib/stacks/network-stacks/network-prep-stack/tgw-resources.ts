@@ -11,8 +11,8 @@
  *  and limitations under the License.
  */
 
-import { TransitGatewayConfig } from '@aws-accelerator/config';
-import { TransitGateway, TransitGatewayRouteTable } from '@aws-accelerator/constructs';
+import { TransitGatewayConfig, TransitGatewayMulticastDomainConfig } from '@aws-accelerator/config';
+import { TransitGateway, TransitGatewayMulticastDomain, TransitGatewayRouteTable } from '@aws-accelerator/constructs';
 import { SsmResourceType } from '@aws-accelerator/utils';
 import * as cdk from 'aws-cdk-lib';
 import { NagSuppressions } from 'cdk-nag';
@@ -67,7 +67,9 @@ export class TgwResources {
       defaultRouteTableAssociation: tgwItem.defaultRouteTableAssociation,
       defaultRouteTablePropagation: tgwItem.defaultRouteTablePropagation,
       dnsSupport: tgwItem.dnsSupport,
+      multicastSupport: tgwItem.multicastSupport,
       vpnEcmpSupport: tgwItem.vpnEcmpSupport,
+      transitGatewayCidrBlocks: tgwItem.transitGatewayCidrBlocks,
       tags: tgwItem.tags,
     });
 
@@ -102,9 +104,54 @@ export class TgwResources {
       this.stack.addLogs(LogLevel.INFO, `Share transit gateway ${tgwItem.name}`);
       this.stack.addResourceShare(tgwItem, `${tgwItem.name}_TransitGatewayShare`, [tgw.transitGatewayArn]);
     }
+
+    // Create TGW multicast domains
+    for (const domainItem of tgwItem.multicastDomains ?? []) {
+      this.createTransitGatewayMulticastDomainItem(tgwItem, domainItem, tgw.transitGatewayId);
+    }
     return tgw;
   }
 
+  /**
+   * Create transit gateway multicast domain
+   * @param tgwItem
+   * @param domainItem
+   * @param transitGatewayId
+   */
+  private createTransitGatewayMulticastDomainItem(
+    tgwItem: TransitGatewayConfig,
+    domainItem: TransitGatewayMulticastDomainConfig,
+    transitGatewayId: string,
+  ): void {
+    this.stack.addLogs(LogLevel.INFO, `Add Transit Gateway Multicast Domain ${domainItem.name}`);
+
+    const domain = new TransitGatewayMulticastDomain(
+      this.stack,
+      pascalCase(`${domainItem.name}TransitGatewayMulticastDomain`),
+      {
+        name: domainItem.name,
+        transitGatewayId,
+        igmpv2Support: domainItem.igmpv2Support,
+        staticSourcesSupport: domainItem.staticSourcesSupport,
+        autoAcceptSharedAssociations: domainItem.autoAcceptSharedAssociations,
+        tags: domainItem.tags,
+      },
+    );
+
+    this.stack.addSsmParameter({
+      logicalId: pascalCase(`SsmParam${tgwItem.name}${domainItem.name}TransitGatewayMulticastDomainId`),
+      parameterName: this.stack.getSsmPath(SsmResourceType.TGW_MULTICAST_DOMAIN, [tgwItem.name, domainItem.name]),
+      stringValue: domain.transitGatewayMulticastDomainId,
+    });
+
+    if (tgwItem.shareTargets) {
+      this.stack.addLogs(LogLevel.INFO, `Share transit gateway multicast domain ${domainItem.name}`);
+      this.stack.addResourceShare(tgwItem, `${domainItem.name}_TransitGatewayMulticastDomainShare`, [
+        domain.transitGatewayMulticastDomainArn,
+      ]);
+    }
+  }
+
   /**
    * Function to create TGW peering role. This role is used to access acceptor TGW information.
    * This role will be assumed by requestor to complete acceptance of peering request.
@@ -390,6 +390,62 @@ export abstract class NetworkStack extends AcceleratorStack {
     return tgwId;
   }
 
+  /**
+   * Returns a map of transit gateway multicast domain IDs that have associations,
+   * group members, or group sources for VPCs in a given stack
+   * @param vpcResources
+   * @returns
+   */
+  public setVpcMulticastDomainMap(vpcResources: (VpcConfig | VpcTemplatesConfig)[]): Map<string, string> {
+    const multicastDomainMap = new Map<string, string>();
+    const vpcNames = vpcResources.map(item => item.name);
+
+    for (const tgwItem of this.props.networkConfig.transitGateways) {
+      for (const domainItem of tgwItem.multicastDomains ?? []) {
+        const domainKey = `${tgwItem.name}_${domainItem.name}`;
+        const inScope = [
+          ...(domainItem.associations ?? []),
+          ...(domainItem.groupMembers ?? []),
+          ...(domainItem.groupSources ?? []),
+        ].some(
+          item =>
+            vpcNames.includes(item.vpcName) &&
+            this.props.accountsConfig.getAccountId(item.account) === cdk.Stack.of(this).account,
+        );
+
+        // If the map does not have the multicast domain ID, set it
+        if (inScope && !multicastDomainMap.has(domainKey)) {
+          multicastDomainMap.set(domainKey, this.getTransitGatewayMulticastDomainItem(tgwItem, domainItem.name));
+        }
+      }
+    }
+    return multicastDomainMap;
+  }
+
+  /**
+   * Returns the transit gateway multicast domain ID for a given transit gateway
+   * @param tgwItem
+   * @param domainName
+   */
+  protected getTransitGatewayMulticastDomainItem(tgwItem: TransitGatewayConfig, domainName: string): string {
+    const owningAccountId = this.props.accountsConfig.getAccountId(tgwItem.account);
+    // If owning account is this account, multicast domain id can be
+    // retrieved from ssm parameter store
+    if (owningAccountId === cdk.Stack.of(this).account) {
+      return cdk.aws_ssm.StringParameter.valueForStringParameter(
+        this,
+        this.getSsmPath(SsmResourceType.TGW_MULTICAST_DOMAIN, [tgwItem.name, domainName]),
+      );
+    }
+    // Else, need to get the multicast domain from the resource shares
+    return this.getResourceShare(
+      `${domainName}_TransitGatewayMulticastDomainShare`,
+      'ec2:TransitGatewayMulticastDomain',
+      owningAccountId,
+      this.cloudwatchKey,
+    ).resourceShareItemId;
+  }
+
   /**
    * Returns maps of DNS zone details if central interface endpoint VPC is enabled in the target stack
    * @param vpcResources
@@ -620,7 +676,11 @@ export abstract class NetworkStack extends AcceleratorStack {
       );
 
       for (const vpcItem of this.vpcsInScope) {
-        for (const alloc of vpcItem.ipamAllocations ?? []) {
+        const allocations = [
+          ...(vpcItem.ipamAllocations ?? []),
+          ...(vpcItem.ipv6Cidrs ?? []).flatMap(ipv6Cidr => (ipv6Cidr.ipamAllocation ? [ipv6Cidr.ipamAllocation] : [])),
+        ];
+        for (const alloc of allocations) {
           const ipamPool = props.networkConfig.centralNetworkServices.ipams?.find(item =>
             item.pools?.find(item => item.name === alloc.ipamPoolName),
           );
@@ -18,6 +18,7 @@ import { NagSuppressions } from 'cdk-nag';
 
 import {
   InterfaceEndpointServiceConfig,
+  PrivateHostedZoneConfig,
   Region,
   ResolverEndpointConfig,
   ResolverRuleConfig,
@@ -55,6 +56,9 @@ export class NetworkVpcDnsStack extends NetworkStack {
       if (vpcItem.interfaceEndpoints?.central) {
         this.createHostedZones(vpcItem, vpcId, endpointMap, zoneMap);
       }
+      for (const zoneItem of vpcItem.privateHostedZones ?? []) {
+        this.createPrivateHostedZone(vpcItem, vpcId, zoneItem);
+      }
 
       //
       // Create resolver rules
@@ -189,6 +193,83 @@ export class NetworkVpcDnsStack extends NetworkStack {
     }
   }
 
+  /**
+   * Create a private hosted zone defined for the VPC and its records
+   * @param vpcItem
+   * @param vpcId
+   * @param zoneItem
+   */
+  private createPrivateHostedZone(
+    vpcItem: VpcConfig | VpcTemplatesConfig,
+    vpcId: string,
+    zoneItem: PrivateHostedZoneConfig,
+  ): void {
+    this.logger.info(`Creating private hosted zone ${zoneItem.name} for VPC:${vpcItem.name}`);
+    const zoneLogicalId = `${pascalCase(vpcItem.name)}Vpc${pascalCase(zoneItem.name)}PrivateHostedZone`;
+    const hostedZone = new HostedZone(this, zoneLogicalId, {
+      hostedZoneName: zoneItem.name,
+      vpcId,
+    });
+    this.ssmParameters.push({
+      logicalId: `SsmParam${zoneLogicalId}`,
+      parameterName: this.getSsmPath(SsmResourceType.PRIVATE_HOSTED_ZONE_ID, [vpcItem.name, zoneItem.name]),
+      stringValue: hostedZone.hostedZoneId,
+    });
+
+    for (const recordItem of zoneItem.records ?? []) {
+      const recordLogicalId = `${zoneLogicalId}${pascalCase(recordItem.name)}${recordItem.type}Record`;
+      if (recordItem.loadBalancer) {
+        const [dnsName, hostedZoneId] = this.getLoadBalancerAliasTarget(vpcItem, recordItem.loadBalancer);
+        new RecordSet(this, recordLogicalId, {
+          type: recordItem.type,
+          name: recordItem.name,
+          hostedZone,
+          dnsName,
+          hostedZoneId,
+        });
+      } else {
+        new RecordSet(this, recordLogicalId, {
+          type: recordItem.type,
+          name: recordItem.name,
+          hostedZone,
+          resourceRecords: recordItem.values,
+          ttl: recordItem.ttl,
+        });
+      }
+    }
+  }
+
+  /**
+   * Returns the DNS name and canonical hosted zone ID of a load balancer defined for the VPC
+   * @param vpcItem
+   * @param loadBalancerName
+   * @returns
+   */
+  private getLoadBalancerAliasTarget(vpcItem: VpcConfig | VpcTemplatesConfig, loadBalancerName: string): string[] {
+    let dnsResourceType: SsmResourceType;
+    let zoneResourceType: SsmResourceType;
+    if (vpcItem.loadBalancers?.applicationLoadBalancers?.find(item => item.name === loadBalancerName)) {
+      dnsResourceType = SsmResourceType.ALB_DNS;
+      zoneResourceType = SsmResourceType.ALB_ZONE_ID;
+    } else if (vpcItem.loadBalancers?.networkLoadBalancers?.find(item => item.name === loadBalancerName)) {
+      dnsResourceType = SsmResourceType.NLB_DNS;
+      zoneResourceType = SsmResourceType.NLB_ZONE_ID;
+    } else {
+      this.logger.error(`Unable to locate load balancer ${loadBalancerName} in VPC:${vpcItem.name}`);
+      throw new Error(`Configuration validation failed at runtime.`);
+    }
+    return [
+      cdk.aws_ssm.StringParameter.valueForStringParameter(
+        this,
+        this.getSsmPath(dnsResourceType, [vpcItem.name, loadBalancerName]),
+      ),
+      cdk.aws_ssm.StringParameter.valueForStringParameter(
+        this,
+        this.getSsmPath(zoneResourceType, [vpcItem.name, loadBalancerName]),
+      ),
+    ];
+  }
+
   /**
    * Create Route 53 resolver FORWARD rules
    *
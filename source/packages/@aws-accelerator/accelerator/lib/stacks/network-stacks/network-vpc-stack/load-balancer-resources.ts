@@ -297,6 +297,16 @@ export class LoadBalancerResources {
           parameterName: this.stack.getSsmPath(SsmResourceType.ALB, [vpcItem.name, albItem.name]),
           stringValue: alb.applicationLoadBalancerArn,
         });
+        this.stack.addSsmParameter({
+          logicalId: `${albItem.name}-${vpcItem.name}-dns-ssm`,
+          parameterName: this.stack.getSsmPath(SsmResourceType.ALB_DNS, [vpcItem.name, albItem.name]),
+          stringValue: alb.applicationLoadBalancerDnsName,
+        });
+        this.stack.addSsmParameter({
+          logicalId: `${albItem.name}-${vpcItem.name}-zone-ssm`,
+          parameterName: this.stack.getSsmPath(SsmResourceType.ALB_ZONE_ID, [vpcItem.name, albItem.name]),
+          stringValue: alb.applicationLoadBalancerCanonicalHostedZoneId,
+        });
       }
     }
     return albMap;
@@ -356,6 +366,16 @@ export class LoadBalancerResources {
           parameterName: this.stack.getSsmPath(SsmResourceType.NLB, [vpcItem.name, nlbItem.name]),
           stringValue: nlb.networkLoadBalancerArn,
         });
+        this.stack.addSsmParameter({
+          logicalId: `${nlbItem.name}-${vpcItem.name}-dns-ssm`,
+          parameterName: this.stack.getSsmPath(SsmResourceType.NLB_DNS, [vpcItem.name, nlbItem.name]),
+          stringValue: nlb.networkLoadBalancerDnsName,
+        });
+        this.stack.addSsmParameter({
+          logicalId: `${nlbItem.name}-${vpcItem.name}-zone-ssm`,
+          parameterName: this.stack.getSsmPath(SsmResourceType.NLB_ZONE_ID, [vpcItem.name, nlbItem.name]),
+          stringValue: nlb.networkLoadBalancerCanonicalHostedZoneId,
+        });
       }
 
       if (
@@ -75,9 +75,11 @@ export class NetworkVpcStack extends NetworkStack {
     // Create transit gateway resources
     //
     const transitGatewayIds = this.setVpcTransitGatewayMap(this.vpcsInScope);
+    const multicastDomainIds = this.setVpcMulticastDomainMap(this.vpcsInScope);
     const tgwResources = new TgwResources(
       this,
       transitGatewayIds,
+      multicastDomainIds,
       vpcResources.vpcMap,
       subnetResources.subnetMap,
       props,
@@ -88,10 +90,12 @@ export class NetworkVpcStack extends NetworkStack {
     new RouteEntryResources(
       this,
       routeTableResources.routeTableMap,
+      subnetResources.subnetMap,
       transitGatewayIds,
       tgwResources.tgwAttachmentMap,
       natGatewayResources.natGatewayMap,
       plResources.prefixListMap,
+      props,
     );
     //
     // Create security groups
@@ -11,33 +11,39 @@
  *  and limitations under the License.
  */
 
-import { RouteTableConfig, VpcConfig, VpcTemplatesConfig } from '@aws-accelerator/config';
+import { RouteTableConfig, RouteTableEntryConfig, VpcConfig, VpcTemplatesConfig } from '@aws-accelerator/config';
 import {
   NatGateway,
   PrefixList,
   PrefixListRoute,
   RouteTable,
+  Subnet,
   TransitGatewayAttachment,
 } from '@aws-accelerator/constructs';
 import * as cdk from 'aws-cdk-lib';
 import { pascalCase } from 'pascal-case';
+import { AcceleratorStackProps } from '../../accelerator-stack';
 import { LogLevel } from '../network-stack';
-import { getPrefixList, getRouteTable, getTransitGatewayId } from '../utils/getter-utils';
+import { getPrefixList, getRouteTable, getSubnet, getTransitGatewayId } from '../utils/getter-utils';
 import { NetworkVpcStack } from './network-vpc-stack';
 
 export class RouteEntryResources {
   public readonly routeTableEntryMap: Map<string, cdk.aws_ec2.CfnRoute | PrefixListRoute>;
   private stack: NetworkVpcStack;
+  private subnetMap: Map<string, Subnet>;
 
   constructor(
     networkVpcStack: NetworkVpcStack,
     routeTableMap: Map<string, RouteTable>,
+    subnetMap: Map<string, Subnet>,
     transitGatewayIds: Map<string, string>,
     tgwAttachmentMap: Map<string, TransitGatewayAttachment>,
     natGatewayMap: Map<string, NatGateway>,
     prefixListMap: Map<string, PrefixList>,
+    props: AcceleratorStackProps,
   ) {
     this.stack = networkVpcStack;
+    this.subnetMap = subnetMap;
 
     // Create route table entries
     this.routeTableEntryMap = this.createRouteEntries(
@@ -47,6 +53,7 @@ export class RouteEntryResources {
       tgwAttachmentMap,
       natGatewayMap,
       prefixListMap,
+      props,
     );
   }
 
@@ -58,6 +65,7 @@ export class RouteEntryResources {
    * @param tgwAttachmentMap
    * @param natGatewayMap
    * @param prefixListMap
+   * @param props
    * @returns
    */
   private createRouteEntries(
@@ -67,6 +75,7 @@ export class RouteEntryResources {
     tgwAttachmentMap: Map<string, TransitGatewayAttachment>,
     natGatewayMap: Map<string, NatGateway>,
     prefixListMap: Map<string, PrefixList>,
+    props: AcceleratorStackProps,
   ): Map<string, cdk.aws_ec2.CfnRoute | PrefixListRoute> {
     const routeTableEntryMap = new Map<string, cdk.aws_ec2.CfnRoute | PrefixListRoute>();
 
@@ -81,6 +90,7 @@ export class RouteEntryResources {
           tgwAttachmentMap,
           natGatewayMap,
           prefixListMap,
+          props,
         );
         routeTableItemEntryMap.forEach((value, key) => routeTableEntryMap.set(key, value));
       }
@@ -97,6 +107,7 @@ export class RouteEntryResources {
    * @param tgwAttachmentMap
    * @param natGatewayMap
    * @param prefixListMap
+   * @param props
    * @returns
    */
   private createRouteTableItemEntries(
@@ -107,6 +118,7 @@ export class RouteEntryResources {
     tgwAttachmentMap: Map<string, TransitGatewayAttachment>,
     natGatewayMap: Map<string, NatGateway>,
     prefixListMap: Map<string, PrefixList>,
+    props: AcceleratorStackProps,
   ): Map<string, cdk.aws_ec2.CfnRoute | PrefixListRoute> {
     const routeTableItemEntryMap = new Map<string, cdk.aws_ec2.CfnRoute | PrefixListRoute>();
 
@@ -115,90 +127,194 @@ export class RouteEntryResources {
         pascalCase(`${vpcItem.name}Vpc`) +
         pascalCase(`${routeTableItem.name}RouteTable`) +
         pascalCase(routeTableEntryItem.name);
-      const entryTypes = ['transitGateway', 'internetGateway', 'natGateway', 'virtualPrivateGateway'];
+      const entryTypes = [
+        'transitGateway',
+        'internetGateway',
+        'egressOnlyInternetGateway',
+        'natGateway',
+        'virtualPrivateGateway',
+      ];
 
       // Check if using a prefix list or CIDR as the destination
       if (routeTableEntryItem.type && entryTypes.includes(routeTableEntryItem.type)) {
-        let destination: string | undefined = undefined;
+        let destinations: { suffix?: string; cidr?: string }[] = [{}];
         let destinationPrefixListId: string | undefined = undefined;
         if (routeTableEntryItem.destinationPrefixList) {
           // Get PL ID from map
           const prefixList = getPrefixList(prefixListMap, routeTableEntryItem.destinationPrefixList) as PrefixList;
           destinationPrefixListId = prefixList.prefixListId;
         } else {
-          destination = routeTableEntryItem.destination;
+          destinations = this.getRouteDestinations(routeTableEntryItem, props);
         }
 
-        // Route: Transit Gateway
-        if (routeTableEntryItem.type === 'transitGateway') {
-          this.stack.addLogs(LogLevel.INFO, `Adding Transit Gateway Route Table Entry ${routeTableEntryItem.name}`);
-
-          const transitGatewayId = getTransitGatewayId(transitGatewayIds, routeTableEntryItem.target!);
-          const transitGatewayAttachment = this.stack.getTgwAttachment(
-            tgwAttachmentMap,
-            vpcItem.name,
-            routeTableEntryItem.target!,
-          );
-
-          const tgwRoute = routeTable.addTransitGatewayRoute(
-            routeId,
-            transitGatewayId,
-            transitGatewayAttachment.node.defaultChild as cdk.aws_ec2.CfnTransitGatewayAttachment,
-            destination,
-            destinationPrefixListId,
-            this.stack.cloudwatchKey,
-            this.stack.logRetention,
-          );
-          routeTableItemEntryMap.set(`${vpcItem.name}_${routeTableItem.name}_${routeTableEntryItem.name}`, tgwRoute);
-        }
+        for (const destinationItem of destinations) {
+          // Routes to a VPC or subnet name are suffixed by destination, so adding a CIDR to the
+          // destination VPC adds a route without replacing the existing ones
+          const suffix = destinationItem.suffix;
+          const entryId = suffix ? routeId + pascalCase(suffix) : routeId;
+          const entryKey = suffix
+            ? `${vpcItem.name}_${routeTableItem.name}_${routeTableEntryItem.name}_${suffix}`
+            : `${vpcItem.name}_${routeTableItem.name}_${routeTableEntryItem.name}`;
+          const destination = destinationItem.cidr;
 
-        // Route: NAT Gateway
-        if (routeTableEntryItem.type === 'natGateway') {
-          this.stack.addLogs(LogLevel.INFO, `Adding NAT Gateway Route Table Entry ${routeTableEntryItem.name}`);
-
-          const natGateway = this.stack.getNatGateway(natGatewayMap, vpcItem.name, routeTableEntryItem.target!);
-
-          const natRoute = routeTable.addNatGatewayRoute(
-            routeId,
-            natGateway.natGatewayId,
-            destination,
-            destinationPrefixListId,
-            this.stack.cloudwatchKey,
-            this.stack.logRetention,
-          );
-          routeTableItemEntryMap.set(`${vpcItem.name}_${routeTableItem.name}_${routeTableEntryItem.name}`, natRoute);
-        }
+          // Route: Transit Gateway
+          if (routeTableEntryItem.type === 'transitGateway') {
+            this.stack.addLogs(LogLevel.INFO, `Adding Transit Gateway Route Table Entry ${routeTableEntryItem.name}`);
 
-        // Route: Internet Gateway
-        if (routeTableEntryItem.type === 'internetGateway') {
-          this.stack.addLogs(LogLevel.INFO, `Adding Internet Gateway Route Table Entry ${routeTableEntryItem.name}`);
-          const igwRoute = routeTable.addInternetGatewayRoute(
-            routeId,
-            destination,
-            destinationPrefixListId,
-            this.stack.cloudwatchKey,
-            this.stack.logRetention,
-          );
-          routeTableItemEntryMap.set(`${vpcItem.name}_${routeTableItem.name}_${routeTableEntryItem.name}`, igwRoute);
-        }
+            const transitGatewayId = getTransitGatewayId(transitGatewayIds, routeTableEntryItem.target!);
+            const transitGatewayAttachment = this.stack.getTgwAttachment(
+              tgwAttachmentMap,
+              vpcItem.name,
+              routeTableEntryItem.target!,
+            );
+
+            const tgwRoute = routeTable.addTransitGatewayRoute(
+              entryId,
+              transitGatewayId,
+              transitGatewayAttachment.node.defaultChild as cdk.aws_ec2.CfnTransitGatewayAttachment,
+              destination,
+              destinationPrefixListId,
+              this.stack.cloudwatchKey,
+              this.stack.logRetention,
+            );
+            routeTableItemEntryMap.set(entryKey, tgwRoute);
+          }
+
+          // Route: NAT Gateway
+          if (routeTableEntryItem.type === 'natGateway') {
+            this.stack.addLogs(LogLevel.INFO, `Adding NAT Gateway Route Table Entry ${routeTableEntryItem.name}`);
+
+            const natGateway = this.stack.getNatGateway(natGatewayMap, vpcItem.name, routeTableEntryItem.target!);
+
+            const natRoute = routeTable.addNatGatewayRoute(
+              entryId,
+              natGateway.natGatewayId,
+              destination,
+              destinationPrefixListId,
+              this.stack.cloudwatchKey,
+              this.stack.logRetention,
+            );
+            routeTableItemEntryMap.set(entryKey, natRoute);
+          }
+
+          // Route: Internet Gateway
+          if (routeTableEntryItem.type === 'internetGateway') {
+            this.stack.addLogs(LogLevel.INFO, `Adding Internet Gateway Route Table Entry ${routeTableEntryItem.name}`);
+            const igwRoute = routeTable.addInternetGatewayRoute(
+              entryId,
+              destination,
+              destinationPrefixListId,
+              this.stack.cloudwatchKey,
+              this.stack.logRetention,
+            );
+            routeTableItemEntryMap.set(entryKey, igwRoute);
+          }
 
-        // Route: Virtual Private Gateway
-        if (routeTableEntryItem.type === 'virtualPrivateGateway') {
-          this.stack.addLogs(
-            LogLevel.INFO,
-            `Adding Virtual Private Gateway Route Table Entry ${routeTableEntryItem.name}`,
-          );
-          const vgwRoute = routeTable.addVirtualPrivateGatewayRoute(
-            routeId,
-            destination,
-            destinationPrefixListId,
-            this.stack.cloudwatchKey,
-            this.stack.logRetention,
-          );
-          routeTableItemEntryMap.set(`${vpcItem.name}_${routeTableItem.name}_${routeTableEntryItem.name}`, vgwRoute);
+          // Route: Egress-only Internet Gateway
+          if (routeTableEntryItem.type === 'egressOnlyInternetGateway') {
+            this.stack.addLogs(
+              LogLevel.INFO,
+              `Adding Egress-only Internet Gateway Route Table Entry ${routeTableEntryItem.name}`,
+            );
+            const eigwRoute = routeTable.addEgressOnlyInternetGatewayRoute(
+              entryId,
+              destination,
+              destinationPrefixListId,
+              this.stack.cloudwatchKey,
+              this.stack.logRetention,
+            );
+            routeTableItemEntryMap.set(entryKey, eigwRoute);
+          }
+
+          // Route: Virtual Private Gateway
+          if (routeTableEntryItem.type === 'virtualPrivateGateway') {
+            this.stack.addLogs(
+              LogLevel.INFO,
+              `Adding Virtual Private Gateway Route Table Entry ${routeTableEntryItem.name}`,
+            );
+            const vgwRoute = routeTable.addVirtualPrivateGatewayRoute(
+              entryId,
+              destination,
+              destinationPrefixListId,
+              this.stack.cloudwatchKey,
+              this.stack.logRetention,
+            );
+            routeTableItemEntryMap.set(entryKey, vgwRoute);
+          }
         }
       }
     }
     return routeTableItemEntryMap;
   }
+
+  /**
+   * Returns the destination CIDRs for a given route table entry.
+   *
+   * @remarks
+   * VPC and subnet name destinations are expanded into one destination per CIDR,
+   * with IPAM-allocated subnet CIDRs taken from the subnets of this stack. Any other
+   * destination is returned as-is.
+   * @param routeTableEntryItem
+   * @param props
+   * @returns
+   */
+  private getRouteDestinations(
+    routeTableEntryItem: RouteTableEntryConfig,
+    props: AcceleratorStackProps,
+  ): { suffix?: string; cidr?: string }[] {
+    const destination = routeTableEntryItem.destination;
+
+    // Destination is a VPC name
+    const vpcItem = props.networkConfig.vpcs.find(item => item.name === destination);
+    if (vpcItem) {
+      this.stack.addLogs(
+        LogLevel.INFO,
+        `Expanding route table entry ${routeTableEntryItem.name} destination to CIDRs of VPC ${vpcItem.name}`,
+      );
+      const destinations: { suffix?: string; cidr?: string }[] = (vpcItem.cidrs ?? []).map(cidr => {
+        return { suffix: cidr, cidr };
+      });
+      // IPAM-allocated VPC CIDRs are not known until deployment, so route to each IPv4 subnet instead
+      if (vpcItem.ipamAllocations) {
+        for (const subnetItem of (vpcItem.subnets ?? []).filter(item => item.ipv4CidrBlock || item.ipamAllocation)) {
+          destinations.push({
+            suffix: subnetItem.name,
+            cidr: subnetItem.ipv4CidrBlock ?? this.getIpamSubnetCidr(vpcItem, subnetItem.name),
+          });
+        }
+      }
+      return destinations;
+    }
+
+    // Destination is a subnet name
+    for (const vpcItem of props.networkConfig.vpcs) {
+      const subnetItem = vpcItem.subnets?.find(item => item.name === destination);
+      if (subnetItem) {
+        this.stack.addLogs(
+          LogLevel.INFO,
+          `Expanding route table entry ${routeTableEntryItem.name} destination to CIDR of subnet ${subnetItem.name} in VPC ${vpcItem.name}`,
+        );
+        return [
+          {
+            suffix: subnetItem.name,
+            cidr: subnetItem.ipv4CidrBlock ?? this.getIpamSubnetCidr(vpcItem, subnetItem.name),
+          },
+        ];
+      }
+    }
+
+    // Destination is a CIDR
+    return [{ cidr: destination }];
+  }
+
+  /**
+   * Returns the CIDR of an IPAM-allocated subnet created by this stack
+   * @param vpcItem
+   * @param subnetName
+   * @returns
+   */
+  private getIpamSubnetCidr(vpcItem: VpcConfig, subnetName: string): string | undefined {
+    const subnet = getSubnet(this.subnetMap, vpcItem.name, subnetName) as Subnet;
+    return subnet.ipv4CidrBlock;
+  }
 }
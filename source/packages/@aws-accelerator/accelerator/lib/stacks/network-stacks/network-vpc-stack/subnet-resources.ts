@@ -147,6 +147,43 @@ export class SubnetResources {
     return availabilityZone;
   }
 
+  /**
+   * Get the IPv6 CIDR block for a given subnet item
+   * @param vpcItem
+   * @param subnetItem
+   * @param vpc
+   * @returns
+   */
+  private getIpv6CidrBlock(
+    vpcItem: VpcConfig | VpcTemplatesConfig,
+    subnetItem: SubnetConfig,
+    vpc: Vpc,
+  ): string | undefined {
+    if (subnetItem.ipv6CidrBlock) {
+      return subnetItem.ipv6CidrBlock;
+    }
+    if (subnetItem.ipv6SubnetIndex === undefined) {
+      return undefined;
+    }
+    //
+    // Carve /64 subnets from the first IPv6 CIDR of the VPC, which may
+    // not be known until deployment time
+    //
+    const ipv6Cidr = vpcItem.ipv6Cidrs?.[0];
+    let prefix = 56;
+    if (ipv6Cidr?.ipamAllocation) {
+      prefix = ipv6Cidr.ipamAllocation.netmaskLength;
+    } else if (ipv6Cidr?.cidrBlock) {
+      prefix = parseInt(ipv6Cidr.cidrBlock.split('/')[1]);
+    }
+    const subnetCount = Math.min(256, Math.pow(2, 64 - prefix));
+
+    return cdk.Fn.select(
+      subnetItem.ipv6SubnetIndex,
+      cdk.Fn.cidr(cdk.Fn.select(0, vpc.ipv6CidrBlocks), subnetCount, '64'),
+    );
+  }
+
   /**
    * Create subnet item
    * @param vpcItem
@@ -176,6 +213,9 @@ export class SubnetResources {
       basePool,
       ipamAllocation: subnetItem.ipamAllocation,
       ipv4CidrBlock: subnetItem.ipv4CidrBlock,
+      ipv6CidrBlock: this.getIpv6CidrBlock(vpcItem, subnetItem, vpc),
+      ipv6Native: subnetItem.ipv6Native,
+      assignIpv6AddressOnCreation: subnetItem.assignIpv6AddressOnCreation,
       kmsKey: this.stack.cloudwatchKey,
       logRetentionInDays: this.stack.logRetention,
       mapPublicIpOnLaunch: subnetItem.mapPublicIpOnLaunch,
@@ -192,7 +232,7 @@ export class SubnetResources {
     });
 
     // If the VPC has additional CIDR blocks, depend on those CIDRs to be associated
-    for (const cidr of vpc.cidrs ?? []) {
+    for (const cidr of [...(vpc.cidrs ?? []), ...(vpc.ipv6Cidrs ?? [])]) {
       subnet.node.addDependency(cidr);
     }
 
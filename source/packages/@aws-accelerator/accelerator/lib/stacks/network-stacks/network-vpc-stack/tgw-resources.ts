@@ -17,6 +17,9 @@ import {
   SsmParameterLookup,
   Subnet,
   TransitGatewayAttachment,
+  TransitGatewayMulticastDomainAssociation,
+  TransitGatewayMulticastGroupMember,
+  TransitGatewayMulticastGroupSource,
   TransitGatewayPeering,
   Vpc,
 } from '@aws-accelerator/constructs';
@@ -39,6 +42,7 @@ export class TgwResources {
   constructor(
     networkVpcStack: NetworkVpcStack,
     transitGatewayIds: Map<string, string>,
+    multicastDomainIds: Map<string, string>,
     vpcMap: Map<string, Vpc>,
     subnetMap: Map<string, Subnet>,
     props: AcceleratorStackProps,
@@ -55,6 +59,8 @@ export class TgwResources {
       subnetMap,
       props.partition,
     );
+    // Create TGW multicast domain associations and group registrations
+    this.createTgwMulticastResources(multicastDomainIds, subnetMap, props);
     // Create TGW peerings
     this.tgwPeeringMap = this.createTransitGatewayPeering(props);
   }
@@ -220,6 +226,124 @@ export class TgwResources {
     return subnetIds;
   }
 
+  /**
+   * Create TGW multicast domain associations, group members, and group sources
+   * for VPCs in stack context
+   * @param multicastDomainIds
+   * @param subnetMap
+   * @param props
+   */
+  private createTgwMulticastResources(
+    multicastDomainIds: Map<string, string>,
+    subnetMap: Map<string, Subnet>,
+    props: AcceleratorStackProps,
+  ) {
+    const vpcNames = this.stack.vpcsInScope.map(item => item.name);
+    const isInScope = (item: { account: string; vpcName: string }) =>
+      vpcNames.includes(item.vpcName) &&
+      props.accountsConfig.getAccountId(item.account) === cdk.Stack.of(this.stack).account;
+
+    for (const tgwItem of props.networkConfig.transitGateways) {
+      for (const domainItem of tgwItem.multicastDomains ?? []) {
+        const domainKey = `${tgwItem.name}_${domainItem.name}`;
+        const associations: TransitGatewayMulticastDomainAssociation[] = [];
+
+        // Create subnet associations
+        for (const associationItem of (domainItem.associations ?? []).filter(item => isInScope(item))) {
+          const transitGatewayMulticastDomainId = this.getMulticastDomainId(multicastDomainIds, domainKey);
+          const attachment = this.tgwAttachmentMap.get(`${associationItem.vpcName}_${tgwItem.name}`);
+          if (!attachment) {
+            this.stack.addLogs(
+              LogLevel.ERROR,
+              `VPC ${associationItem.vpcName} attachment for TGW ${tgwItem.name} does not exist in map`,
+            );
+            throw new Error(`Configuration validation failed at runtime.`);
+          }
+
+          for (const subnetItem of associationItem.subnets) {
+            const subnet = getSubnet(subnetMap, associationItem.vpcName, subnetItem) as Subnet;
+
+            this.stack.addLogs(
+              LogLevel.INFO,
+              `Associating subnet ${subnetItem} with Transit Gateway Multicast Domain ${domainItem.name}`,
+            );
+            const association = new TransitGatewayMulticastDomainAssociation(
+              this.stack,
+              pascalCase(`${domainItem.name}${associationItem.vpcName}${subnetItem}MulticastDomainAssociation`),
+              {
+                transitGatewayMulticastDomainId,
+                transitGatewayAttachmentId: attachment.transitGatewayAttachmentId,
+                subnetId: subnet.subnetId,
+              },
+            );
+            associations.push(association);
+          }
+        }
+
+        // Register static group members
+        for (const memberItem of (domainItem.groupMembers ?? []).filter(item => isInScope(item))) {
+          const transitGatewayMulticastDomainId = this.getMulticastDomainId(multicastDomainIds, domainKey);
+
+          for (const networkInterfaceId of memberItem.networkInterfaceIds) {
+            this.stack.addLogs(
+              LogLevel.INFO,
+              `Registering ${networkInterfaceId} as a member of multicast group ${memberItem.groupIpAddress} in domain ${domainItem.name}`,
+            );
+            const groupMember = new TransitGatewayMulticastGroupMember(
+              this.stack,
+              pascalCase(`${domainItem.name}${memberItem.groupIpAddress}${networkInterfaceId}MulticastGroupMember`),
+              {
+                transitGatewayMulticastDomainId,
+                groupIpAddress: memberItem.groupIpAddress,
+                networkInterfaceId,
+              },
+            );
+            // Network interfaces must be in an associated subnet before registration
+            associations.forEach(association => groupMember.node.addDependency(association));
+          }
+        }
+
+        // Register static group sources
+        for (const sourceItem of (domainItem.groupSources ?? []).filter(item => isInScope(item))) {
+          const transitGatewayMulticastDomainId = this.getMulticastDomainId(multicastDomainIds, domainKey);
+
+          for (const networkInterfaceId of sourceItem.networkInterfaceIds) {
+            this.stack.addLogs(
+              LogLevel.INFO,
+              `Registering ${networkInterfaceId} as a source of multicast group ${sourceItem.groupIpAddress} in domain ${domainItem.name}`,
+            );
+            const groupSource = new TransitGatewayMulticastGroupSource(
+              this.stack,
+              pascalCase(`${domainItem.name}${sourceItem.groupIpAddress}${networkInterfaceId}MulticastGroupSource`),
+              {
+                transitGatewayMulticastDomainId,
+                groupIpAddress: sourceItem.groupIpAddress,
+                networkInterfaceId,
+              },
+            );
+            // Network interfaces must be in an associated subnet before registration
+            associations.forEach(association => groupSource.node.addDependency(association));
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Get a multicast domain ID from the map
+   * @param multicastDomainIds
+   * @param domainKey
+   * @returns
+   */
+  private getMulticastDomainId(multicastDomainIds: Map<string, string>, domainKey: string): string {
+    const transitGatewayMulticastDomainId = multicastDomainIds.get(domainKey);
+    if (!transitGatewayMulticastDomainId) {
+      this.stack.addLogs(LogLevel.ERROR, `Transit Gateway Multicast Domain ${domainKey} does not exist in map`);
+      throw new Error(`Configuration validation failed at runtime.`);
+    }
+    return transitGatewayMulticastDomainId;
+  }
+
   /**
    * Function to create TGW peering
    */
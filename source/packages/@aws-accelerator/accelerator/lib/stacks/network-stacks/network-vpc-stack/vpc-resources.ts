@@ -26,6 +26,7 @@ export class VpcResources {
   public readonly vpnMap: Map<string, string>;
   public readonly centralEndpointRole?: cdk.aws_iam.Role;
   public readonly vpcPeeringRole?: cdk.aws_iam.Role;
+  public readonly hostedZoneAssociationRole?: cdk.aws_iam.Role;
 
   private stack: NetworkStack;
 
@@ -43,6 +44,8 @@ export class VpcResources {
     this.centralEndpointRole = this.createCentralEndpointRole(props);
     // Create VPC peering role
     this.vpcPeeringRole = this.createVpcPeeringRole(props);
+    // Create private hosted zone association role
+    this.hostedZoneAssociationRole = this.createHostedZoneAssociationRole(props);
     // Create VPCs
     this.vpcMap = this.createVpcs(this.stack.vpcsInScope, ipamPoolMap, dhcpOptionsIds, props);
     // Create VPN connections
@@ -250,6 +253,80 @@ export class VpcResources {
     return vpcPeeringAccountIds;
   }
 
+  /**
+   * Create private hosted zone association role if private hosted zones
+   * in external account(s) are associated with VPCs in this account+region
+   * @param props
+   */
+  private createHostedZoneAssociationRole(props: AcceleratorStackProps): cdk.aws_iam.Role | undefined {
+    const hostedZoneAccountIds = this.getHostedZoneAssociationAccountIds(props);
+    if (hostedZoneAccountIds.length === 0) {
+      return undefined;
+    }
+    this.stack.addLogs(LogLevel.INFO, `Create cross-account IAM role for private hosted zone associations`);
+
+    const role = new cdk.aws_iam.Role(this.stack, 'HostedZoneAssociationRole', {
+      roleName: `${props.prefixes.accelerator}-HostedZoneAssociationRole-${cdk.Stack.of(this.stack).region}`,
+      assumedBy: new cdk.aws_iam.CompositePrincipal(
+        ...hostedZoneAccountIds.map(accountId => new cdk.aws_iam.AccountPrincipal(accountId)),
+      ),
+      inlinePolicies: {
+        default: new cdk.aws_iam.PolicyDocument({
+          statements: [
+            new cdk.aws_iam.PolicyStatement({
+              effect: cdk.aws_iam.Effect.ALLOW,
+              actions: ['ec2:DescribeVpcs', 'route53:AssociateVPCWithHostedZone'],
+              resources: ['*'],
+            }),
+          ],
+        }),
+      },
+    });
+
+    // AwsSolutions-IAM5: The IAM entity contains wildcard permissions and does not have a cdk_nag rule suppression with evidence for those permission.
+    // rule suppression with evidence for this permission.
+    NagSuppressions.addResourceSuppressionsByPath(
+      this.stack,
+      `${this.stack.stackName}/HostedZoneAssociationRole/Resource`,
+      [
+        {
+          id: 'AwsSolutions-IAM5',
+          reason: 'HostedZoneAssociationRole needs access to describe every VPC in the account',
+        },
+      ],
+    );
+    return role;
+  }
+
+  /**
+   * Return an array of private hosted zone account IDs
+   * if an associated VPC exists in this account+region
+   * @param props
+   * @returns
+   */
+  private getHostedZoneAssociationAccountIds(props: AcceleratorStackProps): string[] {
+    const hostedZoneAccountIds: string[] = [];
+    for (const vpcItem of this.stack.vpcResources) {
+      for (const zoneItem of vpcItem.privateHostedZones ?? []) {
+        for (const associatedVpcName of zoneItem.associatedVpcs ?? []) {
+          const associatedVpc = props.networkConfig.vpcs.find(item => item.name === associatedVpcName);
+          if (
+            !associatedVpc ||
+            !this.stack.isTargetStack([props.accountsConfig.getAccountId(associatedVpc.account)], [vpcItem.region])
+          ) {
+            continue;
+          }
+          for (const accountId of this.stack.getVpcAccountIds(vpcItem)) {
+            if (accountId !== cdk.Stack.of(this.stack).account && !hostedZoneAccountIds.includes(accountId)) {
+              hostedZoneAccountIds.push(accountId);
+            }
+          }
+        }
+      }
+    }
+    return hostedZoneAccountIds;
+  }
+
   /**
    * Create VPCs for this stack context
    * @param vpcResources
@@ -318,6 +395,7 @@ export class VpcResources {
       name: vpcItem.name,
       ipv4CidrBlock: cidr,
       internetGateway: vpcItem.internetGateway,
+      egressOnlyInternetGateway: vpcItem.egressOnlyInternetGateway,
       dhcpOptions: dhcpOptionsIds.get(vpcItem.dhcpOptions ?? ''),
       enableDnsHostnames: vpcItem.enableDnsHostnames ?? true,
       enableDnsSupport: vpcItem.enableDnsSupport ?? true,
@@ -338,6 +416,10 @@ export class VpcResources {
     //
     this.createAdditionalCidrs(vpc, vpcItem, ipamPoolMap);
     //
+    // Create IPv6 CIDRs
+    //
+    this.createIpv6Cidrs(vpc, vpcItem, ipamPoolMap);
+    //
     // Add central endpoint tags
     //
     this.addCentralEndpointTags(vpc, vpcItem, props);
@@ -392,6 +474,38 @@ export class VpcResources {
     return additionalCidrs;
   }
 
+  /**
+   * Create IPv6 CIDR blocks for a given VPC
+   * @param vpc
+   * @param vpcItem
+   * @param ipamPoolMap
+   */
+  private createIpv6Cidrs(vpc: Vpc, vpcItem: VpcConfig | VpcTemplatesConfig, ipamPoolMap: Map<string, string>) {
+    for (const ipv6Cidr of vpcItem.ipv6Cidrs ?? []) {
+      if (ipv6Cidr.ipamAllocation) {
+        this.stack.addLogs(
+          LogLevel.INFO,
+          `Adding IPv6 IPAM allocation with netmask ${ipv6Cidr.ipamAllocation.netmaskLength} to VPC ${vpcItem.name}`,
+        );
+        const poolId = ipamPoolMap.get(ipv6Cidr.ipamAllocation.ipamPoolName);
+        if (!poolId) {
+          this.stack.addLogs(
+            LogLevel.ERROR,
+            `${vpcItem.name}: unable to locate IPAM pool ${ipv6Cidr.ipamAllocation.ipamPoolName}`,
+          );
+          throw new Error(`Configuration validation failed at runtime.`);
+        }
+        vpc.addIpv6Cidr({ ipv6IpamPoolId: poolId, ipv6NetmaskLength: ipv6Cidr.ipamAllocation.netmaskLength });
+      } else if (ipv6Cidr.byoipPoolId) {
+        this.stack.addLogs(LogLevel.INFO, `Adding IPv6 CIDR from pool ${ipv6Cidr.byoipPoolId} to VPC ${vpcItem.name}`);
+        vpc.addIpv6Cidr({ ipv6CidrBlock: ipv6Cidr.cidrBlock, ipv6Pool: ipv6Cidr.byoipPoolId });
+      } else {
+        this.stack.addLogs(LogLevel.INFO, `Adding Amazon-provided IPv6 CIDR to VPC ${vpcItem.name}`);
+        vpc.addIpv6Cidr({ amazonProvidedIpv6CidrBlock: true });
+      }
+    }
+  }
+
   /**
    * Add central endpoint tags to the given VPC if useCentralEndpoints is enabled
    * @param vpc
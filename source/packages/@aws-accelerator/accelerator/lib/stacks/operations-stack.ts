@@ -20,6 +20,7 @@ import { IdentityCenterAssignmentConfig, IdentityCenterPermissionSetConfig, Role
 import {
   BudgetDefinition,
   IdentityCenterGetInstanceId,
+  IdentityCenterGetPrincipalId,
   Inventory,
   KeyLookup,
   LimitsDefinition,
@@ -64,6 +65,11 @@ export class OperationsStack extends AcceleratorStack {
    */
   private users: { [name: string]: cdk.aws_iam.User } = {};
 
+  /**
+   * List of the Identity Center principal ids looked up by principal type and name
+   */
+  private identityCenterPrincipalIds: { [key: string]: string } = {};
+
   /**
    * KMS Key used to encrypt CloudWatch logs
    */
@@ -135,9 +141,9 @@ export class OperationsStack extends AcceleratorStack {
     }
 
     //
-    // Backup Vaults
+    // Backup Vaults and Plans
     //
-    this.addBackupVaults();
+    this.addBackupPlans(this.addBackupVaults());
 
     if (
       this.props.globalConfig.ssmInventory?.enable &&
@@ -573,8 +579,10 @@ export class OperationsStack extends AcceleratorStack {
   /**
    * Adds Backup Vaults as defined in the global-config.yaml. These Vaults can
    * be referenced in AWS Organizations Backup Policies
+   * @returns the vaults deployed to this account and region, by name
    */
-  private addBackupVaults() {
+  private addBackupVaults(): Map<string, cdk.aws_backup.IBackupVault> {
+    const backupVaults = new Map<string, cdk.aws_backup.IBackupVault>();
     let backupKey: cdk.aws_kms.Key | undefined = undefined;
     for (const vault of this.props.globalConfig.backup?.vaults ?? []) {
       if (this.isIncluded(vault.deploymentTargets)) {
@@ -588,14 +596,112 @@ export class OperationsStack extends AcceleratorStack {
           });
         }
 
-        new cdk.aws_backup.BackupVault(this, `BackupVault_${vault.name}`, {
+        const backupVault = new cdk.aws_backup.BackupVault(this, `BackupVault_${vault.name}`, {
           backupVaultName: vault.name,
           encryptionKey: backupKey,
+          accessPolicy: vault.policy
+            ? cdk.aws_iam.PolicyDocument.fromJson(
+                JSON.parse(
+                  this.generatePolicyReplacements(
+                    path.join(this.props.configDirPath, vault.policy),
+                    false,
+                    this.organizationId,
+                  ),
+                ),
+              )
+            : undefined,
+          lockConfiguration: vault.lock
+            ? {
+                minRetention: cdk.Duration.days(vault.lock.minRetentionDays),
+                maxRetention: this.getBackupDays(vault.lock.maxRetentionDays),
+                changeableFor: this.getBackupDays(vault.lock.changeableForDays),
+              }
+            : undefined,
+        });
+        backupVaults.set(vault.name, backupVault);
+      }
+    }
+    return backupVaults;
+  }
+
+  /**
+   * Adds Backup Plans as defined in the global-config.yaml, with their rules and resource selections
+   * @param backupVaults
+   */
+  private addBackupPlans(backupVaults: Map<string, cdk.aws_backup.IBackupVault>) {
+    for (const plan of this.props.globalConfig.backup?.backupPlans ?? []) {
+      if (!this.isIncluded(plan.deploymentTargets)) {
+        continue;
+      }
+
+      const backupVault = backupVaults.get(plan.vault);
+      if (!backupVault) {
+        this.logger.error(`Backup vault ${plan.vault} of backup plan ${plan.name} is not deployed to this account`);
+        throw new Error(`Configuration validation failed at runtime.`);
+      }
+
+      this.logger.info(`Adding backup plan ${plan.name}`);
+      const backupPlan = new cdk.aws_backup.BackupPlan(this, `BackupPlan_${plan.name}`, {
+        backupPlanName: plan.name,
+        backupVault,
+        backupPlanRules: plan.rules.map(
+          rule =>
+            new cdk.aws_backup.BackupPlanRule({
+              ruleName: rule.name,
+              scheduleExpression: rule.schedule ? cdk.aws_events.Schedule.expression(rule.schedule) : undefined,
+              startWindow: rule.startWindowMinutes ? cdk.Duration.minutes(rule.startWindowMinutes) : undefined,
+              completionWindow: rule.completionWindowMinutes
+                ? cdk.Duration.minutes(rule.completionWindowMinutes)
+                : undefined,
+              enableContinuousBackup: rule.enableContinuousBackup,
+              deleteAfter: this.getBackupDays(rule.lifecycle?.deleteAfterDays),
+              moveToColdStorageAfter: this.getBackupDays(rule.lifecycle?.moveToColdStorageAfterDays),
+              copyActions: (rule.copyActions ?? []).map((copyAction, index) => ({
+                destinationBackupVault: cdk.aws_backup.BackupVault.fromBackupVaultArn(
+                  this,
+                  `BackupPlan_${plan.name}_${rule.name}_CopyAction${index}`,
+                  `arn:${cdk.Stack.of(this).partition}:backup:${copyAction.region ?? cdk.Stack.of(this).region}:${
+                    copyAction.account
+                      ? this.props.accountsConfig.getAccountId(copyAction.account)
+                      : cdk.Stack.of(this).account
+                  }:backup-vault:${copyAction.vault}`,
+                ),
+                deleteAfter: this.getBackupDays(copyAction.lifecycle?.deleteAfterDays),
+                moveToColdStorageAfter: this.getBackupDays(copyAction.lifecycle?.moveToColdStorageAfterDays),
+              })),
+            }),
+        ),
+      });
+
+      for (const selection of plan.selections ?? []) {
+        backupPlan.addSelection(`BackupSelection_${selection.name}`, {
+          backupSelectionName: selection.name,
+          resources: [
+            ...(selection.tags ?? []).map(tag => cdk.aws_backup.BackupResource.fromTag(tag.key, tag.value)),
+            ...(selection.resources ?? []).map(arn => cdk.aws_backup.BackupResource.fromArn(arn)),
+          ],
+          allowRestores: selection.allowRestores,
         });
+
+        // AwsSolutions-IAM4: The IAM user, role, or group uses AWS managed policies
+        NagSuppressions.addResourceSuppressionsByPath(
+          this,
+          `${this.stackName}/BackupPlan_${plan.name}/BackupSelection_${selection.name}/Role/Resource`,
+          [
+            {
+              id: 'AwsSolutions-IAM4',
+              reason: 'The backup selection role uses the AWS Backup service role managed policies.',
+            },
+          ],
+        );
       }
     }
   }
 
+  private getBackupDays(days: number | undefined): cdk.Duration | undefined {
+    return days !== undefined ? cdk.Duration.days(days) : undefined;
+  }
+
   private enableInventory() {
     this.logger.info('Enabling SSM Inventory');
 
@@ -720,6 +826,31 @@ export class OperationsStack extends AcceleratorStack {
         identityCenterPermissionSet.policies?.customerManaged,
       );
     }
+    for (const policyReference of identityCenterPermissionSet.customerManagedPolicyReferences ?? []) {
+      customerManagedPolicyReferencesList.push({ name: policyReference.name, path: policyReference.path });
+    }
+
+    let inlinePolicy: object | undefined;
+    if (identityCenterPermissionSet.inlinePolicy) {
+      // Read in the policy document which should be properly formatted json
+      inlinePolicy = JSON.parse(
+        this.generatePolicyReplacements(
+          path.join(this.props.configDirPath, identityCenterPermissionSet.inlinePolicy),
+          false,
+        ),
+      );
+    }
+
+    let permissionsBoundary: cdk.aws_sso.CfnPermissionSet.PermissionsBoundaryProperty | undefined;
+    if (identityCenterPermissionSet.permissionsBoundary) {
+      const customerManagedPolicy = identityCenterPermissionSet.permissionsBoundary.customerManagedPolicy;
+      permissionsBoundary = {
+        managedPolicyArn: identityCenterPermissionSet.permissionsBoundary.awsManagedPolicyArn,
+        customerManagedPolicyReference: customerManagedPolicy
+          ? { name: customerManagedPolicy.name, path: customerManagedPolicy.path }
+          : undefined,
+      };
+    }
 
     const convertedSessionDuration = this.convertMinutesToIso8601(identityCenterPermissionSet.sessionDuration);
 
@@ -730,9 +861,13 @@ export class OperationsStack extends AcceleratorStack {
         `${pascalCase(identityCenterPermissionSet.name)}IdentityCenterPermissionSet`,
         {
           name: identityCenterPermissionSet.name,
+          description: identityCenterPermissionSet.description,
           instanceArn: identityCenterInstanceId,
           managedPolicies: identityCenterPermissionSet?.policies?.awsManaged,
           customerManagedPolicyReferences: customerManagedPolicyReferencesList,
+          inlinePolicy,
+          permissionsBoundary,
+          relayStateType: identityCenterPermissionSet.relayState,
           sessionDuration: convertedSessionDuration ?? undefined,
         },
       );
@@ -759,7 +894,52 @@ export class OperationsStack extends AcceleratorStack {
           this.createAssignment(assignment, permissionSetMap, identityCenterInstanceId);
         }
       }
+      for (const assignmentMatrix of identityCenter?.identityCenterAssignmentMatrices ?? []) {
+        for (const groupName of assignmentMatrix.groupNames) {
+          for (const permissionSetName of assignmentMatrix.permissionSetNames) {
+            this.createAssignment(
+              {
+                name: `${assignmentMatrix.name}-${groupName}-${permissionSetName}`,
+                permissionSetName,
+                principalId: undefined,
+                principalName: groupName,
+                principalType: 'GROUP',
+                deploymentTargets: assignmentMatrix.deploymentTargets,
+              },
+              permissionSetMap,
+              identityCenterInstanceId,
+            );
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Function to get the principal id of an Identity Center Assignment,
+   * principal names are looked up once per stack in the identity store
+   * @param assignment
+   * @returns
+   */
+  private getIdentityCenterPrincipalId(assignment: IdentityCenterAssignmentConfig): string {
+    if (assignment.principalId) {
+      return assignment.principalId;
+    }
+    const key = `${assignment.principalType}-${assignment.principalName}`;
+    if (!this.identityCenterPrincipalIds[key]) {
+      this.logger.info(`Looking up Identity Center ${assignment.principalType} ${assignment.principalName}`);
+      this.identityCenterPrincipalIds[key] = new IdentityCenterGetPrincipalId(
+        this,
+        `${pascalCase(key)}IdentityCenterPrincipalId`,
+        {
+          principalType: assignment.principalType,
+          principalName: assignment.principalName!,
+          kmsKey: this.cloudwatchKey,
+          logRetentionInDays: this.props.globalConfig.cloudwatchLogRetentionInDays,
+        },
+      ).principalId;
     }
+    return this.identityCenterPrincipalIds[key];
   }
 
   /**
@@ -792,13 +972,14 @@ export class OperationsStack extends AcceleratorStack {
     let listOfTargets = [];
     listOfTargets = this.getAccountIdsFromDeploymentTarget(assignment.deploymentTargets);
     const permissionSetArnValue = this.getPermissionSetArn(permissionSetMap, assignment.permissionSetName);
+    const principalId = this.getIdentityCenterPrincipalId(assignment);
     for (const target of listOfTargets) {
       this.logger.info(`Creating Identity Center Assignment ${assignment.name}-${target}`);
       try {
         new cdk.aws_sso.CfnAssignment(this, `${pascalCase(assignment.name)}-${target}`, {
           instanceArn: identityCenterInstanceId,
           permissionSetArn: permissionSetArnValue,
-          principalId: assignment.principalId,
+          principalId,
           principalType: assignment.principalType,
           targetId: target,
           targetType: 'AWS_ACCOUNT',
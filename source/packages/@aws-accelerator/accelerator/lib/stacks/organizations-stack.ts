@@ -29,6 +29,7 @@ import {
   EnableSharingWithAwsOrganization,
   FMSOrganizationAdminAccount,
   GuardDutyOrganizationAdminAccount,
+  InspectorOrganizationAdminAccount,
   IpamOrganizationAdminAccount,
   KeyLookup,
   MacieOrganizationAdminAccount,
@@ -39,6 +40,7 @@ import {
   RegisterDelegatedAdministrator,
   ReportDefinition,
   SecurityHubOrganizationAdminAccount,
+  SecurityLakeOrganizationAdminAccount,
   IdentityCenterOrganizationAdminAccount,
 } from '@aws-accelerator/constructs';
 import * as cdk_extensions from '@aws-cdk-extensions/cdk-extensions';
@@ -156,6 +158,9 @@ export class OrganizationsStack extends AcceleratorStack {
 
       //Enable Config Recorder Delegated Admin
       this.enableConfigRecorderDelegatedAdminAccount();
+
+      //Enable Config Conformance Packs Delegated Admin
+      this.enableConformancePackDelegatedAdminAccount(securityAdminAccountId);
     }
 
     // Macie Configuration
@@ -170,6 +175,12 @@ export class OrganizationsStack extends AcceleratorStack {
     //Detective Config
     this.enableDetectiveDelegatedAdminAccount(securityAdminAccountId);
 
+    //Inspector Config
+    this.enableInspectorDelegatedAdminAccount(securityAdminAccountId);
+
+    //Security Lake Config
+    this.enableSecurityLakeDelegatedAdminAccount();
+
     //SecurityHub Config
     this.enableSecurityHubDelegatedAdminAccount(securityAdminAccountId);
 
@@ -424,6 +435,38 @@ export class OrganizationsStack extends AcceleratorStack {
     }
   }
 
+  /**
+   * Function to enable the delegated admin account of organization conformance packs
+   * @param adminAccountId
+   */
+  private enableConformancePackDelegatedAdminAccount(adminAccountId: string) {
+    if (
+      !(this.stackProperties.securityConfig.awsConfig.conformancePacks ?? []).some(pack => pack.organization) ||
+      adminAccountId === this.stackProperties.accountsConfig.getManagementAccountId()
+    ) {
+      return;
+    }
+    this.logger.debug('enableConformancePackDelegatedAdminAccount');
+    const enableConformancePackServiceAccess = new EnableAwsServiceAccess(this, 'EnableConfigMultiAccountSetupAccess', {
+      servicePrincipal: 'config-multiaccountsetup.amazonaws.com',
+      kmsKey: this.cloudwatchKey,
+      logRetentionInDays: this.logRetention,
+    });
+
+    const registerConformancePackDelegatedAdministrator = new RegisterDelegatedAdministrator(
+      this,
+      'RegisterConfigMultiAccountSetupDelegatedAdministrator',
+      {
+        accountId: adminAccountId,
+        servicePrincipal: 'config-multiaccountsetup.amazonaws.com',
+        kmsKey: this.cloudwatchKey,
+        logRetentionInDays: this.logRetention,
+      },
+    );
+
+    registerConformancePackDelegatedAdministrator.node.addDependency(enableConformancePackServiceAccess);
+  }
+
   /**
    * Function to enable Macie delegated admin account
    * @param adminAccountId
@@ -554,6 +597,67 @@ export class OrganizationsStack extends AcceleratorStack {
       }
     }
   }
+  /**
+   * Function to enable Inspector delegated admin account
+   * @param adminAccountId
+   */
+  private enableInspectorDelegatedAdminAccount(adminAccountId: string) {
+    if (this.stackProperties.securityConfig.centralSecurityServices.inspector?.enable) {
+      if (
+        (this.stackProperties.securityConfig.centralSecurityServices.inspector.excludeRegions ?? []).indexOf(
+          cdk.Stack.of(this).region as Region,
+        ) == -1
+      ) {
+        this.logger.debug(
+          `Starts inspector admin account delegation to the account with email ${
+            this.stackProperties.accountsConfig.getAuditAccount().email
+          } account in ${cdk.Stack.of(this).region} region`,
+        );
+
+        this.logger.debug(`Inspector Admin Account ID is ${adminAccountId}`);
+        new InspectorOrganizationAdminAccount(this, 'InspectorOrganizationAdminAccount', {
+          adminAccountId,
+          logRetentionInDays: this.logRetention,
+          kmsKey: this.cloudwatchKey,
+        });
+      } else {
+        this.logger.debug(
+          `${cdk.Stack.of(this).region} region was in inspector excluded list so ignoring this region for ${
+            this.stackProperties.accountsConfig.getAuditAccount().email
+          } account`,
+        );
+      }
+    }
+  }
+  /**
+   * Function to enable Security Lake delegated admin account
+   */
+  private enableSecurityLakeDelegatedAdminAccount() {
+    const securityLake = this.stackProperties.securityConfig.centralSecurityServices.securityLake;
+    if (securityLake?.enable) {
+      if ((securityLake.excludeRegions ?? []).indexOf(cdk.Stack.of(this).region as Region) == -1) {
+        const adminAccountName = this.stackProperties.securityConfig.getSecurityLakeDelegatedAccountName();
+        const adminAccountId = this.stackProperties.accountsConfig.getAccountId(adminAccountName);
+        this.logger.debug(
+          `Starts security lake admin account delegation to the account ${adminAccountName} in ${
+            cdk.Stack.of(this).region
+          } region`,
+        );
+
+        this.logger.debug(`Security Lake Admin Account ID is ${adminAccountId}`);
+        new SecurityLakeOrganizationAdminAccount(this, 'SecurityLakeOrganizationAdminAccount', {
+          adminAccountId,
+          logRetentionInDays: this.logRetention,
+          kmsKey: this.cloudwatchKey,
+        });
+      } else {
+        this.logger.debug(
+          `${cdk.Stack.of(this).region} region was in security lake excluded list so ignoring this region`,
+        );
+      }
+    }
+  }
+
   /**
    * Function to enable SecurityHub delegated admin account
    * @param adminAccountId
@@ -15,8 +15,11 @@ import * as cdk from 'aws-cdk-lib';
 import { SnsEventSource } from 'aws-cdk-lib/aws-lambda-event-sources';
 import { NagSuppressions } from 'cdk-nag';
 import { Construct } from 'constructs';
+import * as fs from 'fs';
+import * as os from 'os';
 import path from 'path';
 
+import { ConfigIncludes, ReplacementsConfig } from '@aws-accelerator/config';
 import {
   Account,
   CreateControlTowerAccounts,
@@ -161,11 +164,12 @@ export class PrepareStack extends AcceleratorStack {
 
       // Make assets from the configuration directory
       this.logger.info(`Configuration assets creation`);
+      const replacementsConfig = ReplacementsConfig.load(props.configDirPath);
       const accountConfigAsset = new cdk.aws_s3_assets.Asset(this, 'AccountConfigAsset', {
-        path: path.join(props.configDirPath, 'accounts-config.yaml'),
+        path: this.getConfigAssetPath(props.configDirPath, 'accounts-config.yaml', replacementsConfig),
       });
       const organizationsConfigAsset = new cdk.aws_s3_assets.Asset(this, 'OrganizationConfigAsset', {
-        path: path.join(props.configDirPath, 'organization-config.yaml'),
+        path: this.getConfigAssetPath(props.configDirPath, 'organization-config.yaml', replacementsConfig),
       });
 
       const driftDetectedParameter = new cdk.aws_ssm.StringParameter(this, 'AcceleratorControlTowerDriftParameter', {
@@ -432,6 +436,7 @@ export class PrepareStack extends AcceleratorStack {
             partition: props.partition,
             kmsKey: cloudwatchKey,
             serviceControlPolicies: this.createScpListsForValidation(),
+            identityCenterPrincipals: this.createIdentityCenterPrincipalListForValidation(),
             policyTagKey: `${props.prefixes.accelerator}Managed`,
             logRetentionInDays: props.globalConfig.cloudwatchLogRetentionInDays,
             driftDetectionParameter: driftDetectedParameter,
@@ -694,6 +699,27 @@ export class PrepareStack extends AcceleratorStack {
     this.logger.info('Completed stack synthesis');
   }
 
+  /**
+   * Function to get the path of a configuration file to be used as an asset.
+   * When replacements or include files are defined, the file is written to a temporary directory
+   * with replacements expanded and include files merged so that Lambda functions can parse it as is.
+   * @param configDirPath
+   * @param fileName
+   * @param replacementsConfig
+   * @returns
+   */
+  private getConfigAssetPath(configDirPath: string, fileName: string, replacementsConfig: ReplacementsConfig): string {
+    const filePath = path.join(configDirPath, fileName);
+    const includes = ConfigIncludes.load(configDirPath, fileName, replacementsConfig);
+    if ((replacementsConfig.globalReplacements ?? []).length === 0 && !includes.hasIncludes) {
+      return filePath;
+    }
+
+    const tempDirPath = fs.mkdtempSync(path.join(os.tmpdir(), 'accel-config'));
+    fs.writeFileSync(path.join(tempDirPath, fileName), includes.toString(), 'utf8');
+    return path.join(tempDirPath, fileName);
+  }
+
   private createScpListsForValidation(): {
     name: string;
     targetType: scpTargetType;
@@ -747,4 +773,29 @@ export class PrepareStack extends AcceleratorStack {
     }
     return serviceControlPolicies;
   }
+
+  /**
+   * Function to get the Identity Center principals referenced by name in assignments and assignment matrices
+   * @returns
+   */
+  private createIdentityCenterPrincipalListForValidation(): { principalType: string; principalName: string }[] {
+    const identityCenter = this.props.iamConfig.identityCenter;
+    const principals: { principalType: string; principalName: string }[] = [];
+    for (const assignment of identityCenter?.identityCenterAssignments ?? []) {
+      if (assignment.principalName) {
+        principals.push({ principalType: assignment.principalType, principalName: assignment.principalName });
+      }
+    }
+    for (const assignmentMatrix of identityCenter?.identityCenterAssignmentMatrices ?? []) {
+      for (const groupName of assignmentMatrix.groupNames) {
+        principals.push({ principalType: 'GROUP', principalName: groupName });
+      }
+    }
+    return principals.filter(
+      (item, index) =>
+        principals.findIndex(
+          principal => principal.principalType === item.principalType && principal.principalName === item.principalName,
+        ) === index,
+    );
+  }
 }
@@ -19,7 +19,7 @@ import * as yaml from 'js-yaml';
 import { pascalCase } from 'pascal-case';
 import * as path from 'path';
 
-import { Region } from '@aws-accelerator/config';
+import { Region, SecurityHubFindingFiltersConfig } from '@aws-accelerator/config';
 import {
   Bucket,
   BucketEncryptionType,
@@ -31,9 +31,14 @@ import {
   GuardDutyMembers,
   DetectiveGraphConfig,
   DetectiveMembers,
+  InspectorMembers,
   KeyLookup,
   MacieMembers,
   Organization,
+  SecurityHubAutomationRule,
+  SecurityHubCustomAction,
+  SecurityHubFindingFilters,
+  SecurityHubInsight,
   SecurityHubMembers,
   SecurityHubRegionAggregation,
 } from '@aws-accelerator/constructs';
@@ -113,6 +118,11 @@ export class SecurityAuditStack extends AcceleratorStack {
     //
     this.configureDetective();
 
+    //
+    // Inspector configuration
+    //
+    this.configureInspector();
+
     //
     // SecurityHub configuration
     //
@@ -192,10 +202,13 @@ export class SecurityAuditStack extends AcceleratorStack {
       ) {
         this.logger.info('Enabling GuardDuty for all existing accounts');
 
+        const protectionPlans = this.getGuardDutyProtectionPlans();
+
         const guardDutyMembers = new GuardDutyMembers(this, 'GuardDutyMembers', {
           enableS3Protection: this.props.securityConfig.centralSecurityServices.guardduty.s3Protection.enable,
           enableEksProtection:
             this.props.securityConfig.centralSecurityServices.guardduty.eksProtection?.enable ?? false,
+          ...protectionPlans,
           kmsKey: this.cloudwatchKey,
           logRetentionInDays: this.props.globalConfig.cloudwatchLogRetentionInDays,
         });
@@ -212,6 +225,7 @@ export class SecurityAuditStack extends AcceleratorStack {
             enableS3Protection: this.props.securityConfig.centralSecurityServices.guardduty.s3Protection.enable,
             enableEksProtection:
               this.props.securityConfig.centralSecurityServices.guardduty.eksProtection?.enable ?? false,
+            ...protectionPlans,
             kmsKey: this.cloudwatchKey,
             logRetentionInDays: this.props.globalConfig.cloudwatchLogRetentionInDays,
           }).node.addDependency(guardDutyMembers);
@@ -220,6 +234,29 @@ export class SecurityAuditStack extends AcceleratorStack {
     }
   }
 
+  /**
+   * Function to get the GuardDuty protection plans enabled in the region of the stack,
+   * protection plans not configured are not managed
+   */
+  private getGuardDutyProtectionPlans() {
+    const guardduty = this.props.securityConfig.centralSecurityServices.guardduty;
+    const region = cdk.Stack.of(this).region as Region;
+    const isEnabled = (protectionPlan?: { enable: boolean; excludeRegions?: Region[] }) =>
+      protectionPlan ? protectionPlan.enable && !(protectionPlan.excludeRegions ?? []).includes(region) : undefined;
+
+    const enableRuntimeMonitoring = isEnabled(guardduty.runtimeMonitoring);
+    return {
+      enableEbsProtection: isEnabled(guardduty.ebsProtection),
+      enableRdsProtection: isEnabled(guardduty.rdsProtection),
+      enableLambdaProtection: isEnabled(guardduty.lambdaProtection),
+      enableRuntimeMonitoring,
+      enableEksAddonManagement: enableRuntimeMonitoring && (guardduty.runtimeMonitoring?.eksAddonManagement ?? true),
+      enableEcsFargateAgentManagement:
+        enableRuntimeMonitoring && (guardduty.runtimeMonitoring?.ecsFargateAgentManagement ?? true),
+      enableEc2AgentManagement: enableRuntimeMonitoring && (guardduty.runtimeMonitoring?.ec2AgentManagement ?? false),
+    };
+  }
+
   /**
    * Function to configure Audit manager
    */
@@ -340,6 +377,29 @@ export class SecurityAuditStack extends AcceleratorStack {
     }
   }
 
+  /**
+   * Function to configure Inspector
+   */
+  private configureInspector() {
+    const inspector = this.props.securityConfig.centralSecurityServices.inspector;
+    this.logger.debug(`centralSecurityServices.inspector?.enable: ${inspector?.enable}`);
+
+    if (inspector?.enable) {
+      if ((inspector.excludeRegions ?? []).indexOf(cdk.Stack.of(this).region as Region) === -1) {
+        this.logger.info('Enabling Inspector for all existing accounts');
+
+        new InspectorMembers(this, 'InspectorMembers', {
+          enableEc2Scanning: inspector.ec2Scanning ?? true,
+          enableEcrScanning: inspector.ecrScanning ?? true,
+          enableLambdaScanning: inspector.lambdaScanning ?? false,
+          autoEnable: inspector.autoEnable ?? true,
+          kmsKey: this.cloudwatchKey,
+          logRetentionInDays: this.props.globalConfig.cloudwatchLogRetentionInDays,
+        });
+      }
+    }
+  }
+
   /**
    * Function to configure SecurityHub
    */
@@ -376,6 +436,121 @@ export class SecurityAuditStack extends AcceleratorStack {
         logRetentionInDays: this.props.globalConfig.cloudwatchLogRetentionInDays,
       });
     }
+
+    this.configureSecurityHubAutomation();
+  }
+
+  /**
+   * Function to configure the SecurityHub custom actions, insights and automation rules.
+   * With region aggregation they are configured in the home region only, where the findings of every region are aggregated
+   */
+  private configureSecurityHubAutomation() {
+    const securityHub = this.props.securityConfig.centralSecurityServices.securityHub;
+    if (
+      !securityHub.enable ||
+      securityHub.excludeRegions.includes(cdk.Stack.of(this).region as Region) ||
+      (securityHub.regionAggregation && this.props.globalConfig.homeRegion !== cdk.Stack.of(this).region)
+    ) {
+      return;
+    }
+
+    for (const customActionItem of securityHub.customActions ?? []) {
+      this.logger.info(`Adding SecurityHub custom action ${customActionItem.name}`);
+      const customAction = new SecurityHubCustomAction(this, pascalCase(`${customActionItem.id}CustomAction`), {
+        name: customActionItem.name,
+        actionId: customActionItem.id,
+        description: customActionItem.description,
+        kmsKey: this.cloudwatchKey,
+        logRetentionInDays: this.props.globalConfig.cloudwatchLogRetentionInDays,
+      });
+
+      if ((customActionItem.targets ?? []).length > 0) {
+        const rule = new cdk.aws_events.Rule(this, pascalCase(`${customActionItem.id}CustomActionRule`), {
+          description: `Sends the findings of the SecurityHub custom action ${customActionItem.name}`,
+          eventPattern: {
+            source: ['aws.securityhub'],
+            detailType: ['Security Hub Findings - Custom Action'],
+            resources: [customAction.actionTargetArn],
+          },
+        });
+        customActionItem.targets!.forEach((targetItem, index) => {
+          const targetId = pascalCase(`${customActionItem.id}CustomActionTarget${index}`);
+          if (targetItem.type === 'eventBus') {
+            rule.addTarget(
+              new cdk.aws_events_targets.EventBus(
+                cdk.aws_events.EventBus.fromEventBusArn(this, targetId, targetItem.arn),
+              ),
+            );
+            return;
+          }
+
+          // The invoke permission of the rule can only be added to functions of this account and region
+          const functionArn = cdk.Arn.split(targetItem.arn, cdk.ArnFormat.COLON_RESOURCE_NAME);
+          if (functionArn.account !== cdk.Stack.of(this).account || functionArn.region !== cdk.Stack.of(this).region) {
+            this.logger.error(
+              `SecurityHub custom action ${customActionItem.name} Lambda target ${targetItem.arn} must be in account ${
+                cdk.Stack.of(this).account
+              } and region ${cdk.Stack.of(this).region}`,
+            );
+            throw new Error(`Configuration validation failed at runtime.`);
+          }
+          rule.addTarget(
+            new cdk.aws_events_targets.LambdaFunction(
+              cdk.aws_lambda.Function.fromFunctionAttributes(this, targetId, {
+                functionArn: targetItem.arn,
+                sameEnvironment: true,
+              }),
+            ),
+          );
+        });
+      }
+    }
+
+    for (const insightItem of securityHub.insights ?? []) {
+      this.logger.info(`Adding SecurityHub insight ${insightItem.name}`);
+      new SecurityHubInsight(this, pascalCase(`${insightItem.name}Insight`), {
+        name: insightItem.name,
+        groupByAttribute: insightItem.groupByAttribute,
+        filters: this.getSecurityHubFindingFilters(insightItem.filters),
+        kmsKey: this.cloudwatchKey,
+        logRetentionInDays: this.props.globalConfig.cloudwatchLogRetentionInDays,
+      });
+    }
+
+    for (const automationRuleItem of securityHub.automationRules ?? []) {
+      this.logger.info(`Adding SecurityHub automation rule ${automationRuleItem.name}`);
+      new SecurityHubAutomationRule(this, pascalCase(`${automationRuleItem.name}AutomationRule`), {
+        name: automationRuleItem.name,
+        description: automationRuleItem.description,
+        ruleOrder: automationRuleItem.ruleOrder,
+        enable: automationRuleItem.enable ?? true,
+        isTerminal: automationRuleItem.isTerminal ?? false,
+        criteria: this.getSecurityHubFindingFilters(automationRuleItem.criteria),
+        actions: automationRuleItem.actions,
+        kmsKey: this.cloudwatchKey,
+        logRetentionInDays: this.props.globalConfig.cloudwatchLogRetentionInDays,
+      });
+    }
+  }
+
+  /**
+   * Function to get the SecurityHub finding filters, account names are replaced by account ids
+   * @param filters
+   * @returns
+   */
+  private getSecurityHubFindingFilters(filters: SecurityHubFindingFiltersConfig): SecurityHubFindingFilters {
+    return {
+      productNames: filters.productNames,
+      accountIds: filters.accounts?.map(account =>
+        /^\d{12}$/.test(account) ? account : this.props.accountsConfig.getAccountId(account),
+      ),
+      controlIds: filters.controlIds,
+      resourceTypes: filters.resourceTypes,
+      resourceTags: filters.resourceTags,
+      severityLabels: filters.severityLabels,
+      workflowStatuses: filters.workflowStatuses,
+      recordStates: filters.recordStates,
+    };
   }
 
   /**
@@ -17,7 +17,16 @@ import { pascalCase } from 'change-case';
 import { Construct } from 'constructs';
 import path from 'path';
 import { Tag as ConfigRuleTag } from '@aws-sdk/client-config-service';
-import { AwsConfigRuleSet, ConfigRule, Tag } from '@aws-accelerator/config';
+import {
+  AlarmActionConfig,
+  AlarmSetConfig,
+  AwsConfigRuleSet,
+  ConfigRule,
+  ConformancePackConfig,
+  DashboardWidgetConfig,
+  Region,
+  Tag,
+} from '@aws-accelerator/config';
 
 import {
   ConfigServiceRecorder,
@@ -27,8 +36,12 @@ import {
   Organization,
   SsmSessionManagerSettings,
   SecurityHubEventsLog,
+  SecurityLakeDataLake,
+  SecurityLakeLogSources,
+  SecurityLakeSubscriber,
 } from '@aws-accelerator/constructs';
 import * as cdk_extensions from '@aws-cdk-extensions/cdk-extensions';
+import { SsmResourceType } from '@aws-accelerator/utils';
 
 import { AcceleratorStack, AcceleratorStackProps } from './accelerator-stack';
 
@@ -144,6 +157,16 @@ export class SecurityResourcesStack extends AcceleratorStack {
     //
     this.setupAwsConfigRules();
 
+    //
+    // Config Conformance Packs
+    //
+    this.setupConformancePacks();
+
+    //
+    // Security Lake
+    //
+    this.setupSecurityLake();
+
     //
     // Configure Account CloudTrail Logs
     //
@@ -185,6 +208,16 @@ export class SecurityResourcesStack extends AcceleratorStack {
     //
     this.configureCloudwatchAlarm();
 
+    //
+    // CloudWatch Dashboards
+    //
+    this.configureCloudwatchDashboards();
+
+    //
+    // CloudWatch cross-account observability link
+    //
+    this.configureObservabilityLink();
+
     //
     // CloudWatch Log Groups
     //
@@ -379,6 +412,7 @@ export class SecurityResourcesStack extends AcceleratorStack {
         continue;
       }
 
+      const alarms = new Map<string, Construct>();
       for (const alarmItem of alarmSetItem.alarms ?? []) {
         const alarm = new cdk.aws_cloudwatch.Alarm(this, pascalCase(alarmItem.alarmName), {
           alarmName: alarmItem.alarmName,
@@ -428,8 +462,283 @@ export class SecurityResourcesStack extends AcceleratorStack {
             ),
           );
         }
+        this.addAlarmActions(alarm, this.getAlarmActionArns(undefined, alarmItem.actions));
+        alarms.set(alarmItem.alarmName, alarm);
+      }
+
+      this.configureAdditionalCloudwatchAlarms(alarmSetItem, alarms);
+    }
+  }
+
+  /**
+   * Function to configure the anomaly detection, metric math and composite alarms of a CW alarm set
+   * @param alarmSetItem
+   * @param alarms Alarms of the alarm set created so far, by alarm name
+   */
+  private configureAdditionalCloudwatchAlarms(alarmSetItem: AlarmSetConfig, alarms: Map<string, Construct>) {
+    for (const alarmItem of alarmSetItem.anomalyDetectionAlarms ?? []) {
+      const actionArns = this.getAlarmActionArns(alarmItem.snsTopicName, alarmItem.actions);
+      const alarm = new cdk.aws_cloudwatch.CfnAlarm(this, pascalCase(alarmItem.alarmName), {
+        alarmName: alarmItem.alarmName,
+        alarmDescription: alarmItem.alarmDescription,
+        comparisonOperator: alarmItem.comparisonOperator,
+        evaluationPeriods: alarmItem.evaluationPeriods,
+        treatMissingData: this.getTreatMissingData(alarmItem.treatMissingData),
+        thresholdMetricId: 'band',
+        metrics: [
+          {
+            id: 'metric',
+            returnData: true,
+            metricStat: {
+              metric: { metricName: alarmItem.metricName, namespace: alarmItem.namespace },
+              period: alarmItem.period,
+              stat: alarmItem.statistic,
+            },
+          },
+          {
+            id: 'band',
+            returnData: true,
+            expression: `ANOMALY_DETECTION_BAND(metric, ${alarmItem.bandWidth ?? 2})`,
+          },
+        ],
+        alarmActions: actionArns.ALARM.length > 0 ? actionArns.ALARM : undefined,
+        okActions: actionArns.OK.length > 0 ? actionArns.OK : undefined,
+        insufficientDataActions: actionArns.INSUFFICIENT_DATA.length > 0 ? actionArns.INSUFFICIENT_DATA : undefined,
+      });
+      alarms.set(alarmItem.alarmName, alarm);
+    }
+
+    for (const alarmItem of alarmSetItem.metricMathAlarms ?? []) {
+      const usingMetrics: Record<string, cdk.aws_cloudwatch.IMetric> = {};
+      for (const metricItem of alarmItem.metrics) {
+        usingMetrics[metricItem.id] = new cdk.aws_cloudwatch.Metric({
+          metricName: metricItem.metricName,
+          namespace: metricItem.namespace,
+          period: cdk.Duration.seconds(alarmItem.period),
+          statistic: metricItem.statistic,
+        });
+      }
+      const alarm = new cdk.aws_cloudwatch.Alarm(this, pascalCase(alarmItem.alarmName), {
+        alarmName: alarmItem.alarmName,
+        alarmDescription: alarmItem.alarmDescription,
+        metric: new cdk.aws_cloudwatch.MathExpression({
+          expression: alarmItem.expression,
+          usingMetrics,
+          period: cdk.Duration.seconds(alarmItem.period),
+        }),
+        comparisonOperator: this.getComparisonOperator(alarmItem.comparisonOperator),
+        evaluationPeriods: alarmItem.evaluationPeriods,
+        threshold: alarmItem.threshold,
+        treatMissingData: this.getTreatMissingData(alarmItem.treatMissingData),
+      });
+      this.addAlarmActions(alarm, this.getAlarmActionArns(alarmItem.snsTopicName, alarmItem.actions));
+      alarms.set(alarmItem.alarmName, alarm);
+    }
+
+    for (const alarmItem of alarmSetItem.compositeAlarms ?? []) {
+      const alarm = new cdk.aws_cloudwatch.CompositeAlarm(this, pascalCase(alarmItem.alarmName), {
+        compositeAlarmName: alarmItem.alarmName,
+        alarmDescription: alarmItem.alarmDescription,
+        alarmRule: cdk.aws_cloudwatch.AlarmRule.fromString(alarmItem.alarmRule),
+      });
+      this.addAlarmActions(alarm, this.getAlarmActionArns(alarmItem.snsTopicName, alarmItem.actions));
+
+      // The alarm rule references alarms by name, they must exist before the composite alarm
+      for (const [alarmName, referencedAlarm] of alarms) {
+        if (alarmItem.alarmRule.includes(`"${alarmName}"`) || alarmItem.alarmRule.includes(`(${alarmName})`)) {
+          alarm.node.addDependency(referencedAlarm);
+        }
+      }
+      alarms.set(alarmItem.alarmName, alarm);
+    }
+  }
+
+  /**
+   * Function to get the action ARNs of a CW alarm by alarm state
+   * @param snsTopicName SNS topic notified when the alarm changes to the ALARM state
+   * @param actions
+   * @returns
+   */
+  private getAlarmActionArns(
+    snsTopicName: string | undefined,
+    actions: AlarmActionConfig[] | undefined,
+  ): { ALARM: string[]; OK: string[]; INSUFFICIENT_DATA: string[] } {
+    const actionArns: { ALARM: string[]; OK: string[]; INSUFFICIENT_DATA: string[] } = {
+      ALARM: [],
+      OK: [],
+      INSUFFICIENT_DATA: [],
+    };
+    const getSnsTopicArn = (topicName: string) =>
+      cdk.Stack.of(this).formatArn({
+        service: 'sns',
+        region: cdk.Stack.of(this).region,
+        account: cdk.Stack.of(this).account,
+        resource: `${this.props.prefixes.snsTopicName}-${topicName}`,
+        arnFormat: cdk.ArnFormat.NO_RESOURCE_NAME,
+      });
+
+    if (snsTopicName) {
+      actionArns.ALARM.push(getSnsTopicArn(snsTopicName));
+    }
+    for (const action of actions ?? []) {
+      const state = action.state ?? 'ALARM';
+      switch (action.type) {
+        case 'snsTopic':
+          actionArns[state].push(getSnsTopicArn(action.snsTopicName!));
+          break;
+        case 'opsItem':
+          const severity = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'].indexOf(action.opsItemSeverity!) + 1;
+          actionArns[state].push(
+            cdk.Stack.of(this).formatArn({
+              service: 'ssm',
+              resource: 'opsitem',
+              resourceName: action.opsItemCategory
+                ? `${severity}#CATEGORY=${pascalCase(action.opsItemCategory)}`
+                : `${severity}`,
+              arnFormat: cdk.ArnFormat.COLON_RESOURCE_NAME,
+            }),
+          );
+          break;
+        case 'autoScalingPolicy':
+          actionArns[state].push(action.autoScalingPolicyArn!);
+          break;
       }
     }
+    return actionArns;
+  }
+
+  /**
+   * Function to add action ARNs to a CW alarm
+   * @param alarm
+   * @param actionArns
+   */
+  private addAlarmActions(
+    alarm: cdk.aws_cloudwatch.AlarmBase,
+    actionArns: { ALARM: string[]; OK: string[]; INSUFFICIENT_DATA: string[] },
+  ) {
+    const toAlarmAction = (alarmActionArn: string) => ({ bind: () => ({ alarmActionArn }) });
+    if (actionArns.ALARM.length > 0) {
+      alarm.addAlarmAction(...actionArns.ALARM.map(toAlarmAction));
+    }
+    if (actionArns.OK.length > 0) {
+      alarm.addOkAction(...actionArns.OK.map(toAlarmAction));
+    }
+    if (actionArns.INSUFFICIENT_DATA.length > 0) {
+      alarm.addInsufficientDataAction(...actionArns.INSUFFICIENT_DATA.map(toAlarmAction));
+    }
+  }
+
+  /**
+   * Function to link the account to the CloudWatch Observability Access Manager sink,
+   * whose ARN is shared by the sink account from the Security stack
+   */
+  private configureObservabilityLink() {
+    const observability = this.props.securityConfig.cloudWatch.observability;
+    if (
+      !observability ||
+      observability.excludeRegions?.includes(cdk.Stack.of(this).region as Region) ||
+      this.props.accountsConfig.getAccountId(observability.sinkAccount) === cdk.Stack.of(this).account ||
+      !this.props.accountsConfig
+        .getAccountIdsFromDeploymentTarget(observability.deploymentTargets)
+        .includes(cdk.Stack.of(this).account)
+    ) {
+      return;
+    }
+
+    new cdk.aws_oam.CfnLink(this, 'ObservabilityLink', {
+      labelTemplate: '$AccountName',
+      resourceTypes: this.getObservabilityResourceTypes(observability.resourceTypes),
+      sinkIdentifier: cdk.aws_ssm.StringParameter.valueForStringParameter(
+        this,
+        this.getSsmPath(SsmResourceType.OAM_SINK, [observability.sinkName]),
+      ),
+    });
+  }
+
+  /**
+   * Function to configure CW dashboards
+   */
+  private configureCloudwatchDashboards() {
+    const metrics = new Map<string, string>();
+    for (const metricSetItem of this.props.securityConfig.cloudWatch.metricSets ?? []) {
+      for (const metricItem of metricSetItem.metrics) {
+        metrics.set(metricItem.metricName, metricItem.metricNamespace);
+      }
+    }
+
+    for (const dashboardItem of this.props.securityConfig.cloudWatch.dashboards ?? []) {
+      if ((dashboardItem.region ?? this.props.globalConfig.homeRegion) !== cdk.Stack.of(this).region) {
+        continue;
+      }
+
+      if (!this.isIncluded(dashboardItem.deploymentTargets)) {
+        continue;
+      }
+
+      const dashboard = new cdk.aws_cloudwatch.Dashboard(this, pascalCase(`${dashboardItem.dashboardName}Dashboard`), {
+        dashboardName: dashboardItem.dashboardName,
+      });
+      dashboard.addWidgets(
+        ...dashboardItem.widgets.map((widgetItem, index) =>
+          this.getDashboardWidget(`${pascalCase(dashboardItem.dashboardName)}Widget${index}`, widgetItem, metrics),
+        ),
+      );
+    }
+  }
+
+  /**
+   * Function to get a CW dashboard widget
+   * @param id Unique id of the widget in the stack
+   * @param widgetItem
+   * @param metrics Namespaces of the metrics of the metric sets, by metric name
+   * @returns
+   */
+  private getDashboardWidget(
+    id: string,
+    widgetItem: DashboardWidgetConfig,
+    metrics: Map<string, string>,
+  ): cdk.aws_cloudwatch.IWidget {
+    switch (widgetItem.type) {
+      case 'text':
+        return new cdk.aws_cloudwatch.TextWidget({
+          markdown: widgetItem.markdown ?? '',
+          width: widgetItem.width,
+          height: widgetItem.height,
+        });
+      case 'alarm':
+        return new cdk.aws_cloudwatch.AlarmStatusWidget({
+          title: widgetItem.title,
+          width: widgetItem.width,
+          height: widgetItem.height,
+          alarms: (widgetItem.alarms ?? []).map(alarmName =>
+            cdk.aws_cloudwatch.Alarm.fromAlarmArn(
+              this,
+              `${id}${pascalCase(alarmName)}Alarm`,
+              cdk.Stack.of(this).formatArn({
+                service: 'cloudwatch',
+                resource: 'alarm',
+                resourceName: alarmName,
+                arnFormat: cdk.ArnFormat.COLON_RESOURCE_NAME,
+              }),
+            ),
+          ),
+        });
+      case 'metric':
+        return new cdk.aws_cloudwatch.GraphWidget({
+          title: widgetItem.title,
+          width: widgetItem.width,
+          height: widgetItem.height,
+          left: (widgetItem.metrics ?? []).map(
+            metricName =>
+              new cdk.aws_cloudwatch.Metric({
+                metricName,
+                namespace: metrics.get(metricName)!,
+                period: cdk.Duration.seconds(widgetItem.period ?? 300),
+                statistic: widgetItem.statistic ?? 'Sum',
+              }),
+          ),
+        });
+    }
   }
 
   private configureCloudwatchLogGroups() {
@@ -912,6 +1221,163 @@ export class SecurityResourcesStack extends AcceleratorStack {
     }
   }
 
+  /**
+   * Function to setup AWS Config conformance packs. Organization conformance packs
+   * are deployed from the security delegated administrator account
+   */
+  private setupConformancePacks() {
+    const delegatedAdminAccountId = this.props.accountsConfig.getAccountId(
+      this.props.securityConfig.centralSecurityServices.delegatedAdminAccount,
+    );
+
+    for (const pack of this.props.securityConfig.awsConfig.conformancePacks ?? []) {
+      let conformancePack: cdk.aws_config.CfnConformancePack | cdk.aws_config.CfnOrganizationConformancePack;
+      if (pack.organization) {
+        if (
+          cdk.Stack.of(this).account !== delegatedAdminAccountId ||
+          (pack.organization.excludedRegions ?? []).includes(cdk.Stack.of(this).region as Region)
+        ) {
+          continue;
+        }
+        this.logger.info(`Adding organization conformance pack ${pack.name}`);
+        conformancePack = new cdk.aws_config.CfnOrganizationConformancePack(
+          this,
+          pascalCase(`${pack.name}OrganizationConformancePack`),
+          {
+            organizationConformancePackName: pack.name,
+            templateS3Uri: this.getConformancePackTemplateUri(pack),
+            conformancePackInputParameters: this.getConformancePackInputParameters(pack),
+            excludedAccounts: pack.organization.excludedAccounts?.map(account =>
+              this.props.accountsConfig.getAccountId(account),
+            ),
+          },
+        );
+      } else if (pack.deploymentTargets && this.isIncluded(pack.deploymentTargets)) {
+        this.logger.info(`Adding conformance pack ${pack.name}`);
+        conformancePack = new cdk.aws_config.CfnConformancePack(this, pascalCase(`${pack.name}ConformancePack`), {
+          conformancePackName: pack.name,
+          templateS3Uri: this.getConformancePackTemplateUri(pack),
+          conformancePackInputParameters: this.getConformancePackInputParameters(pack),
+        });
+      } else {
+        continue;
+      }
+
+      if (this.configRecorder) {
+        conformancePack.node.addDependency(this.configRecorder);
+      }
+    }
+  }
+
+  /**
+   * Function to setup the Security Lake data lake, its AWS log sources and subscribers
+   * in the home region of the Security Lake delegated administrator account
+   */
+  private setupSecurityLake() {
+    const securityLake = this.props.securityConfig.centralSecurityServices.securityLake;
+    if (
+      !securityLake?.enable ||
+      cdk.Stack.of(this).account !==
+        this.props.accountsConfig.getAccountId(this.props.securityConfig.getSecurityLakeDelegatedAccountName()) ||
+      cdk.Stack.of(this).region !== this.props.globalConfig.homeRegion
+    ) {
+      return;
+    }
+
+    const regions = this.props.globalConfig.enabledRegions.filter(
+      region => !(securityLake.excludeRegions ?? []).includes(region),
+    );
+
+    this.logger.info(`Adding Security Lake data lake in regions ${regions.join(',')}`);
+    const dataLake = new SecurityLakeDataLake(this, 'SecurityLakeDataLake', {
+      regions,
+      expiration: securityLake.lifecycle?.expiration,
+      transitions: securityLake.lifecycle?.transitions,
+      rollupRegions: securityLake.rollupRegions,
+      kmsKey: this.cloudwatchKey,
+      logRetentionInDays: this.props.globalConfig.cloudwatchLogRetentionInDays,
+    });
+
+    NagSuppressions.addResourceSuppressionsByPath(
+      this,
+      `${this.stackName}/SecurityLakeDataLake/MetaStoreManagerRole/Resource`,
+      [
+        {
+          id: 'AwsSolutions-IAM4',
+          reason: 'Security Lake metastore manager requires the AWS managed policy.',
+        },
+      ],
+    );
+    if ((securityLake.rollupRegions ?? []).length > 0) {
+      NagSuppressions.addResourceSuppressionsByPath(
+        this,
+        `${this.stackName}/SecurityLakeDataLake/ReplicationRole/DefaultPolicy/Resource`,
+        [
+          {
+            id: 'AwsSolutions-IAM5',
+            reason: 'Security Lake bucket names are generated by the service.',
+          },
+        ],
+      );
+    }
+
+    const logSources = new SecurityLakeLogSources(this, 'SecurityLakeLogSources', {
+      sources: (securityLake.sources ?? []).map(source => ({
+        sourceName: source.name,
+        sourceVersion: source.version,
+        accounts: this.getAccountIdsFromDeploymentTarget(source.deploymentTargets),
+        regions: this.getRegionsFromDeploymentTarget(source.deploymentTargets).filter(region =>
+          regions.includes(region),
+        ),
+      })),
+      kmsKey: this.cloudwatchKey,
+      logRetentionInDays: this.props.globalConfig.cloudwatchLogRetentionInDays,
+    });
+    logSources.node.addDependency(dataLake);
+
+    for (const subscriber of securityLake.subscribers ?? []) {
+      this.logger.info(`Adding Security Lake subscriber ${subscriber.name}`);
+      new SecurityLakeSubscriber(this, pascalCase(`${subscriber.name}SecurityLakeSubscriber`), {
+        name: subscriber.name,
+        description: subscriber.description,
+        accountId: /^\d{12}$/.test(subscriber.account)
+          ? subscriber.account
+          : this.props.accountsConfig.getAccountId(subscriber.account),
+        externalId: subscriber.externalId,
+        accessTypes: subscriber.accessTypes,
+        sources: subscriber.sources.map(sourceName => ({
+          sourceName,
+          sourceVersion: securityLake.sources?.find(source => source.name === sourceName)?.version,
+        })),
+        kmsKey: this.cloudwatchKey,
+        logRetentionInDays: this.props.globalConfig.cloudwatchLogRetentionInDays,
+      }).node.addDependency(logSources);
+    }
+  }
+
+  /**
+   * Function to upload a conformance pack template as an asset
+   * @param pack
+   * @returns
+   */
+  private getConformancePackTemplateUri(pack: ConformancePackConfig): string {
+    return new cdk.aws_s3_assets.Asset(this, pascalCase(`${pack.name}ConformancePackTemplate`), {
+      path: path.join(this.props.configDirPath, pack.templateFile),
+    }).s3ObjectUrl;
+  }
+
+  private getConformancePackInputParameters(
+    pack: ConformancePackConfig,
+  ): cdk.aws_config.CfnConformancePack.ConformancePackInputParameterProperty[] | undefined {
+    if (!pack.inputParameters) {
+      return undefined;
+    }
+    return Object.entries(pack.inputParameters).map(([parameterName, parameterValue]) => ({
+      parameterName,
+      parameterValue,
+    }));
+  }
+
   private getComparisonOperator(comparisonOperator: string): cdk.aws_cloudwatch.ComparisonOperator {
     if (comparisonOperator === 'GreaterThanOrEqualToThreshold') {
       return cdk.aws_cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD;
@@ -17,6 +17,7 @@ import { Construct } from 'constructs';
 import { NagSuppressions } from 'cdk-nag';
 
 import { Region } from '@aws-accelerator/config';
+import { SsmResourceType } from '@aws-accelerator/utils';
 import {
   AcceleratorMetadata,
   EbsDefaultEncryption,
@@ -24,6 +25,9 @@ import {
   KeyLookup,
   MacieExportConfigClassification,
   PasswordPolicy,
+  PutSsmParameter,
+  SecurityHubControlParameters,
+  SecurityHubControlParametersProps,
   SecurityHubStandards,
   ConfigAggregation,
 } from '@aws-accelerator/constructs';
@@ -106,6 +110,11 @@ export class SecurityStack extends AcceleratorStack {
     // Update IAM Password Policy
     //
     this.updateIamPasswordPolicy();
+
+    //
+    // CloudWatch cross-account observability sink
+    //
+    this.configureObservabilitySink();
     //
     // Create Accelerator Metadata Rule
     //
@@ -198,7 +207,13 @@ export class SecurityStack extends AcceleratorStack {
       ) === -1
     ) {
       if (this.props.accountsConfig.containsAccount(this.auditAccountName)) {
-        const standards: { name: string; enable: boolean; controlsToDisable: string[] }[] = [];
+        const standards: {
+          name: string;
+          enable: boolean;
+          controlsToDisable: string[];
+          disabledReasons: { [controlId: string]: string };
+        }[] = [];
+        const controlParameters: SecurityHubControlParametersProps['controls'] = [];
         for (const standard of this.props.securityConfig.centralSecurityServices.securityHub.standards) {
           if (standard.deploymentTargets) {
             if (!this.isIncluded(standard.deploymentTargets)) {
@@ -206,19 +221,66 @@ export class SecurityStack extends AcceleratorStack {
               continue;
             }
           }
+
+          // Apply the control overrides targeting this account on top of the controls disabled for the standard
+          const controlsToDisable = [...(standard.controlsToDisable ?? [])];
+          const disabledReasons: { [controlId: string]: string } = {};
+          for (const override of standard.controlOverrides ?? []) {
+            if (!this.isIncluded(override.deploymentTargets)) {
+              continue;
+            }
+            const index = controlsToDisable.indexOf(override.controlId);
+            if (override.enable && index !== -1) {
+              controlsToDisable.splice(index, 1);
+            } else if (!override.enable) {
+              if (index === -1) {
+                controlsToDisable.push(override.controlId);
+              }
+              disabledReasons[override.controlId] = override.justification;
+            }
+          }
+
           // add to standards list
           standards.push({
             name: standard.name,
             enable: standard.enable,
-            controlsToDisable: standard.controlsToDisable,
+            controlsToDisable,
+            disabledReasons,
           });
+
+          if (!standard.enable) {
+            continue;
+          }
+          for (const controlParameter of standard.controlParameters ?? []) {
+            if (controlParameter.deploymentTargets && !this.isIncluded(controlParameter.deploymentTargets)) {
+              continue;
+            }
+            controlParameters.push({
+              controlId: controlParameter.controlId,
+              parameters: controlParameter.parameters,
+              justification: controlParameter.justification,
+            });
+          }
         }
         if (standards.length > 0) {
-          new SecurityHubStandards(this, 'SecurityHubStandards', {
+          const securityHubStandards = new SecurityHubStandards(this, 'SecurityHubStandards', {
             standards,
             kmsKey: this.cloudwatchKey,
             logRetentionInDays: this.props.globalConfig.cloudwatchLogRetentionInDays,
           });
+
+          if (controlParameters.length > 0) {
+            const securityHubControlParameters = new SecurityHubControlParameters(
+              this,
+              'SecurityHubControlParameters',
+              {
+                controls: controlParameters,
+                kmsKey: this.cloudwatchKey,
+                logRetentionInDays: this.props.globalConfig.cloudwatchLogRetentionInDays,
+              },
+            );
+            securityHubControlParameters.node.addDependency(securityHubStandards);
+          }
         }
       } else {
         this.logger.error(`SecurityHub audit delegated admin account name "${this.auditAccountName}" not found.`);
@@ -358,6 +420,66 @@ export class SecurityStack extends AcceleratorStack {
     }
   }
 
+  /**
+   * Function to create the CloudWatch Observability Access Manager sink in the sink account
+   * and share its ARN with the source accounts, which link to it from the SecurityResources stack
+   */
+  private configureObservabilitySink() {
+    const observability = this.props.securityConfig.cloudWatch.observability;
+    if (
+      !observability ||
+      observability.excludeRegions?.includes(cdk.Stack.of(this).region as Region) ||
+      this.props.accountsConfig.getAccountId(observability.sinkAccount) !== cdk.Stack.of(this).account
+    ) {
+      return;
+    }
+
+    const sourceAccountIds = this.props.accountsConfig
+      .getAccountIdsFromDeploymentTarget(observability.deploymentTargets)
+      .filter(item => item !== cdk.Stack.of(this).account);
+    if (sourceAccountIds.length === 0) {
+      this.logger.warn(`CloudWatch observability sink ${observability.sinkName} has no source accounts`);
+      return;
+    }
+
+    const sink = new cdk.aws_oam.CfnSink(this, 'ObservabilitySink', {
+      name: observability.sinkName,
+      policy: {
+        Version: '2012-10-17',
+        Statement: [
+          {
+            Effect: 'Allow',
+            Principal: { AWS: sourceAccountIds },
+            Action: ['oam:CreateLink', 'oam:UpdateLink'],
+            Resource: '*',
+            Condition: {
+              'ForAllValues:StringEquals': {
+                'oam:ResourceTypes': this.getObservabilityResourceTypes(observability.resourceTypes),
+              },
+            },
+          },
+        ],
+      },
+    });
+
+    const parameterName = this.getSsmPath(SsmResourceType.OAM_SINK, [observability.sinkName]);
+    this.ssmParameters.push({
+      logicalId: 'SsmParamObservabilitySinkArn',
+      parameterName,
+      stringValue: sink.attrArn,
+    });
+    new PutSsmParameter(this, 'CrossAcctSsmParamObservabilitySinkArn', {
+      accountIds: sourceAccountIds,
+      region: cdk.Stack.of(this).region,
+      roleName: this.acceleratorResourceNames.roles.crossAccountSsmParameterShare,
+      kmsKey: this.cloudwatchKey,
+      logRetentionInDays: this.props.globalConfig.cloudwatchLogRetentionInDays,
+      parameters: [{ name: parameterName, value: sink.attrArn }],
+      invokingAccountId: cdk.Stack.of(this).account,
+      acceleratorPrefix: this.props.prefixes.accelerator,
+    });
+  }
+
   /**
    * Function to update IAM password policy
    */
@@ -26,10 +26,17 @@ import { HotswapMode } from 'aws-cdk/lib/api/hotswap/common';
 import * as fs from 'fs';
 import * as path from 'path';
 
-import { AccountsConfig, cdkOptionsConfig, CustomizationsConfig, OrganizationConfig } from '@aws-accelerator/config';
+import {
+  AccountsConfig,
+  cdkOptionsConfig,
+  CustomizationsConfig,
+  OrganizationConfig,
+  ReplacementsConfig,
+} from '@aws-accelerator/config';
 import { createLogger } from '@aws-accelerator/utils';
 
 import { AcceleratorStackNames } from './accelerator';
+import { AcceleratorPlan, AcceleratorPlanStack } from './accelerator-plan';
 import { AcceleratorStage } from './accelerator-stage';
 import { isIncluded } from './stacks/custom-stack';
 
@@ -45,11 +52,13 @@ const stackPrefix = process.env['ACCELERATOR_PREFIX']!;
  *
  */
 export enum AcceleratorToolkitCommand {
-  BOOTSTRAP = Command.BOOTSTRAP,
-  DEPLOY = Command.DEPLOY,
-  DIFF = Command.DIFF,
-  SYNTH = Command.SYNTH,
-  SYNTHESIZE = Command.SYNTHESIZE,
+  // Values match the aws-cdk Command enum, plus the accelerator plan command
+  BOOTSTRAP = 'bootstrap',
+  DEPLOY = 'deploy',
+  DIFF = 'diff',
+  SYNTH = 'synth',
+  SYNTHESIZE = 'synthesize',
+  PLAN = 'plan',
 }
 
 /**
@@ -69,7 +78,7 @@ export class AcceleratorToolkit {
     if (command === undefined) {
       return false;
     }
-    return Object.values(AcceleratorToolkitCommand).includes(command);
+    return Object.values(AcceleratorToolkitCommand).includes(command as AcceleratorToolkitCommand);
   }
 
   /**
@@ -94,6 +103,8 @@ export class AcceleratorToolkit {
     proxyAddress?: string;
     centralizeCdkBootstrap?: boolean;
     cdkOptions?: cdkOptionsConfig;
+    baselineDirPath?: string;
+    outputDirPath?: string;
     enableSingleAccountMode: boolean;
   }): Promise<void> {
     if (options.accountId || options.region) {
@@ -130,7 +141,8 @@ export class AcceleratorToolkit {
 
     const configuration = new Configuration({
       commandLineArguments: {
-        _: [options.command as Command, ...[]],
+        // The plan command synthesizes the app the same way synth does
+        _: [(options.command === AcceleratorToolkitCommand.PLAN ? Command.SYNTH : options.command) as Command, ...[]],
         versionReporting: false,
         pathMetadata: false,
         output: 'cdk.out',
@@ -270,8 +282,9 @@ export class AcceleratorToolkit {
             throw new Error('Customizations stage requires an argument for configuration directory path');
           }
           if (fs.existsSync(path.join(options.configDirPath, 'customizations-config.yaml'))) {
-            const customizationsConfig = CustomizationsConfig.load(options.configDirPath);
-            const accountsConfig = AccountsConfig.load(options.configDirPath);
+            const replacementsConfig = ReplacementsConfig.load(options.configDirPath);
+            const customizationsConfig = CustomizationsConfig.load(options.configDirPath, replacementsConfig);
+            const accountsConfig = AccountsConfig.load(options.configDirPath, replacementsConfig);
             await accountsConfig.loadAccountIds(options.partition, options.enableSingleAccountMode);
             const customStacks = customizationsConfig.getCustomStacks();
             for (const stack of customStacks) {
@@ -282,7 +295,7 @@ export class AcceleratorToolkit {
               }
             }
             const appStacks = customizationsConfig.getAppStacks();
-            const organizationConfig = OrganizationConfig.load(options.configDirPath);
+            const organizationConfig = OrganizationConfig.load(options.configDirPath, replacementsConfig);
             for (const application of appStacks) {
               if (
                 isIncluded(
@@ -326,10 +339,68 @@ export class AcceleratorToolkit {
       case Command.SYNTH:
         await cli.synth([], false, true);
         break;
+      case AcceleratorToolkitCommand.PLAN:
+        await AcceleratorToolkit.plan({
+          cloudExecutable,
+          cloudFormation,
+          baselineDirPath: options.baselineDirPath,
+          outputDirPath: options.outputDirPath ?? 'plan',
+        });
+        break;
 
       default:
         logger.error(`Unsupported command: ${options.command}`);
         throw new Error(`Unsupported command: ${options.command}`);
     }
   }
+
+  /**
+   * Synthesize all stacks and write a plan report of the resource changes
+   * compared to a baseline. The baseline is a previously synthesized cloud
+   * assembly directory when provided, otherwise the deployed stack templates.
+   *
+   * @param props
+   */
+  private static async plan(props: {
+    cloudExecutable: CloudExecutable;
+    cloudFormation: CloudFormationDeployments;
+    baselineDirPath?: string;
+    outputDirPath: string;
+  }): Promise<void> {
+    const cloudAssembly = await props.cloudExecutable.synthesize();
+    const stackPlans: AcceleratorPlanStack[] = [];
+
+    for (const stack of cloudAssembly.assembly.stacksRecursively) {
+      let currentTemplate = {};
+      if (props.baselineDirPath) {
+        const baselineTemplatePath = path.join(
+          props.baselineDirPath,
+          path.relative(cloudAssembly.assembly.directory, stack.templateFullPath),
+        );
+        if (fs.existsSync(baselineTemplatePath)) {
+          currentTemplate = JSON.parse(fs.readFileSync(baselineTemplatePath, 'utf8'));
+        }
+      } else {
+        currentTemplate = await props.cloudFormation.readCurrentTemplate(stack);
+      }
+
+      stackPlans.push(
+        AcceleratorPlan.createStackPlan({
+          stackName: stack.stackName,
+          accountId: stack.environment.account,
+          region: stack.environment.region,
+          currentTemplate,
+          newTemplate: stack.template,
+        }),
+      );
+    }
+
+    const plan = new AcceleratorPlan(stackPlans);
+    plan.write(props.outputDirPath);
+
+    const flaggedCount = plan.stacks.flatMap(stack => stack.changes).filter(change => change.flagged).length;
+    if (flaggedCount > 0) {
+      logger.warn(`Plan will replace or delete ${flaggedCount} stateful resource(s)`);
+    }
+  }
 }
@@ -35,6 +35,10 @@ export interface ValidateEnvironmentConfigProps {
     targets: { name: string; id: string }[];
   }[];
   readonly policyTagKey: string;
+  /**
+   * Identity Center principals referenced by name, resolved in the identity store
+   */
+  readonly identityCenterPrincipals: { principalType: string; principalName: string }[];
   /**
    * Custom resource lambda log group encryption key
    */
@@ -113,6 +117,12 @@ export class ValidateEnvironmentConfig extends Construct {
           Action: ['ssm:GetParameter'],
           Resource: [props.driftDetectionParameter.parameterArn, props.driftDetectionMessageParameter.parameterArn],
         },
+        {
+          Sid: 'IdentityCenterPrincipalLookup',
+          Effect: 'Allow',
+          Action: ['sso:ListInstances', 'identitystore:GetGroupId', 'identitystore:GetUserId'],
+          Resource: '*',
+        },
       ],
     });
 
@@ -136,6 +146,7 @@ export class ValidateEnvironmentConfig extends Construct {
         driftDetectionParameterName: props.driftDetectionParameter.parameterName,
         driftDetectionMessageParameterName: props.driftDetectionMessageParameter.parameterName,
         serviceControlPolicies: props.serviceControlPolicies,
+        identityCenterPrincipals: props.identityCenterPrincipals,
         uuid: uuidv4(), // Generates a new UUID to force the resource to update
       },
     });
@@ -0,0 +1,93 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AcceleratorPlan } from '../lib/accelerator-plan';
+
+const currentTemplate = {
+  Resources: {
+    Bucket: { Type: 'AWS::S3::Bucket', Properties: { BucketName: 'bucket-a' } },
+    Topic: { Type: 'AWS::SNS::Topic', Properties: { DisplayName: 'a' } },
+    Key: { Type: 'AWS::KMS::Key', Properties: { Description: 'a' } },
+    CDKMetadata: { Type: 'AWS::CDK::Metadata', Properties: { Analytics: 'a' } },
+  },
+};
+
+const newTemplate = {
+  Resources: {
+    Bucket: { Type: 'AWS::S3::Bucket', Properties: { BucketName: 'bucket-b' } },
+    Topic: { Type: 'AWS::SNS::Topic', Properties: { DisplayName: 'b' } },
+    Queue: { Type: 'AWS::SQS::Queue' },
+    CDKMetadata: { Type: 'AWS::CDK::Metadata', Properties: { Analytics: 'b' } },
+  },
+};
+
+describe('accelerator-plan', () => {
+  const stackPlan = AcceleratorPlan.createStackPlan({
+    stackName: 'AWSAccelerator-SecurityStack-111111111111-us-east-1',
+    accountId: '111111111111',
+    region: 'us-east-1',
+    currentTemplate,
+    newTemplate,
+  });
+  const plan = new AcceleratorPlan([
+    stackPlan,
+    AcceleratorPlan.createStackPlan({
+      stackName: 'AWSAccelerator-SecurityStack-222222222222-us-east-1',
+      accountId: '222222222222',
+      region: 'us-east-1',
+      currentTemplate: newTemplate,
+      newTemplate,
+    }),
+  ]);
+
+  it('classifies resource changes', () => {
+    expect(stackPlan.changes.map(change => [change.logicalId, change.action, change.flagged])).toStrictEqual([
+      ['Bucket', 'replace', true],
+      ['Key', 'delete', true],
+      ['Queue', 'add', false],
+      ['Topic', 'change', false],
+    ]);
+  });
+
+  it('groups changes by account, region and resource type', () => {
+    const json = plan.toJson();
+    expect(json.summary).toStrictEqual({ add: 1, change: 1, replace: 1, delete: 1, flagged: 2 });
+    expect(json.accounts.map(account => account.accountId)).toStrictEqual(['111111111111']);
+    expect(json.accounts[0].regions[0].resourceTypes.map(item => item.resourceType)).toStrictEqual([
+      'AWS::KMS::Key',
+      'AWS::S3::Bucket',
+      'AWS::SNS::Topic',
+      'AWS::SQS::Queue',
+    ]);
+    expect(json.flagged.map(item => item.logicalId)).toStrictEqual(['Bucket', 'Key']);
+  });
+
+  it('writes markdown and json reports', () => {
+    const outputDirPath = fs.mkdtempSync(path.join(os.tmpdir(), 'accel-plan'));
+    plan.write(outputDirPath);
+    expect(fs.readFileSync(path.join(outputDirPath, AcceleratorPlan.MARKDOWN_FILENAME), 'utf8')).toContain(
+      '## Stateful resources replaced or deleted',
+    );
+    expect(
+      JSON.parse(fs.readFileSync(path.join(outputDirPath, AcceleratorPlan.JSON_FILENAME), 'utf8')).summary.flagged,
+    ).toEqual(2);
+  });
+
+  it('reports no changes', () => {
+    expect(new AcceleratorPlan([]).toMarkdown()).toContain('No changes.');
+  });
+});
@@ -13,11 +13,14 @@
 
 export * from './lib/accounts-config';
 export * from './lib/common-types';
+export * from './lib/config-includes';
+export * from './lib/config-overlay';
 export * from './lib/customizations-config';
 export * from './lib/global-config';
 export * from './lib/iam-config';
 export * from './lib/network-config';
 export * from './lib/organization-config';
+export * from './lib/replacements-config';
 export * from './lib/security-config';
 export * from './validator/accounts-config-validator';
 export * from './validator/customizations-config-validator';
@@ -12,13 +12,12 @@
  */
 
 import * as AWS from 'aws-sdk';
-import * as fs from 'fs';
-import * as yaml from 'js-yaml';
-import * as path from 'path';
 
 import { createLogger, throttlingBackOff } from '@aws-accelerator/utils';
 
 import * as t from './common-types';
+import { ConfigIncludes } from './config-includes';
+import { ReplacementsConfig } from './replacements-config';
 
 const logger = createLogger(['accounts-config']);
 /**
@@ -281,12 +280,13 @@ export class AccountsConfig implements t.TypeOf<typeof AccountsConfigTypes.accou
   /**
    *
    * @param dir
+   * @param replacementsConfig
    * @param validateConfig
    * @returns
    */
-  static load(dir: string): AccountsConfig {
-    const buffer = fs.readFileSync(path.join(dir, AccountsConfig.FILENAME), 'utf8');
-    const values = t.parse(AccountsConfigTypes.accountsConfig, yaml.load(buffer));
+  static load(dir: string, replacementsConfig?: ReplacementsConfig): AccountsConfig {
+    const includes = ConfigIncludes.load(dir, AccountsConfig.FILENAME, replacementsConfig);
+    const values = t.parse(AccountsConfigTypes.accountsConfig, includes.values, includes);
 
     const managementAccountEmail =
       values.mandatoryAccounts.find(value => value.name == AccountsConfig.MANAGEMENT_ACCOUNT)?.email ||
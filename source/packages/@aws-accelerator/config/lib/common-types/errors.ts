@@ -0,0 +1,67 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+/**
+ * A single configuration error, optionally located in the source file
+ */
+export interface ConfigErrorDetail {
+  /**
+   * The error message
+   */
+  readonly message: string;
+  /**
+   * The configuration file name, i.e. network-config.yaml
+   */
+  readonly file?: string;
+  /**
+   * The path of the offending value, i.e. vpcs/0/subnets/1/ipv4CidrBlock
+   */
+  readonly path?: string;
+  /**
+   * The 1-based line of the offending value
+   */
+  readonly line?: number;
+  /**
+   * The 1-based column of the offending value
+   */
+  readonly column?: number;
+  /**
+   * The source line of the offending value
+   */
+  readonly snippet?: string;
+}
+
+/**
+ * Error thrown when a configuration file fails schema or semantic validation.
+ * The message is human readable, `errors` holds the individual errors for reporting tools.
+ */
+export class ConfigValidationError extends Error {
+  constructor(message: string, readonly file: string | undefined, readonly errors: ConfigErrorDetail[]) {
+    super(message);
+    this.name = 'ConfigValidationError';
+  }
+
+  /**
+   * Create an error from the messages collected by a config validator
+   * @param file
+   * @param messages
+   * @returns
+   */
+  static fromMessages(file: string, messages: string[]): ConfigValidationError {
+    return new ConfigValidationError(
+      `${file} has ${messages.length} issues:\n${messages.join('\n')}`,
+      file,
+      messages.map(message => ({ message, file })),
+    );
+  }
+}
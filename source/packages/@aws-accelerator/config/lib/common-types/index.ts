@@ -11,6 +11,9 @@
  *  and limitations under the License.
  */
 
+export * from './errors';
+export * from './json-schema';
 export * from './parse';
 export * from './reporter';
+export * from './source-map';
 export * from './types';
@@ -0,0 +1,222 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import * as t from 'io-ts';
+import { CidrType, DefaultedType, EnumType, Ipv6CidrType, OptionalType, SizedType } from './types';
+
+/**
+ * A JSON Schema (draft-07) node
+ */
+export type JsonSchema = { [key: string]: any };
+
+/**
+ * Descriptions of a named io-ts type, usually pulled from the TSDoc of
+ * the class implementing the type
+ */
+export interface JsonSchemaDescription {
+  /**
+   * Description of the type
+   */
+  readonly description?: string;
+  /**
+   * Descriptions of the properties of the type, keyed by property name
+   */
+  readonly properties?: { [name: string]: string };
+}
+
+export interface JsonSchemaGeneratorProps {
+  /**
+   * Named io-ts types, keyed by a unique name, i.e. `NetworkConfigTypes.vpcConfig`.
+   * Interface and enum types found here are emitted once as definitions and referenced.
+   */
+  readonly namedTypes: { [name: string]: t.Any };
+  /**
+   * Descriptions of named types, keyed by the same name as `namedTypes`
+   */
+  readonly descriptions?: { [name: string]: JsonSchemaDescription };
+}
+
+/**
+ * Generates JSON Schema documents from io-ts types, including the
+ * accelerator custom types `OptionalType`, `DefaultedType`, `SizedType` and `EnumType`.
+ */
+export class JsonSchemaGenerator {
+  static readonly SCHEMA_VERSION = 'http://json-schema.org/draft-07/schema#';
+
+  private readonly names: Map<t.Any, string> = new Map();
+  private readonly descriptions: { [name: string]: JsonSchemaDescription };
+
+  constructor(props: JsonSchemaGeneratorProps) {
+    for (const [name, type] of Object.entries(props.namedTypes)) {
+      if ((type instanceof t.InterfaceType || type instanceof EnumType) && !this.names.has(type)) {
+        this.names.set(type, name);
+      }
+    }
+    this.descriptions = props.descriptions ?? {};
+  }
+
+  /**
+   * Returns the io-ts types found in the static members of a `*ConfigTypes` class
+   * or in the exports of a module, keyed by `<prefix>.<member>`.
+   * @param members
+   * @param prefix
+   * @returns
+   */
+  static collectNamedTypes(members: object, prefix?: string): { [name: string]: t.Any } {
+    const namedTypes: { [name: string]: t.Any } = {};
+    for (const [member, value] of Object.entries(members)) {
+      if (value instanceof t.Type) {
+        namedTypes[prefix ? `${prefix}.${member}` : member] = value as t.Any;
+      }
+    }
+    return namedTypes;
+  }
+
+  /**
+   * Generate a schema document for the given root type
+   * @param type
+   * @param title
+   * @returns
+   */
+  generate(type: t.Any, title?: string): JsonSchema {
+    const definitions: { [name: string]: JsonSchema } = {};
+    const root = this.toSchema(type, definitions, true);
+    const schema: JsonSchema = { $schema: JsonSchemaGenerator.SCHEMA_VERSION };
+    if (title) {
+      schema['title'] = title;
+    }
+    Object.assign(schema, root);
+    if (Object.keys(definitions).length > 0) {
+      schema['definitions'] = Object.fromEntries(
+        Object.keys(definitions)
+          .sort()
+          .map(name => [name, definitions[name]]),
+      );
+    }
+    return schema;
+  }
+
+  private toSchema(type: t.Any, definitions: { [name: string]: JsonSchema }, isRoot = false): JsonSchema {
+    const name = this.names.get(type);
+    if (name && !isRoot) {
+      if (!definitions[name]) {
+        // Register the definition before walking it so nested references resolve
+        definitions[name] = {};
+        Object.assign(definitions[name], this.toInlineSchema(type, definitions));
+      }
+      return { $ref: `#/definitions/${name}` };
+    }
+    return this.toInlineSchema(type, definitions);
+  }
+
+  private toInlineSchema(type: t.Any, definitions: { [name: string]: JsonSchema }): JsonSchema {
+    if (type instanceof OptionalType) {
+      return this.toSchema(type.type, definitions);
+    }
+    if (type instanceof DefaultedType) {
+      return { ...this.toSchema(type.type, definitions), default: type.defaultValue };
+    }
+    if (type instanceof SizedType) {
+      return this.toSizedSchema(type, definitions);
+    }
+    if (type instanceof EnumType) {
+      return { enum: [...type.values] };
+    }
+    if (type instanceof CidrType) {
+      return { type: 'string', pattern: '^([0-9]{1,3}\\.){3}[0-9]{1,3}/[0-9]{1,2}$' };
+    }
+    if (type instanceof Ipv6CidrType) {
+      return { type: 'string', pattern: '^[0-9a-fA-F:]+/[0-9]{1,3}$' };
+    }
+    if (type instanceof t.InterfaceType) {
+      return this.toObjectSchema(type, definitions);
+    }
+    if (type instanceof t.PartialType) {
+      return this.toObjectSchema(type, definitions, true);
+    }
+    if (type instanceof t.ArrayType) {
+      return { type: 'array', items: this.toSchema(type.type, definitions) };
+    }
+    if (type instanceof t.DictionaryType) {
+      return { type: 'object', additionalProperties: this.toSchema(type.codomain, definitions) };
+    }
+    if (type instanceof t.UnionType) {
+      return { anyOf: type.types.map((item: t.Any) => this.toSchema(item, definitions)) };
+    }
+    if (type instanceof t.IntersectionType) {
+      return { allOf: type.types.map((item: t.Any) => this.toSchema(item, definitions)) };
+    }
+    if (type instanceof t.LiteralType) {
+      return { const: type.value };
+    }
+    if (type instanceof t.StringType) {
+      return { type: 'string' };
+    }
+    if (type instanceof t.NumberType) {
+      return { type: 'number' };
+    }
+    if (type instanceof t.BooleanType) {
+      return { type: 'boolean' };
+    }
+    return {};
+  }
+
+  private toSizedSchema(type: SizedType<any, any>, definitions: { [name: string]: JsonSchema }): JsonSchema {
+    const schema = { ...this.toSchema(type.type, definitions) };
+    const [minKey, maxKey] =
+      schema['type'] === 'array'
+        ? ['minItems', 'maxItems']
+        : schema['type'] === 'number'
+        ? ['minimum', 'maximum']
+        : ['minLength', 'maxLength'];
+    if (type.min !== undefined) {
+      schema[minKey] = type.min;
+    }
+    if (type.max !== undefined) {
+      schema[maxKey] = type.max;
+    }
+    return schema;
+  }
+
+  private toObjectSchema(
+    type: t.InterfaceType<t.Props> | t.PartialType<t.Props>,
+    definitions: { [name: string]: JsonSchema },
+    isPartial = false,
+  ): JsonSchema {
+    const description = this.descriptions[this.names.get(type) ?? ''];
+    const properties: { [name: string]: JsonSchema } = {};
+    const required: string[] = [];
+
+    for (const [property, propertyType] of Object.entries(type.props as t.Props)) {
+      const propertySchema = this.toSchema(propertyType, definitions);
+      const propertyDescription = description?.properties?.[property];
+      properties[property] = propertyDescription
+        ? { description: propertyDescription, ...propertySchema }
+        : propertySchema;
+      if (!isPartial && !(propertyType instanceof OptionalType) && !(propertyType instanceof DefaultedType)) {
+        required.push(property);
+      }
+    }
+
+    const schema: JsonSchema = { type: 'object' };
+    if (description?.description) {
+      schema['description'] = description.description;
+    }
+    schema['properties'] = properties;
+    if (required.length > 0) {
+      schema['required'] = required;
+    }
+    return schema;
+  }
+}
@@ -13,14 +13,30 @@
 
 import * as t from 'io-ts';
 import { isLeft } from 'fp-ts/lib/Either';
-import { PathReporter } from './reporter';
+import { ConfigErrorDetail, ConfigValidationError } from './errors';
+import { getMessage, getValuePath } from './reporter';
+import { ConfigSourceMap } from './source-map';
 
-export function parse<S, T>(type: t.Decoder<S, T>, content: S): T {
+/**
+ * Decode content with the given type. Throws a {@link ConfigValidationError} if the content is invalid.
+ * When a source map is provided, each error carries the file, line and column of the offending value.
+ * @param type
+ * @param content
+ * @param sourceMap
+ * @returns
+ */
+export function parse<S, T>(type: t.Decoder<S, T>, content: S, sourceMap?: ConfigSourceMap): T {
   const result = type.decode(content);
   if (isLeft(result)) {
-    const errors = PathReporter.report(result).map(error => `* ${error}`);
+    const details: ConfigErrorDetail[] = result.left.map(error => {
+      const detail = { message: getMessage(error), path: getValuePath(error.context) };
+      return sourceMap ? sourceMap.locate(detail) : detail;
+    });
+    const errors = details.map(
+      detail => `* ${detail.message}${detail.line ? ` (${detail.file}:${detail.line}:${detail.column})` : ''}`,
+    );
     const errorMessage = errors.join('\n');
-    throw new Error(`Could not parse content:\n${errorMessage}`);
+    throw new ConfigValidationError(`Could not parse content:\n${errorMessage}`, sourceMap?.file, details);
   }
   return result.right;
 }
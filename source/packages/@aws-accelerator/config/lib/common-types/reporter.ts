@@ -33,7 +33,26 @@ function getContextPath(context: Context): string {
   return context.map(({ key }) => key).join('/');
 }
 
-function getMessage(e: ValidationError): string {
+/**
+ * Returns the path of the validated value in the input, i.e. `vpcs/0/name`.
+ * Unlike the context path, union and intersection member indexes are omitted.
+ */
+export function getValuePath(context: Context): string {
+  return context
+    .filter(
+      (entry, index) =>
+        entry.key !== '' && !(index > 0 && ['UnionType', 'IntersectionType'].includes(getTag(context[index - 1].type))),
+    )
+    .map(({ key }) => key)
+    .join('/');
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function getTag(type: any): string {
+  return type?._tag ?? '';
+}
+
+export function getMessage(e: ValidationError): string {
   return e.message !== undefined
     ? `${e.message} at ${getContextPath(e.context)}`
     : `Invalid value ${stringify(e.value)} supplied to ${getContextPath(e.context)}`;
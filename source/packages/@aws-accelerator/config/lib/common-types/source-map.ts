@@ -0,0 +1,208 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { parseDocument } from 'yaml';
+import { Node, Pair, Scalar, YAMLMap, YAMLSeq } from 'yaml/types';
+
+import { ConfigErrorDetail } from './errors';
+
+/**
+ * A location in a configuration file
+ */
+export interface ConfigSourceLocation {
+  readonly file: string;
+  readonly path: string;
+  readonly line: number;
+  readonly column: number;
+  readonly snippet: string;
+}
+
+/**
+ * Locates errors in the configuration files a configuration was loaded from
+ */
+export interface ConfigSourceMap {
+  /**
+   * The configuration file name, i.e. network-config.yaml
+   */
+  readonly file: string;
+  /**
+   * Add the location of an error, either by its value path or by its message
+   */
+  locate(detail: ConfigErrorDetail): ConfigErrorDetail;
+}
+
+interface ScalarEntry {
+  readonly path: string[];
+  readonly key: string;
+  readonly value: string;
+}
+
+/**
+ * Maps value paths of a YAML configuration file, i.e. `vpcs/0/subnets/1/name`,
+ * to their line and column in the file. The document is parsed on first use.
+ */
+export class YamlSourceMap implements ConfigSourceMap {
+  private readonly offsets: Map<string, number> = new Map();
+  private readonly scalars: ScalarEntry[] = [];
+  private readonly lineStarts: number[] = [0];
+  private parsed = false;
+
+  constructor(readonly file: string, readonly content: string) {}
+
+  /**
+   * Returns the location of a value path. Falls back to the closest
+   * parent path if the path is not present in the file, i.e. for missing properties.
+   * @param path
+   * @returns
+   */
+  getLocation(path: string | string[]): ConfigSourceLocation | undefined {
+    this.parse();
+    const segments = typeof path === 'string' ? path.split('/').filter(segment => segment !== '') : [...path];
+    while (segments.length > 0) {
+      const offset = this.offsets.get(segments.join('/'));
+      if (offset !== undefined) {
+        return this.toLocation(segments.join('/'), offset);
+      }
+      segments.pop();
+    }
+    return undefined;
+  }
+
+  /**
+   * Locate a free-text validation message, i.e. `[VPC Network-Endpoints route table Endpoints-Tgw]: ...`.
+   * The message is matched against the `name` properties in the file, preferring the object
+   * whose own and parent names are all mentioned. A property of that object whose value is also
+   * mentioned in the message is returned in place of the object when present.
+   * @param message
+   * @returns
+   */
+  findLocation(message: string): ConfigSourceLocation | undefined {
+    this.parse();
+    const tokens = new Set(
+      message
+        .split(/[\s"'`,;:()[\]{}]+/)
+        .map(token => token.replace(/\.$/, ''))
+        .filter(token => token.length > 0),
+    );
+    const names = new Map(
+      this.scalars.filter(entry => entry.key === 'name').map(entry => [entry.path.slice(0, -1).join('/'), entry.value]),
+    );
+
+    let bestPath: string[] | undefined;
+    let bestScore = 0;
+    for (const entry of this.scalars) {
+      if (entry.key !== 'name' || !tokens.has(entry.value)) {
+        continue;
+      }
+      const objectPath = entry.path.slice(0, -1);
+      let score = 0;
+      for (let i = objectPath.length; i >= 0; i--) {
+        const name = names.get(objectPath.slice(0, i).join('/'));
+        if (name && tokens.has(name)) {
+          score++;
+        }
+      }
+      if (score > bestScore || (score === bestScore && bestPath && objectPath.length > bestPath.length)) {
+        bestPath = objectPath;
+        bestScore = score;
+      }
+    }
+    if (!bestPath) {
+      return undefined;
+    }
+
+    const objectPath = bestPath.join('/');
+    const property = this.scalars.find(
+      entry => entry.key !== 'name' && entry.path.slice(0, -1).join('/') === objectPath && tokens.has(entry.value),
+    );
+    return this.getLocation(property?.path ?? [...bestPath, 'name']);
+  }
+
+  /**
+   * Add the location of a free-text validation message
+   * @param detail
+   * @returns
+   */
+  locate(detail: ConfigErrorDetail): ConfigErrorDetail {
+    const location = detail.path ? this.getLocation(detail.path) : this.findLocation(detail.message);
+    return location ? { ...detail, ...location, path: detail.path ?? location.path } : { ...detail, file: this.file };
+  }
+
+  private parse() {
+    if (this.parsed) {
+      return;
+    }
+    this.parsed = true;
+    for (let i = 0; i < this.content.length; i++) {
+      if (this.content[i] === '\n') {
+        this.lineStarts.push(i + 1);
+      }
+    }
+    try {
+      this.walk(parseDocument(this.content).contents as Node | null, []);
+    } catch (e) {
+      // Locations are best effort, syntax errors are reported by the config loaders
+    }
+  }
+
+  private walk(node: Node | null, path: string[]) {
+    if (node instanceof YAMLMap) {
+      for (const pair of node.items as Pair[]) {
+        if (pair.key === null || pair.key === undefined) {
+          continue;
+        }
+        const key = pair.key instanceof Scalar ? String(pair.key.value) : String(pair.key);
+        const childPath = [...path, key];
+        this.setOffset(childPath, (pair.key as Node).range?.[0] ?? node.range?.[0]);
+        if (pair.value instanceof Scalar && pair.value.value !== null && pair.value.value !== undefined) {
+          this.scalars.push({ path: childPath, key, value: String(pair.value.value) });
+        }
+        this.walk(pair.value as Node | null, childPath);
+      }
+    } else if (node instanceof YAMLSeq) {
+      (node.items as (Node | null)[]).forEach((item, index) => {
+        const childPath = [...path, `${index}`];
+        this.setOffset(childPath, item?.range?.[0] ?? node.range?.[0]);
+        this.walk(item, childPath);
+      });
+    }
+  }
+
+  private setOffset(path: string[], offset: number | undefined) {
+    if (offset !== undefined) {
+      this.offsets.set(path.join('/'), offset);
+    }
+  }
+
+  private toLocation(path: string, offset: number): ConfigSourceLocation {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this.lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    const lineStart = this.lineStarts[low];
+    const lineEnd = this.content.indexOf('\n', lineStart);
+    return {
+      file: this.file,
+      path,
+      line: low + 1,
+      column: offset - lineStart + 1,
+      snippet: this.content.slice(lineStart, lineEnd === -1 ? undefined : lineEnd).trimEnd(),
+    };
+  }
+}
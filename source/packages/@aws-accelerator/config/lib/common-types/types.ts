@@ -14,7 +14,7 @@
 import { either } from 'fp-ts/lib/Either';
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import * as t from 'io-ts';
-import { IPv4CidrRange } from 'ip-num';
+import { IPv4CidrRange, IPv6CidrRange } from 'ip-num';
 
 export type { Any, AnyProps, Mixed, Props, TypeC, TypeOf } from 'io-ts';
 export {
@@ -66,6 +66,25 @@ export class CidrType extends t.Type<IPv4CidrRange, string, unknown> {
   }
 }
 
+export class Ipv6CidrType extends t.Type<string, string, unknown> {
+  constructor(name?: string) {
+    super(
+      name ?? 'Ipv6Cidr',
+      (value): value is string => typeof value === 'string',
+      (str, context) =>
+        either.chain(t.string.validate(str, context), (s: string) => {
+          try {
+            IPv6CidrRange.fromCidr(s);
+            return t.success(s);
+          } catch (e) {
+            return t.failure(s, context, `Value ${s} should be an IPv6 CIDR range.`);
+          }
+        }),
+      t.identity,
+    );
+  }
+}
+
 export class DefaultedType<T extends t.Any> extends t.Type<T['_A'], T['_O'], T['_I']> {
   constructor(readonly type: T, readonly defaultValue: T['_A'], name?: string) {
     super(
@@ -211,6 +230,9 @@ export const nonEmptyString = sized<string>(t.string, {
 export const cidr = new CidrType();
 export type Cidr = t.TypeOf<typeof cidr>;
 
+export const ipv6Cidr = new Ipv6CidrType();
+export type Ipv6Cidr = t.TypeOf<typeof ipv6Cidr>;
+
 export const region = enums(
   'Region',
   [
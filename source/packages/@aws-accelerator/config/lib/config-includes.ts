@@ -0,0 +1,238 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import * as path from 'path';
+
+import * as t from './common-types';
+import { ReplacementsConfig } from './replacements-config';
+
+/**
+ * A configuration file that is part of a merged configuration
+ */
+export interface ConfigIncludeDocument {
+  /**
+   * The file path relative to the configuration directory, i.e. network-config.d/10-vpcs.yaml
+   */
+  readonly file: string;
+  /**
+   * The file content, with replacements expanded
+   */
+  readonly buffer: string;
+  /**
+   * The parsed file content
+   */
+  readonly values: unknown;
+}
+
+/**
+ * Origin of a merged value, relative to the document it was taken from
+ */
+interface ConfigIncludeOrigin {
+  readonly document: number;
+  readonly path: string;
+}
+
+/**
+ * Loads a configuration file together with its include files.
+ *
+ * @remarks
+ * Include files are the `.yaml` and `.yml` files of the `<name>.d` directory next to the configuration file,
+ * i.e. `network-config.d/` for `network-config.yaml`. Each include file holds a partial configuration
+ * using the same layout as the configuration file. Files are merged in a deterministic order: the configuration
+ * file first, then the include files sorted by file name. Arrays such as `vpcs` or `roleSets` are concatenated
+ * in that order and objects are merged by key. An error is thrown when items of a merged array share the
+ * same `name` across files, or when two files define different values for the same property.
+ */
+export class ConfigIncludes implements t.ConfigSourceMap {
+  readonly values: unknown;
+  private readonly origins: Map<string, ConfigIncludeOrigin> = new Map();
+  private readonly sourceMaps: t.YamlSourceMap[];
+
+  constructor(readonly file: string, readonly documents: ConfigIncludeDocument[]) {
+    this.sourceMaps = documents.map(document => new t.YamlSourceMap(document.file, document.buffer));
+
+    const errors: string[] = [];
+    let values: unknown = documents[0]?.values;
+    documents.slice(1).forEach((document, index) => {
+      if (document.values === undefined || document.values === null) {
+        return;
+      }
+      if (!ConfigIncludes.isObject(document.values)) {
+        errors.push(`Include file ${document.file} must contain an object`);
+        return;
+      }
+      values = this.merge(values ?? {}, document.values, [], index + 1, errors);
+    });
+    if (errors.length > 0) {
+      throw t.ConfigValidationError.fromMessages(file, errors);
+    }
+    this.values = values;
+  }
+
+  /**
+   * Returns the include directory name of a configuration file, i.e. `network-config.d`
+   * @param fileName
+   * @returns
+   */
+  static getIncludeDirName(fileName: string): string {
+    return fileName.replace(/\.ya?ml$/, '') + '.d';
+  }
+
+  /**
+   * Returns the include files of a configuration file, relative to the configuration directory and
+   * in merge order
+   * @param dir
+   * @param fileName
+   * @returns
+   */
+  static getIncludeFiles(dir: string, fileName: string): string[] {
+    const includeDirName = ConfigIncludes.getIncludeDirName(fileName);
+    const includeDirPath = path.join(dir, includeDirName);
+    if (!fs.existsSync(includeDirPath) || !fs.statSync(includeDirPath).isDirectory()) {
+      return [];
+    }
+    return fs
+      .readdirSync(includeDirPath)
+      .filter(item => /\.ya?ml$/.test(item) && fs.statSync(path.join(includeDirPath, item)).isFile())
+      .sort()
+      .map(item => path.posix.join(includeDirName, item));
+  }
+
+  /**
+   * Load a configuration file and its include files from the given directory
+   * @param dir
+   * @param fileName
+   * @param replacementsConfig
+   * @returns
+   */
+  static load(dir: string, fileName: string, replacementsConfig?: ReplacementsConfig): ConfigIncludes {
+    const documents = [fileName, ...ConfigIncludes.getIncludeFiles(dir, fileName)].map(file => {
+      const initialBuffer = fs.readFileSync(path.join(dir, file), 'utf8');
+      const buffer = replacementsConfig ? replacementsConfig.preProcessBuffer(initialBuffer, file) : initialBuffer;
+      return { file, buffer, values: yaml.load(buffer) };
+    });
+    return new ConfigIncludes(fileName, documents);
+  }
+
+  /**
+   * Returns true when the configuration was merged from more than one file
+   */
+  get hasIncludes(): boolean {
+    return this.documents.length > 1;
+  }
+
+  /**
+   * Returns the merged configuration as a single file content
+   * @returns
+   */
+  toString(): string {
+    return this.hasIncludes ? yaml.dump(this.values) : this.documents[0].buffer;
+  }
+
+  /**
+   * Add the location of an error in the file the offending value was merged from
+   * @param detail
+   * @returns
+   */
+  locate(detail: t.ConfigErrorDetail): t.ConfigErrorDetail {
+    if (!detail.path) {
+      for (const sourceMap of this.sourceMaps.slice(1)) {
+        const location = sourceMap.findLocation(detail.message);
+        if (location) {
+          return { ...detail, ...location };
+        }
+      }
+      return this.sourceMaps[0].locate(detail);
+    }
+
+    const segments = detail.path.split('/');
+    for (let i = segments.length; i > 0; i--) {
+      const origin = this.origins.get(segments.slice(0, i).join('/'));
+      if (origin) {
+        const location = this.sourceMaps[origin.document].getLocation([
+          ...origin.path.split('/').filter(segment => segment !== ''),
+          ...segments.slice(i),
+        ]);
+        return location ? { ...detail, ...location, path: detail.path } : { ...detail, file: this.file };
+      }
+    }
+    return this.sourceMaps[0].locate(detail);
+  }
+
+  private merge(target: unknown, source: unknown, valuePath: string[], document: number, errors: string[]): unknown {
+    if (Array.isArray(target) && Array.isArray(source)) {
+      const names = new Map<string, string>();
+      target.forEach((item, index) => {
+        if (ConfigIncludes.isObject(item) && typeof item['name'] === 'string') {
+          names.set(item['name'], this.getOriginFile([...valuePath, `${index}`]));
+        }
+      });
+      source.forEach((item, index) => {
+        if (ConfigIncludes.isObject(item) && typeof item['name'] === 'string') {
+          const existingFile = names.get(item['name']);
+          if (existingFile) {
+            errors.push(
+              `Duplicate name "${item['name']}" in ${valuePath.join('/')} defined in ${existingFile} and ${
+                this.documents[document].file
+              }`,
+            );
+          }
+          names.set(item['name'], this.documents[document].file);
+        }
+        this.origins.set([...valuePath, `${target.length + index}`].join('/'), {
+          document,
+          path: [...valuePath, `${index}`].join('/'),
+        });
+      });
+      return [...target, ...source];
+    }
+
+    if (ConfigIncludes.isObject(target) && ConfigIncludes.isObject(source)) {
+      const merged: { [key: string]: unknown } = { ...target };
+      for (const [key, value] of Object.entries(source)) {
+        if (merged[key] === undefined || merged[key] === null) {
+          merged[key] = value;
+          this.origins.set([...valuePath, key].join('/'), { document, path: [...valuePath, key].join('/') });
+        } else {
+          merged[key] = this.merge(merged[key], value, [...valuePath, key], document, errors);
+        }
+      }
+      return merged;
+    }
+
+    if (JSON.stringify(target) !== JSON.stringify(source)) {
+      errors.push(
+        `Conflicting values for ${valuePath.join('/')} defined in ${this.getOriginFile(valuePath)} and ${
+          this.documents[document].file
+        }`,
+      );
+    }
+    return target;
+  }
+
+  private getOriginFile(valuePath: string[]): string {
+    for (let i = valuePath.length; i > 0; i--) {
+      const origin = this.origins.get(valuePath.slice(0, i).join('/'));
+      if (origin) {
+        return this.documents[origin.document].file;
+      }
+    }
+    return this.documents[0].file;
+  }
+
+  private static isObject(value: unknown): value is { [key: string]: unknown } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
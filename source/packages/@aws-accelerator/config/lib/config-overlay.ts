@@ -0,0 +1,444 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import * as os from 'os';
+import * as path from 'path';
+
+import { createLogger } from '@aws-accelerator/utils';
+
+import { AccountsConfig } from './accounts-config';
+import * as t from './common-types';
+import { ConfigIncludeDocument, ConfigIncludes } from './config-includes';
+import { CustomizationsConfig } from './customizations-config';
+import { GlobalConfig } from './global-config';
+import { IamConfig } from './iam-config';
+import { NetworkConfig } from './network-config';
+import { OrganizationConfig } from './organization-config';
+import { ReplacementsConfig } from './replacements-config';
+import { SecurityConfig } from './security-config';
+
+const logger = createLogger(['config-overlay']);
+
+/**
+ * A configuration file of the base or overlay directory
+ */
+interface ConfigOverlayLayer {
+  readonly values: unknown;
+  readonly sourceMap: t.YamlSourceMap;
+}
+
+/**
+ * A value of the base or overlay file and its path in the file
+ */
+interface ConfigOverlayNode {
+  readonly value: unknown;
+  readonly path: string[];
+}
+
+/**
+ * Origin of an array item merged from the base and overlay arrays
+ */
+interface ConfigOverlayItemOrigin {
+  readonly base?: number;
+  readonly overlay?: number;
+}
+
+/**
+ * Builds the configuration of an environment from a base configuration directory and
+ * the environment overlay directory `environments/<name>/` of the same repository.
+ *
+ * @remarks
+ * The overlay directory uses the same layout as the base directory and only holds what differs
+ * for the environment. Configuration files found in both directories are deep merged:
+ * - objects are merged by key, an overlay value of `null` removes the property
+ * - arrays of objects are merged by `name`: an overlay item is merged into the base item
+ *   with the same name, or appended when there is none. An item with `$delete: true` removes
+ *   the base item with the same name. Items without a name are appended.
+ * - any other value, including arrays of strings or numbers, replaces the base value
+ *
+ * Other files of the overlay directory, such as policy documents or include files, replace or are added
+ * to the files of the base directory. Replacements are expanded with the values of the environment.
+ */
+export class ConfigOverlay {
+  /**
+   * Directory of the environment overlays, relative to the configuration directory
+   */
+  static readonly ENVIRONMENTS_DIR = 'environments';
+
+  /**
+   * Property of a named array item that removes the base item with the same name
+   */
+  static readonly DELETE_KEY = '$delete';
+
+  /**
+   * Configuration files merged between the base and overlay directories, replacements first
+   */
+  static readonly CONFIG_FILES = [
+    ReplacementsConfig.FILENAME,
+    AccountsConfig.FILENAME,
+    CustomizationsConfig.FILENAME,
+    GlobalConfig.FILENAME,
+    IamConfig.FILENAME,
+    NetworkConfig.FILENAME,
+    OrganizationConfig.FILENAME,
+    SecurityConfig.FILENAME,
+  ];
+
+  /**
+   * Returns the names of the environment overlays defined in a configuration directory
+   * @param configDirPath
+   * @returns
+   */
+  static getEnvironments(configDirPath: string): string[] {
+    const environmentsDirPath = path.join(configDirPath, ConfigOverlay.ENVIRONMENTS_DIR);
+    if (!fs.existsSync(environmentsDirPath)) {
+      return [];
+    }
+    return fs
+      .readdirSync(environmentsDirPath)
+      .filter(item => fs.statSync(path.join(environmentsDirPath, item)).isDirectory())
+      .sort();
+  }
+
+  /**
+   * Returns the configuration directory to load for an environment. The merged configuration of the environment
+   * is written to a new temporary directory. Without an environment, the base directory is returned.
+   * @param configDirPath
+   * @param environment
+   * @returns
+   */
+  static resolve(configDirPath: string, environment?: string): string {
+    if (!environment) {
+      return configDirPath;
+    }
+    if (!ConfigOverlay.getEnvironments(configDirPath).includes(environment)) {
+      const overlayDirPath = path.join(configDirPath, ConfigOverlay.ENVIRONMENTS_DIR, environment);
+      throw new Error(`Environment overlay directory ${overlayDirPath} does not exist`);
+    }
+    const outputDirPath = ConfigOverlay.apply(
+      configDirPath,
+      environment,
+      fs.mkdtempSync(path.join(os.tmpdir(), `accel-config-${environment}`)),
+    );
+    logger.info(`Configuration for environment ${environment} written to ${outputDirPath}`);
+    return outputDirPath;
+  }
+
+  /**
+   * Write the configuration of an environment to the output directory
+   * @param configDirPath
+   * @param environment
+   * @param outputDirPath
+   * @returns
+   */
+  static apply(configDirPath: string, environment: string, outputDirPath: string): string {
+    const overlayDirPath = path.join(configDirPath, ConfigOverlay.ENVIRONMENTS_DIR, environment);
+    if (!fs.existsSync(overlayDirPath)) {
+      throw new Error(`Environment overlay directory ${overlayDirPath} does not exist`);
+    }
+
+    // Copy the base directory, then the overlay files over it
+    ConfigOverlay.copyDir(configDirPath, outputDirPath, [ConfigOverlay.ENVIRONMENTS_DIR, '.git']);
+    ConfigOverlay.copyDir(overlayDirPath, outputDirPath, ConfigOverlay.CONFIG_FILES);
+
+    // Replacements are merged first to expand the placeholders of the other files with the environment values
+    ConfigOverlay.mergeFile(configDirPath, overlayDirPath, outputDirPath, ReplacementsConfig.FILENAME);
+    const replacementsConfig = ReplacementsConfig.load(outputDirPath, environment);
+
+    for (const fileName of ConfigOverlay.CONFIG_FILES.filter(item => item !== ReplacementsConfig.FILENAME)) {
+      ConfigOverlay.mergeFile(configDirPath, overlayDirPath, outputDirPath, fileName, replacementsConfig);
+      for (const includeFile of ConfigIncludes.getIncludeFiles(outputDirPath, fileName)) {
+        const includeFilePath = path.join(outputDirPath, includeFile);
+        fs.writeFileSync(
+          includeFilePath,
+          replacementsConfig.preProcessBuffer(fs.readFileSync(includeFilePath, 'utf8'), includeFile),
+          'utf8',
+        );
+      }
+    }
+    return outputDirPath;
+  }
+
+  /**
+   * Returns the source map of a configuration file of an environment. Errors are located in the base or overlay file
+   * that supplied the offending value, rather than in the merged file written by {@link ConfigOverlay.resolve}.
+   * @param configDirPath
+   * @param environment
+   * @param fileName
+   * @param replacementsConfig
+   * @returns
+   */
+  static getSourceMap(
+    configDirPath: string,
+    environment: string,
+    fileName: string,
+    replacementsConfig?: ReplacementsConfig,
+  ): t.ConfigSourceMap {
+    const overlayDir = path.posix.join(ConfigOverlay.ENVIRONMENTS_DIR, environment);
+    const overlayDirPath = path.join(configDirPath, overlayDir);
+    const readDocument = (dirPath: string, file: string, reportedFile: string): ConfigIncludeDocument | undefined => {
+      if (!fs.existsSync(path.join(dirPath, file))) {
+        return undefined;
+      }
+      const buffer = fs.readFileSync(path.join(dirPath, file), 'utf8');
+      const expandedBuffer = replacementsConfig ? replacementsConfig.preProcessBuffer(buffer, file) : buffer;
+      return { file: reportedFile, buffer: expandedBuffer, values: yaml.load(expandedBuffer) };
+    };
+
+    const layers = [
+      readDocument(configDirPath, fileName, fileName),
+      readDocument(overlayDirPath, fileName, path.posix.join(overlayDir, fileName)),
+    ].map(
+      document =>
+        document && { values: document.values, sourceMap: new t.YamlSourceMap(document.file, document.buffer) },
+    );
+
+    // Include files of the overlay directory replace the include files of the base directory with the same name
+    const includeFiles = [
+      ...new Set([
+        ...ConfigIncludes.getIncludeFiles(configDirPath, fileName),
+        ...ConfigIncludes.getIncludeFiles(overlayDirPath, fileName),
+      ]),
+    ].sort();
+    const includeDocuments = includeFiles.map(
+      file =>
+        readDocument(overlayDirPath, file, path.posix.join(overlayDir, file)) ??
+        readDocument(configDirPath, file, file)!,
+    );
+    const values = layers
+      .filter(layer => layer !== undefined)
+      .map(layer => layer!.values)
+      .reduce((merged, value) => ConfigOverlay.merge(merged, value), undefined);
+
+    return new ConfigOverlaySourceMap(
+      new ConfigIncludes(fileName, [{ file: fileName, buffer: yaml.dump(values), values }, ...includeDocuments]),
+      layers[0],
+      layers[1],
+    );
+  }
+
+  /**
+   * Deep merge an overlay value into a base value
+   * @param base
+   * @param overlay
+   * @returns
+   */
+  static merge(base: unknown, overlay: unknown): unknown {
+    if (overlay === undefined) {
+      return base;
+    }
+
+    if (ConfigOverlay.isObject(base) && ConfigOverlay.isObject(overlay)) {
+      const merged: { [key: string]: unknown } = { ...base };
+      for (const [key, value] of Object.entries(overlay)) {
+        if (value === null) {
+          delete merged[key];
+        } else {
+          merged[key] = ConfigOverlay.merge(merged[key], value);
+        }
+      }
+      return merged;
+    }
+
+    if (Array.isArray(base) && Array.isArray(overlay) && overlay.some(item => ConfigOverlay.isObject(item))) {
+      const merged = [...base];
+      for (const item of overlay) {
+        const index = ConfigOverlay.isNamed(item)
+          ? merged.findIndex(baseItem => ConfigOverlay.isNamed(baseItem) && baseItem['name'] === item['name'])
+          : -1;
+        const isDeleted = ConfigOverlay.isObject(item) && item[ConfigOverlay.DELETE_KEY] === true;
+        if (index === -1) {
+          if (!isDeleted) {
+            merged.push(item);
+          }
+        } else if (isDeleted) {
+          merged.splice(index, 1);
+        } else {
+          merged[index] = ConfigOverlay.merge(merged[index], item);
+        }
+      }
+      return merged;
+    }
+
+    return overlay;
+  }
+
+  private static mergeFile(
+    configDirPath: string,
+    overlayDirPath: string,
+    outputDirPath: string,
+    fileName: string,
+    replacementsConfig?: ReplacementsConfig,
+  ) {
+    const values = [configDirPath, overlayDirPath]
+      .filter(dirPath => fs.existsSync(path.join(dirPath, fileName)))
+      .map(dirPath => {
+        const buffer = fs.readFileSync(path.join(dirPath, fileName), 'utf8');
+        return yaml.load(replacementsConfig ? replacementsConfig.preProcessBuffer(buffer, fileName) : buffer);
+      });
+    if (values.length > 0) {
+      fs.writeFileSync(
+        path.join(outputDirPath, fileName),
+        yaml.dump(values.reduce((merged, value) => ConfigOverlay.merge(merged, value))),
+        'utf8',
+      );
+    }
+  }
+
+  private static copyDir(sourceDirPath: string, targetDirPath: string, excludedNames: string[]) {
+    fs.mkdirSync(targetDirPath, { recursive: true });
+    for (const item of fs.readdirSync(sourceDirPath)) {
+      if (excludedNames.includes(item)) {
+        continue;
+      }
+      const sourcePath = path.join(sourceDirPath, item);
+      if (fs.statSync(sourcePath).isDirectory()) {
+        ConfigOverlay.copyDir(sourcePath, path.join(targetDirPath, item), []);
+      } else {
+        fs.copyFileSync(sourcePath, path.join(targetDirPath, item));
+      }
+    }
+  }
+
+  private static isObject(value: unknown): value is { [key: string]: unknown } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private static isNamed(value: unknown): value is { [key: string]: unknown } {
+    return ConfigOverlay.isObject(value) && typeof value['name'] === 'string';
+  }
+}
+
+/**
+ * Locates the errors of a configuration file of an environment in the base and overlay files it was merged from
+ */
+class ConfigOverlaySourceMap implements t.ConfigSourceMap {
+  readonly file: string;
+
+  constructor(
+    private readonly includes: ConfigIncludes,
+    private readonly base: ConfigOverlayLayer | undefined,
+    private readonly overlay: ConfigOverlayLayer | undefined,
+  ) {
+    this.file = includes.file;
+  }
+
+  locate(detail: t.ConfigErrorDetail): t.ConfigErrorDetail {
+    // Any location of the merged file is replaced
+    const unlocatedDetail = { message: detail.message, path: detail.path };
+
+    // Values merged from include files are located in the include file
+    const includeDetail = this.includes.locate(unlocatedDetail);
+    if (includeDetail.file !== this.file) {
+      return includeDetail;
+    }
+
+    const location = detail.path
+      ? this.getLocation(detail.path.split('/').filter(segment => segment !== ''))
+      : this.overlay?.sourceMap.findLocation(detail.message) ?? this.base?.sourceMap.findLocation(detail.message);
+    return location
+      ? { ...unlocatedDetail, ...location, path: detail.path ?? location.path }
+      : { ...unlocatedDetail, file: (this.base ?? this.overlay)?.sourceMap.file ?? this.file };
+  }
+
+  /**
+   * Returns the location of a merged value path in the layer that supplied the value.
+   * Missing values are located at the closest parent, preferring the overlay.
+   * @param segments
+   * @returns
+   */
+  private getLocation(segments: string[]): t.ConfigSourceLocation | undefined {
+    let base: ConfigOverlayNode = { value: this.base?.values, path: [] };
+    let overlay: ConfigOverlayNode = { value: this.overlay?.values, path: [] };
+    let index = 0;
+    for (; index < segments.length; index++) {
+      const segment = segments[index];
+      let nextBase: ConfigOverlayNode;
+      let nextOverlay: ConfigOverlayNode;
+      if (
+        Array.isArray(base.value) &&
+        Array.isArray(overlay.value) &&
+        overlay.value.some(item => ConfigOverlaySourceMap.isObject(item))
+      ) {
+        const origin = ConfigOverlaySourceMap.getItemOrigins(base.value, overlay.value)[Number(segment)];
+        nextBase = ConfigOverlaySourceMap.getChild(base, origin?.base);
+        nextOverlay = ConfigOverlaySourceMap.getChild(overlay, origin?.overlay);
+      } else if (
+        overlay.value !== undefined &&
+        !(ConfigOverlaySourceMap.isObject(base.value) && ConfigOverlaySourceMap.isObject(overlay.value))
+      ) {
+        // The overlay value replaces the base value
+        nextBase = { value: undefined, path: base.path };
+        nextOverlay = ConfigOverlaySourceMap.getChild(overlay, segment);
+      } else {
+        nextBase = ConfigOverlaySourceMap.getChild(base, segment);
+        nextOverlay = ConfigOverlaySourceMap.getChild(overlay, segment);
+      }
+      if (nextBase.value === undefined && nextOverlay.value === undefined) {
+        break;
+      }
+      base = nextBase;
+      overlay = nextOverlay;
+    }
+
+    const [layer, node] = overlay.value !== undefined ? [this.overlay, overlay] : [this.base, base];
+    return layer?.sourceMap.getLocation([...node.path, ...segments.slice(index)]);
+  }
+
+  /**
+   * Returns the base and overlay item of each item of a merged array, following {@link ConfigOverlay.merge}
+   * @param base
+   * @param overlay
+   * @returns
+   */
+  private static getItemOrigins(base: unknown[], overlay: unknown[]): ConfigOverlayItemOrigin[] {
+    const origins: ConfigOverlayItemOrigin[] = [...base.keys()].map(index => ({ base: index }));
+    const getName = (origin: ConfigOverlayItemOrigin) => {
+      const item = origin.overlay !== undefined ? overlay[origin.overlay] : base[origin.base!];
+      return ConfigOverlaySourceMap.isObject(item) ? item['name'] : undefined;
+    };
+    overlay.forEach((item, overlayIndex) => {
+      const index =
+        ConfigOverlaySourceMap.isObject(item) && typeof item['name'] === 'string'
+          ? origins.findIndex(origin => getName(origin) === item['name'])
+          : -1;
+      const isDeleted = ConfigOverlaySourceMap.isObject(item) && item[ConfigOverlay.DELETE_KEY] === true;
+      if (index === -1) {
+        if (!isDeleted) {
+          origins.push({ overlay: overlayIndex });
+        }
+      } else if (isDeleted) {
+        origins.splice(index, 1);
+      } else {
+        origins[index] = { base: origins[index].base, overlay: overlayIndex };
+      }
+    });
+    return origins;
+  }
+
+  private static getChild(parent: ConfigOverlayNode, key: string | number | undefined): ConfigOverlayNode {
+    const value =
+      key !== undefined && (Array.isArray(parent.value) || ConfigOverlaySourceMap.isObject(parent.value))
+        ? (parent.value as { [key: string]: unknown })[key]
+        : undefined;
+    return value === undefined || value === null
+      ? { value: undefined, path: parent.path }
+      : { value, path: [...parent.path, `${key}`] };
+  }
+
+  private static isObject(value: unknown): value is { [key: string]: unknown } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
@@ -11,10 +11,9 @@
  *  and limitations under the License.
  */
 
-import * as fs from 'fs';
-import * as yaml from 'js-yaml';
-import * as path from 'path';
 import * as t from './common-types';
+import { ConfigIncludes } from './config-includes';
+import { ReplacementsConfig } from './replacements-config';
 
 /**
  * Customization configuration items.
@@ -2459,12 +2458,13 @@ export class CustomizationsConfig implements t.TypeOf<typeof CustomizationsConfi
   /**
    * Load from config file content
    * @param dir
+   * @param replacementsConfig
    * @param validateConfig
    * @returns
    */
-  static load(dir: string): CustomizationsConfig {
-    const buffer = fs.readFileSync(path.join(dir, CustomizationsConfig.FILENAME), 'utf8');
-    const values = t.parse(CustomizationsConfigTypes.customizationsConfig, yaml.load(buffer));
+  static load(dir: string, replacementsConfig?: ReplacementsConfig): CustomizationsConfig {
+    const includes = ConfigIncludes.load(dir, CustomizationsConfig.FILENAME, replacementsConfig);
+    const values = t.parse(CustomizationsConfigTypes.customizationsConfig, includes.values, includes);
     return new CustomizationsConfig(values);
   }
 }
@@ -11,13 +11,13 @@
  *  and limitations under the License.
  */
 
-import * as fs from 'fs';
 import * as yaml from 'js-yaml';
-import * as path from 'path';
 
 import { createLogger } from '@aws-accelerator/utils';
 
 import * as t from './common-types';
+import { ConfigIncludes } from './config-includes';
+import { ReplacementsConfig } from './replacements-config';
 
 const logger = createLogger(['global-config']);
 /**
@@ -176,13 +176,60 @@ export abstract class GlobalConfigTypes {
     budgets: t.optional(t.array(this.budgetConfig)),
   });
 
+  static readonly vaultLockConfig = t.interface({
+    mode: t.enums('VaultLockModeType', ['governance', 'compliance']),
+    minRetentionDays: t.number,
+    maxRetentionDays: t.optional(t.number),
+    changeableForDays: t.optional(t.number),
+  });
+
   static readonly vaultConfig = t.interface({
     name: t.nonEmptyString,
     deploymentTargets: t.deploymentTargets,
+    policy: t.optional(t.nonEmptyString),
+    lock: t.optional(this.vaultLockConfig),
+  });
+
+  static readonly backupLifecycleConfig = t.interface({
+    moveToColdStorageAfterDays: t.optional(t.number),
+    deleteAfterDays: t.optional(t.number),
+  });
+
+  static readonly backupCopyActionConfig = t.interface({
+    vault: t.nonEmptyString,
+    account: t.optional(t.nonEmptyString),
+    region: t.optional(t.region),
+    lifecycle: t.optional(this.backupLifecycleConfig),
+  });
+
+  static readonly backupRuleConfig = t.interface({
+    name: t.nonEmptyString,
+    schedule: t.optional(t.nonEmptyString),
+    startWindowMinutes: t.optional(t.number),
+    completionWindowMinutes: t.optional(t.number),
+    enableContinuousBackup: t.optional(t.boolean),
+    lifecycle: t.optional(this.backupLifecycleConfig),
+    copyActions: t.optional(t.array(this.backupCopyActionConfig)),
+  });
+
+  static readonly backupSelectionConfig = t.interface({
+    name: t.nonEmptyString,
+    tags: t.optional(t.array(t.tag)),
+    resources: t.optional(t.array(t.nonEmptyString)),
+    allowRestores: t.optional(t.boolean),
+  });
+
+  static readonly backupPlanConfig = t.interface({
+    name: t.nonEmptyString,
+    vault: t.nonEmptyString,
+    rules: t.array(this.backupRuleConfig),
+    selections: t.optional(t.array(this.backupSelectionConfig)),
+    deploymentTargets: t.deploymentTargets,
   });
 
   static readonly backupConfig = t.interface({
     vaults: t.array(this.vaultConfig),
+    backupPlans: t.optional(t.array(this.backupPlanConfig)),
   });
 
   static readonly snsTopicConfig = t.interface({
@@ -1082,6 +1129,43 @@ export class ReportConfig implements t.TypeOf<typeof GlobalConfigTypes.reportCon
   readonly budgets: BudgetReportConfig[] = [];
 }
 
+/**
+ * *{@link GlobalConfig} / {@link BackupConfig} / {@link VaultConfig} / {@link VaultLockConfig}*
+ *
+ * Backup vault lock configuration
+ *
+ * @remarks
+ * A vault lock in `governance` mode can be removed by users with sufficient IAM permissions.
+ * A vault lock in `compliance` mode becomes immutable once the `changeableForDays` grace time has elapsed.
+ *
+ * @example
+ * ```
+ * lock:
+ *   mode: compliance
+ *   minRetentionDays: 7
+ *   maxRetentionDays: 365
+ *   changeableForDays: 3
+ * ```
+ */
+export class VaultLockConfig implements t.TypeOf<typeof GlobalConfigTypes.vaultLockConfig> {
+  /**
+   * Vault lock mode, either `governance` or `compliance`
+   */
+  readonly mode: 'governance' | 'compliance' = 'governance';
+  /**
+   * Minimum retention period of the recovery points of the vault, in days
+   */
+  readonly minRetentionDays: number = 1;
+  /**
+   * Maximum retention period of the recovery points of the vault, in days
+   */
+  readonly maxRetentionDays: number | undefined = undefined;
+  /**
+   * Number of days before the lock becomes immutable, at least 3. Required in `compliance` mode only
+   */
+  readonly changeableForDays: number | undefined = undefined;
+}
+
 /**
  * *{@link GlobalConfig} / {@link BackupConfig} / {@link VaultConfig}*
  *
@@ -1093,6 +1177,10 @@ export class ReportConfig implements t.TypeOf<typeof GlobalConfigTypes.reportCon
  *   deploymentTargets:
  *     organizationalUnits:
  *      - Root
+ *   policy: backup-policies/vault-access-policy.json
+ *   lock:
+ *     mode: governance
+ *     minRetentionDays: 7
  * ```
  */
 export class VaultConfig implements t.TypeOf<typeof GlobalConfigTypes.vaultConfig> {
@@ -1105,6 +1193,216 @@ export class VaultConfig implements t.TypeOf<typeof GlobalConfigTypes.vaultConfi
    * Which OU's or Accounts the vault will be deployed to
    */
   readonly deploymentTargets: t.DeploymentTargets = new t.DeploymentTargets();
+
+  /**
+   * (OPTIONAL) Path to a JSON file with the vault access policy, i.e. to allow copies into the vault from other accounts
+   */
+  readonly policy: string | undefined = undefined;
+
+  /**
+   * (OPTIONAL) Vault lock configuration
+   *
+   * @see {@link VaultLockConfig}
+   */
+  readonly lock: VaultLockConfig | undefined = undefined;
+}
+
+/**
+ * *{@link GlobalConfig} / {@link BackupConfig} / {@link BackupPlanConfig} / {@link BackupRuleConfig} / {@link BackupLifecycleConfig}*
+ *
+ * Backup recovery point lifecycle configuration
+ *
+ * @example
+ * ```
+ * lifecycle:
+ *   moveToColdStorageAfterDays: 30
+ *   deleteAfterDays: 365
+ * ```
+ */
+export class BackupLifecycleConfig implements t.TypeOf<typeof GlobalConfigTypes.backupLifecycleConfig> {
+  /**
+   * (OPTIONAL) Number of days after creation that a recovery point is moved to cold storage
+   */
+  readonly moveToColdStorageAfterDays: number | undefined = undefined;
+  /**
+   * (OPTIONAL) Number of days after creation that a recovery point is deleted.
+   * Must be at least 90 days greater than `moveToColdStorageAfterDays`
+   */
+  readonly deleteAfterDays: number | undefined = undefined;
+}
+
+/**
+ * *{@link GlobalConfig} / {@link BackupConfig} / {@link BackupPlanConfig} / {@link BackupRuleConfig} / {@link BackupCopyActionConfig}*
+ *
+ * Backup copy action configuration
+ *
+ * @example
+ * ```
+ * - vault: BackupVault
+ *   account: LogArchive
+ *   region: us-west-2
+ *   lifecycle:
+ *     deleteAfterDays: 365
+ * ```
+ */
+export class BackupCopyActionConfig implements t.TypeOf<typeof GlobalConfigTypes.backupCopyActionConfig> {
+  /**
+   * Name of the destination vault, defined in {@link BackupConfig.vaults}
+   */
+  readonly vault: string = '';
+  /**
+   * (OPTIONAL) Name of the account of the destination vault, defaults to the account of the backup plan.
+   * The destination vault access policy must allow `backup:CopyIntoBackupVault` from other accounts
+   */
+  readonly account: string | undefined = undefined;
+  /**
+   * (OPTIONAL) Region of the destination vault, defaults to the region of the backup plan
+   */
+  readonly region: t.Region | undefined = undefined;
+  /**
+   * (OPTIONAL) Lifecycle of the copied recovery points
+   *
+   * @see {@link BackupLifecycleConfig}
+   */
+  readonly lifecycle: BackupLifecycleConfig | undefined = undefined;
+}
+
+/**
+ * *{@link GlobalConfig} / {@link BackupConfig} / {@link BackupPlanConfig} / {@link BackupRuleConfig}*
+ *
+ * Backup rule configuration
+ *
+ * @example
+ * ```
+ * - name: DailyBackups
+ *   schedule: cron(0 5 * * ? *)
+ *   startWindowMinutes: 60
+ *   completionWindowMinutes: 180
+ *   lifecycle:
+ *     deleteAfterDays: 35
+ *   copyActions:
+ *     - vault: BackupVault
+ *       region: us-west-2
+ * ```
+ */
+export class BackupRuleConfig implements t.TypeOf<typeof GlobalConfigTypes.backupRuleConfig> {
+  /**
+   * Name of the backup rule
+   */
+  readonly name: string = '';
+  /**
+   * (OPTIONAL) CRON expression of the backup schedule, in UTC
+   */
+  readonly schedule: string | undefined = undefined;
+  /**
+   * (OPTIONAL) Number of minutes after the scheduled time in which the backup job must start, at least 60
+   */
+  readonly startWindowMinutes: number | undefined = undefined;
+  /**
+   * (OPTIONAL) Number of minutes after the backup job started in which it must complete
+   */
+  readonly completionWindowMinutes: number | undefined = undefined;
+  /**
+   * (OPTIONAL) Enable continuous backups for point-in-time restore of supported resources
+   */
+  readonly enableContinuousBackup: boolean | undefined = undefined;
+  /**
+   * (OPTIONAL) Lifecycle of the recovery points
+   *
+   * @see {@link BackupLifecycleConfig}
+   */
+  readonly lifecycle: BackupLifecycleConfig | undefined = undefined;
+  /**
+   * (OPTIONAL) Copies of the recovery points to other vaults
+   *
+   * @see {@link BackupCopyActionConfig}
+   */
+  readonly copyActions: BackupCopyActionConfig[] | undefined = undefined;
+}
+
+/**
+ * *{@link GlobalConfig} / {@link BackupConfig} / {@link BackupPlanConfig} / {@link BackupSelectionConfig}*
+ *
+ * Backup selection configuration. Resources are selected when they match any of the tags or resource ARNs
+ *
+ * @example
+ * ```
+ * - name: TaggedResources
+ *   tags:
+ *     - key: backup
+ *       value: daily
+ *   resources:
+ *     - arn:aws:dynamodb:*:*:table/*
+ * ```
+ */
+export class BackupSelectionConfig implements t.TypeOf<typeof GlobalConfigTypes.backupSelectionConfig> {
+  /**
+   * Name of the backup selection
+   */
+  readonly name: string = '';
+  /**
+   * (OPTIONAL) Tags of the selected resources
+   */
+  readonly tags: t.Tag[] | undefined = undefined;
+  /**
+   * (OPTIONAL) ARNs of the selected resources, wildcards are supported
+   */
+  readonly resources: string[] | undefined = undefined;
+  /**
+   * (OPTIONAL) Allow the backup role to restore the selected resources
+   */
+  readonly allowRestores: boolean | undefined = undefined;
+}
+
+/**
+ * *{@link GlobalConfig} / {@link BackupConfig} / {@link BackupPlanConfig}*
+ *
+ * Backup plan configuration
+ *
+ * @example
+ * ```
+ * - name: DailyBackupPlan
+ *   vault: BackupVault
+ *   rules:
+ *     - name: DailyBackups
+ *       schedule: cron(0 5 * * ? *)
+ *       lifecycle:
+ *         deleteAfterDays: 35
+ *   selections:
+ *     - name: TaggedResources
+ *       tags:
+ *         - key: backup
+ *           value: daily
+ *   deploymentTargets:
+ *     organizationalUnits:
+ *       - Infrastructure
+ * ```
+ */
+export class BackupPlanConfig implements t.TypeOf<typeof GlobalConfigTypes.backupPlanConfig> {
+  /**
+   * Name of the backup plan
+   */
+  readonly name: string = '';
+  /**
+   * Name of the vault the recovery points are stored in, defined in {@link BackupConfig.vaults}
+   */
+  readonly vault: string = '';
+  /**
+   * Backup rules of the plan
+   *
+   * @see {@link BackupRuleConfig}
+   */
+  readonly rules: BackupRuleConfig[] = [];
+  /**
+   * (OPTIONAL) Resources backed up by the plan
+   *
+   * @see {@link BackupSelectionConfig}
+   */
+  readonly selections: BackupSelectionConfig[] | undefined = undefined;
+  /**
+   * Which OU's or Accounts the backup plan will be deployed to. The vault must be deployed to the same targets
+   */
+  readonly deploymentTargets: t.DeploymentTargets = new t.DeploymentTargets();
 }
 
 /**
@@ -1120,6 +1418,20 @@ export class VaultConfig implements t.TypeOf<typeof GlobalConfigTypes.vaultConfi
  *       deploymentTargets:
  *         organizationalUnits:
  *           - Root
+ *   backupPlans:
+ *     - name: DailyBackupPlan
+ *       vault: BackupVault
+ *       rules:
+ *         - name: DailyBackups
+ *           schedule: cron(0 5 * * ? *)
+ *       selections:
+ *         - name: TaggedResources
+ *           tags:
+ *             - key: backup
+ *               value: daily
+ *       deploymentTargets:
+ *         organizationalUnits:
+ *           - Root
  * ```
  */
 export class BackupConfig implements t.TypeOf<typeof GlobalConfigTypes.backupConfig> {
@@ -1127,6 +1439,12 @@ export class BackupConfig implements t.TypeOf<typeof GlobalConfigTypes.backupCon
    * List of AWS Backup Vaults
    */
   readonly vaults: VaultConfig[] = [];
+  /**
+   * (OPTIONAL) List of AWS Backup plans
+   *
+   * @see {@link BackupPlanConfig}
+   */
+  readonly backupPlans: BackupPlanConfig[] | undefined = undefined;
 }
 
 /**
@@ -1542,12 +1860,13 @@ export class GlobalConfig implements t.TypeOf<typeof GlobalConfigTypes.globalCon
   /**
    * Load from file in given directory
    * @param dir
+   * @param replacementsConfig
    * @param validateConfig
    * @returns
    */
-  static load(dir: string): GlobalConfig {
-    const buffer = fs.readFileSync(path.join(dir, GlobalConfig.FILENAME), 'utf8');
-    const values = t.parse(GlobalConfigTypes.globalConfig, yaml.load(buffer));
+  static load(dir: string, replacementsConfig?: ReplacementsConfig): GlobalConfig {
+    const includes = ConfigIncludes.load(dir, GlobalConfig.FILENAME, replacementsConfig);
+    const values = t.parse(GlobalConfigTypes.globalConfig, includes.values, includes);
 
     const homeRegion = values.homeRegion;
     const controlTower = values.controlTower;
@@ -11,14 +11,14 @@
  *  and limitations under the License.
  */
 
-import * as fs from 'fs';
 import * as yaml from 'js-yaml';
-import * as path from 'path';
 
 import { createLogger } from '@aws-accelerator/utils';
 
 import { AccountsConfig } from './accounts-config';
 import * as t from './common-types';
+import { ConfigIncludes } from './config-includes';
+import { ReplacementsConfig } from './replacements-config';
 
 const logger = createLogger(['iam-config']);
 
@@ -187,12 +187,33 @@ export class IamConfigTypes {
     policy: t.nonEmptyString,
   });
 
+  /**
+   * Identity Center customer managed policy reference configuration
+   */
+  static readonly identityCenterPolicyReferenceConfig = t.interface({
+    name: t.nonEmptyString,
+    path: t.optional(t.nonEmptyString),
+  });
+
+  /**
+   * Identity Center Permission Set permissions boundary configuration
+   */
+  static readonly identityCenterPermissionsBoundaryConfig = t.interface({
+    awsManagedPolicyArn: t.optional(t.nonEmptyString),
+    customerManagedPolicy: t.optional(this.identityCenterPolicyReferenceConfig),
+  });
+
   /**
    * Identity Center Permission Set configuration
    */
   static readonly identityCenterPermissionSetConfig = t.interface({
     name: t.nonEmptyString,
+    description: t.optional(t.nonEmptyString),
     policies: t.optional(this.policiesConfig),
+    customerManagedPolicyReferences: t.optional(t.array(this.identityCenterPolicyReferenceConfig)),
+    inlinePolicy: t.optional(t.nonEmptyString),
+    permissionsBoundary: t.optional(this.identityCenterPermissionsBoundaryConfig),
+    relayState: t.optional(t.nonEmptyString),
     sessionDuration: t.optional(t.number),
   });
 
@@ -208,12 +229,23 @@ export class IamConfigTypes {
    */
   static readonly identityCenterAssignmentConfig = t.interface({
     permissionSetName: t.nonEmptyString,
-    principalId: t.nonEmptyString,
+    principalId: t.optional(t.nonEmptyString),
+    principalName: t.optional(t.nonEmptyString),
     principalType: this.principalTypeEnum,
     deploymentTargets: t.deploymentTargets,
     name: t.nonEmptyString,
   });
 
+  /**
+   * Identity Center Assignment matrix configuration
+   */
+  static readonly identityCenterAssignmentMatrixConfig = t.interface({
+    name: t.nonEmptyString,
+    groupNames: t.array(t.nonEmptyString),
+    permissionSetNames: t.array(t.nonEmptyString),
+    deploymentTargets: t.deploymentTargets,
+  });
+
   /**
    * Identity Center configuration
    */
@@ -222,6 +254,7 @@ export class IamConfigTypes {
     delegatedAdminAccount: t.optional(t.nonEmptyString),
     identityCenterPermissionSets: t.optional(t.array(this.identityCenterPermissionSetConfig)),
     identityCenterAssignments: t.optional(t.array(this.identityCenterAssignmentConfig)),
+    identityCenterAssignmentMatrices: t.optional(t.array(this.identityCenterAssignmentMatrixConfig)),
   });
 
   /**
@@ -1078,6 +1111,68 @@ export class IdentityCenterConfig implements t.TypeOf<typeof IamConfigTypes.iden
    * List of Assignments
    */
   readonly identityCenterAssignments: IdentityCenterAssignmentConfig[] = [];
+
+  /**
+   * (OPTIONAL) List of Assignment matrices
+   *
+   * @see {@link IdentityCenterAssignmentMatrixConfig}
+   */
+  readonly identityCenterAssignmentMatrices: IdentityCenterAssignmentMatrixConfig[] | undefined = undefined;
+}
+
+/**
+ * *{@link IamConfig} / {@link IdentityCenterConfig} / {@link IdentityCenterPermissionSetConfig} / {@link IdentityCenterPolicyReferenceConfig}*
+ *
+ * Identity Center customer managed policy reference Configuration.
+ * The policy must exist with the same name and path in every account the Permission Set is assigned to.
+ *
+ * @example
+ * ```
+ * name: ResourceConfigurationCollectorPolicy
+ * path: /
+ * ```
+ */
+export class IdentityCenterPolicyReferenceConfig
+  implements t.TypeOf<typeof IamConfigTypes.identityCenterPolicyReferenceConfig>
+{
+  /**
+   * The name of the customer managed policy
+   */
+  readonly name: string = '';
+
+  /**
+   * (OPTIONAL) The path of the customer managed policy
+   *
+   * @default /
+   */
+  readonly path: string | undefined = undefined;
+}
+
+/**
+ * *{@link IamConfig} / {@link IdentityCenterConfig} / {@link IdentityCenterPermissionSetConfig} / {@link IdentityCenterPermissionsBoundaryConfig}*
+ *
+ * Identity Center Permission Set permissions boundary Configuration.
+ * Only one of awsManagedPolicyArn or customerManagedPolicy can be defined.
+ *
+ * @example
+ * ```
+ * permissionsBoundary:
+ *   customerManagedPolicy:
+ *     name: Default-Boundary-Policy
+ * ```
+ */
+export class IdentityCenterPermissionsBoundaryConfig
+  implements t.TypeOf<typeof IamConfigTypes.identityCenterPermissionsBoundaryConfig>
+{
+  /**
+   * (OPTIONAL) The ARN of the AWS managed policy used as permissions boundary
+   */
+  readonly awsManagedPolicyArn: string | undefined = undefined;
+
+  /**
+   * (OPTIONAL) The customer managed policy used as permissions boundary
+   */
+  readonly customerManagedPolicy: IdentityCenterPolicyReferenceConfig | undefined = undefined;
 }
 
 /**
@@ -1096,6 +1191,20 @@ export class IdentityCenterConfig implements t.TypeOf<typeof IamConfigTypes.iden
  *       customerManaged:
  *         - ResourceConfigurationCollectorPolicy
  *     sessionDuration: 60
+ *   - name: PermissionSet2
+ *     description: Read only access with the accelerator boundary
+ *     policies:
+ *       awsManaged:
+ *         - arn:aws:iam::aws:policy/ReadOnlyAccess
+ *     customerManagedPolicyReferences:
+ *       - name: ResourceConfigurationCollectorPolicy
+ *         path: /
+ *     inlinePolicy: iam-policies/sso-inline-policy.json
+ *     permissionsBoundary:
+ *       customerManagedPolicy:
+ *         name: Default-Boundary-Policy
+ *     relayState: https://console.aws.amazon.com/cloudwatch/home
+ *     sessionDuration: 120
  * ```
  */
 export class IdentityCenterPermissionSetConfig
@@ -1115,6 +1224,39 @@ export class IdentityCenterPermissionSetConfig
    * A number value (in minutes) for length of SSO session Duration association with Permissions Set (Defaults to 60).
    */
   readonly sessionDuration: number = 60;
+
+  /**
+   * (OPTIONAL) The description of the Permission Set
+   */
+  readonly description: string | undefined = undefined;
+
+  /**
+   * (OPTIONAL) Customer managed policies referenced by name and path
+   *
+   * @remarks
+   * Policies listed in policies.customerManaged are referenced with the default path.
+   */
+  readonly customerManagedPolicyReferences: IdentityCenterPolicyReferenceConfig[] | undefined = undefined;
+
+  /**
+   * (OPTIONAL) Inline policy definition file. This file must be available in accelerator config repository.
+   *
+   * @remarks
+   * The same replacements as the policySets policy files are applied to the document.
+   */
+  readonly inlinePolicy: string | undefined = undefined;
+
+  /**
+   * (OPTIONAL) The permissions boundary of the Permission Set
+   *
+   * @see {@link IdentityCenterPermissionsBoundaryConfig}
+   */
+  readonly permissionsBoundary: IdentityCenterPermissionsBoundaryConfig | undefined = undefined;
+
+  /**
+   * (OPTIONAL) The URL users are redirected to after signing in with the Permission Set
+   */
+  readonly relayState: string | undefined = undefined;
 }
 
 /**
@@ -1139,6 +1281,13 @@ export class IdentityCenterPermissionSetConfig
  *     deploymentTargets:
  *       organizationalUnits:
  *         - Security
+ *   - name: Assignment3
+ *     permissionSetName: PermissionSet2
+ *     principalName: SecurityAuditors
+ *     principalType: GROUP
+ *     deploymentTargets:
+ *       organizationalUnits:
+ *         - Security
  * ```
  */
 export class IdentityCenterAssignmentConfig implements t.TypeOf<typeof IamConfigTypes.identityCenterAssignmentConfig> {
@@ -1153,9 +1302,21 @@ export class IdentityCenterAssignmentConfig implements t.TypeOf<typeof IamConfig
   readonly permissionSetName: string = '';
 
   /**
-   * PrincipalId that will be used for the Assignment
+   * (OPTIONAL) PrincipalId that will be used for the Assignment
+   *
+   * @remarks
+   * Only one of principalId or principalName can be defined.
    */
-  readonly principalId: string = '';
+  readonly principalId: string | undefined = undefined;
+
+  /**
+   * (OPTIONAL) User name of the user or display name of the group that will be used for the Assignment.
+   * The principal id is looked up in the Identity Center identity store when the stack is deployed.
+   *
+   * @remarks
+   * Only one of principalId or principalName can be defined.
+   */
+  readonly principalName: string | undefined = undefined;
 
   /**
    * PrincipalType that will be used for the Assignment
@@ -1168,6 +1329,52 @@ export class IdentityCenterAssignmentConfig implements t.TypeOf<typeof IamConfig
   readonly deploymentTargets: t.DeploymentTargets = new t.DeploymentTargets();
 }
 
+/**
+ * *{@link IamConfig} / {@link IdentityCenterConfig} / {@link IdentityCenterAssignmentMatrixConfig}*
+ *
+ * Identity Center Assignment matrix Configuration.
+ * Every group is assigned every Permission Set in every account of the deployment targets.
+ * Groups are referenced by display name and looked up in the Identity Center identity store when the stack is deployed.
+ *
+ * @example
+ * ```
+ * identityCenterAssignmentMatrices:
+ *   - name: SecurityMatrix
+ *     groupNames:
+ *       - SecurityAuditors
+ *       - SecurityEngineers
+ *     permissionSetNames:
+ *       - PermissionSet1
+ *       - PermissionSet2
+ *     deploymentTargets:
+ *       organizationalUnits:
+ *         - Security
+ * ```
+ */
+export class IdentityCenterAssignmentMatrixConfig
+  implements t.TypeOf<typeof IamConfigTypes.identityCenterAssignmentMatrixConfig>
+{
+  /**
+   * The Name for the Assignment matrix
+   */
+  readonly name: string = '';
+
+  /**
+   * Display names of the groups that will be used for the Assignments
+   */
+  readonly groupNames: string[] = [];
+
+  /**
+   * Names of the Permission Sets that will be used for the Assignments
+   */
+  readonly permissionSetNames: string[] = [];
+
+  /**
+   * Assignment matrix deployment targets
+   */
+  readonly deploymentTargets: t.DeploymentTargets = new t.DeploymentTargets();
+}
+
 /**
  * *{@link IamConfig} / {@link RoleSetConfig}*
  *
@@ -1513,11 +1720,12 @@ export class IamConfig implements t.TypeOf<typeof IamConfigTypes.iamConfig> {
   /**
    * Load from config file content
    * @param dir
+   * @param replacementsConfig
    * @returns
    */
-  static load(dir: string): IamConfig {
-    const buffer = fs.readFileSync(path.join(dir, IamConfig.FILENAME), 'utf8');
-    const values = t.parse(IamConfigTypes.iamConfig, yaml.load(buffer));
+  static load(dir: string, replacementsConfig?: ReplacementsConfig): IamConfig {
+    const includes = ConfigIncludes.load(dir, IamConfig.FILENAME, replacementsConfig);
+    const values = t.parse(IamConfigTypes.iamConfig, includes.values, includes);
     return new IamConfig(values);
   }
 
@@ -1613,7 +1821,7 @@ export class IamConfig implements t.TypeOf<typeof IamConfigTypes.iamConfig> {
         directoryAccount = managedActiveDirectory.account;
 
         if (managedActiveDirectory.sharedOrganizationalUnits) {
-          const accountsConfig = AccountsConfig.load(configDir);
+          const accountsConfig = AccountsConfig.load(configDir, ReplacementsConfig.load(configDir));
           const allAccountItems = [...accountsConfig.mandatoryAccounts, ...accountsConfig.workloadAccounts];
           const allAccounts: string[] = [];
           for (const account of allAccountItems ?? []) {
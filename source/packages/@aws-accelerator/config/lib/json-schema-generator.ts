@@ -0,0 +1,160 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+import { createLogger } from '@aws-accelerator/utils';
+
+import { AccountsConfig, AccountsConfigTypes } from './accounts-config';
+import * as t from './common-types';
+import * as commonTypes from './common-types/types';
+import { CustomizationsConfig, CustomizationsConfigTypes } from './customizations-config';
+import { GlobalConfig, GlobalConfigTypes } from './global-config';
+import { IamConfig, IamConfigTypes } from './iam-config';
+import { NetworkConfig, NetworkConfigTypes } from './network-config';
+import { OrganizationConfig, OrganizationConfigTypes } from './organization-config';
+import { ReplacementsConfig, ReplacementsConfigTypes } from './replacements-config';
+import { SecurityConfig, SecurityConfigTypes } from './security-config';
+
+const logger = createLogger(['json-schema-generator']);
+const outputDirPath = process.argv[2];
+
+/**
+ * Config files and the io-ts type of their root object
+ */
+const configFiles: { fileName: string; type: t.Any }[] = [
+  { fileName: AccountsConfig.FILENAME, type: AccountsConfigTypes.accountsConfig },
+  { fileName: CustomizationsConfig.FILENAME, type: CustomizationsConfigTypes.customizationsConfig },
+  { fileName: GlobalConfig.FILENAME, type: GlobalConfigTypes.globalConfig },
+  { fileName: IamConfig.FILENAME, type: IamConfigTypes.iamConfig },
+  { fileName: NetworkConfig.FILENAME, type: NetworkConfigTypes.networkConfig },
+  { fileName: OrganizationConfig.FILENAME, type: OrganizationConfigTypes.organizationConfig },
+  { fileName: ReplacementsConfig.FILENAME, type: ReplacementsConfigTypes.replacementsConfig },
+  { fileName: SecurityConfig.FILENAME, type: SecurityConfigTypes.securityConfig },
+];
+
+if (outputDirPath) {
+  logger.info(`Schema output directory - ${outputDirPath}`);
+
+  const generator = new t.JsonSchemaGenerator({
+    namedTypes: {
+      ...t.JsonSchemaGenerator.collectNamedTypes(commonTypes),
+      ...t.JsonSchemaGenerator.collectNamedTypes(AccountsConfigTypes, 'AccountsConfigTypes'),
+      ...t.JsonSchemaGenerator.collectNamedTypes(CustomizationsConfigTypes, 'CustomizationsConfigTypes'),
+      ...t.JsonSchemaGenerator.collectNamedTypes(GlobalConfigTypes, 'GlobalConfigTypes'),
+      ...t.JsonSchemaGenerator.collectNamedTypes(IamConfigTypes, 'IamConfigTypes'),
+      ...t.JsonSchemaGenerator.collectNamedTypes(NetworkConfigTypes, 'NetworkConfigTypes'),
+      ...t.JsonSchemaGenerator.collectNamedTypes(OrganizationConfigTypes, 'OrganizationConfigTypes'),
+      ...t.JsonSchemaGenerator.collectNamedTypes(ReplacementsConfigTypes, 'ReplacementsConfigTypes'),
+      ...t.JsonSchemaGenerator.collectNamedTypes(SecurityConfigTypes, 'SecurityConfigTypes'),
+    },
+    descriptions: getDescriptions([__dirname, path.join(__dirname, 'common-types')]),
+  });
+
+  fs.mkdirSync(outputDirPath, { recursive: true });
+  for (const configFile of configFiles) {
+    const schemaFilePath = path.join(outputDirPath, configFile.fileName.replace(/\.yaml$/, '.schema.json'));
+    const schema = generator.generate(configFile.type, configFile.fileName);
+    fs.writeFileSync(schemaFilePath, JSON.stringify(schema, null, 2) + '\n', 'utf8');
+    logger.info(`Generated ${schemaFilePath}`);
+  }
+} else {
+  logger.info('Schema output directory undefined !!!');
+}
+
+/**
+ * Read the TSDoc of every config class that implements an io-ts type, i.e.
+ * `class VpcConfig implements t.TypeOf<typeof NetworkConfigTypes.vpcConfig>`,
+ * and return the descriptions keyed by the implemented type name.
+ * @param sourceDirPaths
+ * @returns
+ */
+function getDescriptions(sourceDirPaths: string[]): { [name: string]: t.JsonSchemaDescription } {
+  const descriptions: { [name: string]: t.JsonSchemaDescription } = {};
+
+  for (const sourceDirPath of sourceDirPaths) {
+    for (const fileName of fs.readdirSync(sourceDirPath).filter(item => item.endsWith('.ts'))) {
+      const sourceFile = ts.createSourceFile(
+        fileName,
+        fs.readFileSync(path.join(sourceDirPath, fileName), 'utf8'),
+        ts.ScriptTarget.Latest,
+        true,
+      );
+
+      ts.forEachChild(sourceFile, node => {
+        if (!ts.isClassDeclaration(node)) {
+          return;
+        }
+        const typeName = getImplementedTypeName(node);
+        if (!typeName) {
+          return;
+        }
+        const properties: { [name: string]: string } = {};
+        for (const member of node.members) {
+          const description = getDocumentation(member);
+          if (ts.isPropertyDeclaration(member) && ts.isIdentifier(member.name) && description) {
+            properties[member.name.text] = description;
+          }
+        }
+        descriptions[typeName] = { description: getDocumentation(node), properties };
+      });
+    }
+  }
+  return descriptions;
+}
+
+/**
+ * Returns the name of the io-ts type implemented by a class, i.e. `NetworkConfigTypes.vpcConfig`
+ * @param node
+ * @returns
+ */
+function getImplementedTypeName(node: ts.ClassDeclaration): string | undefined {
+  for (const clause of node.heritageClauses ?? []) {
+    for (const heritageType of clause.types) {
+      const typeArgument = heritageType.typeArguments?.[0];
+      if (heritageType.expression.getText().endsWith('TypeOf') && typeArgument && ts.isTypeQueryNode(typeArgument)) {
+        return typeArgument.exprName.getText();
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the summary and remarks of a TSDoc comment as plain text
+ * @param node
+ * @returns
+ */
+function getDocumentation(node: ts.Node): string | undefined {
+  // The parser attaches TSDoc comments to declarations as `jsDoc`, which is not part of the public node types
+  const jsDoc = (node as ts.Node & { jsDoc?: ts.JSDoc[] }).jsDoc?.slice(-1)[0];
+  if (!jsDoc) {
+    return undefined;
+  }
+  const sections = [ts.getTextOfJSDocComment(jsDoc.comment)];
+  for (const tag of jsDoc.tags ?? []) {
+    if (tag.tagName.text === 'remarks') {
+      sections.push(ts.getTextOfJSDocComment(tag.comment));
+    }
+  }
+  const text = sections
+    .filter(section => section)
+    .join('\n\n')
+    // Replace `{@link target | text}` and `{@link target}` with their text
+    .replace(/{@link\s+([^}|]+?)\s*(?:\|\s*([^}]+?))?\s*}/g, (_match, target: string, linkText?: string) =>
+      (linkText ?? target).trim(),
+    )
+    .trim();
+  return text.length > 0 ? text : undefined;
+}
@@ -11,13 +11,13 @@
  *  and limitations under the License.
  */
 
-import * as fs from 'fs';
 import * as yaml from 'js-yaml';
-import * as path from 'path';
 
 import { createLogger } from '@aws-accelerator/utils';
 
 import * as t from './common-types';
+import { ConfigIncludes } from './config-includes';
+import { ReplacementsConfig } from './replacements-config';
 import * as CustomizationsConfig from './customizations-config';
 
 const logger = createLogger(['network-config']);
@@ -49,6 +49,10 @@ export class NetworkConfigTypes {
     transitGatewayPeeringName: t.nonEmptyString,
   });
 
+  static readonly transitGatewayRouteTableConnectEntryConfig = t.interface({
+    transitGatewayConnectName: t.nonEmptyString,
+  });
+
   static readonly transitGatewayRouteEntryConfig = t.interface({
     destinationCidrBlock: t.optional(t.nonEmptyString),
     destinationPrefixList: t.optional(t.nonEmptyString),
@@ -59,6 +63,7 @@ export class NetworkConfigTypes {
         this.transitGatewayRouteTableDxGatewayEntryConfig,
         this.transitGatewayRouteTableVpnEntryConfig,
         this.transitGatewayRouteTableTgwPeeringEntryConfig,
+        this.transitGatewayRouteTableConnectEntryConfig,
       ]),
     ),
   });
@@ -92,6 +97,51 @@ export class NetworkConfigTypes {
     accepter: NetworkConfigTypes.transitGatewayPeeringAccepterConfig,
   });
 
+  static readonly transitGatewayConnectPeerConfig = t.interface({
+    name: t.nonEmptyString,
+    peerAddress: t.nonEmptyString,
+    insideCidrBlocks: t.array(t.nonEmptyString),
+    bgpAsn: t.number,
+    transitGatewayAddress: t.optional(t.nonEmptyString),
+    tags: t.optional(t.array(t.tag)),
+  });
+
+  static readonly transitGatewayConnectConfig = t.interface({
+    name: t.nonEmptyString,
+    transportAttachment: t.union([
+      this.transitGatewayRouteTableVpcEntryConfig,
+      this.transitGatewayRouteTableDxGatewayEntryConfig,
+    ]),
+    peers: t.optional(t.array(this.transitGatewayConnectPeerConfig)),
+    routeTableAssociations: t.optional(t.array(t.nonEmptyString)),
+    routeTablePropagations: t.optional(t.array(t.nonEmptyString)),
+    tags: t.optional(t.array(t.tag)),
+  });
+
+  static readonly transitGatewayMulticastDomainAssociationConfig = t.interface({
+    account: t.nonEmptyString,
+    vpcName: t.nonEmptyString,
+    subnets: t.array(t.nonEmptyString),
+  });
+
+  static readonly transitGatewayMulticastGroupConfig = t.interface({
+    groupIpAddress: t.nonEmptyString,
+    account: t.nonEmptyString,
+    vpcName: t.nonEmptyString,
+    networkInterfaceIds: t.array(t.nonEmptyString),
+  });
+
+  static readonly transitGatewayMulticastDomainConfig = t.interface({
+    name: t.nonEmptyString,
+    igmpv2Support: t.optional(t.enableDisable),
+    staticSourcesSupport: t.optional(t.enableDisable),
+    autoAcceptSharedAssociations: t.optional(t.enableDisable),
+    associations: t.optional(t.array(this.transitGatewayMulticastDomainAssociationConfig)),
+    groupMembers: t.optional(t.array(this.transitGatewayMulticastGroupConfig)),
+    groupSources: t.optional(t.array(this.transitGatewayMulticastGroupConfig)),
+    tags: t.optional(t.array(t.tag)),
+  });
+
   static readonly transitGatewayConfig = t.interface({
     name: t.nonEmptyString,
     account: t.nonEmptyString,
@@ -103,7 +153,11 @@ export class NetworkConfigTypes {
     defaultRouteTableAssociation: t.enableDisable,
     defaultRouteTablePropagation: t.enableDisable,
     autoAcceptSharingAttachments: t.enableDisable,
+    multicastSupport: t.optional(t.enableDisable),
+    transitGatewayCidrBlocks: t.optional(t.array(t.nonEmptyString)),
     routeTables: t.array(this.transitGatewayRouteTableConfig),
+    connects: t.optional(t.array(this.transitGatewayConnectConfig)),
+    multicastDomains: t.optional(t.array(this.transitGatewayMulticastDomainConfig)),
     tags: t.optional(t.array(t.tag)),
   });
 
@@ -197,6 +251,7 @@ export class NetworkConfigTypes {
       'networkFirewall',
       'virtualPrivateGateway',
       'vpcPeering',
+      'egressOnlyInternetGateway',
     ],
     'Value should be a route table target type',
   );
@@ -228,6 +283,13 @@ export class NetworkConfigTypes {
     netmaskLength: t.number,
   });
 
+  static readonly vpcIpv6Config = t.interface({
+    amazonProvided: t.optional(t.boolean),
+    byoipPoolId: t.optional(t.nonEmptyString),
+    cidrBlock: t.optional(t.ipv6Cidr),
+    ipamAllocation: t.optional(this.ipamAllocationConfig),
+  });
+
   static readonly subnetConfig = t.interface({
     name: t.nonEmptyString,
     availabilityZone: t.optional(t.nonEmptyString),
@@ -235,6 +297,10 @@ export class NetworkConfigTypes {
     ipv4CidrBlock: t.optional(t.nonEmptyString),
     mapPublicIpOnLaunch: t.optional(t.boolean),
     ipamAllocation: t.optional(this.ipamAllocationConfig),
+    ipv6CidrBlock: t.optional(t.ipv6Cidr),
+    ipv6SubnetIndex: t.optional(t.number),
+    ipv6Native: t.optional(t.boolean),
+    assignIpv6AddressOnCreation: t.optional(t.boolean),
     shareTargets: t.optional(t.shareTargets),
     tags: t.optional(t.array(t.tag)),
     outpost: t.optional(t.nonEmptyString),
@@ -492,6 +558,22 @@ export class NetworkConfigTypes {
     networkLoadBalancers: t.optional(t.array(CustomizationsConfig.CustomizationsConfigTypes.networkLoadBalancerConfig)),
   });
 
+  static readonly privateHostedZoneRecordTypeEnum = t.enums('PrivateHostedZoneRecordType', ['A', 'CNAME']);
+
+  static readonly privateHostedZoneRecordConfig = t.interface({
+    name: t.nonEmptyString,
+    type: this.privateHostedZoneRecordTypeEnum,
+    ttl: t.optional(t.number),
+    values: t.optional(t.array(t.nonEmptyString)),
+    loadBalancer: t.optional(t.nonEmptyString),
+  });
+
+  static readonly privateHostedZoneConfig = t.interface({
+    name: t.nonEmptyString,
+    associatedVpcs: t.optional(t.array(t.nonEmptyString)),
+    records: t.optional(t.array(this.privateHostedZoneRecordConfig)),
+  });
+
   static readonly vpcConfig = t.interface({
     name: t.nonEmptyString,
     account: t.nonEmptyString,
@@ -500,6 +582,7 @@ export class NetworkConfigTypes {
     defaultSecurityGroupRulesDeletion: t.optional(t.boolean),
     dhcpOptions: t.optional(t.nonEmptyString),
     dnsFirewallRuleGroups: t.optional(t.array(this.vpcDnsFirewallAssociationConfig)),
+    egressOnlyInternetGateway: t.optional(t.boolean),
     enableDnsHostnames: t.optional(t.boolean),
     enableDnsSupport: t.optional(t.boolean),
     gatewayEndpoints: t.optional(this.gatewayEndpointConfig),
@@ -507,6 +590,7 @@ export class NetworkConfigTypes {
     interfaceEndpoints: t.optional(this.interfaceEndpointConfig),
     internetGateway: t.optional(t.boolean),
     ipamAllocations: t.optional(t.array(this.ipamAllocationConfig)),
+    ipv6Cidrs: t.optional(t.array(this.vpcIpv6Config)),
     natGateways: t.optional(t.array(this.natGatewayConfig)),
     useCentralEndpoints: t.optional(t.boolean),
     securityGroups: t.optional(t.array(this.securityGroupConfig)),
@@ -522,6 +606,7 @@ export class NetworkConfigTypes {
     vpcFlowLogs: t.optional(t.vpcFlowLogsConfig),
     loadBalancers: t.optional(this.loadBalancersConfig),
     targetGroups: t.optional(t.array(CustomizationsConfig.CustomizationsConfigTypes.targetGroupItem)),
+    privateHostedZones: t.optional(t.array(this.privateHostedZoneConfig)),
   });
 
   static readonly vpcTemplatesConfig = t.interface({
@@ -532,6 +617,7 @@ export class NetworkConfigTypes {
     defaultSecurityGroupRulesDeletion: t.optional(t.boolean),
     dhcpOptions: t.optional(t.nonEmptyString),
     dnsFirewallRuleGroups: t.optional(t.array(this.vpcDnsFirewallAssociationConfig)),
+    egressOnlyInternetGateway: t.optional(t.boolean),
     enableDnsHostnames: t.optional(t.boolean),
     enableDnsSupport: t.optional(t.boolean),
     gatewayEndpoints: t.optional(this.gatewayEndpointConfig),
@@ -539,6 +625,7 @@ export class NetworkConfigTypes {
     interfaceEndpoints: t.optional(this.interfaceEndpointConfig),
     internetGateway: t.optional(t.boolean),
     ipamAllocations: t.optional(t.array(this.ipamAllocationConfig)),
+    ipv6Cidrs: t.optional(t.array(this.vpcIpv6Config)),
     natGateways: t.optional(t.array(this.natGatewayConfig)),
     useCentralEndpoints: t.optional(t.boolean),
     securityGroups: t.optional(t.array(this.securityGroupConfig)),
@@ -553,6 +640,7 @@ export class NetworkConfigTypes {
     vpcFlowLogs: t.optional(t.vpcFlowLogsConfig),
     loadBalancers: t.optional(this.loadBalancersConfig),
     targetGroups: t.optional(t.array(CustomizationsConfig.CustomizationsConfigTypes.targetGroupItem)),
+    privateHostedZones: t.optional(t.array(this.privateHostedZoneConfig)),
   });
 
   static readonly ruleTypeEnum = t.enums('ResolverRuleType', ['FORWARD', 'RECURSIVE', 'SYSTEM']);
@@ -1086,6 +1174,35 @@ export class TransitGatewayRouteTableTgwPeeringEntryConfig
   readonly transitGatewayPeeringName: string = '';
 }
 
+/**
+ * *{@link NetworkConfig} / {@link TransitGatewayConfig} / {@link TransitGatewayRouteTableConfig} / {@link TransitGatewayRouteEntryConfig} / {@link TransitGatewayRouteTableConnectEntryConfig}*
+ *
+ * Transit Gateway Connect static route entry configuration.
+ * Used to define a Connect attachment as a target for Transit
+ * Gateway static routes.
+ *
+ * @remarks
+ * The targeted Connect attachment must be defined on the same Transit Gateway. @see {@link TransitGatewayConnectConfig}
+ *
+ * @example
+ * ```
+ * transitGatewayConnectName: Network-Main-SdWan
+ * ```
+ */
+export class TransitGatewayRouteTableConnectEntryConfig
+  implements t.TypeOf<typeof NetworkConfigTypes.transitGatewayRouteTableConnectEntryConfig>
+{
+  /**
+   * The name of the Transit Gateway Connect attachment
+   *
+   * @remarks
+   * Note: This is the logical `name` property of the Connect attachment as defined in network-config.yaml.
+   *
+   * @see {@link TransitGatewayConnectConfig}
+   */
+  readonly transitGatewayConnectName: string = '';
+}
+
 /**
  * *{@link NetworkConfig} / {@link TransitGatewayConfig} / {@link TransitGatewayRouteTableConfig} / {@link TransitGatewayRouteEntryConfig}*
  *
@@ -1145,6 +1262,7 @@ export class TransitGatewayRouteEntryConfig
    * - Direct Connect Gateway
    * - VPN
    * - Transit Gateway Peering
+   * - Transit Gateway Connect
    *
    * @remarks
    * **CAUTION**: Changing the attachment type or target after initial deployment creates a new route table entry.
@@ -1152,13 +1270,14 @@ export class TransitGatewayRouteEntryConfig
    *
    * Note: Leave undefined if specifying a blackhole destination.
    *
-   * @see {@link TransitGatewayRouteTableVpcEntryConfig} {@link TransitGatewayRouteTableDxGatewayEntryConfig} {@link TransitGatewayRouteTableVpnEntryConfig}
+   * @see {@link TransitGatewayRouteTableVpcEntryConfig} {@link TransitGatewayRouteTableDxGatewayEntryConfig} {@link TransitGatewayRouteTableVpnEntryConfig} {@link TransitGatewayRouteTableConnectEntryConfig}
    */
   readonly attachment:
     | TransitGatewayRouteTableVpcEntryConfig
     | TransitGatewayRouteTableDxGatewayEntryConfig
     | TransitGatewayRouteTableVpnEntryConfig
     | TransitGatewayRouteTableTgwPeeringEntryConfig
+    | TransitGatewayRouteTableConnectEntryConfig
     | undefined = undefined;
 }
 
@@ -1386,6 +1505,343 @@ export class TransitGatewayPeeringConfig implements t.TypeOf<typeof NetworkConfi
   readonly accepter = new TransitGatewayPeeringAccepterConfig();
 }
 
+/**
+ * *{@link NetworkConfig} / {@link TransitGatewayConfig} / {@link TransitGatewayConnectConfig} / {@link TransitGatewayConnectPeerConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/vpc/latest/tgw/tgw-connect.html#tgw-connect-peer | Transit Gateway Connect peer} configuration.
+ * Use this configuration to define a GRE tunnel and BGP session between the Transit Gateway and a third-party appliance.
+ *
+ * @example
+ * ```
+ * - name: SdWan-Peer-A
+ *   peerAddress: 10.1.0.10
+ *   insideCidrBlocks:
+ *     - 169.254.100.0/29
+ *   bgpAsn: 65100
+ * ```
+ */
+export class TransitGatewayConnectPeerConfig
+  implements t.TypeOf<typeof NetworkConfigTypes.transitGatewayConnectPeerConfig>
+{
+  /**
+   * A friendly name for the Connect peer.
+   *
+   * @remarks
+   * **CAUTION**: Changing this value after initial deployment will cause the Connect peer to be recreated.
+   */
+  readonly name: string = '';
+  /**
+   * The peer IP address (GRE outer IP address) on the appliance side of the Connect peer.
+   *
+   * @remarks
+   * **CAUTION**: Changing this value after initial deployment will cause the Connect peer to be recreated.
+   */
+  readonly peerAddress: string = '';
+  /**
+   * The range of inside IP addresses that are used for BGP peering.
+   *
+   * @remarks
+   * **CAUTION**: Changing this value after initial deployment will cause the Connect peer to be recreated.
+   *
+   * You must specify a size /29 IPv4 CIDR block from the 169.254.0.0/16 range. The following CIDR blocks
+   * are reserved and cannot be used: 169.254.0.0/29, 169.254.1.0/29, 169.254.2.0/29, 169.254.3.0/29,
+   * 169.254.4.0/29, 169.254.5.0/29, and 169.254.169.248/29.
+   */
+  readonly insideCidrBlocks: string[] = [];
+  /**
+   * The Border Gateway Protocol (BGP) Autonomous System Number (ASN) of the appliance.
+   *
+   * @remarks
+   * **CAUTION**: Changing this value after initial deployment will cause the Connect peer to be recreated.
+   */
+  readonly bgpAsn: number = 65000;
+  /**
+   * (OPTIONAL) The peer IP address (GRE outer IP address) on the Transit Gateway side of the Connect peer.
+   *
+   * @remarks
+   * **CAUTION**: Changing this value after initial deployment will cause the Connect peer to be recreated.
+   *
+   * The address must be within one of the `transitGatewayCidrBlocks` of the Transit Gateway.
+   * If undefined, an address is automatically assigned from the Transit Gateway CIDR blocks.
+   */
+  readonly transitGatewayAddress: string | undefined = undefined;
+  /**
+   * (OPTIONAL) An array of tag objects for the Connect peer.
+   */
+  readonly tags: t.Tag[] | undefined = undefined;
+}
+
+/**
+ * *{@link NetworkConfig} / {@link TransitGatewayConfig} / {@link TransitGatewayConnectConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/vpc/latest/tgw/tgw-connect.html | Transit Gateway Connect attachment} configuration.
+ * Use this configuration to define Connect attachments for third-party appliances, such as SD-WAN appliances.
+ * A Connect attachment uses an existing VPC or Direct Connect Gateway attachment as its underlying transport.
+ *
+ * @remarks
+ * The transport VPC must be deployed to the same account and region as the Transit Gateway.
+ *
+ * @example
+ * VPC transport attachment:
+ * ```
+ * - name: Network-Main-SdWan
+ *   transportAttachment:
+ *     account: Network
+ *     vpcName: Network-Inspection
+ *   peers:
+ *     - name: SdWan-Peer-A
+ *       peerAddress: 10.1.0.10
+ *       insideCidrBlocks:
+ *         - 169.254.100.0/29
+ *       bgpAsn: 65100
+ *   routeTableAssociations:
+ *     - Network-Main-Core
+ *   routeTablePropagations:
+ *     - Network-Main-Core
+ * ```
+ * Direct Connect Gateway transport attachment:
+ * ```
+ * - name: Network-Main-DxConnect
+ *   transportAttachment:
+ *     directConnectGatewayName: Accelerator-DXGW
+ * ```
+ */
+export class TransitGatewayConnectConfig implements t.TypeOf<typeof NetworkConfigTypes.transitGatewayConnectConfig> {
+  /**
+   * A friendly name for the Connect attachment.
+   *
+   * @remarks
+   * **CAUTION**: Changing this value after initial deployment will cause the Connect attachment to be recreated.
+   * Please be aware that any downstream dependencies may cause this property update to fail.
+   */
+  readonly name: string = '';
+  /**
+   * The Transit Gateway attachment used as the underlying transport for the Connect attachment.
+   *
+   * @remarks
+   * **CAUTION**: Changing this value after initial deployment will cause the Connect attachment to be recreated.
+   * Please be aware that any downstream dependencies may cause this property update to fail.
+   *
+   * The targeted VPC must have a Transit Gateway attachment defined. @see {@link TransitGatewayAttachmentConfig}
+   *
+   * The targeted Direct Connect Gateway must have a Transit Gateway association defined. @see {@link DxTransitGatewayAssociationConfig}
+   *
+   * @see {@link TransitGatewayRouteTableVpcEntryConfig} {@link TransitGatewayRouteTableDxGatewayEntryConfig}
+   */
+  readonly transportAttachment: TransitGatewayRouteTableVpcEntryConfig | TransitGatewayRouteTableDxGatewayEntryConfig =
+    new TransitGatewayRouteTableVpcEntryConfig();
+  /**
+   * (OPTIONAL) An array of Connect peer configuration objects.
+   *
+   * @remarks
+   * The Transit Gateway must have `transitGatewayCidrBlocks` defined to create Connect peers.
+   *
+   * @see {@link TransitGatewayConnectPeerConfig}
+   */
+  readonly peers: TransitGatewayConnectPeerConfig[] | undefined = undefined;
+  /**
+   * (OPTIONAL) An array of Transit Gateway route table names to associate the Connect attachment to.
+   *
+   * @remarks
+   * This is the `name` property of a Transit Gateway route table defined on the same Transit Gateway.
+   *
+   * @see {@link TransitGatewayRouteTableConfig}
+   */
+  readonly routeTableAssociations: string[] | undefined = undefined;
+  /**
+   * (OPTIONAL) An array of Transit Gateway route table names to propagate the Connect attachment to.
+   *
+   * @remarks
+   * This is the `name` property of a Transit Gateway route table defined on the same Transit Gateway.
+   *
+   * @see {@link TransitGatewayRouteTableConfig}
+   */
+  readonly routeTablePropagations: string[] | undefined = undefined;
+  /**
+   * (OPTIONAL) An array of tag objects for the Connect attachment.
+   */
+  readonly tags: t.Tag[] | undefined = undefined;
+}
+
+/**
+ * *{@link NetworkConfig} / {@link TransitGatewayConfig} / {@link TransitGatewayMulticastDomainConfig} / {@link TransitGatewayMulticastDomainAssociationConfig}*
+ *
+ * Transit Gateway multicast domain association configuration.
+ * Use this configuration to associate subnets of a VPC attachment with a multicast domain.
+ *
+ * @remarks
+ * The VPC must have a Transit Gateway attachment to the Transit Gateway that owns the multicast domain. @see {@link TransitGatewayAttachmentConfig}
+ *
+ * @example
+ * ```
+ * - account: SharedServices
+ *   vpcName: SharedServices-Main
+ *   subnets:
+ *     - SharedServices-App-A
+ *     - SharedServices-App-B
+ * ```
+ */
+export class TransitGatewayMulticastDomainAssociationConfig
+  implements t.TypeOf<typeof NetworkConfigTypes.transitGatewayMulticastDomainAssociationConfig>
+{
+  /**
+   * The friendly name of the account where the VPC resides.
+   *
+   * @remarks
+   * Note: This is the logical `name` property for the account as defined in accounts-config.yaml.
+   */
+  readonly account: string = '';
+  /**
+   * The friendly name of the VPC.
+   *
+   * @remarks
+   * Note: This is the logical `name` property for the VPC as defined in network-config.yaml.
+   */
+  readonly vpcName: string = '';
+  /**
+   * An array of friendly names of subnets to associate with the multicast domain.
+   *
+   * @remarks
+   * Note: This is the logical `name` property for the subnet as defined in network-config.yaml.
+   */
+  readonly subnets: string[] = [];
+}
+
+/**
+ * *{@link NetworkConfig} / {@link TransitGatewayConfig} / {@link TransitGatewayMulticastDomainConfig} / {@link TransitGatewayMulticastGroupConfig}*
+ *
+ * Transit Gateway multicast group static member or source configuration.
+ * Use this configuration to register network interfaces with a multicast group.
+ *
+ * @remarks
+ * The VPC must be associated with the multicast domain. @see {@link TransitGatewayMulticastDomainAssociationConfig}
+ *
+ * @example
+ * ```
+ * - groupIpAddress: 239.0.0.1
+ *   account: SharedServices
+ *   vpcName: SharedServices-Main
+ *   networkInterfaceIds:
+ *     - eni-0123456789abcdef0
+ * ```
+ */
+export class TransitGatewayMulticastGroupConfig
+  implements t.TypeOf<typeof NetworkConfigTypes.transitGatewayMulticastGroupConfig>
+{
+  /**
+   * The IPv4 address of the multicast group.
+   *
+   * @remarks
+   * The address must be within the 224.0.0.0/4 multicast range.
+   */
+  readonly groupIpAddress: string = '';
+  /**
+   * The friendly name of the account where the network interfaces reside.
+   *
+   * @remarks
+   * Note: This is the logical `name` property for the account as defined in accounts-config.yaml.
+   */
+  readonly account: string = '';
+  /**
+   * The friendly name of the VPC where the network interfaces reside.
+   *
+   * @remarks
+   * Note: This is the logical `name` property for the VPC as defined in network-config.yaml.
+   */
+  readonly vpcName: string = '';
+  /**
+   * An array of network interface IDs to register with the multicast group.
+   */
+  readonly networkInterfaceIds: string[] = [];
+}
+
+/**
+ * *{@link NetworkConfig} / {@link TransitGatewayConfig} / {@link TransitGatewayMulticastDomainConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/vpc/latest/tgw/tgw-multicast-overview.html | Transit Gateway multicast domain} configuration.
+ * Use this configuration to define multicast domains for your Transit Gateway.
+ *
+ * @remarks
+ * The Transit Gateway must have `multicastSupport` enabled. Multicast domains are shared with the
+ * `shareTargets` of the Transit Gateway so that subnets in other accounts may be associated.
+ *
+ * @example
+ * ```
+ * - name: Network-Main-MarketData
+ *   staticSourcesSupport: enable
+ *   associations:
+ *     - account: SharedServices
+ *       vpcName: SharedServices-Main
+ *       subnets:
+ *         - SharedServices-App-A
+ *   groupMembers:
+ *     - groupIpAddress: 239.0.0.1
+ *       account: SharedServices
+ *       vpcName: SharedServices-Main
+ *       networkInterfaceIds:
+ *         - eni-0123456789abcdef0
+ * ```
+ */
+export class TransitGatewayMulticastDomainConfig
+  implements t.TypeOf<typeof NetworkConfigTypes.transitGatewayMulticastDomainConfig>
+{
+  /**
+   * A friendly name for the multicast domain.
+   *
+   * @remarks
+   * **CAUTION**: Changing this value after initial deployment will cause the multicast domain to be recreated.
+   * Please be aware that any downstream dependencies may cause this property update to fail.
+   */
+  readonly name: string = '';
+  /**
+   * (OPTIONAL) Enable this option to use the Internet Group Management Protocol (IGMPv2) to manage group membership.
+   *
+   * @remarks
+   * **CAUTION**: Changing this value after initial deployment will cause the multicast domain to be recreated.
+   *
+   * IGMPv2 support cannot be enabled together with `staticSourcesSupport`.
+   */
+  readonly igmpv2Support: t.EnableDisable | undefined = undefined;
+  /**
+   * (OPTIONAL) Enable this option to statically configure multicast group sources.
+   *
+   * @remarks
+   * **CAUTION**: Changing this value after initial deployment will cause the multicast domain to be recreated.
+   *
+   * Must be enabled to define `groupSources`.
+   */
+  readonly staticSourcesSupport: t.EnableDisable | undefined = undefined;
+  /**
+   * (OPTIONAL) Enable this option to automatically accept cross-account subnet associations.
+   *
+   * @remarks
+   * Must be enabled when the multicast domain has associations in accounts other than the Transit Gateway account.
+   */
+  readonly autoAcceptSharedAssociations: t.EnableDisable | undefined = undefined;
+  /**
+   * (OPTIONAL) An array of multicast domain association configuration objects.
+   *
+   * @see {@link TransitGatewayMulticastDomainAssociationConfig}
+   */
+  readonly associations: TransitGatewayMulticastDomainAssociationConfig[] | undefined = undefined;
+  /**
+   * (OPTIONAL) An array of static multicast group member configuration objects.
+   *
+   * @see {@link TransitGatewayMulticastGroupConfig}
+   */
+  readonly groupMembers: TransitGatewayMulticastGroupConfig[] | undefined = undefined;
+  /**
+   * (OPTIONAL) An array of static multicast group source configuration objects.
+   *
+   * @see {@link TransitGatewayMulticastGroupConfig}
+   */
+  readonly groupSources: TransitGatewayMulticastGroupConfig[] | undefined = undefined;
+  /**
+   * (OPTIONAL) An array of tag objects for the multicast domain.
+   */
+  readonly tags: t.Tag[] | undefined = undefined;
+}
+
 /**
  * *{@link NetworkConfig} / {@link TransitGatewayConfig}*
  *
@@ -1490,12 +1946,46 @@ export class TransitGatewayConfig implements t.TypeOf<typeof NetworkConfigTypes.
    * Enable this option to automatically accept cross-account attachments.
    */
   readonly autoAcceptSharingAttachments: t.EnableDisable = 'disable';
+  /**
+   * (OPTIONAL) Enable this option to support multicast on the Transit Gateway.
+   *
+   * @remarks
+   * **CAUTION**: Changing this value after initial deployment will cause the Transit Gateway to be recreated.
+   * The EC2 API cannot modify multicast support in place, so enabling it on an existing Transit Gateway replaces the gateway,
+   * together with its attachments, route tables and routes.
+   * Please be aware that any downstream dependencies may cause this property update to fail.
+   *
+   * Must be enabled to define `multicastDomains`.
+   */
+  readonly multicastSupport: t.EnableDisable | undefined = undefined;
+  /**
+   * (OPTIONAL) An array of IPv4 or IPv6 CIDR blocks for the Transit Gateway.
+   *
+   * @remarks
+   * Transit Gateway CIDR blocks are required to create Connect peers. IPv4 CIDR blocks must be a
+   * size /24 or larger, and IPv6 CIDR blocks must be a size /64 or larger.
+   *
+   * @see {@link TransitGatewayConnectPeerConfig}
+   */
+  readonly transitGatewayCidrBlocks: string[] | undefined = undefined;
   /**
    * An array of Transit Gateway route table configuration objects.
    *
    * @see {@link TransitGatewayRouteTableConfig}
    */
   readonly routeTables: TransitGatewayRouteTableConfig[] = [];
+  /**
+   * (OPTIONAL) An array of Transit Gateway Connect attachment configuration objects.
+   *
+   * @see {@link TransitGatewayConnectConfig}
+   */
+  readonly connects: TransitGatewayConnectConfig[] | undefined = undefined;
+  /**
+   * (OPTIONAL) An array of Transit Gateway multicast domain configuration objects.
+   *
+   * @see {@link TransitGatewayMulticastDomainConfig}
+   */
+  readonly multicastDomains: TransitGatewayMulticastDomainConfig[] | undefined = undefined;
   /**
    * (OPTIONAL) An array of tag objects for the Transit Gateway.
    */
@@ -2046,6 +2536,15 @@ export class IpamConfig implements t.TypeOf<typeof NetworkConfigTypes.ipamConfig
  * ```
  *
  * @example
+ * Transit Gateway Attachment using a VPC name destination
+ * ```
+ * - name: SharedServicesRoute
+ *   destination: SharedServices-Main
+ *   type: transitGateway
+ *   target: Network-Main
+ * ```
+ *
+ * @example
  * NAT Gateway
  * ```
  * - name: NatRoute
@@ -2063,6 +2562,14 @@ export class IpamConfig implements t.TypeOf<typeof NetworkConfigTypes.ipamConfig
  * ```
  *
  * @example
+ * Egress-only Internet Gateway
+ * ```
+ * - name: EigwRoute
+ *   destination: ::/0
+ *   type: egressOnlyInternetGateway
+ * ```
+ *
+ * @example
  * VPC Peering
  * ```
  * - name: PeerRoute
@@ -2104,13 +2611,23 @@ export class RouteTableEntryConfig implements t.TypeOf<typeof NetworkConfigTypes
    * (OPTIONAL) The destination CIDR block for the route table entry.
    *
    * @remarks
-   * Use CIDR notation, i.e. 10.0.0.0/16
+   * Use CIDR notation, i.e. 10.0.0.0/16 or ::/0
    *
    * Either `destination` or `destinationPrefixList` must be specified for the following route entry types:
-   * `transitGateway`, `natGateway`, `internetGateway`, `networkInterface`, `vpcPeering`, `virtualPrivateGateway`.
+   * `transitGateway`, `natGateway`, `internetGateway`, `egressOnlyInternetGateway`, `networkInterface`, `vpcPeering`, `virtualPrivateGateway`.
    *
    * `destination` MUST be specified for route entry type `networkFirewall` or `gatewayLoadBalancerEndpoint`.
    *
+   * IPv6 destinations are supported for route entry types `transitGateway`, `natGateway`, `internetGateway`,
+   * `egressOnlyInternetGateway`, and `virtualPrivateGateway`. Route entry type `egressOnlyInternetGateway`
+   * only supports IPv6 destinations.
+   *
+   * A VPC name or subnet name defined in network-config.yaml may be used in place of a CIDR for route entry types
+   * `transitGateway`, `natGateway`, `internetGateway`, and `virtualPrivateGateway`. The route entry is expanded into
+   * one route per IPv4 CIDR of the named VPC or subnet, named after the CIDR or subnet. For VPCs using IPAM allocations,
+   * one route is created per subnet of the VPC. IPAM-allocated subnets must be in the same account and region
+   * as the route table. VPC templates cannot be used as named destinations.
+   *
    * Note: Leave undefined for route entry type `gatewayEndpoint`.
    */
   readonly destination: string | undefined = undefined;
@@ -2144,7 +2661,7 @@ export class RouteTableEntryConfig implements t.TypeOf<typeof NetworkConfigTypes
    *
    * This is the logical `name` property of other target types as defined in network-config.yaml.
    *
-   * Note: Leave undefined for route entry type `internetGateway` or `virtualPrivateGateway`.
+   * Note: Leave undefined for route entry type `internetGateway`, `egressOnlyInternetGateway`, or `virtualPrivateGateway`.
    */
   readonly target: string | undefined = undefined;
   /**
@@ -2233,6 +2750,25 @@ export class RouteTableConfig implements t.TypeOf<typeof NetworkConfigTypes.rout
  *     netmaskLength: 26
  *   tags: []
  * ```
+ * Dual-stack:
+ * ```
+ * - name: accelerator-dual-stack-subnet-a
+ *   availabilityZone: a
+ *   routeTable: accelerator-cidr-subnet-a
+ *   ipv4CidrBlock: 10.0.0.0/26
+ *   ipv6SubnetIndex: 0
+ *   assignIpv6AddressOnCreation: true
+ *   tags: []
+ * ```
+ * IPv6-only:
+ * ```
+ * - name: accelerator-ipv6-subnet-a
+ *   availabilityZone: a
+ *   routeTable: accelerator-cidr-subnet-a
+ *   ipv6Native: true
+ *   ipv6SubnetIndex: 1
+ *   tags: []
+ * ```
  */
 export class SubnetConfig implements t.TypeOf<typeof NetworkConfigTypes.subnetConfig> {
   /**
@@ -2286,6 +2822,52 @@ export class SubnetConfig implements t.TypeOf<typeof NetworkConfigTypes.subnetCo
    * IPv4 address for a new network interface in this subnet.
    */
   readonly mapPublicIpOnLaunch: boolean | undefined = undefined;
+  /**
+   * (OPTIONAL) The IPv6 CIDR block to associate with the subnet.
+   *
+   * @remarks
+   * **CAUTION**: changing this property after initial deployment will cause a subnet recreation.
+   * Please be aware that any downstream dependencies may cause this property update to fail.
+   *
+   * Use CIDR notation with a /64 prefix, i.e. 2001:db8:1234:1a00::/64. The CIDR must be within
+   * a static `cidrBlock` defined in the `ipv6Cidrs` property of the VPC.
+   *
+   * Cannot be defined with `ipv6SubnetIndex`.
+   */
+  readonly ipv6CidrBlock: string | undefined = undefined;
+  /**
+   * (OPTIONAL) The index of the /64 IPv6 CIDR block to associate with the subnet.
+   *
+   * @remarks
+   * **CAUTION**: changing this property after initial deployment will cause a subnet recreation.
+   * Please be aware that any downstream dependencies may cause this property update to fail.
+   *
+   * Use this property when the IPv6 CIDR of the VPC is not known until deployment time, i.e. an Amazon-provided
+   * or IPAM-allocated CIDR. The subnet CIDR is the /64 block at this index within the first IPv6 CIDR of the VPC.
+   * Value must be between 0 and 255, and must be unique per VPC.
+   *
+   * Cannot be defined with `ipv6CidrBlock`.
+   */
+  readonly ipv6SubnetIndex: number | undefined = undefined;
+  /**
+   * (OPTIONAL) Create an IPv6-only subnet.
+   *
+   * @remarks
+   * **CAUTION**: changing this property after initial deployment will cause a subnet recreation.
+   * Please be aware that any downstream dependencies may cause this property update to fail.
+   *
+   * IPv6-only subnets must define either `ipv6CidrBlock` or `ipv6SubnetIndex`, and cannot define
+   * `ipv4CidrBlock` or `ipamAllocation`.
+   */
+  readonly ipv6Native: boolean | undefined = undefined;
+  /**
+   * (OPTIONAL) Configure automatic assignment of IPv6 addresses.
+   *
+   * @remarks
+   * Enables you to automatically assign an IPv6 address to a new network interface in this subnet.
+   * Requires either `ipv6CidrBlock` or `ipv6SubnetIndex` to be defined.
+   */
+  readonly assignIpv6AddressOnCreation: boolean | undefined = undefined;
   /**
    * (OPTIONAL) Resource Access Manager (RAM) share targets.
    *
@@ -3544,6 +4126,70 @@ export class IpamAllocationConfig implements t.TypeOf<typeof NetworkConfigTypes.
   readonly netmaskLength: number = 24;
 }
 
+/**
+ * *{@link NetworkConfig} / {@link VpcConfig} | {@link VpcTemplatesConfig} / {@link VpcIpv6Config}*
+ *
+ * {@link https://docs.aws.amazon.com/vpc/latest/userguide/vpc-cidr-blocks.html#vpc-sizing-ipv6 | VPC IPv6 CIDR} configuration.
+ * Use this configuration to associate an IPv6 CIDR block with your VPC.
+ *
+ * @remarks
+ * Define only one of `amazonProvided`, `byoipPoolId`, or `ipamAllocation` per IPv6 CIDR.
+ *
+ * @example
+ * Amazon-provided IPv6 CIDR:
+ * ```
+ * - amazonProvided: true
+ * ```
+ * Bring your own IPv6 CIDR (BYOIP):
+ * ```
+ * - byoipPoolId: ipv6pool-ec2-0123456789abcdef0
+ *   cidrBlock: 2001:db8:1234:1a00::/56
+ * ```
+ * IPAM allocation:
+ * ```
+ * - ipamAllocation:
+ *     ipamPoolName: accelerator-ipv6-regional-pool
+ *     netmaskLength: 56
+ * ```
+ */
+export class VpcIpv6Config implements t.TypeOf<typeof NetworkConfigTypes.vpcIpv6Config> {
+  /**
+   * (OPTIONAL) Request an Amazon-provided /56 IPv6 CIDR block.
+   *
+   * @remarks
+   * **CAUTION**: Changing this property value after initial deployment causes the IPv6 CIDR to be recreated.
+   * Please be aware that any downstream dependencies may cause this property update to fail.
+   */
+  readonly amazonProvided: boolean | undefined = undefined;
+  /**
+   * (OPTIONAL) The ID of a bring your own IP (BYOIP) IPv6 address pool to request the CIDR from.
+   *
+   * @remarks
+   * **CAUTION**: Changing this property value after initial deployment causes the IPv6 CIDR to be recreated.
+   * Please be aware that any downstream dependencies may cause this property update to fail.
+   */
+  readonly byoipPoolId: string | undefined = undefined;
+  /**
+   * (OPTIONAL) The IPv6 CIDR block to request from the BYOIP pool.
+   *
+   * @remarks
+   * **CAUTION**: Changing this property value after initial deployment causes the IPv6 CIDR to be recreated.
+   * Please be aware that any downstream dependencies may cause this property update to fail.
+   *
+   * Use CIDR notation with a /56 prefix, i.e. 2001:db8:1234:1a00::/56. Requires `byoipPoolId`.
+   */
+  readonly cidrBlock: string | undefined = undefined;
+  /**
+   * (OPTIONAL) The IPAM pool configuration for the IPv6 CIDR.
+   *
+   * @remarks
+   * The IPAM pool referenced must use the `ipv6` address family.
+   *
+   * @see {@link IpamAllocationConfig}
+   */
+  readonly ipamAllocation: IpamAllocationConfig | undefined = undefined;
+}
+
 /**
  * *{@link NetworkConfig} / {@link DhcpOptsConfig}*
  *
@@ -3966,6 +4612,114 @@ export class LoadBalancersConfig implements t.TypeOf<typeof NetworkConfigTypes.l
   readonly networkLoadBalancers: CustomizationsConfig.NetworkLoadBalancerConfig[] | undefined = undefined;
 }
 
+/**
+ * *{@link NetworkConfig} / {@link VpcConfig} / {@link PrivateHostedZoneConfig} / {@link PrivateHostedZoneRecordConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/Route53/latest/DeveloperGuide/rrsets-working-with.html | Route 53 record} configuration.
+ * Use this configuration to define records in a private hosted zone.
+ * A record either defines static values or an alias to a load balancer defined for the VPC.
+ *
+ * @example
+ * Static values:
+ * ```
+ * - name: db.example.internal
+ *   type: CNAME
+ *   ttl: 300
+ *   values:
+ *     - db.cluster-abcdefghijkl.us-east-1.rds.amazonaws.com
+ * ```
+ * Load balancer alias:
+ * ```
+ * - name: app.example.internal
+ *   type: A
+ *   loadBalancer: appA-alb-01
+ * ```
+ */
+export class PrivateHostedZoneRecordConfig
+  implements t.TypeOf<typeof NetworkConfigTypes.privateHostedZoneRecordConfig>
+{
+  /**
+   * The fully qualified domain name of the record.
+   *
+   * @remarks
+   * The name must be the name of the private hosted zone or a subdomain of it.
+   */
+  readonly name: string = '';
+  /**
+   * The record type.
+   *
+   * @remarks
+   * Records with a `loadBalancer` alias must be of type `A`.
+   */
+  readonly type: t.TypeOf<typeof NetworkConfigTypes.privateHostedZoneRecordTypeEnum> = 'A';
+  /**
+   * (OPTIONAL) The record TTL in seconds.
+   *
+   * @remarks
+   * Only used with `values`, defaults to 300 seconds.
+   */
+  readonly ttl: number | undefined = undefined;
+  /**
+   * (OPTIONAL) The record values.
+   *
+   * @remarks
+   * IP addresses for `A` records, a single domain name for `CNAME` records.
+   * Cannot be defined with `loadBalancer`.
+   */
+  readonly values: string[] | undefined = undefined;
+  /**
+   * (OPTIONAL) The friendly name of an Application or Network Load Balancer to alias.
+   *
+   * @remarks
+   * This is the logical `name` property of a load balancer defined in the `loadBalancers` property of the VPC.
+   * Cannot be defined with `values`.
+   *
+   * @see {@link LoadBalancersConfig}
+   */
+  readonly loadBalancer: string | undefined = undefined;
+}
+
+/**
+ * *{@link NetworkConfig} / {@link VpcConfig} / {@link PrivateHostedZoneConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/Route53/latest/DeveloperGuide/hosted-zones-private.html | Route 53 private hosted zone} configuration.
+ * Use this configuration to define a private hosted zone that is created in the account and region of the VPC
+ * and associated with the VPC. The zone may additionally be associated with other VPCs, including VPCs in other accounts.
+ *
+ * @example
+ * ```
+ * privateHostedZones:
+ *   - name: example.internal
+ *     associatedVpcs:
+ *       - Network-Endpoints
+ *     records:
+ *       - name: app.example.internal
+ *         type: A
+ *         loadBalancer: appA-alb-01
+ * ```
+ */
+export class PrivateHostedZoneConfig implements t.TypeOf<typeof NetworkConfigTypes.privateHostedZoneConfig> {
+  /**
+   * The domain name of the private hosted zone.
+   */
+  readonly name: string = '';
+  /**
+   * (OPTIONAL) An array of friendly names of additional VPCs to associate with the private hosted zone.
+   *
+   * @remarks
+   * This is the logical `name` property of a VPC defined in the `vpcs` property of network-config.yaml.
+   * Associated VPCs must be in the same region as the VPC of the private hosted zone.
+   * VPCs in other accounts are associated through a cross-account role deployed with the associated VPC.
+   */
+  readonly associatedVpcs: string[] | undefined = undefined;
+  /**
+   * (OPTIONAL) An array of records to create in the private hosted zone.
+   *
+   * @see {@link PrivateHostedZoneRecordConfig}
+   */
+  readonly records: PrivateHostedZoneRecordConfig[] | undefined = undefined;
+}
+
 /**
  * *{@link NetworkConfig} / {@link VpcConfig} / {@link VirtualPrivateGatewayConfig}*
  *
@@ -4126,6 +4880,15 @@ export class VpcConfig implements t.TypeOf<typeof NetworkConfigTypes.vpcConfig>
    * Defines if an {@link https://docs.aws.amazon.com/vpc/latest/userguide/VPC_Internet_Gateway.html | internet gateway} should be added to the VPC
    */
   readonly internetGateway: boolean | undefined = undefined;
+  /**
+   * (OPTIONAL) Defines if an {@link https://docs.aws.amazon.com/vpc/latest/userguide/egress-only-internet-gateway.html | egress-only internet gateway} should be added to the VPC
+   *
+   * @remarks
+   * An egress-only internet gateway allows outbound IPv6 traffic from the VPC to the internet,
+   * and prevents the internet from initiating IPv6 connections with your instances.
+   * Requires at least one IPv6 CIDR to be defined in `ipv6Cidrs`.
+   */
+  readonly egressOnlyInternetGateway: boolean | undefined = undefined;
   /**
    * Enable DNS hostname support for the VPC.
    *
@@ -4167,6 +4930,20 @@ export class VpcConfig implements t.TypeOf<typeof NetworkConfigTypes.vpcConfig>
    */
   readonly ipamAllocations: IpamAllocationConfig[] | undefined = undefined;
 
+  /**
+   * (OPTIONAL) An array of IPv6 CIDR configurations to associate with the VPC.
+   *
+   * @see {@link VpcIpv6Config}
+   *
+   * @remarks
+   * **CAUTION**: Changing or removing an existing IPv6 CIDR value after initial deployment causes the IPv6 CIDR to be recreated.
+   * Please be aware that any downstream dependencies may cause this property update to fail.
+   * You can add additional IPv6 CIDRs to the VPC without this recreation occurring.
+   *
+   * IPv6 CIDRs are associated with the VPC in addition to the IPv4 CIDRs defined in `cidrs` or `ipamAllocations`.
+   */
+  readonly ipv6Cidrs: VpcIpv6Config[] | undefined = undefined;
+
   /**
    * (OPTIONAL) A list of DNS query log configuration names.
    *
@@ -4320,6 +5097,13 @@ export class VpcConfig implements t.TypeOf<typeof NetworkConfigTypes.vpcConfig>
    * @see {@link TargetGroupItemConfig}
    */
   readonly targetGroups: CustomizationsConfig.TargetGroupItemConfig[] | undefined = undefined;
+  /**
+   * (OPTIONAL) An array of Route 53 private hosted zone configurations.
+   * Use this property to define private hosted zones associated with this VPC.
+   *
+   * @see {@link PrivateHostedZoneConfig}
+   */
+  readonly privateHostedZones: PrivateHostedZoneConfig[] | undefined = undefined;
 }
 
 /**
@@ -4438,6 +5222,20 @@ export class VpcTemplatesConfig implements t.TypeOf<typeof NetworkConfigTypes.vp
    */
   readonly ipamAllocations: IpamAllocationConfig[] | undefined = undefined;
 
+  /**
+   * (OPTIONAL) An array of IPv6 CIDR configurations to associate with the VPC.
+   *
+   * @see {@link VpcIpv6Config}
+   *
+   * @remarks
+   * **CAUTION**: Changing or removing an existing IPv6 CIDR value after initial deployment causes the IPv6 CIDR to be recreated.
+   * Please be aware that any downstream dependencies may cause this property update to fail.
+   * You can add additional IPv6 CIDRs to the VPC without this recreation occurring.
+   *
+   * IPv6 CIDRs are associated with the VPC in addition to the IPv4 CIDRs defined in `cidrs` or `ipamAllocations`.
+   */
+  readonly ipv6Cidrs: VpcIpv6Config[] | undefined = undefined;
+
   /**
    * (OPTIONAL) Determine if the all traffic ingress and egress rules are deleted
    * in the default security group of a VPC.
@@ -4483,6 +5281,15 @@ export class VpcTemplatesConfig implements t.TypeOf<typeof NetworkConfigTypes.vp
    * Defines if an {@link https://docs.aws.amazon.com/vpc/latest/userguide/VPC_Internet_Gateway.html | internet gateway} should be added to the VPC
    */
   readonly internetGateway: boolean | undefined = undefined;
+  /**
+   * (OPTIONAL) Defines if an {@link https://docs.aws.amazon.com/vpc/latest/userguide/egress-only-internet-gateway.html | egress-only internet gateway} should be added to the VPC
+   *
+   * @remarks
+   * An egress-only internet gateway allows outbound IPv6 traffic from the VPC to the internet,
+   * and prevents the internet from initiating IPv6 connections with your instances.
+   * Requires at least one IPv6 CIDR to be defined in `ipv6Cidrs`.
+   */
+  readonly egressOnlyInternetGateway: boolean | undefined = undefined;
   /**
    * Enable DNS hostname support for the VPC.
    *
@@ -4642,6 +5449,13 @@ export class VpcTemplatesConfig implements t.TypeOf<typeof NetworkConfigTypes.vp
    * @see {@link TargetGroupItemConfig}
    */
   readonly targetGroups: CustomizationsConfig.TargetGroupItemConfig[] | undefined = undefined;
+  /**
+   * (OPTIONAL) An array of Route 53 private hosted zone configurations.
+   * Use this property to define private hosted zones associated with this VPC.
+   *
+   * @see {@link PrivateHostedZoneConfig}
+   */
+  readonly privateHostedZones: PrivateHostedZoneConfig[] | undefined = undefined;
 }
 
 /**
@@ -7022,11 +7836,12 @@ export class NetworkConfig implements t.TypeOf<typeof NetworkConfigTypes.network
   /**
    *
    * @param dir
+   * @param replacementsConfig
    * @returns
    */
-  static load(dir: string): NetworkConfig {
-    const buffer = fs.readFileSync(path.join(dir, NetworkConfig.FILENAME), 'utf8');
-    const values = t.parse(NetworkConfigTypes.networkConfig, yaml.load(buffer));
+  static load(dir: string, replacementsConfig?: ReplacementsConfig): NetworkConfig {
+    const includes = ConfigIncludes.load(dir, NetworkConfig.FILENAME, replacementsConfig);
+    const values = t.parse(NetworkConfigTypes.networkConfig, includes.values, includes);
     return new NetworkConfig(values);
   }
 
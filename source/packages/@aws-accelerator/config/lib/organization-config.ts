@@ -12,13 +12,12 @@
  */
 
 import * as AWS from 'aws-sdk';
-import * as fs from 'fs';
-import * as yaml from 'js-yaml';
-import * as path from 'path';
 
 import { createLogger, throttlingBackOff } from '@aws-accelerator/utils';
 
 import * as t from './common-types';
+import { ConfigIncludes } from './config-includes';
+import { ReplacementsConfig } from './replacements-config';
 
 const logger = createLogger(['organization-config']);
 
@@ -436,12 +435,13 @@ export class OrganizationConfig implements t.TypeOf<typeof OrganizationConfigTyp
   /**
    * Load from config file content
    * @param dir
+   * @param replacementsConfig
    * @param validateConfig
    * @returns
    */
-  static load(dir: string): OrganizationConfig {
-    const buffer = fs.readFileSync(path.join(dir, OrganizationConfig.FILENAME), 'utf8');
-    const values = t.parse(OrganizationConfigTypes.organizationConfig, yaml.load(buffer));
+  static load(dir: string, replacementsConfig?: ReplacementsConfig): OrganizationConfig {
+    const includes = ConfigIncludes.load(dir, OrganizationConfig.FILENAME, replacementsConfig);
+    const values = t.parse(OrganizationConfigTypes.organizationConfig, includes.values, includes);
     return new OrganizationConfig(values);
   }
 
@@ -0,0 +1,304 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import * as path from 'path';
+
+import { createLogger } from '@aws-accelerator/utils';
+
+import * as t from './common-types';
+
+const logger = createLogger(['replacements-config']);
+
+/**
+ * Replacements configuration items.
+ */
+export abstract class ReplacementsConfigTypes {
+  static readonly replacementTypeEnum = t.enums(
+    'ReplacementType',
+    ['String', 'StringList'],
+    'Value should be a replacement type',
+  );
+
+  static readonly replacementValue = t.union([t.nonEmptyString, t.array(t.nonEmptyString)]);
+
+  static readonly environmentReplacementConfig = t.interface({
+    name: t.nonEmptyString,
+    value: this.replacementValue,
+  });
+
+  static readonly replacementConfig = t.interface({
+    key: t.nonEmptyString,
+    description: t.optional(t.nonEmptyString),
+    type: t.optional(this.replacementTypeEnum),
+    value: t.optional(this.replacementValue),
+    environments: t.optional(t.array(this.environmentReplacementConfig)),
+  });
+
+  static readonly replacementsConfig = t.interface({
+    globalReplacements: t.optional(t.array(this.replacementConfig)),
+  });
+}
+
+/**
+ * *{@link ReplacementsConfig} / {@link ReplacementConfig} / {@link EnvironmentReplacementConfig}*
+ *
+ * Per-environment replacement value configuration.
+ * Use this configuration to override the value of a replacement
+ * for a named environment, for example sandbox, non-prod or prod.
+ * The environment is selected with the `ACCELERATOR_ENVIRONMENT` environment variable.
+ *
+ * @example
+ * ```
+ * - name: prod
+ *   value: 10.100.0.0/16
+ * ```
+ */
+export class EnvironmentReplacementConfig
+  implements t.TypeOf<typeof ReplacementsConfigTypes.environmentReplacementConfig>
+{
+  /**
+   * The name of the environment
+   */
+  readonly name: string = '';
+  /**
+   * The value of the replacement for this environment.
+   *
+   * @remarks
+   * The value must match the `type` of the parent replacement,
+   * a string for `String` and a list of strings for `StringList`.
+   */
+  readonly value: string | string[] = '';
+}
+
+/**
+ * *{@link ReplacementsConfig} / {@link ReplacementConfig}*
+ *
+ * Replacement configuration.
+ * Use this configuration to define a variable that can be referenced
+ * from any accelerator configuration file with a `{{ key }}` placeholder.
+ * Placeholders are expanded before the configuration file is parsed.
+ *
+ * @remarks
+ * `StringList` values are expanded as a YAML flow sequence, so the placeholder
+ * must be the unquoted value of a list property, for example `cidrs: {{ CorpCidrs }}`.
+ * `String` values are expanded verbatim, quote the placeholder if the value
+ * contains YAML special characters.
+ *
+ * @example
+ * ```
+ * - key: OrgDomain
+ *   description: Email domain used by all accounts
+ *   type: String
+ *   value: example.com
+ * - key: CorpCidrs
+ *   type: StringList
+ *   value:
+ *     - 10.0.0.0/8
+ *     - 172.16.0.0/12
+ * - key: LogRetentionInDays
+ *   type: String
+ *   value: '365'
+ *   environments:
+ *     - name: prod
+ *       value: '3653'
+ * ```
+ */
+export class ReplacementConfig implements t.TypeOf<typeof ReplacementsConfigTypes.replacementConfig> {
+  /**
+   * The name of the replacement, referenced as `{{ key }}` in configuration files
+   */
+  readonly key: string = '';
+  /**
+   * A description of the replacement
+   */
+  readonly description: string | undefined = undefined;
+  /**
+   * The type of the replacement value
+   *
+   * @default String
+   */
+  readonly type: t.TypeOf<typeof ReplacementsConfigTypes.replacementTypeEnum> | undefined = undefined;
+  /**
+   * The default value of the replacement
+   *
+   * @remarks
+   * Required unless every environment the configuration is deployed to
+   * has a matching entry in `environments`.
+   */
+  readonly value: string | string[] | undefined = undefined;
+  /**
+   * Per-environment overrides of the replacement value
+   *
+   * @see {@link EnvironmentReplacementConfig}
+   */
+  readonly environments: EnvironmentReplacementConfig[] | undefined = undefined;
+}
+
+/**
+ * Accelerator replacements configuration
+ */
+export class ReplacementsConfig implements t.TypeOf<typeof ReplacementsConfigTypes.replacementsConfig> {
+  /**
+   * Replacements configuration file name, this file is optional in accelerator config repository
+   */
+  static readonly FILENAME = 'replacements-config.yaml';
+
+  /**
+   * Placeholder pattern, for example `{{ OrgDomain }}`
+   */
+  static readonly PLACEHOLDER_PATTERN = /{{\s*([A-Za-z0-9_.-]+)\s*}}/g;
+
+  /**
+   * A list of replacements available to all configuration files
+   *
+   * @see {@link ReplacementConfig}
+   */
+  readonly globalReplacements: ReplacementConfig[] = [];
+
+  /**
+   * The environment used to select per-environment replacement values
+   */
+  readonly environment: string | undefined = undefined;
+
+  /**
+   * Resolved replacement values keyed by replacement key
+   */
+  private readonly values: Map<string, string | string[]> = new Map();
+
+  /**
+   *
+   * @param values
+   * @param environment
+   */
+  constructor(values?: t.TypeOf<typeof ReplacementsConfigTypes.replacementsConfig>, environment?: string) {
+    if (values) {
+      Object.assign(this, values);
+    }
+    this.environment = environment;
+    this.resolveValues();
+  }
+
+  /**
+   * Load from config file content. Returns an empty configuration if the
+   * optional replacements file does not exist in the given directory.
+   * @param dir
+   * @param environment
+   * @returns
+   */
+  static load(dir: string, environment?: string): ReplacementsConfig {
+    const selectedEnvironment = environment ?? process.env['ACCELERATOR_ENVIRONMENT'];
+    const filePath = path.join(dir, ReplacementsConfig.FILENAME);
+    if (!fs.existsSync(filePath)) {
+      return new ReplacementsConfig(undefined, selectedEnvironment);
+    }
+    const buffer = fs.readFileSync(filePath, 'utf8');
+    const values = t.parse(
+      ReplacementsConfigTypes.replacementsConfig,
+      yaml.load(buffer),
+      new t.YamlSourceMap(ReplacementsConfig.FILENAME, buffer),
+    );
+    return new ReplacementsConfig(values, selectedEnvironment);
+  }
+
+  /**
+   * Expand `{{ key }}` placeholders in raw configuration file content.
+   * Content is returned unchanged when no replacements are defined.
+   * @param content
+   * @param fileName
+   * @returns
+   */
+  public preProcessBuffer(content: string, fileName?: string): string {
+    if ((this.globalReplacements ?? []).length === 0) {
+      return content;
+    }
+
+    const undefinedKeys: string[] = [];
+    const expanded = content.replace(ReplacementsConfig.PLACEHOLDER_PATTERN, (placeholder: string, key: string) => {
+      const value = this.values.get(key);
+      if (value === undefined) {
+        if (!undefinedKeys.includes(key)) {
+          undefinedKeys.push(key);
+        }
+        return placeholder;
+      }
+      return typeof value === 'string' ? value : JSON.stringify(value);
+    });
+
+    if (undefinedKeys.length > 0) {
+      logger.error(
+        `Undefined replacement(s) ${undefinedKeys.join(', ')} referenced${fileName ? ` in ${fileName}` : ''}`,
+      );
+      throw new Error(
+        `Replacement(s) ${undefinedKeys.join(', ')} are not defined in ${ReplacementsConfig.FILENAME}${
+          this.environment ? ` for environment ${this.environment}` : ''
+        }`,
+      );
+    }
+    return expanded;
+  }
+
+  /**
+   * Returns the resolved value of a replacement
+   * @param key
+   * @returns
+   */
+  public getReplacementValue(key: string): string | string[] | undefined {
+    return this.values.get(key);
+  }
+
+  /**
+   * Resolve the value of each replacement for the selected environment
+   * and verify that values match their declared type
+   */
+  private resolveValues() {
+    const errors: string[] = [];
+    const keys: string[] = [];
+
+    for (const replacement of this.globalReplacements ?? []) {
+      if (keys.includes(replacement.key)) {
+        errors.push(`Duplicate replacement key ${replacement.key}`);
+        continue;
+      }
+      keys.push(replacement.key);
+
+      const environmentNames = (replacement.environments ?? []).map(item => item.name);
+      if (new Set(environmentNames).size !== environmentNames.length) {
+        errors.push(`Replacement ${replacement.key} contains duplicate environment names`);
+      }
+
+      const environmentValue = replacement.environments?.find(item => item.name === this.environment)?.value;
+      const value = environmentValue ?? replacement.value;
+      if (value === undefined) {
+        // A replacement without a value for this environment is only an error if it is referenced
+        continue;
+      }
+
+      const type = replacement.type ?? 'String';
+      if (type === 'String' && typeof value !== 'string') {
+        errors.push(`Replacement ${replacement.key} is of type String but its value is a list`);
+        continue;
+      }
+      if (type === 'StringList' && !Array.isArray(value)) {
+        errors.push(`Replacement ${replacement.key} is of type StringList but its value is not a list`);
+        continue;
+      }
+      this.values.set(replacement.key, value);
+    }
+
+    if (errors.length > 0) {
+      throw t.ConfigValidationError.fromMessages(ReplacementsConfig.FILENAME, errors);
+    }
+  }
+}
@@ -11,13 +11,14 @@
  *  and limitations under the License.
  */
 
-import * as fs from 'fs';
 import * as yaml from 'js-yaml';
-import * as path from 'path';
 
 import { createLogger } from '@aws-accelerator/utils';
 
+import { AccountsConfig } from './accounts-config';
 import * as t from './common-types';
+import { ConfigIncludes } from './config-includes';
+import { ReplacementsConfig } from './replacements-config';
 
 const logger = createLogger(['security-config']);
 
@@ -157,6 +158,74 @@ export class SecurityConfigTypes {
     excludeRegions: t.optional(t.array(t.region)),
   });
 
+  /**
+   * AWS GuardDuty EBS Malware Protection configuration.
+   */
+  static readonly guardDutyEbsProtectionConfig = t.interface({
+    /**
+     * Indicates whether AWS GuardDuty EBS Malware Protection enabled.
+     */
+    enable: t.boolean,
+    /**
+     * List of AWS Region names to be excluded from configuring Amazon GuardDuty EBS Malware Protection
+     */
+    excludeRegions: t.optional(t.array(t.region)),
+  });
+
+  /**
+   * AWS GuardDuty RDS Protection configuration.
+   */
+  static readonly guardDutyRdsProtectionConfig = t.interface({
+    /**
+     * Indicates whether AWS GuardDuty RDS Protection enabled.
+     */
+    enable: t.boolean,
+    /**
+     * List of AWS Region names to be excluded from configuring Amazon GuardDuty RDS Protection
+     */
+    excludeRegions: t.optional(t.array(t.region)),
+  });
+
+  /**
+   * AWS GuardDuty Lambda Protection configuration.
+   */
+  static readonly guardDutyLambdaProtectionConfig = t.interface({
+    /**
+     * Indicates whether AWS GuardDuty Lambda Protection enabled.
+     */
+    enable: t.boolean,
+    /**
+     * List of AWS Region names to be excluded from configuring Amazon GuardDuty Lambda Protection
+     */
+    excludeRegions: t.optional(t.array(t.region)),
+  });
+
+  /**
+   * AWS GuardDuty Runtime Monitoring configuration.
+   */
+  static readonly guardDutyRuntimeMonitoringConfig = t.interface({
+    /**
+     * Indicates whether AWS GuardDuty Runtime Monitoring enabled.
+     */
+    enable: t.boolean,
+    /**
+     * List of AWS Region names to be excluded from configuring Amazon GuardDuty Runtime Monitoring
+     */
+    excludeRegions: t.optional(t.array(t.region)),
+    /**
+     * Indicates whether GuardDuty manages the security agent add-on of Amazon EKS clusters.
+     */
+    eksAddonManagement: t.optional(t.boolean),
+    /**
+     * Indicates whether GuardDuty manages the security agent of Amazon ECS Fargate tasks.
+     */
+    ecsFargateAgentManagement: t.optional(t.boolean),
+    /**
+     * Indicates whether GuardDuty manages the security agent of Amazon EC2 instances.
+     */
+    ec2AgentManagement: t.optional(t.boolean),
+  });
+
   /**
    * AWS GuardDuty Export Findings configuration.
    */
@@ -200,6 +269,22 @@ export class SecurityConfigTypes {
      * AWS EKS Protection
      */
     eksProtection: t.optional(this.guardDutyEksProtectionConfig),
+    /**
+     * AWS GuardDuty EBS Malware Protection
+     */
+    ebsProtection: t.optional(this.guardDutyEbsProtectionConfig),
+    /**
+     * AWS GuardDuty RDS Protection
+     */
+    rdsProtection: t.optional(this.guardDutyRdsProtectionConfig),
+    /**
+     * AWS GuardDuty Lambda Protection
+     */
+    lambdaProtection: t.optional(this.guardDutyLambdaProtectionConfig),
+    /**
+     * AWS GuardDuty Runtime Monitoring
+     */
+    runtimeMonitoring: t.optional(this.guardDutyRuntimeMonitoringConfig),
     /**
      * AWS GuardDuty Export Findings configuration.
      */
@@ -260,9 +345,212 @@ export class SecurityConfigTypes {
     excludeRegions: t.optional(t.array(t.region)),
   });
 
+  /**
+   * Amazon Inspector configuration
+   */
+  static readonly inspectorConfig = t.interface({
+    /**
+     * Indicates whether Amazon Inspector is enabled.
+     */
+    enable: t.boolean,
+    /**
+     * List of AWS Region names to be excluded from configuring Amazon Inspector
+     */
+    excludeRegions: t.optional(t.array(t.region)),
+    /**
+     * Indicates whether Amazon EC2 scanning is enabled.
+     */
+    ec2Scanning: t.optional(t.boolean),
+    /**
+     * Indicates whether Amazon ECR scanning is enabled.
+     */
+    ecrScanning: t.optional(t.boolean),
+    /**
+     * Indicates whether AWS Lambda standard scanning is enabled.
+     */
+    lambdaScanning: t.optional(t.boolean),
+    /**
+     * Indicates whether the enabled scanning types are automatically enabled for new organization accounts.
+     */
+    autoEnable: t.optional(t.boolean),
+  });
+
+  /**
+   * Amazon Security Lake AWS log source names
+   */
+  static readonly securityLakeSourceNameEnum = t.enums('SecurityLakeSourceName', [
+    'CLOUD_TRAIL_MGMT',
+    'VPC_FLOW',
+    'ROUTE53',
+    'SH_FINDINGS',
+    'LAMBDA_EXECUTION',
+    'S3_DATA',
+    'EKS_AUDIT',
+    'WAF',
+  ]);
+
+  /**
+   * Amazon Security Lake data lifecycle configuration
+   */
+  static readonly securityLakeLifecycleConfig = t.interface({
+    /**
+     * Number of days after which the data of the data lake expires
+     */
+    expiration: t.optional(t.number),
+    /**
+     * Transitions of the data of the data lake to other S3 storage classes
+     */
+    transitions: t.optional(t.array(t.transition)),
+  });
+
+  /**
+   * Amazon Security Lake rollup region configuration
+   */
+  static readonly securityLakeRollupRegionConfig = t.interface({
+    /**
+     * Region the data of the contributing regions is replicated to
+     */
+    region: t.region,
+    /**
+     * Regions contributing their data to the rollup region
+     */
+    contributingRegions: t.array(t.region),
+  });
+
+  /**
+   * Amazon Security Lake AWS log source configuration
+   */
+  static readonly securityLakeSourceConfig = t.interface({
+    /**
+     * Name of the AWS log source
+     */
+    name: this.securityLakeSourceNameEnum,
+    /**
+     * Version of the AWS log source, the latest version is used when omitted
+     */
+    version: t.optional(t.nonEmptyString),
+    /**
+     * Accounts and regions the log source is collected from
+     */
+    deploymentTargets: t.deploymentTargets,
+  });
+
+  /**
+   * Amazon Security Lake subscriber configuration
+   */
+  static readonly securityLakeSubscriberConfig = t.interface({
+    /**
+     * Name of the subscriber
+     */
+    name: t.nonEmptyString,
+    /**
+     * Description of the subscriber
+     */
+    description: t.optional(t.nonEmptyString),
+    /**
+     * Account name from accounts-config or AWS account ID of the subscriber
+     */
+    account: t.nonEmptyString,
+    /**
+     * External ID used by the subscriber to access the data lake
+     */
+    externalId: t.nonEmptyString,
+    /**
+     * Access types of the subscriber
+     */
+    accessTypes: t.array(t.enums('SecurityLakeAccessType', ['S3', 'LAKEFORMATION'])),
+    /**
+     * AWS log sources the subscriber has access to
+     */
+    sources: t.array(this.securityLakeSourceNameEnum),
+  });
+
+  /**
+   * Amazon Security Lake configuration
+   */
+  static readonly securityLakeConfig = t.interface({
+    /**
+     * Indicates whether Amazon Security Lake is enabled.
+     */
+    enable: t.boolean,
+    /**
+     * Delegated administrator account of Amazon Security Lake
+     */
+    delegatedAdminAccount: t.optional(t.nonEmptyString),
+    /**
+     * List of AWS Region names to be excluded from the data lake
+     */
+    excludeRegions: t.optional(t.array(t.region)),
+    /**
+     * Data lifecycle of the data lake
+     */
+    lifecycle: t.optional(this.securityLakeLifecycleConfig),
+    /**
+     * Rollup regions of the data lake
+     */
+    rollupRegions: t.optional(t.array(this.securityLakeRollupRegionConfig)),
+    /**
+     * AWS log sources collected by the data lake
+     */
+    sources: t.optional(t.array(this.securityLakeSourceConfig)),
+    /**
+     * Subscribers of the data lake
+     */
+    subscribers: t.optional(t.array(this.securityLakeSubscriberConfig)),
+  });
+
   /**
    * AWS Security Hub standards configuration
    */
+  static readonly securityHubControlOverrideConfig = t.interface({
+    /**
+     * Control ID within the standard, for example IAM.6
+     */
+    controlId: t.nonEmptyString,
+    /**
+     * Indicates whether the control is enabled or disabled in the deployment targets
+     */
+    enable: t.boolean,
+    /**
+     * Accounts and organizational units the override applies to
+     */
+    deploymentTargets: t.deploymentTargets,
+    /**
+     * Reason for the exception, reported in the exceptions register
+     */
+    justification: t.nonEmptyString,
+  });
+
+  static readonly securityHubControlParameterValueConfig = t.interface({
+    /**
+     * Name of the control parameter, for example daysToExpiration
+     */
+    name: t.nonEmptyString,
+    /**
+     * Custom value of the control parameter
+     */
+    value: t.union([t.number, t.string, t.boolean, t.array(t.string), t.array(t.number)]),
+  });
+
+  static readonly securityHubControlParameterConfig = t.interface({
+    /**
+     * Security control ID, for example ACM.1
+     */
+    controlId: t.nonEmptyString,
+    /**
+     * Custom parameter values of the control
+     */
+    parameters: t.array(this.securityHubControlParameterValueConfig),
+    /**
+     * Accounts and organizational units the parameters apply to, defaults to the deployment targets of the standard
+     */
+    deploymentTargets: t.optional(t.deploymentTargets),
+    /**
+     * Reason for the custom values, reported in the exceptions register
+     */
+    justification: t.nonEmptyString,
+  });
+
   static readonly securityHubStandardConfig = t.interface({
     /**
      * An enum value that specifies one of three security standards supported by Security Hub
@@ -292,6 +580,155 @@ export class SecurityConfigTypes {
      * An array of control names to be enabled for the given security standards
      */
     controlsToDisable: t.optional(t.array(t.nonEmptyString)),
+    /**
+     * An array of per-OU/per-account control exceptions for the given security standard
+     */
+    controlOverrides: t.optional(t.array(this.securityHubControlOverrideConfig)),
+    /**
+     * An array of custom control parameter values for the given security standard
+     */
+    controlParameters: t.optional(t.array(this.securityHubControlParameterConfig)),
+  });
+
+  static readonly securityHubCustomActionTargetConfig = t.interface({
+    /**
+     * Type of the EventBridge target, lambda or eventBus
+     */
+    type: t.enums('SecurityHubCustomActionTargetType', ['lambda', 'eventBus']),
+    /**
+     * ARN of the Lambda function or EventBridge event bus
+     */
+    arn: t.nonEmptyString,
+  });
+
+  static readonly securityHubCustomActionConfig = t.interface({
+    /**
+     * Name of the custom action, up to 20 characters
+     */
+    name: t.nonEmptyString,
+    /**
+     * Id of the custom action, up to 20 alphanumeric characters
+     */
+    id: t.nonEmptyString,
+    /**
+     * Description of the custom action
+     */
+    description: t.nonEmptyString,
+    /**
+     * EventBridge targets of the findings sent to the custom action
+     */
+    targets: t.optional(t.array(this.securityHubCustomActionTargetConfig)),
+  });
+
+  static readonly securityHubSeverityLabelEnum = t.enums('SecurityHubSeverityLabel', [
+    'INFORMATIONAL',
+    'LOW',
+    'MEDIUM',
+    'HIGH',
+    'CRITICAL',
+  ]);
+
+  static readonly securityHubWorkflowStatusEnum = t.enums('SecurityHubWorkflowStatus', [
+    'NEW',
+    'NOTIFIED',
+    'RESOLVED',
+    'SUPPRESSED',
+  ]);
+
+  static readonly securityHubFindingFiltersConfig = t.interface({
+    /**
+     * Names of the products that generated the findings, such as Security Hub or GuardDuty
+     */
+    productNames: t.optional(t.array(t.nonEmptyString)),
+    /**
+     * Names or ids of the accounts of the findings
+     */
+    accounts: t.optional(t.array(t.nonEmptyString)),
+    /**
+     * Security control ids of the findings, such as IAM.1
+     */
+    controlIds: t.optional(t.array(t.nonEmptyString)),
+    /**
+     * Resource types of the findings, such as AwsEc2Instance
+     */
+    resourceTypes: t.optional(t.array(t.nonEmptyString)),
+    /**
+     * Tags of the resources of the findings
+     */
+    resourceTags: t.optional(t.array(t.tag)),
+    /**
+     * Severity labels of the findings
+     */
+    severityLabels: t.optional(t.array(this.securityHubSeverityLabelEnum)),
+    /**
+     * Workflow statuses of the findings
+     */
+    workflowStatuses: t.optional(t.array(this.securityHubWorkflowStatusEnum)),
+    /**
+     * Record states of the findings
+     */
+    recordStates: t.optional(t.array(t.enums('SecurityHubRecordState', ['ACTIVE', 'ARCHIVED']))),
+  });
+
+  static readonly securityHubInsightConfig = t.interface({
+    /**
+     * Name of the insight
+     */
+    name: t.nonEmptyString,
+    /**
+     * Finding attribute used to group the findings of the insight, such as ResourceId
+     */
+    groupByAttribute: t.nonEmptyString,
+    /**
+     * Filters of the findings of the insight
+     */
+    filters: this.securityHubFindingFiltersConfig,
+  });
+
+  static readonly securityHubAutomationRuleActionsConfig = t.interface({
+    /**
+     * Workflow status set on the matching findings
+     */
+    workflowStatus: t.optional(this.securityHubWorkflowStatusEnum),
+    /**
+     * Severity label set on the matching findings
+     */
+    severityLabel: t.optional(this.securityHubSeverityLabelEnum),
+    /**
+     * Note added to the matching findings
+     */
+    note: t.optional(t.nonEmptyString),
+  });
+
+  static readonly securityHubAutomationRuleConfig = t.interface({
+    /**
+     * Name of the automation rule
+     */
+    name: t.nonEmptyString,
+    /**
+     * Description of the automation rule
+     */
+    description: t.nonEmptyString,
+    /**
+     * Order in which the automation rule is applied, lower values are applied first
+     */
+    ruleOrder: t.number,
+    /**
+     * Indicates whether the automation rule is applied
+     */
+    enable: t.optional(t.boolean),
+    /**
+     * Indicates whether rules with a higher rule order are applied to the matching findings
+     */
+    isTerminal: t.optional(t.boolean),
+    /**
+     * Criteria of the findings the automation rule is applied to
+     */
+    criteria: this.securityHubFindingFiltersConfig,
+    /**
+     * Updates of the matching findings
+     */
+    actions: this.securityHubAutomationRuleActionsConfig,
   });
 
   static readonly securityHubConfig = t.interface({
@@ -301,6 +738,9 @@ export class SecurityConfigTypes {
     notificationLevel: t.optional(t.string),
     excludeRegions: t.optional(t.array(t.region)),
     standards: t.array(this.securityHubStandardConfig),
+    customActions: t.optional(t.array(this.securityHubCustomActionConfig)),
+    insights: t.optional(t.array(this.securityHubInsightConfig)),
+    automationRules: t.optional(t.array(this.securityHubAutomationRuleConfig)),
   });
 
   static readonly ebsDefaultVolumeEncryptionConfig = t.interface({
@@ -335,6 +775,8 @@ export class SecurityConfigTypes {
     guardduty: SecurityConfigTypes.guardDutyConfig,
     auditManager: t.optional(SecurityConfigTypes.auditManagerConfig),
     detective: t.optional(SecurityConfigTypes.detectiveConfig),
+    inspector: t.optional(SecurityConfigTypes.inspectorConfig),
+    securityLake: t.optional(SecurityConfigTypes.securityLakeConfig),
     securityHub: SecurityConfigTypes.securityHubConfig,
     ssmAutomation: this.ssmAutomationConfig,
   });
@@ -346,14 +788,50 @@ export class SecurityConfigTypes {
     keySets: t.array(SecurityConfigTypes.keyConfig),
   });
 
-  static readonly accessAnalyzerConfig = t.interface({
-    enable: t.boolean,
+  /**
+   * S3 object lock retention modes
+   */
+  static readonly s3BucketObjectLockModeEnum = t.enums('S3ObjectLockMode', ['GOVERNANCE', 'COMPLIANCE']);
+
+  /**
+   * S3 bucket object lock configuration
+   */
+  static readonly s3BucketObjectLockConfig = t.interface({
+    mode: this.s3BucketObjectLockModeEnum,
+    retentionDays: t.number,
   });
 
-  static readonly iamPasswordPolicyConfig = t.interface({
-    allowUsersToChangePassword: t.boolean,
-    hardExpiry: t.boolean,
-    requireUppercaseCharacters: t.boolean,
+  /**
+   * S3 bucket replication configuration
+   */
+  static readonly s3BucketReplicationConfig = t.interface({
+    account: t.nonEmptyString,
+    bucketName: t.nonEmptyString,
+    keyArn: t.nonEmptyString,
+  });
+
+  /**
+   * Customer managed S3 bucket configuration
+   */
+  static readonly s3BucketConfig = t.interface({
+    name: t.nonEmptyString,
+    deploymentTargets: t.deploymentTargets,
+    regions: t.optional(t.array(t.region)),
+    kmsKey: t.optional(t.nonEmptyString),
+    lifecycleRules: t.optional(t.array(t.lifecycleRuleConfig)),
+    replication: t.optional(this.s3BucketReplicationConfig),
+    policy: t.optional(t.nonEmptyString),
+    objectLock: t.optional(this.s3BucketObjectLockConfig),
+  });
+
+  static readonly accessAnalyzerConfig = t.interface({
+    enable: t.boolean,
+  });
+
+  static readonly iamPasswordPolicyConfig = t.interface({
+    allowUsersToChangePassword: t.boolean,
+    hardExpiry: t.boolean,
+    requireUppercaseCharacters: t.boolean,
     requireLowercaseCharacters: t.boolean,
     requireSymbols: t.boolean,
     requireNumbers: t.boolean,
@@ -470,6 +948,19 @@ export class SecurityConfigTypes {
     delegatedAdminAccount: t.optional(t.nonEmptyString),
   });
 
+  static readonly organizationConformancePackConfig = t.interface({
+    excludedAccounts: t.optional(t.array(t.nonEmptyString)),
+    excludedRegions: t.optional(t.array(t.region)),
+  });
+
+  static readonly conformancePackConfig = t.interface({
+    name: t.nonEmptyString,
+    templateFile: t.nonEmptyString,
+    inputParameters: t.optional(t.dictionary(t.nonEmptyString, t.nonEmptyString)),
+    deploymentTargets: t.optional(t.deploymentTargets),
+    organization: t.optional(this.organizationConformancePackConfig),
+  });
+
   static readonly awsConfig = t.interface({
     enableConfigurationRecorder: t.boolean,
     // enableDeliveryChannel deprecated
@@ -477,6 +968,7 @@ export class SecurityConfigTypes {
     overrideExisting: t.optional(t.boolean),
     aggregation: t.optional(this.awsConfigAggregation),
     ruleSets: t.array(this.awsConfigRuleSet),
+    conformancePacks: t.optional(t.array(this.conformancePackConfig)),
   });
 
   static readonly metricConfig = t.interface({
@@ -494,6 +986,17 @@ export class SecurityConfigTypes {
     metrics: t.array(this.metricConfig),
   });
 
+  static readonly alarmActionConfig = t.interface({
+    type: t.enums('AlarmActionType', ['snsTopic', 'opsItem', 'autoScalingPolicy']),
+    state: t.optional(t.enums('AlarmActionState', ['ALARM', 'OK', 'INSUFFICIENT_DATA'])),
+    snsTopicName: t.optional(t.nonEmptyString),
+    opsItemSeverity: t.optional(t.enums('OpsItemSeverity', ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'])),
+    opsItemCategory: t.optional(
+      t.enums('OpsItemCategory', ['AVAILABILITY', 'COST', 'PERFORMANCE', 'RECOVERY', 'SECURITY']),
+    ),
+    autoScalingPolicyArn: t.optional(t.nonEmptyString),
+  });
+
   static readonly alarmConfig = t.interface({
     alarmName: t.nonEmptyString,
     alarmDescription: t.nonEmptyString,
@@ -507,12 +1010,64 @@ export class SecurityConfigTypes {
     statistic: t.nonEmptyString,
     threshold: t.number,
     treatMissingData: t.nonEmptyString,
+    actions: t.optional(t.array(this.alarmActionConfig)),
+  });
+
+  static readonly anomalyDetectionAlarmConfig = t.interface({
+    alarmName: t.nonEmptyString,
+    alarmDescription: t.nonEmptyString,
+    snsTopicName: t.optional(t.nonEmptyString),
+    actions: t.optional(t.array(this.alarmActionConfig)),
+    metricName: t.nonEmptyString,
+    namespace: t.nonEmptyString,
+    comparisonOperator: t.enums('AnomalyDetectionComparisonOperator', [
+      'LessThanLowerOrGreaterThanUpperThreshold',
+      'GreaterThanUpperThreshold',
+      'LessThanLowerThreshold',
+    ]),
+    evaluationPeriods: t.number,
+    period: t.number,
+    statistic: t.nonEmptyString,
+    bandWidth: t.optional(t.number),
+    treatMissingData: t.nonEmptyString,
+  });
+
+  static readonly metricMathAlarmMetricConfig = t.interface({
+    id: t.nonEmptyString,
+    metricName: t.nonEmptyString,
+    namespace: t.nonEmptyString,
+    statistic: t.nonEmptyString,
+  });
+
+  static readonly metricMathAlarmConfig = t.interface({
+    alarmName: t.nonEmptyString,
+    alarmDescription: t.nonEmptyString,
+    snsTopicName: t.optional(t.nonEmptyString),
+    actions: t.optional(t.array(this.alarmActionConfig)),
+    expression: t.nonEmptyString,
+    metrics: t.array(this.metricMathAlarmMetricConfig),
+    comparisonOperator: t.nonEmptyString,
+    evaluationPeriods: t.number,
+    period: t.number,
+    threshold: t.number,
+    treatMissingData: t.nonEmptyString,
+  });
+
+  static readonly compositeAlarmConfig = t.interface({
+    alarmName: t.nonEmptyString,
+    alarmDescription: t.nonEmptyString,
+    alarmRule: t.nonEmptyString,
+    snsTopicName: t.optional(t.nonEmptyString),
+    actions: t.optional(t.array(this.alarmActionConfig)),
   });
 
   static readonly alarmSetConfig = t.interface({
     regions: t.optional(t.array(t.nonEmptyString)),
     deploymentTargets: t.deploymentTargets,
     alarms: t.array(this.alarmConfig),
+    anomalyDetectionAlarms: t.optional(t.array(this.anomalyDetectionAlarmConfig)),
+    metricMathAlarms: t.optional(t.array(this.metricMathAlarmConfig)),
+    compositeAlarms: t.optional(t.array(this.compositeAlarmConfig)),
   });
 
   static readonly encryptionConfig = t.interface({
@@ -529,10 +1084,41 @@ export class SecurityConfigTypes {
     deploymentTargets: t.deploymentTargets,
   });
 
+  static readonly dashboardWidgetConfig = t.interface({
+    type: t.enums('DashboardWidgetType', ['metric', 'alarm', 'text']),
+    title: t.optional(t.nonEmptyString),
+    width: t.optional(t.number),
+    height: t.optional(t.number),
+    metrics: t.optional(t.array(t.nonEmptyString)),
+    statistic: t.optional(t.nonEmptyString),
+    period: t.optional(t.number),
+    alarms: t.optional(t.array(t.nonEmptyString)),
+    markdown: t.optional(t.nonEmptyString),
+  });
+
+  static readonly dashboardConfig = t.interface({
+    dashboardName: t.nonEmptyString,
+    region: t.optional(t.region),
+    deploymentTargets: t.deploymentTargets,
+    widgets: t.array(this.dashboardWidgetConfig),
+  });
+
+  static readonly observabilityResourceTypeEnum = t.enums('ObservabilityResourceType', ['metrics', 'logs', 'traces']);
+
+  static readonly observabilityConfig = t.interface({
+    sinkAccount: t.nonEmptyString,
+    sinkName: t.nonEmptyString,
+    resourceTypes: t.array(this.observabilityResourceTypeEnum),
+    deploymentTargets: t.deploymentTargets,
+    excludeRegions: t.optional(t.array(t.region)),
+  });
+
   static readonly cloudWatchConfig = t.interface({
     metricSets: t.array(this.metricSetConfig),
     alarmSets: t.array(this.alarmSetConfig),
     logGroups: t.optional(t.array(this.logGroupsConfig)),
+    dashboards: t.optional(t.array(this.dashboardConfig)),
+    observability: t.optional(this.observabilityConfig),
   });
 
   static readonly securityConfig = t.interface({
@@ -542,6 +1128,7 @@ export class SecurityConfigTypes {
     awsConfig: this.awsConfig,
     cloudWatch: this.cloudWatchConfig,
     keyManagementService: t.optional(this.keyManagementServiceConfig),
+    s3Buckets: t.optional(t.array(this.s3BucketConfig)),
   });
 }
 
@@ -693,6 +1280,140 @@ export class KeyManagementServiceConfig implements t.TypeOf<typeof SecurityConfi
   readonly keySets: KeyConfig[] = [];
 }
 
+/**
+ * *{@link SecurityConfig} / {@link S3BucketConfig} / {@link S3BucketObjectLockConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/AmazonS3/latest/userguide/object-lock.html} | S3 Object Lock configuration.
+ * Use this configuration to set the default retention applied to new objects in the bucket.
+ *
+ * @remarks
+ * Object lock can only be enabled when the bucket is created, adding it to an existing bucket will replace the bucket.
+ *
+ * @example
+ * ```
+ * objectLock:
+ *   mode: GOVERNANCE
+ *   retentionDays: 365
+ * ```
+ */
+export class S3BucketObjectLockConfig implements t.TypeOf<typeof SecurityConfigTypes.s3BucketObjectLockConfig> {
+  /**
+   * Default retention mode for new objects. Possible values GOVERNANCE or COMPLIANCE
+   */
+  readonly mode: t.TypeOf<typeof SecurityConfigTypes.s3BucketObjectLockModeEnum> = 'GOVERNANCE';
+  /**
+   * Number of days new objects are retained
+   */
+  readonly retentionDays = 365;
+}
+
+/**
+ * *{@link SecurityConfig} / {@link S3BucketConfig} / {@link S3BucketReplicationConfig}*
+ *
+ * S3 bucket replication configuration.
+ * Objects of the bucket are replicated to the destination bucket, which must allow the replication from the source account.
+ *
+ * @example
+ * ```
+ * replication:
+ *   account: LogArchive
+ *   bucketName: example-replica-bucket
+ *   keyArn: arn:aws:kms:us-east-1:111111111111:key/1234abcd-12ab-34cd-56ef-1234567890ab
+ * ```
+ */
+export class S3BucketReplicationConfig implements t.TypeOf<typeof SecurityConfigTypes.s3BucketReplicationConfig> {
+  /**
+   * Friendly account name of the destination bucket owner
+   */
+  readonly account = '';
+  /**
+   * Name of the destination bucket
+   */
+  readonly bucketName = '';
+  /**
+   * ARN of the KMS key used to encrypt the replicated objects in the destination bucket
+   */
+  readonly keyArn = '';
+}
+
+/**
+ * *{@link SecurityConfig} / {@link S3BucketConfig}*
+ *
+ * Customer managed S3 bucket configuration.
+ * Buckets are created with the same defaults as the accelerator buckets: blocked public access, versioning, encryption,
+ * server access logging into the accelerator access logs bucket, a lifecycle rule and a policy denying insecure transport.
+ * The bucket name is suffixed with the account ID and region, and is stored in the SSM parameter
+ * `/accelerator/s3/buckets/<name>/name` of the account and region.
+ *
+ * @example
+ * ```
+ * s3Buckets:
+ *   - name: example-data
+ *     deploymentTargets:
+ *       accounts:
+ *         - SharedServices
+ *     regions:
+ *       - us-east-1
+ *     kmsKey: ExampleKey
+ *     policy: s3-policies/example-data.json
+ *     lifecycleRules:
+ *       - enabled: true
+ *         expiration: 365
+ *         noncurrentVersionExpiration: 365
+ *         abortIncompleteMultipartUpload: 7
+ *     replication:
+ *       account: LogArchive
+ *       bucketName: example-replica-bucket
+ *       keyArn: arn:aws:kms:us-east-1:111111111111:key/1234abcd-12ab-34cd-56ef-1234567890ab
+ *     objectLock:
+ *       mode: GOVERNANCE
+ *       retentionDays: 365
+ * ```
+ */
+export class S3BucketConfig implements t.TypeOf<typeof SecurityConfigTypes.s3BucketConfig> {
+  /**
+   * Name of the bucket, the account ID and region are appended to it to build the bucket name
+   */
+  readonly name = '';
+  /**
+   * This configuration determines which accounts and/or OUs the bucket is deployed to.
+   */
+  readonly deploymentTargets: t.DeploymentTargets = new t.DeploymentTargets();
+  /**
+   * (OPTIONAL) List of regions the bucket is deployed to.
+   *
+   * @default - home region
+   */
+  readonly regions: t.Region[] | undefined = undefined;
+  /**
+   * (OPTIONAL) Name of the key of {@link KeyManagementServiceConfig} keySets used to encrypt the bucket.
+   * The key must be deployed to the same accounts and regions as the bucket.
+   *
+   * @default - A dedicated KMS key is created for the bucket
+   */
+  readonly kmsKey: string | undefined = undefined;
+  /**
+   * (OPTIONAL) Declaration of a S3 Lifecycle rule.
+   */
+  readonly lifecycleRules: t.LifeCycleRule[] | undefined = undefined;
+  /**
+   * (OPTIONAL) Replication configuration of the bucket
+   *
+   * @see {@link S3BucketReplicationConfig}
+   */
+  readonly replication: S3BucketReplicationConfig | undefined = undefined;
+  /**
+   * (OPTIONAL) Bucket policy definition file. This file must be available in accelerator config repository.
+   */
+  readonly policy: string | undefined = undefined;
+  /**
+   * (OPTIONAL) Object lock configuration of the bucket
+   *
+   * @see {@link S3BucketObjectLockConfig}
+   */
+  readonly objectLock: S3BucketObjectLockConfig | undefined = undefined;
+}
+
 /**
  * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link MacieConfig}*
  *
@@ -746,261 +1467,1032 @@ export class MacieConfig implements t.TypeOf<typeof SecurityConfigTypes.macieCon
  * excludeRegions: []
  * ```
  */
-export class GuardDutyS3ProtectionConfig implements t.TypeOf<typeof SecurityConfigTypes.guardDutyS3ProtectionConfig> {
+export class GuardDutyS3ProtectionConfig implements t.TypeOf<typeof SecurityConfigTypes.guardDutyS3ProtectionConfig> {
+  /**
+   * Indicates whether AWS GuardDuty S3 Protection enabled.
+   */
+  readonly enable = false;
+  /**
+   * (OPTIONAL) List of AWS Region names to be excluded from configuring Amazon GuardDuty S3 Protection
+   */
+  readonly excludeRegions: t.Region[] = [];
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link GuardDutyConfig} / {@link GuardDutyEksProtectionConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/guardduty/latest/ug/kubernetes-protection.html} | AWS GuardDuty EKS Protection configuration.
+ * Use this configuration to enable EKS Protection with Amazon GuardDuty to provide threat detection coverage to help protect Amazon
+ * EKS clusters within an AWS environment. This includes EKS Audit Log Monitoring and EKS Runtime Monitoring.
+ *
+ * @example
+ * ```
+ * enable: true
+ * excludeRegions: []
+ * ```
+ */
+export class GuardDutyEksProtectionConfig implements t.TypeOf<typeof SecurityConfigTypes.guardDutyEksProtectionConfig> {
+  /**
+   * Indicates whether AWS GuardDuty EKS Protection enabled.
+   */
+  readonly enable = false;
+  /**
+   * (OPTIONAL) List of AWS Region names to be excluded from configuring Amazon GuardDuty EKS Protection
+   */
+  readonly excludeRegions: t.Region[] = [];
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link GuardDutyConfig} / {@link GuardDutyEbsProtectionConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/guardduty/latest/ug/malware-protection.html} | AWS GuardDuty EBS Malware Protection configuration.
+ * Use this configuration to enable Malware Protection with Amazon GuardDuty to scan the EBS volumes attached to Amazon EC2
+ * instances and container workloads that are potentially compromised.
+ *
+ * @example
+ * ```
+ * enable: true
+ * excludeRegions: []
+ * ```
+ */
+export class GuardDutyEbsProtectionConfig implements t.TypeOf<typeof SecurityConfigTypes.guardDutyEbsProtectionConfig> {
+  /**
+   * Indicates whether AWS GuardDuty EBS Malware Protection enabled.
+   */
+  readonly enable = false;
+  /**
+   * (OPTIONAL) List of AWS Region names to be excluded from configuring Amazon GuardDuty EBS Malware Protection
+   */
+  readonly excludeRegions: t.Region[] = [];
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link GuardDutyConfig} / {@link GuardDutyRdsProtectionConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/guardduty/latest/ug/rds-protection.html} | AWS GuardDuty RDS Protection configuration.
+ * Use this configuration to enable RDS Protection with Amazon GuardDuty to profile and monitor the login activity
+ * of Amazon Aurora databases.
+ *
+ * @example
+ * ```
+ * enable: true
+ * excludeRegions: []
+ * ```
+ */
+export class GuardDutyRdsProtectionConfig implements t.TypeOf<typeof SecurityConfigTypes.guardDutyRdsProtectionConfig> {
+  /**
+   * Indicates whether AWS GuardDuty RDS Protection enabled.
+   */
+  readonly enable = false;
+  /**
+   * (OPTIONAL) List of AWS Region names to be excluded from configuring Amazon GuardDuty RDS Protection
+   */
+  readonly excludeRegions: t.Region[] = [];
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link GuardDutyConfig} / {@link GuardDutyLambdaProtectionConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/guardduty/latest/ug/lambda-protection.html} | AWS GuardDuty Lambda Protection configuration.
+ * Use this configuration to enable Lambda Protection with Amazon GuardDuty to monitor the network activity logs
+ * generated by the invocation of AWS Lambda functions.
+ *
+ * @example
+ * ```
+ * enable: true
+ * excludeRegions: []
+ * ```
+ */
+export class GuardDutyLambdaProtectionConfig
+  implements t.TypeOf<typeof SecurityConfigTypes.guardDutyLambdaProtectionConfig>
+{
+  /**
+   * Indicates whether AWS GuardDuty Lambda Protection enabled.
+   */
+  readonly enable = false;
+  /**
+   * (OPTIONAL) List of AWS Region names to be excluded from configuring Amazon GuardDuty Lambda Protection
+   */
+  readonly excludeRegions: t.Region[] = [];
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link GuardDutyConfig} / {@link GuardDutyRuntimeMonitoringConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/guardduty/latest/ug/runtime-monitoring.html} | AWS GuardDuty Runtime Monitoring configuration.
+ * Use this configuration to enable Runtime Monitoring with Amazon GuardDuty to monitor the operating system level events
+ * of Amazon EKS clusters, Amazon ECS Fargate tasks and Amazon EC2 instances. GuardDuty can manage the security agent
+ * of each resource type on your behalf.
+ *
+ * @example
+ * ```
+ * enable: true
+ * excludeRegions: []
+ * eksAddonManagement: true
+ * ecsFargateAgentManagement: true
+ * ec2AgentManagement: false
+ * ```
+ */
+export class GuardDutyRuntimeMonitoringConfig
+  implements t.TypeOf<typeof SecurityConfigTypes.guardDutyRuntimeMonitoringConfig>
+{
+  /**
+   * Indicates whether AWS GuardDuty Runtime Monitoring enabled.
+   */
+  readonly enable = false;
+  /**
+   * (OPTIONAL) List of AWS Region names to be excluded from configuring Amazon GuardDuty Runtime Monitoring
+   */
+  readonly excludeRegions: t.Region[] = [];
+  /**
+   * (OPTIONAL) Indicates whether GuardDuty manages the security agent add-on of Amazon EKS clusters.
+   *
+   * @default true
+   */
+  readonly eksAddonManagement: boolean | undefined = undefined;
+  /**
+   * (OPTIONAL) Indicates whether GuardDuty manages the security agent of Amazon ECS Fargate tasks.
+   *
+   * @default true
+   */
+  readonly ecsFargateAgentManagement: boolean | undefined = undefined;
+  /**
+   * (OPTIONAL) Indicates whether GuardDuty manages the security agent of Amazon EC2 instances.
+   *
+   * @default false
+   */
+  readonly ec2AgentManagement: boolean | undefined = undefined;
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link GuardDutyConfig} / {@link GuardDutyExportFindingsConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/guardduty/latest/ug/guardduty_exportfindings.html} | AWS GuardDuty Export Findings configuration.
+ * Use this configuration to export Amazon GuardDuty findings to Amazon CloudWatch Events, and, optionally, to an Amazon S3 bucket.
+ *
+ * @example
+ * ```
+ * enable: true
+ * overrideExisting: true
+ * destinationType: S3
+ * exportFrequency: FIFTEEN_MINUTES
+ * ```
+ */
+export class GuardDutyExportFindingsConfig
+  implements t.TypeOf<typeof SecurityConfigTypes.guardDutyExportFindingsConfig>
+{
+  /**
+   * Indicates whether AWS GuardDuty Export Findings enabled.
+   */
+  readonly enable = false;
+  /**
+   * (OPTIONAL) Indicates whether AWS GuardDuty Export Findings can be overwritten.
+   */
+  readonly overrideExisting = false;
+  /**
+   * The type of resource for the publishing destination. Currently only Amazon S3 buckets are supported.
+   */
+  readonly destinationType = 'S3';
+  /**
+   * An enum value that specifies how frequently findings are exported, such as to CloudWatch Events.
+   * Possible values FIFTEEN_MINUTES, ONE_HOUR, or SIX_HOURS
+   */
+  readonly exportFrequency = 'FIFTEEN_MINUTES';
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link GuardDutyConfig}*
+ *
+ * AWS GuardDuty configuration
+ * Use this configuration to enable Amazon GuardDuty for an AWS Organization, as well as other modular
+ * feature protections.
+ *
+ *
+ * @example
+ * ```
+ * guardduty:
+ *   enable: true
+ *   excludeRegions: []
+ *   s3Protection:
+ *     enable: true
+ *     excludeRegions: []
+ *   eksProtection:
+ *     enable: true
+ *     excludedRegions: []
+ *   ebsProtection:
+ *     enable: true
+ *     excludeRegions: []
+ *   rdsProtection:
+ *     enable: true
+ *     excludeRegions: []
+ *   lambdaProtection:
+ *     enable: true
+ *     excludeRegions: []
+ *   runtimeMonitoring:
+ *     enable: true
+ *     excludeRegions: []
+ *     eksAddonManagement: true
+ *     ecsFargateAgentManagement: true
+ *   exportConfiguration:
+ *     enable: true
+ *     overrideExisting: true
+ *     destinationType: S3
+ *     exportFrequency: FIFTEEN_MINUTES
+ *   lifecycleRules: []
+ * ```
+ */
+export class GuardDutyConfig implements t.TypeOf<typeof SecurityConfigTypes.guardDutyConfig> {
+  /**
+   * Indicates whether AWS GuardDuty enabled.
+   */
+  readonly enable = false;
+  /**
+   * (OPTIONAL) List of AWS Region names to be excluded from configuring Amazon GuardDuty
+   */
+  readonly excludeRegions: t.Region[] = [];
+  /**
+   * AWS GuardDuty S3 Protection configuration.
+   * @type object
+   */
+  readonly s3Protection: GuardDutyS3ProtectionConfig = new GuardDutyS3ProtectionConfig();
+  /**
+   * (OPTIONAL) AWS GuardDuty EKS Protection configuration.
+   * @type object
+   */
+  readonly eksProtection: GuardDutyEksProtectionConfig | undefined = undefined;
+  /**
+   * (OPTIONAL) AWS GuardDuty EBS Malware Protection configuration.
+   * @type object
+   */
+  readonly ebsProtection: GuardDutyEbsProtectionConfig | undefined = undefined;
+  /**
+   * (OPTIONAL) AWS GuardDuty RDS Protection configuration.
+   * @type object
+   */
+  readonly rdsProtection: GuardDutyRdsProtectionConfig | undefined = undefined;
+  /**
+   * (OPTIONAL) AWS GuardDuty Lambda Protection configuration.
+   * @type object
+   */
+  readonly lambdaProtection: GuardDutyLambdaProtectionConfig | undefined = undefined;
+  /**
+   * (OPTIONAL) AWS GuardDuty Runtime Monitoring configuration.
+   * @type object
+   */
+  readonly runtimeMonitoring: GuardDutyRuntimeMonitoringConfig | undefined = undefined;
+  /**
+   * AWS GuardDuty Export Findings configuration.
+   * @type object
+   */
+  readonly exportConfiguration: GuardDutyExportFindingsConfig = new GuardDutyExportFindingsConfig();
+  /**
+   * (OPTIONAL) Declaration of a S3 Lifecycle rule.
+   */
+  readonly lifecycleRules: t.LifeCycleRule[] | undefined = undefined;
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link AuditManagerConfig} / {@link AuditManagerDefaultReportsDestinationConfig}*
+ *
+ * AWS Audit Manager Default Reports Destination configuration.
+ * Use this configuration to enable a destination for reports generated by AWS Audit Manager.
+ *
+ * @example
+ * ```
+ * enable: true
+ * destinationType: S3
+ * ```
+ */
+export class AuditManagerDefaultReportsDestinationConfig
+  implements t.TypeOf<typeof SecurityConfigTypes.auditManagerDefaultReportsDestinationConfig>
+{
+  /**
+   * Indicates whether AWS Audit Manager Default Reports enabled.
+   */
+  readonly enable = false;
+  /**
+   * The type of resource for the publishing destination. Currently only Amazon S3 buckets are supported.
+   */
+  readonly destinationType = 'S3';
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link AuditManagerConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/audit-manager/latest/userguide/what-is.html } | AWS Audit Manager configuration
+ * Use this configuration to enable AWS Audit Manager for an AWS Organization.
+ *
+ * @example
+ * ```
+ * auditManager:
+ *   enable: true
+ *   excludeRegions: []
+ *   defaultReportsConfiguration:
+ *     enable: true
+ *     destinationType: S3
+ *   lifecycleRules: []
+ * ```
+ */
+export class AuditManagerConfig implements t.TypeOf<typeof SecurityConfigTypes.auditManagerConfig> {
+  /**
+   * Indicates whether AWS Audit Manager enabled.
+   */
+  readonly enable = false;
+  /**
+   * (OPTIONAL) List of AWS Region names to be excluded from configuring AWS Audit Manager.
+   */
+  readonly excludeRegions: t.Region[] = [];
+  /**
+   * AWS Audit Manager Default Reports configuration.
+   * @type object
+   */
+  readonly defaultReportsConfiguration: AuditManagerDefaultReportsDestinationConfig =
+    new AuditManagerDefaultReportsDestinationConfig();
+  /**
+   * (OPTIONAL) Declaration of a S3 Lifecycle rule.
+   */
+  readonly lifecycleRules: t.LifeCycleRule[] | undefined = undefined;
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link DetectiveConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/detective/latest/adminguide/what-is-detective.html} | Amazon Detective configuration
+ * Use this configuration to enable Amazon Detective for an AWS Organization that allows users to analyze, investigate, and
+ * quickly identify the root cause of security findings or suspicious activities.
+ *
+ * @example
+ * ```
+ * detective:
+ *   enable: true
+ *   excludeRegions: []
+ * ```
+ */
+export class DetectiveConfig implements t.TypeOf<typeof SecurityConfigTypes.detectiveConfig> {
+  /**
+   * Indicates whether Amazon Detective is enabled.
+   */
+  readonly enable = false;
+  /**
+   * (OPTIONAL) List of AWS Region names to be excluded from configuring Amazon Detective
+   */
+  readonly excludeRegions: t.Region[] = [];
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link InspectorConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/inspector/latest/user/what-is-inspector.html} | Amazon Inspector configuration
+ * Use this configuration to enable Amazon Inspector for an AWS Organization to continually scan Amazon EC2 instances,
+ * Amazon ECR container images and AWS Lambda functions for software vulnerabilities and unintended network exposure.
+ *
+ * @example
+ * ```
+ * inspector:
+ *   enable: true
+ *   excludeRegions: []
+ *   ec2Scanning: true
+ *   ecrScanning: true
+ *   lambdaScanning: false
+ *   autoEnable: true
+ * ```
+ */
+export class InspectorConfig implements t.TypeOf<typeof SecurityConfigTypes.inspectorConfig> {
+  /**
+   * Indicates whether Amazon Inspector is enabled.
+   */
+  readonly enable = false;
+  /**
+   * (OPTIONAL) List of AWS Region names to be excluded from configuring Amazon Inspector
+   */
+  readonly excludeRegions: t.Region[] = [];
+  /**
+   * (OPTIONAL) Indicates whether Amazon EC2 instances are scanned.
+   * @default true
+   */
+  readonly ec2Scanning: boolean | undefined = undefined;
+  /**
+   * (OPTIONAL) Indicates whether Amazon ECR container images are scanned.
+   * @default true
+   */
+  readonly ecrScanning: boolean | undefined = undefined;
+  /**
+   * (OPTIONAL) Indicates whether AWS Lambda functions are scanned.
+   * @default false
+   */
+  readonly lambdaScanning: boolean | undefined = undefined;
+  /**
+   * (OPTIONAL) Indicates whether the enabled scanning types are automatically enabled for accounts added to the organization.
+   * @default true
+   */
+  readonly autoEnable: boolean | undefined = undefined;
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link SecurityLakeConfig} / {@link SecurityLakeLifecycleConfig}*
+ *
+ * Amazon Security Lake data lifecycle configuration.
+ * Use this configuration to transition the data of the data lake to other S3 storage classes and expire it.
+ *
+ * @example
+ * ```
+ * expiration: 365
+ * transitions:
+ *   - storageClass: GLACIER
+ *     transitionAfter: 90
+ * ```
+ */
+export class SecurityLakeLifecycleConfig implements t.TypeOf<typeof SecurityConfigTypes.securityLakeLifecycleConfig> {
+  /**
+   * (OPTIONAL) Number of days after which the data of the data lake expires
+   */
+  readonly expiration: number | undefined = undefined;
+  /**
+   * (OPTIONAL) Transitions of the data of the data lake to other S3 storage classes
+   */
+  readonly transitions: t.Transition[] | undefined = undefined;
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link SecurityLakeConfig} / {@link SecurityLakeRollupRegionConfig}*
+ *
+ * Amazon Security Lake rollup region configuration.
+ * Use this configuration to replicate the data of one or more contributing regions to a rollup region.
+ *
+ * @example
+ * ```
+ * - region: us-east-1
+ *   contributingRegions:
+ *     - us-west-2
+ * ```
+ */
+export class SecurityLakeRollupRegionConfig
+  implements t.TypeOf<typeof SecurityConfigTypes.securityLakeRollupRegionConfig>
+{
+  /**
+   * Region the data of the contributing regions is replicated to
+   */
+  readonly region: t.Region = 'us-east-1';
+  /**
+   * Regions contributing their data to the rollup region
+   */
+  readonly contributingRegions: t.Region[] = [];
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link SecurityLakeConfig} / {@link SecurityLakeSourceConfig}*
+ *
+ * Amazon Security Lake AWS log source configuration.
+ * Use this configuration to collect an AWS log source from the accounts and regions of the deployment targets.
+ *
+ * @example
+ * ```
+ * - name: VPC_FLOW
+ *   deploymentTargets:
+ *     organizationalUnits:
+ *       - Infrastructure
+ *     excludedRegions:
+ *       - us-west-2
+ * ```
+ */
+export class SecurityLakeSourceConfig implements t.TypeOf<typeof SecurityConfigTypes.securityLakeSourceConfig> {
+  /**
+   * Name of the AWS log source.
+   * Possible values are CLOUD_TRAIL_MGMT, VPC_FLOW, ROUTE53, SH_FINDINGS, LAMBDA_EXECUTION, S3_DATA, EKS_AUDIT and WAF
+   */
+  readonly name = 'CLOUD_TRAIL_MGMT';
+  /**
+   * (OPTIONAL) Version of the AWS log source, the latest version is used when omitted
+   */
+  readonly version: string | undefined = undefined;
+  /**
+   * Accounts and regions the log source is collected from.
+   * Regions excluded from the data lake are never collected.
+   */
+  readonly deploymentTargets: t.DeploymentTargets = new t.DeploymentTargets();
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link SecurityLakeConfig} / {@link SecurityLakeSubscriberConfig}*
+ *
+ * Amazon Security Lake subscriber configuration.
+ * Use this configuration to grant an account access to the data of AWS log sources of the data lake.
+ *
+ * @example
+ * ```
+ * - name: SOC
+ *   description: Security operations center
+ *   account: '111111111111'
+ *   externalId: soc-external-id
+ *   accessTypes:
+ *     - S3
+ *   sources:
+ *     - CLOUD_TRAIL_MGMT
+ *     - SH_FINDINGS
+ * ```
+ */
+export class SecurityLakeSubscriberConfig implements t.TypeOf<typeof SecurityConfigTypes.securityLakeSubscriberConfig> {
+  /**
+   * Name of the subscriber
+   */
+  readonly name = '';
+  /**
+   * (OPTIONAL) Description of the subscriber
+   */
+  readonly description: string | undefined = undefined;
+  /**
+   * Account name from accounts-config.yaml or 12-digit AWS account ID of the subscriber
+   */
+  readonly account = '';
+  /**
+   * External ID used by the subscriber to access the data lake
+   */
+  readonly externalId = '';
+  /**
+   * Access types of the subscriber, S3 and/or LAKEFORMATION
+   */
+  readonly accessTypes: string[] = [];
+  /**
+   * AWS log sources the subscriber has access to
+   */
+  readonly sources: t.TypeOf<typeof SecurityConfigTypes.securityLakeSourceNameEnum>[] = [];
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link SecurityLakeConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/security-lake/latest/userguide/what-is-security-lake.html} | Amazon Security Lake configuration
+ * Use this configuration to centralize security data normalized to the Open Cybersecurity Schema Framework (OCSF)
+ * in a data lake owned by the delegated administrator account.
+ *
+ * @remarks
+ * The data lake is created in the enabled regions that are not excluded. The delegated administrator account
+ * defaults to the LogArchive account.
+ *
+ * @example
+ * ```
+ * securityLake:
+ *   enable: true
+ *   delegatedAdminAccount: LogArchive
+ *   excludeRegions: []
+ *   lifecycle:
+ *     expiration: 365
+ *   rollupRegions:
+ *     - region: us-east-1
+ *       contributingRegions:
+ *         - us-west-2
+ *   sources:
+ *     - name: CLOUD_TRAIL_MGMT
+ *       deploymentTargets:
+ *         organizationalUnits:
+ *           - Root
+ *   subscribers: []
+ * ```
+ */
+export class SecurityLakeConfig implements t.TypeOf<typeof SecurityConfigTypes.securityLakeConfig> {
+  /**
+   * Indicates whether Amazon Security Lake is enabled.
+   */
+  readonly enable = false;
+  /**
+   * (OPTIONAL) Delegated administrator account of Amazon Security Lake
+   * @default LogArchive
+   */
+  readonly delegatedAdminAccount: string | undefined = undefined;
+  /**
+   * (OPTIONAL) List of AWS Region names to be excluded from the data lake
+   */
+  readonly excludeRegions: t.Region[] = [];
+  /**
+   * (OPTIONAL) Data lifecycle of the data lake
+   */
+  readonly lifecycle: SecurityLakeLifecycleConfig | undefined = undefined;
+  /**
+   * (OPTIONAL) Rollup regions of the data lake
+   */
+  readonly rollupRegions: SecurityLakeRollupRegionConfig[] | undefined = undefined;
+  /**
+   * (OPTIONAL) AWS log sources collected by the data lake
+   */
+  readonly sources: SecurityLakeSourceConfig[] | undefined = undefined;
+  /**
+   * (OPTIONAL) Subscribers of the data lake
+   */
+  readonly subscribers: SecurityLakeSubscriberConfig[] | undefined = undefined;
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link SecurityHubConfig} / {@link SecurityHubStandardConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/securityhub/latest/userguide/standards-reference.html} | AWS Security Hub standards configuration.
+ * Use this configuration to define the security standard(s) that are enabled through Amazon Security Hub and which accounts and/or
+ * organization units that the controls are deployed to.
+ *
+ * @example
+ * ```
+ * - name: PCI DSS v3.2.1
+ *   deploymentTargets:
+ *    organizationalUnits:
+ *     -  Root
+ *   enable: true
+ *   controlsToDisable: []
+ * ```
+ */
+export class SecurityHubStandardConfig implements t.TypeOf<typeof SecurityConfigTypes.securityHubStandardConfig> {
+  /**
+   * An enum value that specifies one of three security standards supported by Security Hub
+   * Possible values are 'AWS Foundational Security Best Practices v1.0.0',
+   * 'CIS AWS Foundations Benchmark v1.2.0',
+   * 'CIS AWS Foundations Benchmark v1.4.0',
+   * 'NIST Special Publication 800-53 Revision 5,
+   * and 'PCI DSS v3.2.1'
+   */
+  readonly name = '';
+  /**
+   * (OPTIONAL) Deployment targets for AWS Security Hub standard.
+   */
+  readonly deploymentTargets: t.DeploymentTargets | undefined = undefined;
+  /**
+   * Indicates whether given AWS Security Hub standard enabled.
+   */
+  readonly enable = true;
+  /**
+   * (OPTIONAL) An array of control names to be enabled for the given security standards
+   */
+  readonly controlsToDisable: string[] = [];
+  /**
+   * (OPTIONAL) An array of per-OU/per-account control exceptions for the given security standard
+   *
+   * @see {@link SecurityHubControlOverrideConfig}
+   */
+  readonly controlOverrides: SecurityHubControlOverrideConfig[] | undefined = undefined;
+  /**
+   * (OPTIONAL) An array of custom control parameter values for the given security standard
+   *
+   * @see {@link SecurityHubControlParameterConfig}
+   */
+  readonly controlParameters: SecurityHubControlParameterConfig[] | undefined = undefined;
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link SecurityHubConfig} / {@link SecurityHubStandardConfig} / {@link SecurityHubControlOverrideConfig}*
+ *
+ * AWS Security Hub control override configuration.
+ * Use this configuration to enable or disable a control of a standard in specific accounts and/or organizational units.
+ * Overrides take precedence over `controlsToDisable` of the standard. A justification is mandatory and is reported
+ * in the Security Hub exceptions register.
+ *
+ * @example
+ * ```
+ * - controlId: IAM.6
+ *   enable: false
+ *   deploymentTargets:
+ *     organizationalUnits:
+ *       - Sandbox
+ *   justification: Hardware MFA is not issued for sandbox root users
+ * ```
+ */
+export class SecurityHubControlOverrideConfig
+  implements t.TypeOf<typeof SecurityConfigTypes.securityHubControlOverrideConfig>
+{
+  /**
+   * Control ID within the standard, for example IAM.6
+   */
+  readonly controlId = '';
+  /**
+   * Indicates whether the control is enabled or disabled in the deployment targets
+   */
+  readonly enable = false;
+  /**
+   * Accounts and organizational units the override applies to
+   */
+  readonly deploymentTargets: t.DeploymentTargets = new t.DeploymentTargets();
+  /**
+   * Reason for the exception, reported in the exceptions register
+   */
+  readonly justification = '';
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link SecurityHubConfig} / {@link SecurityHubStandardConfig} / {@link SecurityHubControlParameterConfig} / {@link SecurityHubControlParameterValueConfig}*
+ *
+ * AWS Security Hub control parameter value configuration.
+ *
+ * @example
+ * ```
+ * name: daysToExpiration
+ * value: 30
+ * ```
+ */
+export class SecurityHubControlParameterValueConfig
+  implements t.TypeOf<typeof SecurityConfigTypes.securityHubControlParameterValueConfig>
+{
+  /**
+   * Name of the control parameter, for example daysToExpiration
+   */
+  readonly name = '';
+  /**
+   * Custom value of the control parameter
+   */
+  readonly value: number | string | boolean | string[] | number[] = '';
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link SecurityHubConfig} / {@link SecurityHubStandardConfig} / {@link SecurityHubControlParameterConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/securityhub/latest/userguide/custom-control-parameters.html} | AWS Security Hub custom control parameters configuration.
+ * Use this configuration to set custom parameter values of a security control. Parameter values apply to the security
+ * control in every standard it belongs to, so each control ID may be defined once, in a single standard.
+ * A justification is mandatory and is reported in the Security Hub exceptions register.
+ *
+ * @example
+ * ```
+ * - controlId: ACM.1
+ *   parameters:
+ *     - name: daysToExpiration
+ *       value: 30
+ *   deploymentTargets:
+ *     organizationalUnits:
+ *       - Infrastructure
+ *   justification: Infrastructure certificates are renewed 30 days before expiry
+ * ```
+ */
+export class SecurityHubControlParameterConfig
+  implements t.TypeOf<typeof SecurityConfigTypes.securityHubControlParameterConfig>
+{
   /**
-   * Indicates whether AWS GuardDuty S3 Protection enabled.
+   * Security control ID, for example ACM.1
    */
-  readonly enable = false;
+  readonly controlId = '';
   /**
-   * (OPTIONAL) List of AWS Region names to be excluded from configuring Amazon GuardDuty S3 Protection
+   * Custom parameter values of the control
+   *
+   * @see {@link SecurityHubControlParameterValueConfig}
    */
-  readonly excludeRegions: t.Region[] = [];
+  readonly parameters: SecurityHubControlParameterValueConfig[] = [];
+  /**
+   * (OPTIONAL) Accounts and organizational units the parameters apply to, defaults to the deployment targets of the standard
+   */
+  readonly deploymentTargets: t.DeploymentTargets | undefined = undefined;
+  /**
+   * Reason for the custom values, reported in the exceptions register
+   */
+  readonly justification = '';
 }
 
 /**
- * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link GuardDutyConfig} / {@link GuardDutyEksProtectionConfig}*
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link SecurityHubConfig} / {@link SecurityHubCustomActionConfig} / {@link SecurityHubCustomActionTargetConfig}*
  *
- * {@link https://docs.aws.amazon.com/guardduty/latest/ug/kubernetes-protection.html} | AWS GuardDuty EKS Protection configuration.
- * Use this configuration to enable EKS Protection with Amazon GuardDuty to provide threat detection coverage to help protect Amazon
- * EKS clusters within an AWS environment. This includes EKS Audit Log Monitoring and EKS Runtime Monitoring.
+ * AWS Security Hub custom action target configuration.
+ * Use this configuration to send the findings of a custom action to a Lambda function or an EventBridge event bus.
  *
  * @example
  * ```
- * enable: true
- * excludeRegions: []
+ * type: eventBus
+ * arn: arn:aws:events:us-east-1:111111111111:event-bus/soar
  * ```
  */
-export class GuardDutyEksProtectionConfig implements t.TypeOf<typeof SecurityConfigTypes.guardDutyEksProtectionConfig> {
+export class SecurityHubCustomActionTargetConfig
+  implements t.TypeOf<typeof SecurityConfigTypes.securityHubCustomActionTargetConfig>
+{
   /**
-   * Indicates whether AWS GuardDuty EKS Protection enabled.
+   * Type of the EventBridge target.
+   * Possible values are lambda and eventBus
    */
-  readonly enable = false;
+  readonly type: 'lambda' | 'eventBus' = 'lambda';
   /**
-   * (OPTIONAL) List of AWS Region names to be excluded from configuring Amazon GuardDuty EKS Protection
+   * ARN of the Lambda function or EventBridge event bus
+   *
+   * A Lambda function must be in the Security Hub delegated administrator account and in the region of the custom action,
+   * the home region with region aggregation. The accelerator grants EventBridge permission to invoke the function.
    */
-  readonly excludeRegions: t.Region[] = [];
+  readonly arn = '';
 }
 
 /**
- * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link GuardDutyConfig} / {@link GuardDutyExportFindingsConfig}*
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link SecurityHubConfig} / {@link SecurityHubCustomActionConfig}*
  *
- * {@link https://docs.aws.amazon.com/guardduty/latest/ug/guardduty_exportfindings.html} | AWS GuardDuty Export Findings configuration.
- * Use this configuration to export Amazon GuardDuty findings to Amazon CloudWatch Events, and, optionally, to an Amazon S3 bucket.
+ * {@link https://docs.aws.amazon.com/securityhub/latest/userguide/securityhub-cwe-custom-actions.html} | AWS Security Hub custom action configuration.
+ * Use this configuration to create a custom action that sends the selected findings to EventBridge targets.
  *
  * @example
  * ```
- * enable: true
- * overrideExisting: true
- * destinationType: S3
- * exportFrequency: FIFTEEN_MINUTES
+ * - name: Send to SOAR
+ *   id: SendToSoar
+ *   description: Send the findings to the SOAR platform
+ *   targets:
+ *     - type: eventBus
+ *       arn: arn:aws:events:us-east-1:111111111111:event-bus/soar
  * ```
  */
-export class GuardDutyExportFindingsConfig
-  implements t.TypeOf<typeof SecurityConfigTypes.guardDutyExportFindingsConfig>
+export class SecurityHubCustomActionConfig
+  implements t.TypeOf<typeof SecurityConfigTypes.securityHubCustomActionConfig>
 {
   /**
-   * Indicates whether AWS GuardDuty Export Findings enabled.
+   * Name of the custom action, up to 20 characters
    */
-  readonly enable = false;
+  readonly name = '';
   /**
-   * (OPTIONAL) Indicates whether AWS GuardDuty Export Findings can be overwritten.
+   * Id of the custom action, up to 20 alphanumeric characters
    */
-  readonly overrideExisting = false;
+  readonly id = '';
   /**
-   * The type of resource for the publishing destination. Currently only Amazon S3 buckets are supported.
+   * Description of the custom action
    */
-  readonly destinationType = 'S3';
+  readonly description = '';
   /**
-   * An enum value that specifies how frequently findings are exported, such as to CloudWatch Events.
-   * Possible values FIFTEEN_MINUTES, ONE_HOUR, or SIX_HOURS
+   * (OPTIONAL) EventBridge targets of the findings sent to the custom action
    */
-  readonly exportFrequency = 'FIFTEEN_MINUTES';
+  readonly targets: SecurityHubCustomActionTargetConfig[] | undefined = undefined;
 }
 
 /**
- * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link GuardDutyConfig}*
- *
- * AWS GuardDuty configuration
- * Use this configuration to enable Amazon GuardDuty for an AWS Organization, as well as other modular
- * feature protections.
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link SecurityHubConfig} / {@link SecurityHubFindingFiltersConfig}*
  *
+ * AWS Security Hub finding filters configuration.
+ * Use this configuration to select the findings of an insight or automation rule.
+ * A finding matches when it matches at least one value of every filter defined.
  *
  * @example
  * ```
- * guardduty:
- *   enable: true
- *   excludeRegions: []
- *   s3Protection:
- *     enable: true
- *     excludeRegions: []
- *   eksProtection:
- *     enable: true
- *     excludedRegions: []
- *   exportConfiguration:
- *     enable: true
- *     overrideExisting: true
- *     destinationType: S3
- *     exportFrequency: FIFTEEN_MINUTES
- *   lifecycleRules: []
+ * productNames:
+ *   - Security Hub
+ * accounts:
+ *   - SharedServices
+ * controlIds:
+ *   - EC2.10
+ * resourceTags:
+ *   - key: Environment
+ *     value: Sandbox
  * ```
  */
-export class GuardDutyConfig implements t.TypeOf<typeof SecurityConfigTypes.guardDutyConfig> {
+export class SecurityHubFindingFiltersConfig
+  implements t.TypeOf<typeof SecurityConfigTypes.securityHubFindingFiltersConfig>
+{
   /**
-   * Indicates whether AWS GuardDuty enabled.
+   * (OPTIONAL) Names of the products that generated the findings, such as Security Hub or GuardDuty
    */
-  readonly enable = false;
+  readonly productNames: string[] | undefined = undefined;
   /**
-   * (OPTIONAL) List of AWS Region names to be excluded from configuring Amazon GuardDuty
+   * (OPTIONAL) Names or ids of the accounts of the findings
    */
-  readonly excludeRegions: t.Region[] = [];
+  readonly accounts: string[] | undefined = undefined;
   /**
-   * AWS GuardDuty S3 Protection configuration.
-   * @type object
+   * (OPTIONAL) Security control ids of the findings, such as IAM.1
    */
-  readonly s3Protection: GuardDutyS3ProtectionConfig = new GuardDutyS3ProtectionConfig();
+  readonly controlIds: string[] | undefined = undefined;
   /**
-   * (OPTIONAL) AWS GuardDuty EKS Protection configuration.
-   * @type object
+   * (OPTIONAL) Resource types of the findings, such as AwsEc2Instance
    */
-  readonly eksProtection: GuardDutyEksProtectionConfig | undefined = undefined;
+  readonly resourceTypes: string[] | undefined = undefined;
   /**
-   * AWS GuardDuty Export Findings configuration.
-   * @type object
+   * (OPTIONAL) Tags of the resources of the findings
    */
-  readonly exportConfiguration: GuardDutyExportFindingsConfig = new GuardDutyExportFindingsConfig();
+  readonly resourceTags: t.Tag[] | undefined = undefined;
   /**
-   * (OPTIONAL) Declaration of a S3 Lifecycle rule.
+   * (OPTIONAL) Severity labels of the findings.
+   * Possible values are INFORMATIONAL, LOW, MEDIUM, HIGH and CRITICAL
    */
-  readonly lifecycleRules: t.LifeCycleRule[] | undefined = undefined;
-}
-
-/**
- * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link AuditManagerConfig} / {@link AuditManagerDefaultReportsDestinationConfig}*
- *
- * AWS Audit Manager Default Reports Destination configuration.
- * Use this configuration to enable a destination for reports generated by AWS Audit Manager.
- *
- * @example
- * ```
- * enable: true
- * destinationType: S3
- * ```
- */
-export class AuditManagerDefaultReportsDestinationConfig
-  implements t.TypeOf<typeof SecurityConfigTypes.auditManagerDefaultReportsDestinationConfig>
-{
+  readonly severityLabels: t.TypeOf<typeof SecurityConfigTypes.securityHubSeverityLabelEnum>[] | undefined = undefined;
   /**
-   * Indicates whether AWS Audit Manager Default Reports enabled.
+   * (OPTIONAL) Workflow statuses of the findings.
+   * Possible values are NEW, NOTIFIED, RESOLVED and SUPPRESSED
    */
-  readonly enable = false;
+  readonly workflowStatuses: t.TypeOf<typeof SecurityConfigTypes.securityHubWorkflowStatusEnum>[] | undefined =
+    undefined;
   /**
-   * The type of resource for the publishing destination. Currently only Amazon S3 buckets are supported.
+   * (OPTIONAL) Record states of the findings.
+   * Possible values are ACTIVE and ARCHIVED
    */
-  readonly destinationType = 'S3';
+  readonly recordStates: ('ACTIVE' | 'ARCHIVED')[] | undefined = undefined;
 }
 
 /**
- * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link AuditManagerConfig}*
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link SecurityHubConfig} / {@link SecurityHubInsightConfig}*
  *
- * {@link https://docs.aws.amazon.com/audit-manager/latest/userguide/what-is.html } | AWS Audit Manager configuration
- * Use this configuration to enable AWS Audit Manager for an AWS Organization.
+ * {@link https://docs.aws.amazon.com/securityhub/latest/userguide/securityhub-custom-insights.html} | AWS Security Hub insight configuration.
+ * Use this configuration to create a custom insight grouping related findings.
  *
  * @example
  * ```
- * auditManager:
- *   enable: true
- *   excludeRegions: []
- *   defaultReportsConfiguration:
- *     enable: true
- *     destinationType: S3
- *   lifecycleRules: []
+ * - name: Critical findings by account
+ *   groupByAttribute: AwsAccountId
+ *   filters:
+ *     severityLabels:
+ *       - CRITICAL
+ *     recordStates:
+ *       - ACTIVE
  * ```
  */
-export class AuditManagerConfig implements t.TypeOf<typeof SecurityConfigTypes.auditManagerConfig> {
-  /**
-   * Indicates whether AWS Audit Manager enabled.
-   */
-  readonly enable = false;
+export class SecurityHubInsightConfig implements t.TypeOf<typeof SecurityConfigTypes.securityHubInsightConfig> {
   /**
-   * (OPTIONAL) List of AWS Region names to be excluded from configuring AWS Audit Manager.
+   * Name of the insight
    */
-  readonly excludeRegions: t.Region[] = [];
+  readonly name = '';
   /**
-   * AWS Audit Manager Default Reports configuration.
-   * @type object
+   * Finding attribute used to group the findings of the insight, such as ResourceId or AwsAccountId
    */
-  readonly defaultReportsConfiguration: AuditManagerDefaultReportsDestinationConfig =
-    new AuditManagerDefaultReportsDestinationConfig();
+  readonly groupByAttribute = '';
   /**
-   * (OPTIONAL) Declaration of a S3 Lifecycle rule.
+   * Filters of the findings of the insight
    */
-  readonly lifecycleRules: t.LifeCycleRule[] | undefined = undefined;
+  readonly filters: SecurityHubFindingFiltersConfig = new SecurityHubFindingFiltersConfig();
 }
 
 /**
- * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link DetectiveConfig}*
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link SecurityHubConfig} / {@link SecurityHubAutomationRuleConfig} / {@link SecurityHubAutomationRuleActionsConfig}*
  *
- * {@link https://docs.aws.amazon.com/detective/latest/adminguide/what-is-detective.html} | Amazon Detective configuration
- * Use this configuration to enable Amazon Detective for an AWS Organization that allows users to analyze, investigate, and
- * quickly identify the root cause of security findings or suspicious activities.
+ * AWS Security Hub automation rule actions configuration.
+ * Use this configuration to update the fields of the findings matching an automation rule.
  *
  * @example
  * ```
- * detective:
- *   enable: true
- *   excludeRegions: []
+ * workflowStatus: SUPPRESSED
+ * note: Accepted risk
  * ```
  */
-export class DetectiveConfig implements t.TypeOf<typeof SecurityConfigTypes.detectiveConfig> {
+export class SecurityHubAutomationRuleActionsConfig
+  implements t.TypeOf<typeof SecurityConfigTypes.securityHubAutomationRuleActionsConfig>
+{
   /**
-   * Indicates whether Amazon Detective is enabled.
+   * (OPTIONAL) Workflow status set on the matching findings.
+   * Possible values are NEW, NOTIFIED, RESOLVED and SUPPRESSED
    */
-  readonly enable = false;
+  readonly workflowStatus: t.TypeOf<typeof SecurityConfigTypes.securityHubWorkflowStatusEnum> | undefined = undefined;
   /**
-   * (OPTIONAL) List of AWS Region names to be excluded from configuring Amazon Detective
+   * (OPTIONAL) Severity label set on the matching findings.
+   * Possible values are INFORMATIONAL, LOW, MEDIUM, HIGH and CRITICAL
    */
-  readonly excludeRegions: t.Region[] = [];
+  readonly severityLabel: t.TypeOf<typeof SecurityConfigTypes.securityHubSeverityLabelEnum> | undefined = undefined;
+  /**
+   * (OPTIONAL) Note added to the matching findings
+   */
+  readonly note: string | undefined = undefined;
 }
 
 /**
- * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link SecurityHubConfig} / {@link SecurityHubStandardConfig}*
+ * *{@link SecurityConfig} / {@link CentralSecurityServicesConfig} / {@link SecurityHubConfig} / {@link SecurityHubAutomationRuleConfig}*
  *
- * {@link https://docs.aws.amazon.com/securityhub/latest/userguide/standards-reference.html} | AWS Security Hub standards configuration.
- * Use this configuration to define the security standard(s) that are enabled through Amazon Security Hub and which accounts and/or
- * organization units that the controls are deployed to.
+ * {@link https://docs.aws.amazon.com/securityhub/latest/userguide/automation-rules.html} | AWS Security Hub automation rule configuration.
+ * Use this configuration to update or suppress the findings matching the criteria of the rule, for example known accepted risks.
+ *
+ * @remarks
+ * Automation rules are created in the delegated administrator account. When region aggregation is enabled they are only created in the home
+ * region and apply to the findings of every linked region.
  *
  * @example
  * ```
- * - name: PCI DSS v3.2.1
- *   deploymentTargets:
- *    organizationalUnits:
- *     -  Root
- *   enable: true
- *   controlsToDisable: []
+ * - name: Suppress sandbox default VPC findings
+ *   description: Default VPCs are accepted in sandbox accounts
+ *   ruleOrder: 1
+ *   criteria:
+ *     productNames:
+ *       - Security Hub
+ *     controlIds:
+ *       - EC2.2
+ *     resourceTags:
+ *       - key: Environment
+ *         value: Sandbox
+ *   actions:
+ *     workflowStatus: SUPPRESSED
+ *     note: Accepted risk
  * ```
  */
-export class SecurityHubStandardConfig implements t.TypeOf<typeof SecurityConfigTypes.securityHubStandardConfig> {
+export class SecurityHubAutomationRuleConfig
+  implements t.TypeOf<typeof SecurityConfigTypes.securityHubAutomationRuleConfig>
+{
   /**
-   * An enum value that specifies one of three security standards supported by Security Hub
-   * Possible values are 'AWS Foundational Security Best Practices v1.0.0',
-   * 'CIS AWS Foundations Benchmark v1.2.0',
-   * 'CIS AWS Foundations Benchmark v1.4.0',
-   * 'NIST Special Publication 800-53 Revision 5,
-   * and 'PCI DSS v3.2.1'
+   * Name of the automation rule
    */
   readonly name = '';
   /**
-   * (OPTIONAL) Deployment targets for AWS Security Hub standard.
+   * Description of the automation rule
    */
-  readonly deploymentTargets: t.DeploymentTargets | undefined = undefined;
+  readonly description = '';
   /**
-   * Indicates whether given AWS Security Hub standard enabled.
+   * Order in which the automation rule is applied, lower values are applied first
    */
-  readonly enable = true;
+  readonly ruleOrder = 1;
   /**
-   * (OPTIONAL) An array of control names to be enabled for the given security standards
+   * (OPTIONAL) Indicates whether the automation rule is applied
+   *
+   * @default true
    */
-  readonly controlsToDisable: string[] = [];
+  readonly enable: boolean | undefined = undefined;
+  /**
+   * (OPTIONAL) Indicates whether rules with a higher rule order are not applied to the matching findings
+   *
+   * @default false
+   */
+  readonly isTerminal: boolean | undefined = undefined;
+  /**
+   * Criteria of the findings the automation rule is applied to
+   */
+  readonly criteria: SecurityHubFindingFiltersConfig = new SecurityHubFindingFiltersConfig();
+  /**
+   * Updates of the matching findings
+   */
+  readonly actions: SecurityHubAutomationRuleActionsConfig = new SecurityHubAutomationRuleActionsConfig();
 }
 
 /**
@@ -1024,6 +2516,31 @@ export class SecurityHubStandardConfig implements t.TypeOf<typeof SecurityConfig
  *         controlsToDisable:
  *           - IAM.1
  *           - EC2.10
+ *     customActions:
+ *       - name: Send to SOAR
+ *         id: SendToSoar
+ *         description: Send the findings to the SOAR platform
+ *         targets:
+ *           - type: eventBus
+ *             arn: arn:aws:events:us-east-1:111111111111:event-bus/soar
+ *     insights:
+ *       - name: Critical findings by account
+ *         groupByAttribute: AwsAccountId
+ *         filters:
+ *           severityLabels:
+ *             - CRITICAL
+ *     automationRules:
+ *       - name: Suppress sandbox default VPC findings
+ *         description: Default VPCs are accepted in sandbox accounts
+ *         ruleOrder: 1
+ *         criteria:
+ *           controlIds:
+ *             - EC2.2
+ *           resourceTags:
+ *             - key: Environment
+ *               value: Sandbox
+ *         actions:
+ *           workflowStatus: SUPPRESSED
  * ```
  */
 export class SecurityHubConfig implements t.TypeOf<typeof SecurityConfigTypes.securityHubConfig> {
@@ -1061,6 +2578,22 @@ export class SecurityHubConfig implements t.TypeOf<typeof SecurityConfigTypes.se
    * Security Hub standards configuration
    */
   readonly standards: SecurityHubStandardConfig[] = [];
+  /**
+   * (OPTIONAL) Security Hub custom actions configuration
+   *
+   * @remarks
+   * Custom actions, insights and automation rules are created in the delegated administrator account,
+   * only in the home region when region aggregation is enabled.
+   */
+  readonly customActions: SecurityHubCustomActionConfig[] | undefined = undefined;
+  /**
+   * (OPTIONAL) Security Hub insights configuration
+   */
+  readonly insights: SecurityHubInsightConfig[] | undefined = undefined;
+  /**
+   * (OPTIONAL) Security Hub automation rules configuration
+   */
+  readonly automationRules: SecurityHubAutomationRuleConfig[] | undefined = undefined;
 }
 
 /**
@@ -1378,6 +2911,14 @@ export class CentralSecurityServicesConfig
    * (OPTIONAL) Amazon Detective Configuration
    */
   readonly detective: DetectiveConfig | undefined = undefined;
+  /**
+   * (OPTIONAL) Amazon Inspector Configuration
+   */
+  readonly inspector: InspectorConfig | undefined = undefined;
+  /**
+   * (OPTIONAL) Amazon Security Lake Configuration
+   */
+  readonly securityLake: SecurityLakeConfig | undefined = undefined;
   /**
    * AWS Security Hub configuration
    *
@@ -1884,6 +3425,89 @@ export class AwsConfigRuleSet implements t.TypeOf<typeof SecurityConfigTypes.aws
   readonly rules: ConfigRule[] = [];
 }
 
+/**
+ * *{@link SecurityConfig} / {@link AwsConfig} / {@link ConformancePackConfig} / {@link OrganizationConformancePackConfig}*
+ *
+ * Organization conformance pack configuration. The conformance pack is deployed from the security delegated
+ * administrator account to every account of the organization, in every enabled region
+ *
+ * @example
+ * ```
+ * organization:
+ *   excludedAccounts:
+ *     - Management
+ *   excludedRegions:
+ *     - us-west-2
+ * ```
+ */
+export class OrganizationConformancePackConfig
+  implements t.TypeOf<typeof SecurityConfigTypes.organizationConformancePackConfig>
+{
+  /**
+   * (OPTIONAL) Names of the accounts the conformance pack is not deployed to
+   */
+  readonly excludedAccounts: string[] | undefined = undefined;
+  /**
+   * (OPTIONAL) Regions the conformance pack is not deployed to
+   */
+  readonly excludedRegions: t.Region[] | undefined = undefined;
+}
+
+/**
+ * *{@link SecurityConfig} / {@link AwsConfig} / {@link ConformancePackConfig}*
+ *
+ * AWS Config conformance pack configuration
+ *
+ * @remarks
+ * A conformance pack is either deployed to the accounts of its `deploymentTargets`,
+ * or organization wide when `organization` is set.
+ *
+ * @example
+ * Conformance pack deployed to the accounts of an OU:
+ * ```
+ * - name: Operational-Best-Practices-for-CIS
+ *   templateFile: conformance-packs/operational-best-practices-for-cis.yaml
+ *   inputParameters:
+ *     MaxPasswordAgeParamMaxPasswordAge: '90'
+ *   deploymentTargets:
+ *     organizationalUnits:
+ *       - Infrastructure
+ * ```
+ * Organization conformance pack:
+ * ```
+ * - name: Operational-Best-Practices-for-NIST-800-53
+ *   templateFile: conformance-packs/operational-best-practices-for-nist-800-53.yaml
+ *   organization:
+ *     excludedAccounts:
+ *       - Management
+ * ```
+ */
+export class ConformancePackConfig implements t.TypeOf<typeof SecurityConfigTypes.conformancePackConfig> {
+  /**
+   * Conformance pack name
+   */
+  readonly name: string = '';
+  /**
+   * Path to the conformance pack template file, i.e. one of the AWS Config
+   * operational best practices sample templates
+   */
+  readonly templateFile: string = '';
+  /**
+   * (OPTIONAL) Values of the template parameters, by parameter name
+   */
+  readonly inputParameters: { [key: string]: string } | undefined = undefined;
+  /**
+   * (OPTIONAL) Conformance pack deployment targets, for conformance packs deployed to individual accounts
+   */
+  readonly deploymentTargets: t.DeploymentTargets | undefined = undefined;
+  /**
+   * (OPTIONAL) Organization conformance pack configuration
+   *
+   * @see {@link OrganizationConformancePackConfig}
+   */
+  readonly organization: OrganizationConformancePackConfig | undefined = undefined;
+}
+
 /**
  * *{@link SecurityConfig} / {@link AwsConfig}*
  *
@@ -1949,6 +3573,12 @@ export class AwsConfig implements t.TypeOf<typeof SecurityConfigTypes.awsConfig>
    * AWS Config rule sets
    */
   readonly ruleSets: AwsConfigRuleSet[] = [];
+  /**
+   * (OPTIONAL) AWS Config conformance packs
+   *
+   * @see {@link ConformancePackConfig}
+   */
+  readonly conformancePacks: ConformancePackConfig[] | undefined = undefined;
 }
 
 /**
@@ -2052,7 +3682,53 @@ export class MetricSetConfig implements t.TypeOf<typeof SecurityConfigTypes.metr
    *           metricValue: "1"
    * ```
    */
-  readonly metrics: MetricConfig[] = [];
+  readonly metrics: MetricConfig[] = [];
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CloudWatchConfig} / {@link AlarmSetConfig} / {@link AlarmConfig} / {@link AlarmActionConfig}*
+ *
+ * AWS CloudWatch alarm action configuration.
+ * Use this configuration to notify an SNS topic from global config, create an AWS Systems Manager OpsItem
+ * or invoke an EC2 Auto Scaling policy when the alarm changes to the given state.
+ *
+ * @example
+ * ```
+ * - type: opsItem
+ *   opsItemSeverity: HIGH
+ *   opsItemCategory: SECURITY
+ * - type: autoScalingPolicy
+ *   autoScalingPolicyArn: arn:aws:autoscaling:us-east-1:111111111111:scalingPolicy:11111111-1111-1111-1111-111111111111:autoScalingGroupName/web:policyName/scale-out
+ * - type: snsTopic
+ *   state: OK
+ *   snsTopicName: Alarms
+ * ```
+ */
+export class AlarmActionConfig implements t.TypeOf<typeof SecurityConfigTypes.alarmActionConfig> {
+  /**
+   * Type of the action, snsTopic, opsItem or autoScalingPolicy
+   */
+  readonly type: 'snsTopic' | 'opsItem' | 'autoScalingPolicy' = 'snsTopic';
+  /**
+   * (OPTIONAL) Alarm state the action is taken for, defaults to ALARM
+   */
+  readonly state: 'ALARM' | 'OK' | 'INSUFFICIENT_DATA' | undefined = undefined;
+  /**
+   * (OPTIONAL) SNS topic name from global config, required for snsTopic actions
+   */
+  readonly snsTopicName: string | undefined = undefined;
+  /**
+   * (OPTIONAL) Severity of the OpsItem, required for opsItem actions
+   */
+  readonly opsItemSeverity: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW' | undefined = undefined;
+  /**
+   * (OPTIONAL) Category of the OpsItem
+   */
+  readonly opsItemCategory: 'AVAILABILITY' | 'COST' | 'PERFORMANCE' | 'RECOVERY' | 'SECURITY' | undefined = undefined;
+  /**
+   * (OPTIONAL) ARN of the EC2 Auto Scaling policy, required for autoScalingPolicy actions
+   */
+  readonly autoScalingPolicyArn: string | undefined = undefined;
 }
 
 /**
@@ -2134,6 +3810,239 @@ export class AlarmConfig implements t.TypeOf<typeof SecurityConfigTypes.alarmCon
    * Sets how this alarm is to handle missing data points.
    */
   readonly treatMissingData: string = '';
+  /**
+   * (OPTIONAL) Additional actions of the alarm
+   *
+   * @see {@link AlarmActionConfig}
+   */
+  readonly actions: AlarmActionConfig[] | undefined = undefined;
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CloudWatchConfig} / {@link AlarmSetConfig} / {@link AnomalyDetectionAlarmConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/AmazonCloudWatch/latest/monitoring/CloudWatch_Anomaly_Detection.html} | AWS CloudWatch anomaly detection alarm configuration.
+ * The alarm compares the metric to the band of expected values of its anomaly detection model.
+ *
+ * @example
+ * ```
+ * - alarmName: UnauthorizedApiCallsAnomaly
+ *   alarmDescription: Unusual number of unauthorized API calls
+ *   snsTopicName: Security
+ *   metricName: UnauthorizedAPICalls
+ *   namespace: LogMetrics
+ *   comparisonOperator: GreaterThanUpperThreshold
+ *   evaluationPeriods: 3
+ *   period: 300
+ *   statistic: Sum
+ *   bandWidth: 2
+ *   treatMissingData: notBreaching
+ * ```
+ */
+export class AnomalyDetectionAlarmConfig implements t.TypeOf<typeof SecurityConfigTypes.anomalyDetectionAlarmConfig> {
+  /**
+   * Name of the alarm
+   */
+  readonly alarmName: string = '';
+  /**
+   * Description for the alarm
+   */
+  readonly alarmDescription: string = '';
+  /**
+   * (OPTIONAL) SNS Topic Name from global config
+   */
+  readonly snsTopicName: string | undefined = undefined;
+  /**
+   * (OPTIONAL) Additional actions of the alarm
+   *
+   * @see {@link AlarmActionConfig}
+   */
+  readonly actions: AlarmActionConfig[] | undefined = undefined;
+  /**
+   * Name of the metric.
+   */
+  readonly metricName: string = '';
+  /**
+   * Namespace of the metric.
+   */
+  readonly namespace: string = '';
+  /**
+   * Comparison of the metric to the anomaly detection band
+   */
+  readonly comparisonOperator:
+    | 'LessThanLowerOrGreaterThanUpperThreshold'
+    | 'GreaterThanUpperThreshold'
+    | 'LessThanLowerThreshold' = 'LessThanLowerOrGreaterThanUpperThreshold';
+  /**
+   * The number of periods over which data is compared to the anomaly detection band.
+   */
+  readonly evaluationPeriods: number = 1;
+  /**
+   * The period over which the specified statistic is applied.
+   */
+  readonly period: number = 300;
+  /**
+   * What functions to use for aggregating.
+   */
+  readonly statistic: string = '';
+  /**
+   * (OPTIONAL) Width of the anomaly detection band in standard deviations, defaults to 2
+   */
+  readonly bandWidth: number | undefined = undefined;
+  /**
+   * Sets how this alarm is to handle missing data points.
+   */
+  readonly treatMissingData: string = '';
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CloudWatchConfig} / {@link AlarmSetConfig} / {@link MetricMathAlarmConfig} / {@link MetricMathAlarmMetricConfig}*
+ *
+ * AWS CloudWatch metric used in a metric math expression
+ *
+ * @example
+ * ```
+ * id: failures
+ * metricName: ConsoleSigninFailures
+ * namespace: LogMetrics
+ * statistic: Sum
+ * ```
+ */
+export class MetricMathAlarmMetricConfig implements t.TypeOf<typeof SecurityConfigTypes.metricMathAlarmMetricConfig> {
+  /**
+   * Identifier of the metric in the expression, must start with a lowercase letter
+   */
+  readonly id: string = '';
+  /**
+   * Name of the metric.
+   */
+  readonly metricName: string = '';
+  /**
+   * Namespace of the metric.
+   */
+  readonly namespace: string = '';
+  /**
+   * What functions to use for aggregating.
+   */
+  readonly statistic: string = '';
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CloudWatchConfig} / {@link AlarmSetConfig} / {@link MetricMathAlarmConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/AmazonCloudWatch/latest/monitoring/using-metric-math.html} | AWS CloudWatch metric math alarm configuration.
+ * The alarm compares the result of the expression to the threshold.
+ *
+ * @example
+ * ```
+ * - alarmName: ConsoleSigninFailureRate
+ *   alarmDescription: More than half of the console sign-in attempts fail
+ *   snsTopicName: Security
+ *   expression: 100 * failures / attempts
+ *   metrics:
+ *     - id: failures
+ *       metricName: ConsoleSigninFailures
+ *       namespace: LogMetrics
+ *       statistic: Sum
+ *     - id: attempts
+ *       metricName: ConsoleSignins
+ *       namespace: LogMetrics
+ *       statistic: Sum
+ *   comparisonOperator: GreaterThanThreshold
+ *   evaluationPeriods: 1
+ *   period: 300
+ *   threshold: 50
+ *   treatMissingData: notBreaching
+ * ```
+ */
+export class MetricMathAlarmConfig implements t.TypeOf<typeof SecurityConfigTypes.metricMathAlarmConfig> {
+  /**
+   * Name of the alarm
+   */
+  readonly alarmName: string = '';
+  /**
+   * Description for the alarm
+   */
+  readonly alarmDescription: string = '';
+  /**
+   * (OPTIONAL) SNS Topic Name from global config
+   */
+  readonly snsTopicName: string | undefined = undefined;
+  /**
+   * (OPTIONAL) Additional actions of the alarm
+   *
+   * @see {@link AlarmActionConfig}
+   */
+  readonly actions: AlarmActionConfig[] | undefined = undefined;
+  /**
+   * Metric math expression
+   */
+  readonly expression: string = '';
+  /**
+   * Metrics used in the expression
+   *
+   * @see {@link MetricMathAlarmMetricConfig}
+   */
+  readonly metrics: MetricMathAlarmMetricConfig[] = [];
+  /**
+   * Comparison to use to check if the expression is breaching
+   */
+  readonly comparisonOperator: string = '';
+  /**
+   * The number of periods over which data is compared to the specified threshold.
+   */
+  readonly evaluationPeriods: number = 1;
+  /**
+   * The period over which the expression is evaluated.
+   */
+  readonly period: number = 300;
+  /**
+   * The value against which the expression is compared.
+   */
+  readonly threshold: number = 1;
+  /**
+   * Sets how this alarm is to handle missing data points.
+   */
+  readonly treatMissingData: string = '';
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CloudWatchConfig} / {@link AlarmSetConfig} / {@link CompositeAlarmConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/AmazonCloudWatch/latest/monitoring/Create_Composite_Alarm.html} | AWS CloudWatch composite alarm configuration.
+ * The alarm rule references other alarms of the same alarm set by name.
+ *
+ * @example
+ * ```
+ * - alarmName: RootAccountCompromise
+ *   alarmDescription: Root account is used and its MFA is changed
+ *   alarmRule: ALARM("CIS-1.1-RootAccountUsage") AND ALARM("MfaDeviceChanges")
+ *   snsTopicName: Security
+ * ```
+ */
+export class CompositeAlarmConfig implements t.TypeOf<typeof SecurityConfigTypes.compositeAlarmConfig> {
+  /**
+   * Name of the alarm
+   */
+  readonly alarmName: string = '';
+  /**
+   * Description for the alarm
+   */
+  readonly alarmDescription: string = '';
+  /**
+   * Alarm rule expression, referencing alarms with ALARM("name"), OK("name") or INSUFFICIENT_DATA("name")
+   */
+  readonly alarmRule: string = '';
+  /**
+   * (OPTIONAL) SNS Topic Name from global config
+   */
+  readonly snsTopicName: string | undefined = undefined;
+  /**
+   * (OPTIONAL) Additional actions of the alarm
+   *
+   * @see {@link AlarmActionConfig}
+   */
+  readonly actions: AlarmActionConfig[] | undefined = undefined;
 }
 
 /**
@@ -2195,6 +4104,24 @@ export class AlarmSetConfig implements t.TypeOf<typeof SecurityConfigTypes.alarm
    * ```
    */
   readonly alarms: AlarmConfig[] = [];
+  /**
+   * (OPTIONAL) List of AWS CloudWatch anomaly detection alarms
+   *
+   * @see {@link AnomalyDetectionAlarmConfig}
+   */
+  readonly anomalyDetectionAlarms: AnomalyDetectionAlarmConfig[] | undefined = undefined;
+  /**
+   * (OPTIONAL) List of AWS CloudWatch metric math alarms
+   *
+   * @see {@link MetricMathAlarmConfig}
+   */
+  readonly metricMathAlarms: MetricMathAlarmConfig[] | undefined = undefined;
+  /**
+   * (OPTIONAL) List of AWS CloudWatch composite alarms
+   *
+   * @see {@link CompositeAlarmConfig}
+   */
+  readonly compositeAlarms: CompositeAlarmConfig[] | undefined = undefined;
 }
 
 /**
@@ -2360,6 +4287,155 @@ export class LogGroupsConfig implements t.TypeOf<typeof SecurityConfigTypes.logG
   readonly terminationProtected: boolean | undefined = undefined;
 }
 
+/**
+ * *{@link SecurityConfig} / {@link CloudWatchConfig} / {@link DashboardConfig} / {@link DashboardWidgetConfig}*
+ *
+ * AWS CloudWatch dashboard widget configuration.
+ * Metric widgets graph metrics of the metricSets by metric name, alarm widgets show the state of alarms of the alarmSets
+ * by alarm name and text widgets show markdown.
+ *
+ * @example
+ * ```
+ * - type: metric
+ *   title: Root account usage
+ *   metrics:
+ *     - RootAccountUsage
+ *   statistic: Sum
+ *   period: 300
+ *   width: 12
+ * - type: alarm
+ *   title: CIS alarms
+ *   alarms:
+ *     - CIS-1.1-RootAccountUsage
+ * ```
+ */
+export class DashboardWidgetConfig implements t.TypeOf<typeof SecurityConfigTypes.dashboardWidgetConfig> {
+  /**
+   * Type of the widget, metric, alarm or text
+   */
+  readonly type: 'metric' | 'alarm' | 'text' = 'metric';
+  /**
+   * (OPTIONAL) Title of the widget
+   */
+  readonly title: string | undefined = undefined;
+  /**
+   * (OPTIONAL) Width of the widget in grid units, from 1 to 24
+   */
+  readonly width: number | undefined = undefined;
+  /**
+   * (OPTIONAL) Height of the widget in grid units
+   */
+  readonly height: number | undefined = undefined;
+  /**
+   * (OPTIONAL) Metric names of the metricSets graphed by a metric widget
+   */
+  readonly metrics: string[] | undefined = undefined;
+  /**
+   * (OPTIONAL) Statistic of the metrics of a metric widget, defaults to Sum
+   */
+  readonly statistic: string | undefined = undefined;
+  /**
+   * (OPTIONAL) Period of the metrics of a metric widget in seconds, defaults to 300
+   */
+  readonly period: number | undefined = undefined;
+  /**
+   * (OPTIONAL) Alarm names of the alarmSets shown by an alarm widget
+   */
+  readonly alarms: string[] | undefined = undefined;
+  /**
+   * (OPTIONAL) Markdown of a text widget
+   */
+  readonly markdown: string | undefined = undefined;
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CloudWatchConfig} / {@link DashboardConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/AmazonCloudWatch/latest/monitoring/CloudWatch_Dashboards.html} | AWS CloudWatch dashboard configuration.
+ * Use this configuration to deploy a dashboard to the deployment target accounts.
+ *
+ * @example
+ * ```
+ * - dashboardName: SecurityEvents
+ *   deploymentTargets:
+ *     organizationalUnits:
+ *       - Root
+ *   widgets:
+ *     - type: text
+ *       markdown: '# Security events'
+ *       width: 24
+ *       height: 1
+ *     - type: metric
+ *       title: Root account usage
+ *       metrics:
+ *         - RootAccountUsage
+ * ```
+ */
+export class DashboardConfig implements t.TypeOf<typeof SecurityConfigTypes.dashboardConfig> {
+  /**
+   * Name of the dashboard
+   */
+  readonly dashboardName: string = '';
+  /**
+   * (OPTIONAL) Region the dashboard is deployed to, defaults to the home region
+   */
+  readonly region: t.Region | undefined = undefined;
+  /**
+   * Deployment targets for the dashboard
+   */
+  readonly deploymentTargets: t.DeploymentTargets = new t.DeploymentTargets();
+  /**
+   * Widgets of the dashboard, laid out from left to right and top to bottom
+   *
+   * @see {@link DashboardWidgetConfig}
+   */
+  readonly widgets: DashboardWidgetConfig[] = [];
+}
+
+/**
+ * *{@link SecurityConfig} / {@link CloudWatchConfig} / {@link ObservabilityConfig}*
+ *
+ * {@link https://docs.aws.amazon.com/AmazonCloudWatch/latest/monitoring/CloudWatch-Unified-Cross-Account.html} | CloudWatch cross-account observability configuration.
+ * Use this configuration to create a CloudWatch Observability Access Manager sink in a monitoring account
+ * and link the deployment target accounts to it, so their telemetry can be viewed from the monitoring account.
+ *
+ * @example
+ * ```
+ * observability:
+ *   sinkAccount: Audit
+ *   sinkName: accelerator-monitoring
+ *   resourceTypes:
+ *     - metrics
+ *     - logs
+ *   deploymentTargets:
+ *     organizationalUnits:
+ *       - Root
+ *   excludeRegions: []
+ * ```
+ */
+export class ObservabilityConfig implements t.TypeOf<typeof SecurityConfigTypes.observabilityConfig> {
+  /**
+   * Name of the monitoring account the sink is created in, the account is never linked to itself
+   */
+  readonly sinkAccount: string = '';
+  /**
+   * Name of the sink
+   */
+  readonly sinkName: string = '';
+  /**
+   * Telemetry shared with the monitoring account: metrics, logs and/or traces
+   */
+  readonly resourceTypes: t.TypeOf<typeof SecurityConfigTypes.observabilityResourceTypeEnum>[] = [];
+  /**
+   * Source accounts linked to the sink
+   */
+  readonly deploymentTargets: t.DeploymentTargets = new t.DeploymentTargets();
+  /**
+   * (OPTIONAL) Regions the sink and links are not created in
+   */
+  readonly excludeRegions: t.Region[] | undefined = undefined;
+}
+
 /**
  * *{@link SecurityConfig} / {@link CloudWatchConfig}*
  *
@@ -2480,6 +4556,18 @@ export class CloudWatchConfig implements t.TypeOf<typeof SecurityConfigTypes.clo
    * ```
    */
   readonly logGroups: LogGroupsConfig[] | undefined = undefined;
+  /**
+   * (OPTIONAL) List of AWS CloudWatch dashboards
+   *
+   * @see {@link DashboardConfig}
+   */
+  readonly dashboards: DashboardConfig[] | undefined = undefined;
+  /**
+   * (OPTIONAL) CloudWatch cross-account observability configuration
+   *
+   * @see {@link ObservabilityConfig}
+   */
+  readonly observability: ObservabilityConfig | undefined = undefined;
 }
 
 /**
@@ -2500,6 +4588,10 @@ export class SecurityConfig implements t.TypeOf<typeof SecurityConfigTypes.secur
   readonly awsConfig: AwsConfig = new AwsConfig();
   readonly cloudWatch: CloudWatchConfig = new CloudWatchConfig();
   readonly keyManagementService: KeyManagementServiceConfig = new KeyManagementServiceConfig();
+  /**
+   * Customer managed S3 bucket configuration
+   */
+  readonly s3Buckets: S3BucketConfig[] | undefined = undefined;
 
   /**
    *
@@ -2520,15 +4612,23 @@ export class SecurityConfig implements t.TypeOf<typeof SecurityConfigTypes.secur
     return this.centralSecurityServices.delegatedAdminAccount;
   }
 
+  /**
+   * Return the Security Lake delegated admin account name
+   */
+  public getSecurityLakeDelegatedAccountName(): string {
+    return this.centralSecurityServices.securityLake?.delegatedAdminAccount ?? AccountsConfig.LOG_ARCHIVE_ACCOUNT;
+  }
+
   /**
    *
    * @param dir
+   * @param replacementsConfig
    * @param validateConfig
    * @returns
    */
-  static load(dir: string): SecurityConfig {
-    const buffer = fs.readFileSync(path.join(dir, SecurityConfig.FILENAME), 'utf8');
-    const values = t.parse(SecurityConfigTypes.securityConfig, yaml.load(buffer));
+  static load(dir: string, replacementsConfig?: ReplacementsConfig): SecurityConfig {
+    const includes = ConfigIncludes.load(dir, SecurityConfig.FILENAME, replacementsConfig);
+    const values = t.parse(SecurityConfigTypes.securityConfig, includes.values, includes);
     return new SecurityConfig(values);
   }
 
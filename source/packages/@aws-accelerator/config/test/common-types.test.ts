@@ -11,7 +11,8 @@
  *  and limitations under the License.
  */
 
-import { parse } from '../lib/common-types';
+import * as t from '../lib/common-types';
+import { ConfigValidationError, ipv6Cidr, JsonSchemaGenerator, parse, YamlSourceMap } from '../lib/common-types';
 import { describe, it, expect } from '@jest/globals';
 import { OrganizationConfigTypes } from '../lib/organization-config';
 import * as fs from 'fs';
@@ -43,3 +44,105 @@ describe('parse method', () => {
     });
   });
 });
+
+describe('ipv6Cidr type', () => {
+  it('should decode a valid IPv6 CIDR', () => {
+    expect(ipv6Cidr.decode('2001:db8::/56')._tag).toEqual('Right');
+  });
+  it('should keep the decoded CIDR as a string', () => {
+    expect(ipv6Cidr.is('2001:db8::/56')).toBe(true);
+    const r = ipv6Cidr.decode('2001:db8::/56');
+    expect(r._tag === 'Right' && r.right).toEqual('2001:db8::/56');
+  });
+  it('should not decode an IPv4 CIDR', () => {
+    expect(ipv6Cidr.decode('10.0.0.0/16')._tag).toEqual('Left');
+  });
+});
+
+describe('JsonSchemaGenerator', () => {
+  const colorEnum = t.enums('Color', ['red', 'green']);
+  const itemConfig = t.interface({
+    name: t.nonEmptyString,
+    color: t.optional(colorEnum),
+    count: t.defaulted(t.number, 1),
+  });
+  const rootConfig = t.interface({
+    items: t.array(itemConfig),
+    cidr: t.optional(t.cidr),
+  });
+  const generator = new JsonSchemaGenerator({
+    namedTypes: JsonSchemaGenerator.collectNamedTypes({ colorEnum, itemConfig }, 'TestTypes'),
+    descriptions: { 'TestTypes.itemConfig': { description: 'An item', properties: { name: 'The item name' } } },
+  });
+  const schema = generator.generate(rootConfig, 'test.yaml');
+
+  it('should emit named types as definitions', () => {
+    expect(schema['properties']['items']).toStrictEqual({
+      type: 'array',
+      items: { $ref: '#/definitions/TestTypes.itemConfig' },
+    });
+    expect(schema['definitions']['TestTypes.colorEnum']).toStrictEqual({ enum: ['red', 'green'] });
+  });
+
+  it('should map custom types and descriptions', () => {
+    const item = schema['definitions']['TestTypes.itemConfig'];
+    expect(item['description']).toEqual('An item');
+    expect(item['required']).toStrictEqual(['name']);
+    expect(item['properties']['name']).toStrictEqual({ description: 'The item name', type: 'string', minLength: 1 });
+    expect(item['properties']['count']).toStrictEqual({ type: 'number', default: 1 });
+    expect(schema['required']).toStrictEqual(['items']);
+    expect(schema['properties']['cidr']['type']).toEqual('string');
+  });
+});
+
+describe('YamlSourceMap', () => {
+  const content = `vpcs:
+  - name: Network-Endpoints
+    account: Network
+    cidrs:
+      - 10.0.0.0/22
+    routeTables:
+      - name: Endpoints-Tgw
+        routes: []
+`;
+  const sourceMap = new YamlSourceMap('network-config.yaml', content);
+  const vpcType = t.interface({
+    vpcs: t.array(t.interface({ name: t.nonEmptyString, account: t.nonEmptyString, cidrs: t.array(t.cidr) })),
+  });
+
+  it('should locate value paths', () => {
+    expect(sourceMap.getLocation('vpcs/0/cidrs/0')).toStrictEqual({
+      file: 'network-config.yaml',
+      path: 'vpcs/0/cidrs/0',
+      line: 5,
+      column: 9,
+      snippet: '      - 10.0.0.0/22',
+    });
+    expect(sourceMap.getLocation('vpcs/0/missing')?.line).toEqual(2);
+  });
+
+  it('should locate schema errors', () => {
+    let error: unknown;
+    try {
+      parse(vpcType, { vpcs: [{ name: 'Network-Endpoints', account: 'Network', cidrs: ['10.0.0.0'] }] }, sourceMap);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    const detail = (error as ConfigValidationError).errors[0];
+    expect([detail.file, detail.path, detail.line]).toStrictEqual(['network-config.yaml', 'vpcs/0/cidrs/0', 5]);
+    expect((error as ConfigValidationError).message).toContain('(network-config.yaml:5:9)');
+  });
+
+  it('should locate semantic errors by name', () => {
+    expect(
+      sourceMap.findLocation('[Route table Endpoints-Tgw for VPC Network-Endpoints]: route entry is invalid')?.line,
+    ).toEqual(7);
+    expect(
+      sourceMap.findLocation(
+        'VPC "Network-Endpoints" account name "Network" does not exist in accounts-config.yaml file',
+      )?.path,
+    ).toEqual('vpcs/0/account');
+    expect(sourceMap.findLocation('Duplicate VPC names exist')).toBeUndefined();
+  });
+});
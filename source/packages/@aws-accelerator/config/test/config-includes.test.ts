@@ -0,0 +1,116 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as t from '../lib/common-types';
+import { ConfigIncludes } from '../lib/config-includes';
+import { IamConfig } from '../lib/iam-config';
+
+function createConfigDir(files: { [file: string]: string }): string {
+  const configDirPath = fs.mkdtempSync(path.join(os.tmpdir(), 'accel-includes'));
+  for (const [file, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(configDirPath, file)), { recursive: true });
+    fs.writeFileSync(path.join(configDirPath, file), content, 'utf8');
+  }
+  return configDirPath;
+}
+
+const iamConfig = `providers: []
+policySets: []
+roleSets:
+  - deploymentTargets:
+      organizationalUnits: [Root]
+    roles:
+      - name: Base-Role
+        assumedBy: []
+groupSets: []
+userSets: []
+`;
+
+function roleSet(roleName: string): string {
+  return `roleSets:\n  - deploymentTargets: {}\n    roles:\n      - name: ${roleName}\n        assumedBy: []\n`;
+}
+
+describe('ConfigIncludes', () => {
+  it('returns the configuration file when no include files exist', () => {
+    const configDirPath = createConfigDir({ 'iam-config.yaml': iamConfig });
+    const includes = ConfigIncludes.load(configDirPath, IamConfig.FILENAME);
+    expect(includes.hasIncludes).toBe(false);
+    expect(includes.toString()).toEqual(iamConfig);
+  });
+
+  it('merges include files in file name order', () => {
+    const configDirPath = createConfigDir({
+      'iam-config.yaml': iamConfig,
+      'iam-config.d/20-ops.yaml': roleSet('Ops-Role'),
+      'iam-config.d/10-dev.yml': roleSet('Dev-Role'),
+      'iam-config.d/notes.txt': 'ignored',
+    });
+    expect(ConfigIncludes.getIncludeFiles(configDirPath, IamConfig.FILENAME)).toStrictEqual([
+      'iam-config.d/10-dev.yml',
+      'iam-config.d/20-ops.yaml',
+    ]);
+
+    const iam = IamConfig.load(configDirPath);
+    expect(iam.roleSets.map(roleSet => roleSet.roles[0].name)).toStrictEqual(['Base-Role', 'Dev-Role', 'Ops-Role']);
+  });
+
+  it('throws on duplicate names and conflicting values', () => {
+    const configDirPath = createConfigDir({
+      'network-config.yaml': 'defaultVpc:\n  delete: true\nvpcs:\n  - name: Shared\n',
+      'network-config.d/vpcs.yaml': 'defaultVpc:\n  delete: false\nvpcs:\n  - name: Shared\n  - name: Workload\n',
+    });
+    expect(() => ConfigIncludes.load(configDirPath, 'network-config.yaml')).toThrow(
+      new t.ConfigValidationError(
+        'network-config.yaml has 2 issues:\n' +
+          'Conflicting values for defaultVpc/delete defined in network-config.yaml and network-config.d/vpcs.yaml\n' +
+          'Duplicate name "Shared" in vpcs defined in network-config.yaml and network-config.d/vpcs.yaml',
+        'network-config.yaml',
+        [],
+      ),
+    );
+  });
+
+  it('throws on duplicate names within an include file', () => {
+    const configDirPath = createConfigDir({
+      'network-config.yaml': 'vpcs:\n  - name: Shared\n',
+      'network-config.d/vpcs.yaml': 'vpcs:\n  - name: Workload\n  - name: Workload\n',
+    });
+    expect(() => ConfigIncludes.load(configDirPath, 'network-config.yaml')).toThrow(
+      'Duplicate name "Workload" in vpcs defined in network-config.d/vpcs.yaml and network-config.d/vpcs.yaml',
+    );
+  });
+
+  it('locates errors in the include file the value was merged from', () => {
+    const configDirPath = createConfigDir({
+      'iam-config.yaml': iamConfig,
+      'iam-config.d/ops.yaml': 'roleSets:\n  - deploymentTargets: {}\n    roles:\n      - name: Ops-Role\n',
+    });
+    let error: unknown;
+    try {
+      IamConfig.load(configDirPath);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(t.ConfigValidationError);
+    const detail = (error as t.ConfigValidationError).errors[0];
+    expect([detail.file, detail.path, detail.line]).toStrictEqual([
+      'iam-config.d/ops.yaml',
+      'roleSets/1/roles/0/assumedBy',
+      4,
+    ]);
+  });
+});
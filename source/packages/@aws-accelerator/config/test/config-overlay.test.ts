@@ -0,0 +1,162 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as t from '../lib/common-types';
+import { ConfigOverlay } from '../lib/config-overlay';
+import { IamConfig } from '../lib/iam-config';
+
+function createConfigDir(files: { [file: string]: string }): string {
+  const configDirPath = fs.mkdtempSync(path.join(os.tmpdir(), 'accel-overlay'));
+  for (const [file, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(configDirPath, file)), { recursive: true });
+    fs.writeFileSync(path.join(configDirPath, file), content, 'utf8');
+  }
+  return configDirPath;
+}
+
+const iamConfig = `providers: []
+policySets:
+  - deploymentTargets:
+      organizationalUnits: [Root]
+    policies:
+      - name: Base-Policy
+        policy: iam-policies/base.json
+roleSets:
+  - deploymentTargets:
+      organizationalUnits: [Root]
+    roles:
+      - name: Base-Role
+        assumedBy: []
+groupSets: []
+userSets: []
+`;
+
+describe('ConfigOverlay', () => {
+  it('merges objects by key and arrays by name', () => {
+    const base = {
+      homeRegion: 'us-east-1',
+      logging: { cloudtrail: { enable: true }, sessionManager: { sendToS3: true } },
+      enabledRegions: ['us-east-1', 'us-west-2'],
+      vpcs: [
+        { name: 'Shared', cidrs: ['10.0.0.0/16'], subnets: [{ name: 'A', ipv4CidrBlock: '10.0.0.0/24' }] },
+        { name: 'Sandbox', cidrs: ['10.1.0.0/16'] },
+      ],
+    };
+    const overlay = {
+      logging: { cloudtrail: { enable: false }, sessionManager: null },
+      enabledRegions: ['us-east-1'],
+      vpcs: [
+        { name: 'Shared', cidrs: ['10.100.0.0/16'], subnets: [{ name: 'B', ipv4CidrBlock: '10.100.1.0/24' }] },
+        { name: 'Sandbox', $delete: true },
+        { name: 'Test', cidrs: ['10.2.0.0/16'] },
+      ],
+    };
+
+    expect(ConfigOverlay.merge(base, overlay)).toStrictEqual({
+      homeRegion: 'us-east-1',
+      logging: { cloudtrail: { enable: false } },
+      enabledRegions: ['us-east-1'],
+      vpcs: [
+        {
+          name: 'Shared',
+          cidrs: ['10.100.0.0/16'],
+          subnets: [
+            { name: 'A', ipv4CidrBlock: '10.0.0.0/24' },
+            { name: 'B', ipv4CidrBlock: '10.100.1.0/24' },
+          ],
+        },
+        { name: 'Test', cidrs: ['10.2.0.0/16'] },
+      ],
+    });
+    expect(base.vpcs.length).toEqual(2);
+  });
+
+  it('writes the merged configuration of an environment', () => {
+    const configDirPath = createConfigDir({
+      'replacements-config.yaml':
+        'globalReplacements:\n  - key: RoleName\n    value: Dev-Role\n    environments:\n      - name: prod\n        value: Prod-Role\n',
+      'iam-config.yaml': iamConfig,
+      'iam-config.d/ops.yaml':
+        'roleSets:\n  - deploymentTargets: {}\n    roles:\n      - name: Ops-{{ RoleName }}\n        assumedBy: []\n',
+      'iam-policies/base.json': '{"Version": "2012-10-17"}',
+      'environments/prod/iam-config.yaml':
+        'roleSets:\n  - deploymentTargets: {}\n    roles:\n      - name: "{{ RoleName }}"\n        assumedBy: []\n',
+      'environments/prod/iam-policies/base.json': '{"Version": "2012-10-17", "Statement": []}',
+      'environments/test/iam-config.yaml': 'userSets: null\n',
+    });
+    expect(ConfigOverlay.getEnvironments(configDirPath)).toStrictEqual(['prod', 'test']);
+
+    const effectiveDirPath = ConfigOverlay.resolve(configDirPath, 'prod');
+    expect(effectiveDirPath).not.toEqual(configDirPath);
+    expect(fs.existsSync(path.join(effectiveDirPath, ConfigOverlay.ENVIRONMENTS_DIR))).toBe(false);
+    expect(fs.readFileSync(path.join(effectiveDirPath, 'iam-policies/base.json'), 'utf8')).toContain('Statement');
+
+    const iam = IamConfig.load(effectiveDirPath);
+    expect(iam.roleSets.map(roleSet => roleSet.roles[0].name)).toStrictEqual([
+      'Base-Role',
+      'Prod-Role',
+      'Ops-Prod-Role',
+    ]);
+    expect(iam.policySets[0].policies[0].name).toEqual('Base-Policy');
+  });
+
+  it('locates errors in the base and overlay files of an environment', () => {
+    const configDirPath = createConfigDir({
+      'iam-config.yaml': iamConfig,
+      'environments/prod/iam-config.yaml':
+        'roleSets:\n  - deploymentTargets: {}\n    roles:\n      - name: Prod-Role\n',
+      'network-config.yaml':
+        'vpcs:\n  - name: Shared\n    cidrs: [10.0.0.0/16]\n  - name: Sandbox\n    cidrs: [10.1.0.0/16]\n',
+      'environments/prod/network-config.yaml':
+        'vpcs:\n  - name: Sandbox\n    $delete: true\n  - name: Shared\n    region: us-west-2\n  - name: Test\n    cidrs: [10.2.0.0/16]\n',
+    });
+
+    let error: unknown;
+    try {
+      IamConfig.load(ConfigOverlay.resolve(configDirPath, 'prod'));
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(t.ConfigValidationError);
+    const iamSourceMap = ConfigOverlay.getSourceMap(configDirPath, 'prod', 'iam-config.yaml');
+    const detail = iamSourceMap.locate((error as t.ConfigValidationError).errors[0]);
+    expect([detail.file, detail.path, detail.line]).toStrictEqual([
+      'environments/prod/iam-config.yaml',
+      'roleSets/1/roles/0/assumedBy',
+      4,
+    ]);
+    expect(iamSourceMap.locate({ message: 'Invalid policy', path: 'policySets/0/policies/0/policy' }).line).toEqual(7);
+
+    const networkSourceMap = ConfigOverlay.getSourceMap(configDirPath, 'prod', 'network-config.yaml');
+    const locate = (valuePath: string) => {
+      const location = networkSourceMap.locate({ message: 'Invalid value', path: valuePath });
+      return `${location.file}:${location.line}`;
+    };
+    expect(locate('vpcs/0/cidrs/0')).toEqual('network-config.yaml:3');
+    expect(locate('vpcs/0/region')).toEqual('environments/prod/network-config.yaml:5');
+    expect(locate('vpcs/0/subnets')).toEqual('environments/prod/network-config.yaml:4');
+    expect(locate('vpcs/1/cidrs')).toEqual('environments/prod/network-config.yaml:7');
+  });
+
+  it('throws when the environment has no overlay', () => {
+    const configDirPath = createConfigDir({ 'iam-config.yaml': iamConfig });
+    expect(ConfigOverlay.getEnvironments(configDirPath)).toStrictEqual([]);
+    expect(ConfigOverlay.resolve(configDirPath)).toEqual(configDirPath);
+    expect(() => ConfigOverlay.resolve(configDirPath, 'prod')).toThrow('Environment overlay directory');
+    expect(() => ConfigOverlay.apply(configDirPath, 'prod', os.tmpdir())).toThrow('Environment overlay directory');
+  });
+});
@@ -18,6 +18,7 @@ import {
   CostAndUsageReportConfig,
   BudgetReportConfig,
   ServiceQuotaLimitsConfig,
+  BackupPlanConfig,
 } from '../lib/global-config';
 import { describe, it, expect } from '@jest/globals';
 import * as path from 'path';
@@ -109,5 +110,19 @@ describe('GlobalConfig', () => {
         organizationalUnits: [],
       });
     });
+
+    it('tests BackupPlanConfig', () => {
+      const backupPlanConfig = new BackupPlanConfig();
+      expect(backupPlanConfig.name).toEqual('');
+      expect(backupPlanConfig.vault).toEqual('');
+      expect(backupPlanConfig.rules).toStrictEqual([]);
+      expect(backupPlanConfig.selections).toBe(undefined);
+
+      const globalConfig = GlobalConfig.load(path.resolve('../accelerator/test/configs/all-enabled'));
+      const backupPlan = globalConfig.backup?.backupPlans?.[0];
+      expect(globalConfig.backup?.vaults[0].lock?.mode).toEqual('governance');
+      expect(backupPlan?.rules[0].copyActions?.[0].account).toEqual('LogArchive');
+      expect(backupPlan?.selections?.[0].tags).toStrictEqual([{ key: 'backup', value: 'daily' }]);
+    });
   });
 });
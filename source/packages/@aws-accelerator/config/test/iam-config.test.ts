@@ -86,6 +86,31 @@ describe('IamConfig', () => {
     });
   });
 
+  it('loads identity center permission sets', () => {
+    const iamConfigFromFile = IamConfig.load(path.resolve('../accelerator/test/configs/all-enabled'));
+    const permissionSet = iamConfigFromFile.identityCenter?.identityCenterPermissionSets.find(
+      item => item.name === 'PermissionSet2',
+    );
+    expect(permissionSet?.customerManagedPolicyReferences).toStrictEqual([
+      { name: 'ResourceConfigurationCollectorPolicy', path: '/' },
+    ]);
+    expect(permissionSet?.inlinePolicy).toBe('iam-policies/sso-inline-policy.json');
+    expect(permissionSet?.permissionsBoundary?.customerManagedPolicy?.name).toBe('Default-Boundary-Policy');
+    expect(permissionSet?.relayState).toBe('https://console.aws.amazon.com/cloudwatch/home');
+  });
+
+  it('loads identity center assignments by principal name', () => {
+    const iamConfigFromFile = IamConfig.load(path.resolve('../accelerator/test/configs/all-enabled'));
+    const assignment = iamConfigFromFile.identityCenter?.identityCenterAssignments?.find(
+      item => item.name === 'Assignment4',
+    );
+    expect(assignment?.principalId).toBe(undefined);
+    expect(assignment?.principalName).toBe('breakGlassUser01');
+    const [assignmentMatrix] = iamConfigFromFile.identityCenter?.identityCenterAssignmentMatrices ?? [];
+    expect(assignmentMatrix.groupNames).toStrictEqual(['Administrators', 'Auditors']);
+    expect(assignmentMatrix.permissionSetNames).toStrictEqual(['PermissionSet1']);
+  });
+
   it('loads from string', () => {
     const buffer = fs.readFileSync(path.join('../accelerator/test/configs/all-enabled', IamConfig.FILENAME), 'utf8');
     const iamConfigFromString = IamConfig.loadFromString(buffer);
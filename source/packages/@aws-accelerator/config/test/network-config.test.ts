@@ -46,6 +46,12 @@ import {
   ResolverEndpointConfig,
   ResolverRuleConfig,
   VpcTemplatesConfig,
+  VpcIpv6Config,
+  PrivateHostedZoneConfig,
+  PrivateHostedZoneRecordConfig,
+  TransitGatewayConnectConfig,
+  TransitGatewayConnectPeerConfig,
+  TransitGatewayMulticastDomainConfig,
 } from '../lib/network-config';
 
 import { VpcFlowLogsConfig } from '../lib/common-types/types';
@@ -187,6 +193,67 @@ describe('NetworkConfig', () => {
 
       const vpcTemplatesConfig = new VpcTemplatesConfig();
       expect(vpcTemplatesConfig.name).toEqual('');
+
+      const vpcIpv6Config = new VpcIpv6Config();
+      expect(vpcIpv6Config.amazonProvided).toEqual(undefined);
+
+      const privateHostedZoneConfig = new PrivateHostedZoneConfig();
+      expect(privateHostedZoneConfig.name).toEqual('');
+
+      const privateHostedZoneRecordConfig = new PrivateHostedZoneRecordConfig();
+      expect(privateHostedZoneRecordConfig.type).toEqual('A');
+
+      const transitGatewayConnectConfig = new TransitGatewayConnectConfig();
+      expect(transitGatewayConnectConfig.peers).toEqual(undefined);
+
+      const transitGatewayConnectPeerConfig = new TransitGatewayConnectPeerConfig();
+      expect(transitGatewayConnectPeerConfig.insideCidrBlocks).toEqual([]);
+
+      const transitGatewayMulticastDomainConfig = new TransitGatewayMulticastDomainConfig();
+      expect(transitGatewayMulticastDomainConfig.associations).toEqual(undefined);
+    });
+
+    it('loads private hosted zones', () => {
+      const networkConfig = NetworkConfig.load(path.resolve('../accelerator/test/configs/all-enabled'));
+      const vpc = networkConfig.vpcs.find(item => item.name === 'Network-Endpoints');
+      const [zone] = vpc?.privateHostedZones ?? [];
+      expect(zone.associatedVpcs).toStrictEqual(['Network-Inspection', 'SharedServices-Main']);
+      expect(zone.records?.map(item => [item.type, item.loadBalancer ?? item.values])).toStrictEqual([
+        ['A', 'appA-alb-01'],
+        ['A', 'appA-nlb-01'],
+        ['CNAME', ['db.cluster-abcdefghijkl.us-east-1.rds.amazonaws.com']],
+      ]);
+    });
+
+    it('loads transit gateway connects', () => {
+      const networkConfig = NetworkConfig.load(path.resolve('../accelerator/test/configs/all-enabled'));
+      const tgw = networkConfig.transitGateways.find(item => item.name === 'Network-Main');
+      const [connect] = tgw?.connects ?? [];
+      expect(tgw?.transitGatewayCidrBlocks).toStrictEqual(['192.168.250.0/24']);
+      expect(connect.transportAttachment).toStrictEqual({ account: 'Network', vpcName: 'Network-Endpoints' });
+      expect(connect.peers?.map(item => [item.bgpAsn, item.insideCidrBlocks])).toStrictEqual([
+        [65100, ['169.254.100.0/29']],
+      ]);
+    });
+
+    it('loads VPC name route destinations', () => {
+      const networkConfig = NetworkConfig.load(path.resolve('../accelerator/test/configs/all-enabled'));
+      const vpc = networkConfig.vpcs.find(item => item.name === 'Network-Endpoints');
+      const routeTable = vpc?.routeTables?.find(item => item.name === 'Network-Endpoints-Tgw-A');
+      expect(routeTable?.routes?.map(item => item.destination)).toStrictEqual([
+        'SharedServices-Main',
+        'Network-Secondary',
+      ]);
+    });
+
+    it('loads transit gateway multicast domains', () => {
+      const networkConfig = NetworkConfig.load(path.resolve('../accelerator/test/configs/all-enabled'));
+      const tgw = networkConfig.transitGateways.find(item => item.name === 'Network-Main');
+      const [domain] = tgw?.multicastDomains ?? [];
+      expect(tgw?.multicastSupport).toBe('enable');
+      expect(domain.staticSourcesSupport).toBe('enable');
+      expect(domain.associations?.[0].subnets).toStrictEqual(['Network-EndpointsTgwAttach-A']);
+      expect(domain.groupMembers?.[0].networkInterfaceIds).toStrictEqual(['eni-0123456789abcdef0']);
     });
   });
 });
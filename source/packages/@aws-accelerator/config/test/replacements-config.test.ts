@@ -0,0 +1,94 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AccountsConfig } from '../lib/accounts-config';
+import * as t from '../lib/common-types';
+import { ReplacementsConfig, ReplacementsConfigTypes } from '../lib/replacements-config';
+
+const replacementsConfigObject = {
+  globalReplacements: [
+    { key: 'OrgDomain', type: 'String', value: 'example.com' },
+    { key: 'CorpCidrs', type: 'StringList', value: ['10.0.0.0/8', '172.16.0.0/12'] },
+    {
+      key: 'LogArchiveOu',
+      value: 'Security',
+      environments: [{ name: 'prod', value: 'SecurityProd' }],
+    },
+  ],
+};
+
+function createReplacementsConfig(values: unknown, environment?: string): ReplacementsConfig {
+  return new ReplacementsConfig(t.parse(ReplacementsConfigTypes.replacementsConfig, values), environment);
+}
+
+describe('ReplacementsConfig', () => {
+  it('returns an empty configuration when the file does not exist', () => {
+    const replacementsConfig = ReplacementsConfig.load(path.resolve('../accelerator/test/configs/all-enabled'));
+    expect(replacementsConfig.globalReplacements).toStrictEqual([]);
+    expect(replacementsConfig.preProcessBuffer('name: {{ Unknown }}')).toEqual('name: {{ Unknown }}');
+  });
+
+  it('expands string and list replacements', () => {
+    const replacementsConfig = createReplacementsConfig(replacementsConfigObject);
+    expect(replacementsConfig.preProcessBuffer('email: audit@{{ OrgDomain }}')).toEqual('email: audit@example.com');
+    expect(replacementsConfig.preProcessBuffer('cidrs: {{CorpCidrs}}')).toEqual(
+      'cidrs: ["10.0.0.0/8","172.16.0.0/12"]',
+    );
+    expect(replacementsConfig.preProcessBuffer('ou: {{ LogArchiveOu }}')).toEqual('ou: Security');
+  });
+
+  it('selects per-environment values', () => {
+    const replacementsConfig = createReplacementsConfig(replacementsConfigObject, 'prod');
+    expect(replacementsConfig.getReplacementValue('LogArchiveOu')).toEqual('SecurityProd');
+    expect(replacementsConfig.getReplacementValue('OrgDomain')).toEqual('example.com');
+  });
+
+  it('throws on undefined replacements', () => {
+    const replacementsConfig = createReplacementsConfig(replacementsConfigObject);
+    expect(() => replacementsConfig.preProcessBuffer('name: {{ Unknown }}')).toThrow();
+  });
+
+  it('throws on invalid replacements', () => {
+    expect(() =>
+      createReplacementsConfig({ globalReplacements: [{ key: 'Cidrs', type: 'StringList', value: '10.0.0.0/8' }] }),
+    ).toThrow();
+    expect(() =>
+      createReplacementsConfig({
+        globalReplacements: [
+          { key: 'OrgDomain', value: 'example.com' },
+          { key: 'OrgDomain', value: 'example.org' },
+        ],
+      }),
+    ).toThrow();
+  });
+
+  it('expands replacements before parsing config files', () => {
+    const tempDirPath = fs.mkdtempSync(path.join(os.tmpdir(), 'accel-config'));
+    const accountsConfig = fs
+      .readFileSync(path.resolve('../accelerator/test/configs/all-enabled', AccountsConfig.FILENAME), 'utf8')
+      .replace(/@example\.com/g, '@{{ OrgDomain }}');
+    fs.writeFileSync(path.join(tempDirPath, AccountsConfig.FILENAME), accountsConfig, 'utf8');
+    fs.writeFileSync(
+      path.join(tempDirPath, ReplacementsConfig.FILENAME),
+      'globalReplacements:\n  - key: OrgDomain\n    type: String\n    value: example.org\n',
+      'utf8',
+    );
+
+    const loadedConfig = AccountsConfig.load(tempDirPath, ReplacementsConfig.load(tempDirPath));
+    expect(loadedConfig.getManagementAccount().email.endsWith('@example.org')).toBe(true);
+  });
+});
@@ -32,5 +32,86 @@ describe('SecurityConfig', () => {
 
       expect(securityConfigFromFile.getDelegatedAccountName()).toBe('Audit');
     });
+
+    it('loads conformance packs', () => {
+      const [accountPack, organizationPack] = securityConfigFromFile.awsConfig.conformancePacks ?? [];
+      expect(accountPack.inputParameters).toStrictEqual({ IamPasswordPolicyParamMaxPasswordAge: '90' });
+      expect(accountPack.organization).toBe(undefined);
+      expect(organizationPack.organization?.excludedAccounts).toStrictEqual(['Management']);
+    });
+
+    it('loads guardduty protection plans', () => {
+      const guardduty = securityConfigFromFile.centralSecurityServices.guardduty;
+      expect(guardduty.ebsProtection?.excludeRegions).toStrictEqual(['us-west-2']);
+      expect(guardduty.rdsProtection?.enable).toBe(true);
+      expect(guardduty.lambdaProtection?.enable).toBe(true);
+      expect(guardduty.runtimeMonitoring?.ec2AgentManagement).toBe(false);
+    });
+
+    it('loads security hub automation', () => {
+      const securityHub = securityConfigFromFile.centralSecurityServices.securityHub;
+      expect(securityHub.customActions?.[0].targets?.[0].type).toBe('eventBus');
+      expect(securityHub.insights?.[0].filters.severityLabels).toStrictEqual(['CRITICAL']);
+      expect(securityHub.automationRules?.[0].criteria.resourceTags).toStrictEqual([
+        { key: 'Environment', value: 'Sandbox' },
+      ]);
+      expect(securityHub.automationRules?.[0].actions.workflowStatus).toBe('SUPPRESSED');
+    });
+
+    it('loads security hub control exceptions', () => {
+      const [standard] = securityConfigFromFile.centralSecurityServices.securityHub.standards;
+      expect(standard.controlOverrides?.map(item => [item.controlId, item.enable])).toStrictEqual([
+        ['IAM.1', true],
+        ['IAM.6', false],
+      ]);
+      expect(standard.controlParameters?.[0].parameters).toStrictEqual([{ name: 'daysToExpiration', value: 30 }]);
+    });
+
+    it('loads cloudwatch alarms and dashboards', () => {
+      const alarmSet =
+        securityConfigFromFile.cloudWatch.alarmSets[securityConfigFromFile.cloudWatch.alarmSets.length - 1];
+      expect(alarmSet.alarms[0].actions?.map(item => item.type)).toStrictEqual(['opsItem', 'snsTopic']);
+      expect(alarmSet.anomalyDetectionAlarms?.[0].bandWidth).toBe(2);
+      expect(alarmSet.metricMathAlarms?.[0].metrics.map(item => item.id)).toStrictEqual(['groups', 'acls']);
+      expect(alarmSet.compositeAlarms?.[0].alarmRule).toBe(
+        'ALARM("ConsoleSigninWithoutMfa") AND ALARM("UnauthorizedApiCallsAnomaly")',
+      );
+      expect(securityConfigFromFile.cloudWatch.dashboards?.[0].widgets.map(item => item.type)).toStrictEqual([
+        'text',
+        'metric',
+        'alarm',
+      ]);
+    });
+
+    it('loads cloudwatch observability', () => {
+      const observability = securityConfigFromFile.cloudWatch.observability;
+      expect(observability?.sinkAccount).toBe('Audit');
+      expect(observability?.resourceTypes).toStrictEqual(['metrics', 'logs']);
+      expect(observability?.excludeRegions).toStrictEqual(['us-west-2']);
+    });
+
+    it('loads customer managed s3 buckets', () => {
+      const [bucket] = securityConfigFromFile.s3Buckets ?? [];
+      expect(bucket.kmsKey).toBe('key1');
+      expect(bucket.replication?.account).toBe('Audit');
+      expect(bucket.objectLock).toStrictEqual({ mode: 'GOVERNANCE', retentionDays: 30 });
+    });
+
+    it('loads inspector configuration', () => {
+      const inspector = securityConfigFromFile.centralSecurityServices.inspector;
+      expect(inspector?.enable).toBe(true);
+      expect(inspector?.excludeRegions).toStrictEqual(['us-west-2']);
+      expect(inspector?.lambdaScanning).toBe(true);
+    });
+
+    it('loads security lake configuration', () => {
+      const securityLake = securityConfigFromFile.centralSecurityServices.securityLake;
+      expect(securityConfigFromFile.getSecurityLakeDelegatedAccountName()).toBe('LogArchive');
+      expect(securityLake?.lifecycle?.transitions).toStrictEqual([
+        { storageClass: 'STANDARD_IA', transitionAfter: 30 },
+      ]);
+      expect(securityLake?.rollupRegions?.[0].contributingRegions).toStrictEqual(['us-west-2']);
+      expect(securityLake?.subscribers?.[0].sources).toStrictEqual(['CLOUD_TRAIL_MGMT']);
+    });
   });
 });
@@ -14,6 +14,7 @@
 import { createLogger } from '@aws-accelerator/utils';
 import * as emailValidator from 'email-validator';
 import { AccountsConfig } from '../lib/accounts-config';
+import * as t from '../lib/common-types';
 import { OrganizationConfig } from '../lib/organization-config';
 
 export class AccountsConfigValidator {
@@ -48,7 +49,7 @@ export class AccountsConfigValidator {
     this.validateEmails(values, errors);
 
     if (errors.length) {
-      throw new Error(`${AccountsConfig.FILENAME} has ${errors.length} issues:\n${errors.join('\n')}`);
+      throw t.ConfigValidationError.fromMessages(AccountsConfig.FILENAME, errors);
     }
   }
 
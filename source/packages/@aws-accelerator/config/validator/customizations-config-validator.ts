@@ -78,7 +78,7 @@ export class CustomizationsConfigValidator {
     new FirewallValidator(values, networkConfig, securityConfig, configDir, errors);
 
     if (errors.length) {
-      throw new Error(`${CustomizationsConfig.FILENAME} has ${errors.length} issues:\n${errors.join('\n')}`);
+      throw t.ConfigValidationError.fromMessages(CustomizationsConfig.FILENAME, errors);
     }
   }
   /**
@@ -17,7 +17,8 @@ import fs from 'fs';
 import path from 'path';
 import winston from 'winston';
 import { AccountsConfig } from '../lib/accounts-config';
-import { GlobalConfig } from '../lib/global-config';
+import * as t from '../lib/common-types';
+import { BackupLifecycleConfig, GlobalConfig } from '../lib/global-config';
 import { IamConfig } from '../lib/iam-config';
 import { OrganizationConfig } from '../lib/organization-config';
 
@@ -96,9 +97,13 @@ export class GlobalConfigValidator {
     // cdkOptions validation
     //
     this.validateCdkOptions(values, errors);
+    //
+    // backup vaults and plans validation
+    //
+    this.validateBackup(values, configDir, ouIdNames, accountNames, errors);
 
     if (errors.length) {
-      throw new Error(`${GlobalConfig.FILENAME} has ${errors.length} issues:\n${errors.join('\n')}`);
+      throw t.ConfigValidationError.fromMessages(GlobalConfig.FILENAME, errors);
     }
   }
 
@@ -483,4 +488,165 @@ export class GlobalConfigValidator {
       errors.push(`cdkOptions.centralizeBuckets must be set to true to enable cdkOptions.useManagementAccessRole`);
     }
   }
+
+  /**
+   * Function to validate AWS Backup vaults and plans
+   * @param values
+   * @param configDir
+   * @param ouIdNames
+   * @param accountNames
+   * @param errors
+   */
+  private validateBackup(
+    values: GlobalConfig,
+    configDir: string,
+    ouIdNames: string[],
+    accountNames: string[],
+    errors: string[],
+  ) {
+    const vaultNames = (values.backup?.vaults ?? []).map(vault => vault.name);
+
+    for (const vault of values.backup?.vaults ?? []) {
+      this.validateBackupDeploymentTargets(
+        `backup vault ${vault.name}`,
+        vault.deploymentTargets,
+        ouIdNames,
+        accountNames,
+        errors,
+      );
+      if (vault.policy && !fs.existsSync(path.join(configDir, vault.policy))) {
+        errors.push(`Access policy file ${vault.policy} of backup vault ${vault.name} not found !!!`);
+      }
+      if (!vault.lock) {
+        continue;
+      }
+      if (vault.lock.maxRetentionDays !== undefined && vault.lock.maxRetentionDays < vault.lock.minRetentionDays) {
+        errors.push(`Vault lock maxRetentionDays of backup vault ${vault.name} is less than minRetentionDays`);
+      }
+      if (vault.lock.mode === 'compliance' && (vault.lock.changeableForDays ?? 0) < 3) {
+        errors.push(
+          `Vault lock of backup vault ${vault.name} in compliance mode requires changeableForDays of at least 3`,
+        );
+      }
+      if (vault.lock.mode === 'governance' && vault.lock.changeableForDays !== undefined) {
+        errors.push(`Vault lock of backup vault ${vault.name} in governance mode does not support changeableForDays`);
+      }
+    }
+
+    const backupPlans = values.backup?.backupPlans ?? [];
+    for (const name of this.getDuplicates(backupPlans.map(plan => plan.name))) {
+      errors.push(`Duplicate backup plan name ${name}`);
+    }
+
+    for (const plan of backupPlans) {
+      this.validateBackupDeploymentTargets(
+        `backup plan ${plan.name}`,
+        plan.deploymentTargets,
+        ouIdNames,
+        accountNames,
+        errors,
+      );
+      if (!vaultNames.includes(plan.vault)) {
+        errors.push(`Backup plan ${plan.name} references vault ${plan.vault} that is not defined in backup vaults`);
+      }
+      if (plan.rules.length === 0) {
+        errors.push(`Backup plan ${plan.name} must define at least one rule`);
+      }
+      for (const name of this.getDuplicates(plan.rules.map(rule => rule.name))) {
+        errors.push(`Duplicate rule name ${name} in backup plan ${plan.name}`);
+      }
+      for (const name of this.getDuplicates((plan.selections ?? []).map(selection => selection.name))) {
+        errors.push(`Duplicate selection name ${name} in backup plan ${plan.name}`);
+      }
+
+      for (const rule of plan.rules) {
+        const ruleName = `rule ${rule.name} of backup plan ${plan.name}`;
+        if (rule.startWindowMinutes !== undefined && rule.startWindowMinutes < 60) {
+          errors.push(`The startWindowMinutes of ${ruleName} must be at least 60 minutes`);
+        }
+        if (rule.enableContinuousBackup && (rule.lifecycle?.deleteAfterDays ?? 0) > 35) {
+          errors.push(`The deleteAfterDays of ${ruleName} must not exceed 35 days with continuous backups`);
+        }
+        this.validateBackupLifecycle(ruleName, rule.lifecycle, errors);
+        for (const copyAction of rule.copyActions ?? []) {
+          if (!vaultNames.includes(copyAction.vault)) {
+            errors.push(`The copy action of ${ruleName} references vault ${copyAction.vault} that is not defined`);
+          }
+          if (copyAction.account && !accountNames.includes(copyAction.account)) {
+            errors.push(
+              `The copy action of ${ruleName} references account ${copyAction.account} that does not exist in accounts-config.yaml file.`,
+            );
+          }
+          if (copyAction.region && !values.enabledRegions.includes(copyAction.region)) {
+            errors.push(
+              `The copy action of ${ruleName} references region ${copyAction.region} that is not an enabled region`,
+            );
+          }
+          this.validateBackupLifecycle(`copy action of ${ruleName}`, copyAction.lifecycle, errors);
+        }
+      }
+
+      for (const selection of plan.selections ?? []) {
+        if ((selection.tags ?? []).length === 0 && (selection.resources ?? []).length === 0) {
+          errors.push(`Selection ${selection.name} of backup plan ${plan.name} must define tags or resources`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Function to validate deployment target OUs and accounts of backup resources
+   * @param resourceName
+   * @param deploymentTargets
+   * @param ouIdNames
+   * @param accountNames
+   * @param errors
+   */
+  private validateBackupDeploymentTargets(
+    resourceName: string,
+    deploymentTargets: t.DeploymentTargets,
+    ouIdNames: string[],
+    accountNames: string[],
+    errors: string[],
+  ) {
+    for (const ou of deploymentTargets.organizationalUnits ?? []) {
+      if (!ouIdNames.includes(ou)) {
+        errors.push(`Deployment target OU ${ou} for ${resourceName} does not exist in organization-config.yaml file.`);
+      }
+    }
+    for (const account of deploymentTargets.accounts ?? []) {
+      if (!accountNames.includes(account)) {
+        errors.push(
+          `Deployment target account ${account} for ${resourceName} does not exist in accounts-config.yaml file.`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Function to validate recovery point lifecycle, recovery points must remain
+   * in cold storage for at least 90 days
+   * @param resourceName
+   * @param lifecycle
+   * @param errors
+   */
+  private validateBackupLifecycle(
+    resourceName: string,
+    lifecycle: BackupLifecycleConfig | undefined,
+    errors: string[],
+  ) {
+    if (
+      lifecycle?.moveToColdStorageAfterDays !== undefined &&
+      lifecycle.deleteAfterDays !== undefined &&
+      lifecycle.deleteAfterDays < lifecycle.moveToColdStorageAfterDays + 90
+    ) {
+      errors.push(
+        `The deleteAfterDays of ${resourceName} must be at least 90 days greater than moveToColdStorageAfterDays`,
+      );
+    }
+  }
+
+  private getDuplicates(names: string[]): string[] {
+    return [...new Set(names.filter((name, index) => names.indexOf(name) !== index))];
+  }
 }
@@ -83,11 +83,20 @@ export class IamConfigValidator {
     // Validate name uniqueness
     this.validateIdentityCenterResourceNameForUniqueness(values, errors);
 
+    // Validate Identity Center Permission Sets
+    this.validateIdentityCenterPermissionSets(configDir, values, errors);
+
+    // Validate Identity Center Assignment principals and matrices
+    this.validateIdentityCenterAssignmentPrincipals(values, errors);
+
+    // Validate Identity Center Assignment customer managed policies
+    this.validateIdentityCenterAssignmentPolicies(values, accountsConfig, errors);
+
     // Validate Managed active directory
     new ManagedActiveDirectoryValidator(values, vpcSubnetLists, ouIdNames, accountNames, errors);
 
     if (errors.length) {
-      throw new Error(`${IamConfig.FILENAME} has ${errors.length} issues:\n${errors.join('\n')}`);
+      throw t.ConfigValidationError.fromMessages(IamConfig.FILENAME, errors);
     }
   }
 
@@ -185,7 +194,10 @@ export class IamConfigValidator {
     errors: string[],
   ) {
     const identityCenter = values.identityCenter;
-    const assignmentNames = [...(identityCenter?.identityCenterAssignments ?? [])].map(item => item.name);
+    const assignmentNames = [
+      ...(identityCenter?.identityCenterAssignments ?? []),
+      ...(identityCenter?.identityCenterAssignmentMatrices ?? []),
+    ].map(item => item.name);
     const permissionSetNames = [...(identityCenter?.identityCenterPermissionSets ?? [])].map(item => item.name);
 
     if (new Set(assignmentNames).size !== assignmentNames.length) {
@@ -197,6 +209,179 @@ export class IamConfigValidator {
     }
   }
 
+  /**
+   * Function to validate Identity Center Permission Set inline policy files and permissions boundaries
+   * @param configDir
+   * @param values
+   */
+  private validateIdentityCenterPermissionSets(
+    configDir: string,
+    values: t.TypeOf<typeof IamConfigTypes.iamConfig>,
+    errors: string[],
+  ) {
+    for (const permissionSet of values.identityCenter?.identityCenterPermissionSets ?? []) {
+      if (permissionSet.inlinePolicy && !fs.existsSync(path.join(configDir, permissionSet.inlinePolicy))) {
+        errors.push(
+          `Inline policy definition file ${permissionSet.inlinePolicy} not found, for Identity Center Permission Set ${permissionSet.name} !!!`,
+        );
+      }
+      const permissionsBoundary = permissionSet.permissionsBoundary;
+      if (
+        permissionsBoundary &&
+        !!permissionsBoundary.awsManagedPolicyArn === !!permissionsBoundary.customerManagedPolicy
+      ) {
+        errors.push(
+          `Identity Center Permission Set ${permissionSet.name} permissionsBoundary must define one of awsManagedPolicyArn or customerManagedPolicy.`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Function to validate Identity Center Assignments define exactly one of principalId or principalName
+   * and Assignment matrices define groups and permission sets
+   * @param values
+   */
+  private validateIdentityCenterAssignmentPrincipals(
+    values: t.TypeOf<typeof IamConfigTypes.iamConfig>,
+    errors: string[],
+  ) {
+    for (const assignment of values.identityCenter?.identityCenterAssignments ?? []) {
+      if (!!assignment.principalId === !!assignment.principalName) {
+        errors.push(`Identity Center Assignment ${assignment.name} must define one of principalId or principalName.`);
+      }
+    }
+    for (const assignmentMatrix of values.identityCenter?.identityCenterAssignmentMatrices ?? []) {
+      if (assignmentMatrix.groupNames.length === 0 || assignmentMatrix.permissionSetNames.length === 0) {
+        errors.push(
+          `Identity Center Assignment matrix ${assignmentMatrix.name} must define at least one group name and permission set name.`,
+        );
+      }
+      if (new Set(assignmentMatrix.groupNames).size !== assignmentMatrix.groupNames.length) {
+        errors.push(
+          `Duplicate group names defined [${assignmentMatrix.groupNames}] for Identity Center Assignment matrix ${assignmentMatrix.name}.`,
+        );
+      }
+      if (new Set(assignmentMatrix.permissionSetNames).size !== assignmentMatrix.permissionSetNames.length) {
+        errors.push(
+          `Duplicate permission set names defined [${assignmentMatrix.permissionSetNames}] for Identity Center Assignment matrix ${assignmentMatrix.name}.`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Function to get Identity Center Assignments, including one entry per group and permission set of
+   * each Assignment matrix
+   * @param values
+   * @returns
+   */
+  private getIdentityCenterAssignments(
+    values: t.TypeOf<typeof IamConfigTypes.iamConfig>,
+  ): { name: string; permissionSetName: string; deploymentTargets: t.TypeOf<typeof t.deploymentTargets> }[] {
+    const assignments = [...(values.identityCenter?.identityCenterAssignments ?? [])].map(item => ({
+      name: item.name,
+      permissionSetName: item.permissionSetName,
+      deploymentTargets: item.deploymentTargets,
+    }));
+    for (const assignmentMatrix of values.identityCenter?.identityCenterAssignmentMatrices ?? []) {
+      for (const groupName of assignmentMatrix.groupNames) {
+        for (const permissionSetName of assignmentMatrix.permissionSetNames) {
+          assignments.push({
+            name: `${assignmentMatrix.name}-${groupName}-${permissionSetName}`,
+            permissionSetName,
+            deploymentTargets: assignmentMatrix.deploymentTargets,
+          });
+        }
+      }
+    }
+    return assignments;
+  }
+
+  /**
+   * Function to validate customer managed policies referenced by the Permission Set of an Assignment
+   * are deployed by policySets to every account targeted by the Assignment.
+   * Only references with the default path are validated, as policySets create policies with the default path.
+   * @param values
+   * @param accountsConfig
+   */
+  private validateIdentityCenterAssignmentPolicies(
+    values: t.TypeOf<typeof IamConfigTypes.iamConfig>,
+    accountsConfig: AccountsConfig,
+    errors: string[],
+  ) {
+    const identityCenter = values.identityCenter;
+    for (const assignment of this.getIdentityCenterAssignments(values)) {
+      const permissionSet = identityCenter?.identityCenterPermissionSets?.find(
+        item => item.name === assignment.permissionSetName,
+      );
+      if (!permissionSet) {
+        errors.push(
+          `Identity Center Assignment ${assignment.name} Permission Set ${assignment.permissionSetName} does not exist in identityCenterPermissionSets.`,
+        );
+        continue;
+      }
+
+      const policyReferences = [
+        ...(permissionSet.policies?.customerManaged ?? []).map(item => ({ name: item, path: undefined })),
+        ...(permissionSet.customerManagedPolicyReferences ?? []),
+        ...(permissionSet.permissionsBoundary?.customerManagedPolicy
+          ? [permissionSet.permissionsBoundary.customerManagedPolicy]
+          : []),
+      ];
+      const targetAccountNames = this.getAccountNamesFromDeploymentTargets(
+        assignment.deploymentTargets,
+        accountsConfig,
+      );
+
+      for (const policyReference of policyReferences) {
+        if (policyReference.path && policyReference.path !== '/') {
+          continue;
+        }
+        const deployedAccountNames: string[] = [];
+        for (const policySet of values.policySets ?? []) {
+          if (policySet.policies.find(item => item.name === policyReference.name)) {
+            deployedAccountNames.push(
+              ...this.getAccountNamesFromDeploymentTargets(policySet.deploymentTargets, accountsConfig),
+            );
+          }
+        }
+        const missingAccountNames = targetAccountNames.filter(item => !deployedAccountNames.includes(item));
+        if (missingAccountNames.length > 0) {
+          errors.push(
+            `Identity Center Permission Set ${permissionSet.name} customer managed policy ${
+              policyReference.name
+            } is not deployed by policySets to accounts [${missingAccountNames.join(',')}] targeted by Assignment ${
+              assignment.name
+            }.`,
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Function to get the account names of deployment targets
+   * @param deploymentTargets
+   * @param accountsConfig
+   * @returns
+   */
+  private getAccountNamesFromDeploymentTargets(
+    deploymentTargets: t.TypeOf<typeof t.deploymentTargets>,
+    accountsConfig: AccountsConfig,
+  ): string[] {
+    const accountNames: string[] = [];
+    for (const account of [...accountsConfig.mandatoryAccounts, ...accountsConfig.workloadAccounts]) {
+      if (
+        (deploymentTargets.organizationalUnits ?? []).some(ou => ou === 'Root' || ou === account.organizationalUnit) ||
+        (deploymentTargets.accounts ?? []).includes(account.name)
+      ) {
+        accountNames.push(account.name);
+      }
+    }
+    return accountNames.filter(item => !(deploymentTargets.excludedAccounts ?? []).includes(item));
+  }
+
   /**
    * Function to validate existence of Assignment target account names
    * Make sure deployment target accounts are part of account config file
@@ -207,8 +392,7 @@ export class IamConfigValidator {
     accountNames: string[],
     errors: string[],
   ) {
-    const identityCenter = values.identityCenter;
-    for (const assignment of identityCenter?.identityCenterAssignments ?? []) {
+    for (const assignment of this.getIdentityCenterAssignments(values)) {
       for (const account of assignment.deploymentTargets.accounts ?? []) {
         if (accountNames.indexOf(account) === -1) {
           errors.push(
@@ -270,8 +454,7 @@ export class IamConfigValidator {
     ouIdNames: string[],
     errors: string[],
   ) {
-    const identityCenter = values.identityCenter;
-    for (const assignment of identityCenter?.identityCenterAssignments ?? []) {
+    for (const assignment of this.getIdentityCenterAssignments(values)) {
       for (const ou of assignment.deploymentTargets.organizationalUnits ?? []) {
         if (ouIdNames.indexOf(ou) === -1) {
           errors.push(`Deployment target OU ${ou} for assignment does not exist in organization-config.yaml file.`);
@@ -14,6 +14,7 @@
 import { createLogger } from '@aws-accelerator/utils';
 
 import { AccountConfig, AccountsConfig, GovCloudAccountConfig } from '../../lib/accounts-config';
+import * as t from '../../lib/common-types';
 import { CustomizationsConfig } from '../../lib/customizations-config';
 import { GlobalConfig } from '../../lib/global-config';
 import { NetworkConfig } from '../../lib/network-config';
@@ -88,7 +89,7 @@ export class NetworkConfigValidator {
     new CertificatesValidator(values, errors);
 
     if (errors.length) {
-      throw new Error(`${NetworkConfig.FILENAME} has ${errors.length} issues:\n${errors.join('\n')}`);
+      throw t.ConfigValidationError.fromMessages(NetworkConfig.FILENAME, errors);
     }
   }
   /**
@@ -10,7 +10,7 @@
  *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
  *  and limitations under the License.
  */
-import { IPv4, IPv4CidrRange } from 'ip-num';
+import { IPv4, IPv4CidrRange, IPv6CidrRange } from 'ip-num';
 import { AccountConfig, GovCloudAccountConfig } from '../../lib/accounts-config';
 import {
   NetworkConfig,
@@ -212,6 +212,20 @@ export class NetworkValidatorFunctions {
     return true;
   }
 
+  /**
+   * Returns true if valid IPv6 CIDR
+   * @param cidr
+   * @returns
+   */
+  public isValidIpv6Cidr(cidr: string): boolean {
+    try {
+      IPv6CidrRange.fromCidr(cidr);
+    } catch (e) {
+      return false;
+    }
+    return true;
+  }
+
   /**
    * Returns true if valid IPv4 address
    * @param ip
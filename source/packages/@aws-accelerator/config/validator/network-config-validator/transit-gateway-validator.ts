@@ -10,6 +10,7 @@
  *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
  *  and limitations under the License.
  */
+import { IPv4CidrRange } from 'ip-num';
 import {
   NetworkConfig,
   NetworkConfigTypes,
@@ -22,6 +23,9 @@ import {
   CustomerGatewayConfig,
   TransitGatewayRouteTableVpnEntryConfig,
   TransitGatewayRouteTableTgwPeeringEntryConfig,
+  TransitGatewayConnectConfig,
+  TransitGatewayRouteTableConnectEntryConfig,
+  TransitGatewayMulticastDomainConfig,
 } from '../../lib/network-config';
 import { NetworkValidatorFunctions } from './network-validator-functions';
 
@@ -58,6 +62,14 @@ export class TransitGatewayValidator {
     // Validate TGW configurations
     //
     this.validateTgwConfiguration(values, helpers, errors);
+    //
+    // Validate TGW Connect attachments
+    //
+    this.validateTgwConnects(values, helpers, errors);
+    //
+    // Validate TGW multicast domains
+    //
+    this.validateTgwMulticastDomains(values, helpers, errors);
   }
 
   /**
@@ -449,6 +461,9 @@ export class TransitGatewayValidator {
 
       // Validate VPN static route entry
       this.validateVpnStaticRouteEntry(cgws, tgw.name, routeTable.name, entry, errors);
+
+      // Validate Connect static route entry
+      this.validateConnectStaticRouteEntry(tgw, routeTable.name, entry, errors);
     }
   }
 
@@ -563,4 +578,377 @@ export class TransitGatewayValidator {
       }
     }
   }
+
+  /**
+   * Function to validate transit gateway static route entries for Connect attachments
+   * @param tgw
+   * @param routeTableName
+   * @param entry
+   * @param errors
+   */
+  private validateConnectStaticRouteEntry(
+    tgw: TransitGatewayConfig,
+    routeTableName: string,
+    entry: TransitGatewayRouteEntryConfig,
+    errors: string[],
+  ) {
+    if (entry.attachment && NetworkConfigTypes.transitGatewayRouteTableConnectEntryConfig.is(entry.attachment)) {
+      const connectAttachment = entry.attachment as TransitGatewayRouteTableConnectEntryConfig;
+      if (!tgw.connects?.find(item => item.name === connectAttachment.transitGatewayConnectName)) {
+        errors.push(
+          `[Transit Gateway ${tgw.name} route table ${routeTableName}]: cannot find Connect attachment "${connectAttachment.transitGatewayConnectName}" on this TGW`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Function to validate transit gateway Connect attachments and peers
+   * @param values
+   * @param helpers
+   * @param errors
+   */
+  private validateTgwConnects(values: NetworkConfig, helpers: NetworkValidatorFunctions, errors: string[]) {
+    for (const tgw of values.transitGateways) {
+      // Validate TGW CIDR blocks
+      for (const cidr of tgw.transitGatewayCidrBlocks ?? []) {
+        if (helpers.isValidIpv4Cidr(cidr)) {
+          if (Number(cidr.split('/')[1]) > 24) {
+            errors.push(
+              `[Transit Gateway ${tgw.name}]: transit gateway CIDR block "${cidr}" is invalid. IPv4 CIDR blocks must be a size /24 or larger`,
+            );
+          }
+        } else if (helpers.isValidIpv6Cidr(cidr)) {
+          if (Number(cidr.split('/')[1]) > 64) {
+            errors.push(
+              `[Transit Gateway ${tgw.name}]: transit gateway CIDR block "${cidr}" is invalid. IPv6 CIDR blocks must be a size /64 or larger`,
+            );
+          }
+        } else {
+          errors.push(
+            `[Transit Gateway ${tgw.name}]: transit gateway CIDR block "${cidr}" is invalid. Value must be a valid IPv4 or IPv6 CIDR range`,
+          );
+        }
+      }
+
+      const connectNames = (tgw.connects ?? []).map(item => item.name);
+      if (helpers.hasDuplicates(connectNames)) {
+        errors.push(
+          `[Transit Gateway ${tgw.name}]: duplicate Connect attachment names defined. Connect attachment names must be unique for each TGW. Names in file: ${connectNames}`,
+        );
+      }
+
+      for (const connect of tgw.connects ?? []) {
+        // Validate transport attachment
+        this.validateTgwConnectTransport(values, tgw, connect, helpers, errors);
+
+        // Validate route table associations and propagations
+        for (const routeTableName of [
+          ...(connect.routeTableAssociations ?? []),
+          ...(connect.routeTablePropagations ?? []),
+        ]) {
+          if (!tgw.routeTables.find(item => item.name === routeTableName)) {
+            errors.push(
+              `[Transit Gateway ${tgw.name} Connect attachment ${connect.name}]: route table "${routeTableName}" does not exist on this TGW`,
+            );
+          }
+        }
+
+        // Validate Connect peers
+        this.validateTgwConnectPeers(tgw, connect, helpers, errors);
+      }
+    }
+  }
+
+  /**
+   * Function to validate the transport attachment of a transit gateway Connect attachment
+   * @param values
+   * @param tgw
+   * @param connect
+   * @param helpers
+   * @param errors
+   */
+  private validateTgwConnectTransport(
+    values: NetworkConfig,
+    tgw: TransitGatewayConfig,
+    connect: TransitGatewayConnectConfig,
+    helpers: NetworkValidatorFunctions,
+    errors: string[],
+  ) {
+    if (NetworkConfigTypes.transitGatewayRouteTableVpcEntryConfig.is(connect.transportAttachment)) {
+      const vpcAttachment = connect.transportAttachment as TransitGatewayRouteTableVpcEntryConfig;
+      const vpc = helpers.getVpc(vpcAttachment.vpcName);
+      if (!vpc) {
+        errors.push(
+          `[Transit Gateway ${tgw.name} Connect attachment ${connect.name}]: cannot find transport VPC "${vpcAttachment.vpcName}"`,
+        );
+        return;
+      }
+      // Catch error if the VPC is not deployed alongside the TGW
+      if (
+        vpcAttachment.account !== tgw.account ||
+        !helpers.getVpcAccountNames(vpc).includes(vpcAttachment.account) ||
+        vpc.region !== tgw.region
+      ) {
+        errors.push(
+          `[Transit Gateway ${tgw.name} Connect attachment ${connect.name}]: transport VPC "${vpcAttachment.vpcName}" must be deployed to the same account and region as the TGW`,
+        );
+      }
+      // Catch error if the VPC is not attached to the TGW
+      if (
+        !vpc.transitGatewayAttachments?.find(
+          item => item.transitGateway.name === tgw.name && item.transitGateway.account === tgw.account,
+        )
+      ) {
+        errors.push(
+          `[Transit Gateway ${tgw.name} Connect attachment ${connect.name}]: transport VPC "${vpcAttachment.vpcName}" is not attached to this TGW`,
+        );
+      }
+    } else {
+      const dxAttachment = connect.transportAttachment as TransitGatewayRouteTableDxGatewayEntryConfig;
+      const dxgw = values.directConnectGateways?.find(item => item.name === dxAttachment.directConnectGatewayName);
+      if (!dxgw) {
+        errors.push(
+          `[Transit Gateway ${tgw.name} Connect attachment ${connect.name}]: cannot find transport DX Gateway "${dxAttachment.directConnectGatewayName}"`,
+        );
+        return;
+      }
+      // Catch error if DXGW is not in the same account as the TGW
+      if (dxgw.account !== tgw.account) {
+        errors.push(
+          `[Transit Gateway ${tgw.name} Connect attachment ${connect.name}]: transport DX Gateway "${dxAttachment.directConnectGatewayName}" and TGW reside in separate accounts`,
+        );
+      }
+      // Catch error if there is no association with the TGW
+      if (!dxgw.transitGatewayAssociations?.find(item => item.name === tgw.name && item.account === tgw.account)) {
+        errors.push(
+          `[Transit Gateway ${tgw.name} Connect attachment ${connect.name}]: transport DX Gateway "${dxAttachment.directConnectGatewayName}" is not associated with this TGW`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Function to validate transit gateway Connect peers
+   * @param tgw
+   * @param connect
+   * @param helpers
+   * @param errors
+   */
+  private validateTgwConnectPeers(
+    tgw: TransitGatewayConfig,
+    connect: TransitGatewayConnectConfig,
+    helpers: NetworkValidatorFunctions,
+    errors: string[],
+  ) {
+    if (!connect.peers || connect.peers.length === 0) {
+      return;
+    }
+
+    if (!tgw.transitGatewayCidrBlocks || tgw.transitGatewayCidrBlocks.length === 0) {
+      errors.push(
+        `[Transit Gateway ${tgw.name} Connect attachment ${connect.name}]: transitGatewayCidrBlocks must be defined on the TGW to create Connect peers`,
+      );
+    }
+
+    const peerNames = connect.peers.map(item => item.name);
+    if (helpers.hasDuplicates(peerNames)) {
+      errors.push(
+        `[Transit Gateway ${tgw.name} Connect attachment ${connect.name}]: duplicate Connect peer names defined. Names in file: ${peerNames}`,
+      );
+    }
+
+    const linkLocalRange = IPv4CidrRange.fromCidr('169.254.0.0/16');
+    const reservedCidrs = [
+      '169.254.0.0/29',
+      '169.254.1.0/29',
+      '169.254.2.0/29',
+      '169.254.3.0/29',
+      '169.254.4.0/29',
+      '169.254.5.0/29',
+      '169.254.169.248/29',
+    ];
+    const insideCidrs: string[] = [];
+
+    for (const peer of connect.peers) {
+      const peerPrefix = `[Transit Gateway ${tgw.name} Connect attachment ${connect.name} peer ${peer.name}]`;
+      if (!helpers.isValidIpv4(peer.peerAddress)) {
+        errors.push(`${peerPrefix}: peer address "${peer.peerAddress}" is not a valid IPv4 address`);
+      }
+      if (peer.bgpAsn === tgw.asn) {
+        errors.push(`${peerPrefix}: BGP ASN ${peer.bgpAsn} must be different from the TGW ASN`);
+      }
+      if (peer.transitGatewayAddress) {
+        if (!helpers.isValidIpv4(peer.transitGatewayAddress)) {
+          errors.push(
+            `${peerPrefix}: transit gateway address "${peer.transitGatewayAddress}" is not a valid IPv4 address`,
+          );
+        } else if (
+          !(tgw.transitGatewayCidrBlocks ?? [])
+            .filter(cidr => helpers.isValidIpv4Cidr(cidr))
+            .some(cidr =>
+              IPv4CidrRange.fromCidr(`${peer.transitGatewayAddress}/32`).inside(IPv4CidrRange.fromCidr(cidr)),
+            )
+        ) {
+          errors.push(
+            `${peerPrefix}: transit gateway address "${peer.transitGatewayAddress}" is not within the TGW CIDR blocks`,
+          );
+        }
+      }
+
+      const ipv4InsideCidrs = peer.insideCidrBlocks.filter(cidr => helpers.isValidIpv4Cidr(cidr));
+      if (ipv4InsideCidrs.length !== 1) {
+        errors.push(`${peerPrefix}: exactly one IPv4 inside CIDR block must be defined`);
+      }
+      for (const cidr of ipv4InsideCidrs) {
+        const range = IPv4CidrRange.fromCidr(cidr);
+        if (
+          Number(cidr.split('/')[1]) !== 29 ||
+          !range.inside(linkLocalRange) ||
+          range.getFirst().toString() !== cidr.split('/')[0] ||
+          reservedCidrs.includes(cidr)
+        ) {
+          errors.push(
+            `${peerPrefix}: inside CIDR block "${cidr}" is invalid. Value must be a non-reserved /29 CIDR block from the 169.254.0.0/16 range`,
+          );
+        }
+        insideCidrs.push(cidr);
+      }
+      for (const cidr of peer.insideCidrBlocks.filter(cidr => !helpers.isValidIpv4Cidr(cidr))) {
+        if (!helpers.isValidIpv6Cidr(cidr) || Number(cidr.split('/')[1]) !== 125) {
+          errors.push(
+            `${peerPrefix}: inside CIDR block "${cidr}" is invalid. Value must be a /29 IPv4 or /125 IPv6 CIDR block`,
+          );
+        }
+      }
+    }
+
+    if (helpers.hasDuplicates(insideCidrs)) {
+      errors.push(
+        `[Transit Gateway ${tgw.name} Connect attachment ${connect.name}]: duplicate peer inside CIDR blocks defined. CIDRs in file: ${insideCidrs}`,
+      );
+    }
+  }
+
+  /**
+   * Function to validate transit gateway multicast domains
+   * @param values
+   * @param helpers
+   * @param errors
+   */
+  private validateTgwMulticastDomains(values: NetworkConfig, helpers: NetworkValidatorFunctions, errors: string[]) {
+    for (const tgw of values.transitGateways) {
+      if (!tgw.multicastDomains || tgw.multicastDomains.length === 0) {
+        continue;
+      }
+
+      if (tgw.multicastSupport !== 'enable') {
+        errors.push(
+          `[Transit Gateway ${tgw.name}]: multicastSupport must be enabled on the TGW to create multicast domains`,
+        );
+      }
+
+      const domainNames = tgw.multicastDomains.map(item => item.name);
+      if (helpers.hasDuplicates(domainNames)) {
+        errors.push(
+          `[Transit Gateway ${tgw.name}]: duplicate multicast domain names defined. Multicast domain names must be unique for each TGW. Names in file: ${domainNames}`,
+        );
+      }
+
+      for (const domain of tgw.multicastDomains) {
+        const domainPrefix = `[Transit Gateway ${tgw.name} multicast domain ${domain.name}]`;
+        if (domain.igmpv2Support === 'enable' && domain.staticSourcesSupport === 'enable') {
+          errors.push(`${domainPrefix}: igmpv2Support and staticSourcesSupport cannot both be enabled`);
+        }
+        if ((domain.groupSources ?? []).length > 0 && domain.staticSourcesSupport !== 'enable') {
+          errors.push(`${domainPrefix}: staticSourcesSupport must be enabled to define static group sources`);
+        }
+
+        // Validate subnet associations
+        this.validateTgwMulticastDomainAssociations(tgw, domain, helpers, errors);
+
+        // Validate static group members and sources
+        for (const group of [...(domain.groupMembers ?? []), ...(domain.groupSources ?? [])]) {
+          if (!helpers.isValidIpv4(group.groupIpAddress)) {
+            errors.push(`${domainPrefix}: group IP address "${group.groupIpAddress}" is not a valid IPv4 address`);
+          } else if (
+            !IPv4CidrRange.fromCidr(`${group.groupIpAddress}/32`).inside(IPv4CidrRange.fromCidr('224.0.0.0/4'))
+          ) {
+            errors.push(
+              `${domainPrefix}: group IP address "${group.groupIpAddress}" is invalid. Value must be a multicast address from the 224.0.0.0/4 range`,
+            );
+          }
+          if (!domain.associations?.find(item => item.vpcName === group.vpcName && item.account === group.account)) {
+            errors.push(
+              `${domainPrefix}: VPC "${group.vpcName}" in account "${group.account}" must be associated with the multicast domain to register group ${group.groupIpAddress}`,
+            );
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Function to validate transit gateway multicast domain subnet associations
+   * @param tgw
+   * @param domain
+   * @param helpers
+   * @param errors
+   */
+  private validateTgwMulticastDomainAssociations(
+    tgw: TransitGatewayConfig,
+    domain: TransitGatewayMulticastDomainConfig,
+    helpers: NetworkValidatorFunctions,
+    errors: string[],
+  ) {
+    const domainPrefix = `[Transit Gateway ${tgw.name} multicast domain ${domain.name}]`;
+    const shareTargetAccounts = tgw.shareTargets ? helpers.getAccountNamesFromTarget(tgw.shareTargets) : [];
+
+    // Catch error if cross-account associations are not accepted automatically
+    const crossAccountAssociations = (domain.associations ?? []).filter(item => item.account !== tgw.account);
+    if (crossAccountAssociations.length > 0 && domain.autoAcceptSharedAssociations !== 'enable') {
+      errors.push(
+        `${domainPrefix}: autoAcceptSharedAssociations must be enabled for the cross-account associations of VPCs ${crossAccountAssociations
+          .map(item => `"${item.vpcName}"`)
+          .join(', ')}`,
+      );
+    }
+
+    for (const association of domain.associations ?? []) {
+      const vpc = helpers.getVpc(association.vpcName);
+      if (!vpc) {
+        errors.push(`${domainPrefix}: cannot find associated VPC "${association.vpcName}"`);
+        continue;
+      }
+      // Catch error if the VPC is not deployed to the account or TGW region
+      if (!helpers.getVpcAccountNames(vpc).includes(association.account) || vpc.region !== tgw.region) {
+        errors.push(
+          `${domainPrefix}: VPC "${association.vpcName}" is not deployed to account "${association.account}" in the TGW region`,
+        );
+      }
+      // Catch error if the VPC is not attached to the TGW
+      const attachment = vpc.transitGatewayAttachments?.find(
+        item => item.transitGateway.name === tgw.name && item.transitGateway.account === tgw.account,
+      );
+      if (!attachment) {
+        errors.push(`${domainPrefix}: VPC "${association.vpcName}" is not attached to this TGW`);
+      }
+      // Catch error if the multicast domain is not shared with the account
+      if (association.account !== tgw.account && !shareTargetAccounts.includes(association.account)) {
+        errors.push(
+          `${domainPrefix}: account "${association.account}" is not included in the TGW share targets. The multicast domain cannot be associated with VPC "${association.vpcName}"`,
+        );
+      }
+      // Validate subnets
+      for (const subnetName of association.subnets) {
+        if (!helpers.getSubnet(vpc, subnetName)) {
+          errors.push(`${domainPrefix}: subnet "${subnetName}" does not exist in VPC "${association.vpcName}"`);
+        } else if (attachment && !attachment.subnets.includes(subnetName)) {
+          errors.push(
+            `${domainPrefix}: subnet "${subnetName}" is not included in the TGW attachment for VPC "${association.vpcName}"`,
+          );
+        }
+      }
+    }
+  }
 }
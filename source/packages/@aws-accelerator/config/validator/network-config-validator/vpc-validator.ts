@@ -10,10 +10,12 @@
  *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
  *  and limitations under the License.
  */
+import { IPv4CidrRange, IPv6CidrRange } from 'ip-num';
 import {
   NetworkConfig,
   NetworkConfigTypes,
   ResolverRuleConfig,
+  RouteTableConfig,
   RouteTableEntryConfig,
   SecurityGroupConfig,
   SecurityGroupRuleConfig,
@@ -58,9 +60,17 @@ export class VpcValidator {
     //
     this.validateVpcConfiguration(values, helpers, errors);
     //
+    // Validate static IPv6 CIDRs do not overlap across VPCs
+    //
+    this.validateVpcIpv6CidrOverlaps(values, errors);
+    //
     // Validate VPC peering configurations
     //
     this.validateVpcPeeringConfiguration(values, errors);
+    //
+    // Validate private hosted zone associations
+    //
+    this.validatePrivateHostedZoneAssociations(values, helpers, errors);
   }
 
   private getCentralEndpointVpcs(
@@ -210,7 +220,7 @@ export class VpcValidator {
     // Validate route tables names
     this.validateRouteTableNames(vpcItem, helpers, errors);
     // Validate route entries
-    this.validateRouteTableEntries(values, vpcItem, errors);
+    this.validateRouteTableEntries(values, vpcItem, helpers, errors);
   }
 
   /**
@@ -254,15 +264,20 @@ export class VpcValidator {
    * Validate route entries have a valid destination configured
    * @param routeTableEntryItem
    * @param routeTableName
-   * @param vpcName
+   * @param vpcItem
+   * @param values
+   * @param helpers
+   * @param errors
    */
   private validateRouteEntryDestination(
     routeTableEntryItem: RouteTableEntryConfig,
     routeTableName: string,
-    vpcName: string,
+    vpcItem: VpcConfig | VpcTemplatesConfig,
     values: NetworkConfig,
+    helpers: NetworkValidatorFunctions,
     errors: string[],
   ) {
+    const vpcName = vpcItem.name;
     if (routeTableEntryItem.destinationPrefixList) {
       // Check if a CIDR destination is also defined
       if (routeTableEntryItem.destination) {
@@ -289,6 +304,190 @@ export class VpcValidator {
         errors.push(
           `[Route table ${routeTableName} for VPC ${vpcName}]: route entry ${routeTableEntryItem.name} does not have a destination defined`,
         );
+      } else if (
+        !helpers.isValidIpv4Cidr(routeTableEntryItem.destination) &&
+        !helpers.isValidIpv6Cidr(routeTableEntryItem.destination)
+      ) {
+        this.validateRouteEntryNamedDestination(routeTableEntryItem, routeTableName, vpcItem, values, errors);
+      }
+    }
+  }
+
+  /**
+   * Validate route entries using a VPC or subnet name as the destination
+   * @param routeTableEntryItem
+   * @param routeTableName
+   * @param vpcItem
+   * @param values
+   * @param errors
+   */
+  private validateRouteEntryNamedDestination(
+    routeTableEntryItem: RouteTableEntryConfig,
+    routeTableName: string,
+    vpcItem: VpcConfig | VpcTemplatesConfig,
+    values: NetworkConfig,
+    errors: string[],
+  ) {
+    const vpcName = vpcItem.name;
+    const destination = routeTableEntryItem.destination!;
+    const destinationVpc = values.vpcs.find(item => item.name === destination);
+    const subnetVpcs = values.vpcs.filter(item => item.subnets?.find(subnet => subnet.name === destination));
+
+    // Throw error if the destination cannot be resolved
+    if (!destinationVpc && subnetVpcs.length === 0) {
+      const isTemplate = values.vpcTemplates?.find(item => item.name === destination);
+      errors.push(
+        isTemplate
+          ? `[Route table ${routeTableName} for VPC ${vpcName}]: route entry ${routeTableEntryItem.name} destination ${destination} is a VPC template. VPC templates cannot be used as route destinations`
+          : `[Route table ${routeTableName} for VPC ${vpcName}]: route entry ${routeTableEntryItem.name} destination ${destination} is not a valid CIDR, VPC name, or subnet name`,
+      );
+      return;
+    }
+
+    // Throw error if the destination name is ambiguous
+    if ((destinationVpc && subnetVpcs.length > 0) || subnetVpcs.length > 1) {
+      errors.push(
+        `[Route table ${routeTableName} for VPC ${vpcName}]: route entry ${routeTableEntryItem.name} destination ${destination} matches more than one VPC or subnet name`,
+      );
+    }
+
+    // Throw error if the destination resolves to the route table's own VPC
+    if ((destinationVpc ?? subnetVpcs[0]).name === vpcName) {
+      errors.push(
+        `[Route table ${routeTableName} for VPC ${vpcName}]: route entry ${routeTableEntryItem.name} destination ${destination} resolves to the local VPC`,
+      );
+    }
+
+    // Throw error if the destination subnet has no IPv4 CIDR to route to
+    const destinationSubnet = subnetVpcs[0]?.subnets?.find(item => item.name === destination);
+    if (!destinationVpc && destinationSubnet && !destinationSubnet.ipv4CidrBlock && !destinationSubnet.ipamAllocation) {
+      errors.push(
+        `[Route table ${routeTableName} for VPC ${vpcName}]: route entry ${routeTableEntryItem.name} destination subnet ${destination} does not define an ipv4CidrBlock or ipamAllocation`,
+      );
+    }
+
+    // Throw error if an IPAM-allocated destination subnet is not created in the stack of the route table.
+    // The CIDR of an IPAM-allocated subnet is only known to the stack that creates it
+    const ipamVpc = destinationVpc ?? subnetVpcs[0];
+    const ipamSubnets = destinationVpc
+      ? destinationVpc.ipamAllocations
+        ? (destinationVpc.subnets ?? []).filter(item => !item.ipv4CidrBlock && item.ipamAllocation)
+        : []
+      : [destinationSubnet].filter(item => item && !item.ipv4CidrBlock && item.ipamAllocation);
+    if (
+      ipamSubnets.length > 0 &&
+      (!NetworkConfigTypes.vpcConfig.is(vpcItem) ||
+        vpcItem.account !== ipamVpc.account ||
+        vpcItem.region !== ipamVpc.region)
+    ) {
+      errors.push(
+        `[Route table ${routeTableName} for VPC ${vpcName}]: route entry ${routeTableEntryItem.name} destination ${destination} resolves to IPAM-allocated subnets of VPC ${ipamVpc.name}. IPAM-allocated destinations must be in the same account and region as the route table`,
+      );
+    }
+
+    // Throw error if the route entry type does not support named destinations
+    if (
+      !['transitGateway', 'natGateway', 'internetGateway', 'virtualPrivateGateway'].includes(routeTableEntryItem.type!)
+    ) {
+      errors.push(
+        `[Route table ${routeTableName} for VPC ${vpcName}]: route entry ${routeTableEntryItem.name} with type ${routeTableEntryItem.type} does not support VPC or subnet name destinations`,
+      );
+    }
+  }
+
+  /**
+   * Returns the resolved destinations of a route table entry, keyed by CIDR
+   * or by VPC and subnet name for IPAM-allocated subnets
+   * @param routeTableEntryItem
+   * @param values
+   * @returns
+   */
+  private getRouteEntryDestinations(
+    routeTableEntryItem: RouteTableEntryConfig,
+    values: NetworkConfig,
+  ): { key: string; named: boolean }[] {
+    const destination = routeTableEntryItem.destination;
+    if (!destination) {
+      return [];
+    }
+
+    const destinationVpc = values.vpcs.find(item => item.name === destination);
+    if (destinationVpc) {
+      const destinations = (destinationVpc.cidrs ?? []).map(cidr => {
+        return { key: cidr, named: true };
+      });
+      if (destinationVpc.ipamAllocations) {
+        for (const subnet of (destinationVpc.subnets ?? []).filter(item => item.ipv4CidrBlock || item.ipamAllocation)) {
+          destinations.push({ key: subnet.ipv4CidrBlock ?? `${destinationVpc.name}/${subnet.name}`, named: true });
+        }
+      }
+      return destinations;
+    }
+
+    for (const vpc of values.vpcs) {
+      const subnet = vpc.subnets?.find(item => item.name === destination);
+      if (subnet) {
+        // Subnets without an IPv4 CIDR are reported by validateRouteEntryNamedDestination
+        return subnet.ipv4CidrBlock || subnet.ipamAllocation
+          ? [{ key: subnet.ipv4CidrBlock ?? `${vpc.name}/${subnet.name}`, named: true }]
+          : [];
+      }
+    }
+    return [{ key: destination, named: false }];
+  }
+
+  /**
+   * Validate VPC and subnet name route destinations do not resolve to duplicate or overlapping destinations
+   * @param values
+   * @param vpcItem
+   * @param routeTableItem
+   * @param helpers
+   * @param errors
+   */
+  private validateRouteTableDestinations(
+    values: NetworkConfig,
+    vpcItem: VpcConfig | VpcTemplatesConfig,
+    routeTableItem: RouteTableConfig,
+    helpers: NetworkValidatorFunctions,
+    errors: string[],
+  ) {
+    const destinations: { entryName: string; key: string; named: boolean }[] = [];
+    for (const entry of routeTableItem.routes ?? []) {
+      if (entry.type !== 'gatewayEndpoint' && !entry.destinationPrefixList) {
+        destinations.push(
+          ...this.getRouteEntryDestinations(entry, values).map(item => {
+            return { entryName: entry.name, ...item };
+          }),
+        );
+      }
+    }
+
+    for (const [index, destination] of destinations.entries()) {
+      // Only validate destinations resolved from a VPC or subnet name
+      for (const other of destinations.slice(index + 1).filter(item => destination.named || item.named)) {
+        // Throw error if two route entries resolve to the same destination
+        if (destination.key === other.key) {
+          errors.push(
+            `[Route table ${routeTableItem.name} for VPC ${vpcItem.name}]: route entries ${destination.entryName} and ${other.entryName} resolve to the same destination ${destination.key}`,
+          );
+          continue;
+        }
+        // Throw error if the destinations overlap. Default routes are excluded,
+        // as more specific routes are expected to overlap them.
+        if (
+          helpers.isValidIpv4Cidr(destination.key) &&
+          helpers.isValidIpv4Cidr(other.key) &&
+          !destination.key.endsWith('/0') &&
+          !other.key.endsWith('/0')
+        ) {
+          const range = IPv4CidrRange.fromCidr(destination.key);
+          const otherRange = IPv4CidrRange.fromCidr(other.key);
+          if (range.inside(otherRange) || otherRange.inside(range) || range.isOverlapping(otherRange)) {
+            errors.push(
+              `[Route table ${routeTableItem.name} for VPC ${vpcItem.name}]: route entries ${destination.entryName} and ${other.entryName} resolve to overlapping destinations ${destination.key} and ${other.key}`,
+            );
+          }
+        }
       }
     }
   }
@@ -312,6 +511,68 @@ export class VpcValidator {
     }
   }
 
+  /**
+   * Validate egress-only IGW routes are associated with a VPC with an egress-only IGW attached
+   * @param routeTableEntryItem
+   * @param routeTableName
+   * @param vpcItem
+   */
+  private validateEigwRouteEntry(
+    routeTableEntryItem: RouteTableEntryConfig,
+    routeTableName: string,
+    vpcItem: VpcConfig | VpcTemplatesConfig,
+    errors: string[],
+  ) {
+    if (!vpcItem.egressOnlyInternetGateway) {
+      errors.push(
+        `[Route table ${routeTableName} for VPC ${vpcItem.name}]: route entry ${routeTableEntryItem.name} is targeting an egress-only IGW, but no egress-only IGW is attached to the VPC`,
+      );
+    }
+  }
+
+  /**
+   * Validate IPv6 route destinations are only used with supported route entry types
+   * @param routeTableEntryItem
+   * @param routeTableName
+   * @param vpcName
+   * @param helpers
+   * @param errors
+   */
+  private validateRouteEntryIpv6Destination(
+    routeTableEntryItem: RouteTableEntryConfig,
+    routeTableName: string,
+    vpcName: string,
+    helpers: NetworkValidatorFunctions,
+    errors: string[],
+  ) {
+    const ipv6EntryTypes = [
+      'egressOnlyInternetGateway',
+      'internetGateway',
+      'natGateway',
+      'transitGateway',
+      'virtualPrivateGateway',
+    ];
+    const isIpv6Destination = routeTableEntryItem.destination
+      ? helpers.isValidIpv6Cidr(routeTableEntryItem.destination)
+      : false;
+
+    if (isIpv6Destination && !ipv6EntryTypes.includes(routeTableEntryItem.type!)) {
+      errors.push(
+        `[Route table ${routeTableName} for VPC ${vpcName}]: route entry ${routeTableEntryItem.name} with type ${routeTableEntryItem.type} does not support IPv6 destinations`,
+      );
+    }
+
+    if (
+      routeTableEntryItem.type === 'egressOnlyInternetGateway' &&
+      routeTableEntryItem.destination &&
+      !isIpv6Destination
+    ) {
+      errors.push(
+        `[Route table ${routeTableName} for VPC ${vpcName}]: route entry ${routeTableEntryItem.name} with type egressOnlyInternetGateway must use an IPv6 CIDR destination`,
+      );
+    }
+  }
+
   /**
    * Validate VGW routes are associated with a VPC with an Virtual Private Gateway attached
    * @param routeTableEntryItem
@@ -417,14 +678,24 @@ export class VpcValidator {
    * Validate route table entries
    * @param values
    * @param vpcItem
+   * @param helpers
    * @param errors
    */
-  private validateRouteTableEntries(values: NetworkConfig, vpcItem: VpcConfig | VpcTemplatesConfig, errors: string[]) {
+  private validateRouteTableEntries(
+    values: NetworkConfig,
+    vpcItem: VpcConfig | VpcTemplatesConfig,
+    helpers: NetworkValidatorFunctions,
+    errors: string[],
+  ) {
     vpcItem.routeTables?.forEach(routeTableItem => {
+      // Validate resolved destinations are unique
+      this.validateRouteTableDestinations(values, vpcItem, routeTableItem, helpers, errors);
+
       routeTableItem.routes?.forEach(entry => {
         // Validate destination exists
         if (entry.type && entry.type !== 'gatewayEndpoint') {
-          this.validateRouteEntryDestination(entry, routeTableItem.name, vpcItem.name, values, errors);
+          this.validateRouteEntryDestination(entry, routeTableItem.name, vpcItem, values, helpers, errors);
+          this.validateRouteEntryIpv6Destination(entry, routeTableItem.name, vpcItem.name, helpers, errors);
         }
 
         // Validate IGW route
@@ -432,6 +703,11 @@ export class VpcValidator {
           this.validateIgwRouteEntry(entry, routeTableItem.name, vpcItem, errors);
         }
 
+        // Validate egress-only IGW route
+        if (entry.type && entry.type === 'egressOnlyInternetGateway') {
+          this.validateEigwRouteEntry(entry, routeTableItem.name, vpcItem, errors);
+        }
+
         // Validate VGW route
         if (entry.type && entry.type === 'virtualPrivateGateway') {
           this.validateVgwRouteEntry(entry, routeTableItem.name, vpcItem, errors);
@@ -517,6 +793,10 @@ export class VpcValidator {
         //
         this.validateVpcCidrs(vpcItem, helpers, errors);
         //
+        // Validate VPC IPv6 CIDRs
+        //
+        this.validateVpcIpv6Cidrs(values, vpcItem, helpers, errors);
+        //
         // Validate DHCP options
         //
         this.validateDhcpOptions(values, vpcItem, helpers, errors);
@@ -557,6 +837,10 @@ export class VpcValidator {
         //
         this.validateResolverRules(values, vpcItem, helpers, errors);
         //
+        // Validate private hosted zones
+        //
+        this.validatePrivateHostedZones(values, vpcItem, errors);
+        //
         // Validate route tables
         //
         this.validateRouteTables(values, vpcItem, helpers, errors);
@@ -646,6 +930,118 @@ export class VpcValidator {
     });
   }
 
+  /**
+   * Validate VPC IPv6 CIDRs
+   * @param values
+   * @param vpcItem
+   * @param helpers
+   * @param errors
+   */
+  private validateVpcIpv6Cidrs(
+    values: NetworkConfig,
+    vpcItem: VpcConfig | VpcTemplatesConfig,
+    helpers: NetworkValidatorFunctions,
+    errors: string[],
+  ) {
+    const ipams = values.centralNetworkServices?.ipams;
+    const staticCidrs: string[] = [];
+
+    vpcItem.ipv6Cidrs?.forEach(ipv6Cidr => {
+      // Validate only one IPv6 CIDR source is defined
+      const sources = [ipv6Cidr.amazonProvided, ipv6Cidr.byoipPoolId, ipv6Cidr.ipamAllocation].filter(
+        source => !!source,
+      );
+      if (sources.length !== 1) {
+        errors.push(
+          `[VPC ${vpcItem.name}]: IPv6 CIDRs must define exactly one of amazonProvided, byoipPoolId, or ipamAllocation`,
+        );
+      }
+      // Validate static CIDR
+      if (ipv6Cidr.cidrBlock) {
+        if (!ipv6Cidr.byoipPoolId) {
+          errors.push(`[VPC ${vpcItem.name}]: IPv6 CIDR "${ipv6Cidr.cidrBlock}" must define byoipPoolId`);
+        }
+        if (!helpers.isValidIpv6Cidr(ipv6Cidr.cidrBlock)) {
+          errors.push(
+            `[VPC ${vpcItem.name}]: IPv6 CIDR "${ipv6Cidr.cidrBlock}" is invalid. Value must be a valid IPv6 CIDR range`,
+          );
+        } else {
+          if (ipv6Cidr.cidrBlock.split('/')[1] !== '56') {
+            errors.push(`[VPC ${vpcItem.name}]: IPv6 CIDR "${ipv6Cidr.cidrBlock}" is invalid. CIDR prefix must be /56`);
+          }
+          staticCidrs.push(ipv6Cidr.cidrBlock);
+        }
+      }
+      // Validate IPAM allocation
+      if (ipv6Cidr.ipamAllocation) {
+        const ipamPool = ipams
+          ?.flatMap(ipam => ipam.pools ?? [])
+          .find(pool => pool.name === ipv6Cidr.ipamAllocation!.ipamPoolName);
+        if (!ipamPool) {
+          errors.push(`[VPC ${vpcItem.name}]: target IPAM pool ${ipv6Cidr.ipamAllocation.ipamPoolName} is not defined`);
+        } else if (ipamPool.addressFamily !== 'ipv6') {
+          errors.push(
+            `[VPC ${vpcItem.name}]: target IPAM pool ${ipv6Cidr.ipamAllocation.ipamPoolName} for IPv6 CIDR must use the ipv6 address family`,
+          );
+        }
+        const netmaskLength = ipv6Cidr.ipamAllocation.netmaskLength;
+        if (netmaskLength < 44 || netmaskLength > 60 || netmaskLength % 4 !== 0) {
+          errors.push(
+            `[VPC ${vpcItem.name} allocation ${ipv6Cidr.ipamAllocation.ipamPoolName}]: IPv6 netmaskLength must be between 44 and 60 in increments of 4`,
+          );
+        }
+      }
+    });
+
+    // Validate static IPv6 CIDRs do not overlap
+    if (this.hasOverlappingIpv6Cidrs(staticCidrs)) {
+      errors.push(`[VPC ${vpcItem.name}]: IPv6 CIDRs must not overlap. IPv6 CIDRs configured: ${staticCidrs}`);
+    }
+
+    // Validate egress-only IGW
+    if (vpcItem.egressOnlyInternetGateway && !vpcItem.ipv6Cidrs) {
+      errors.push(`[VPC ${vpcItem.name}]: egressOnlyInternetGateway is true, but no IPv6 CIDRs are defined`);
+    }
+  }
+
+  /**
+   * Returns true if any of the given IPv6 CIDRs overlap
+   * @param cidrs
+   * @returns
+   */
+  private hasOverlappingIpv6Cidrs(cidrs: string[]): boolean {
+    const ranges = cidrs.map(cidr => IPv6CidrRange.fromCidr(cidr));
+    return ranges.some((range, index) =>
+      ranges.slice(index + 1).some(other => range.isOverlapping(other) || range.contains(other) || range.inside(other)),
+    );
+  }
+
+  /**
+   * Validate the static IPv6 CIDRs of a VPC do not overlap the static IPv6 CIDRs of another VPC
+   * @param values
+   * @param errors
+   */
+  private validateVpcIpv6CidrOverlaps(values: NetworkConfig, errors: string[]) {
+    const vpcCidrs: { vpcName: string; cidr: string }[] = [];
+    for (const vpcItem of [...values.vpcs, ...(values.vpcTemplates ?? [])]) {
+      for (const ipv6Cidr of vpcItem.ipv6Cidrs ?? []) {
+        if (ipv6Cidr.cidrBlock) {
+          vpcCidrs.push({ vpcName: vpcItem.name, cidr: ipv6Cidr.cidrBlock });
+        }
+      }
+    }
+
+    for (const [index, vpcCidr] of vpcCidrs.entries()) {
+      for (const other of vpcCidrs.slice(index + 1).filter(item => item.vpcName !== vpcCidr.vpcName)) {
+        if (this.hasOverlappingIpv6Cidrs([vpcCidr.cidr, other.cidr])) {
+          errors.push(
+            `[VPC ${vpcCidr.vpcName}]: IPv6 CIDR "${vpcCidr.cidr}" overlaps IPv6 CIDR "${other.cidr}" of VPC ${other.vpcName}`,
+          );
+        }
+      }
+    }
+  }
+
   /**
    * Validate DHCP options
    * @param values
@@ -1311,6 +1707,99 @@ export class VpcValidator {
     });
   }
 
+  /**
+   * Validate private hosted zones
+   * @param values
+   * @param vpcItem
+   * @param errors
+   */
+  private validatePrivateHostedZones(values: NetworkConfig, vpcItem: VpcConfig | VpcTemplatesConfig, errors: string[]) {
+    const loadBalancerNames = [
+      ...(vpcItem.loadBalancers?.applicationLoadBalancers ?? []),
+      ...(vpcItem.loadBalancers?.networkLoadBalancers ?? []),
+    ].map(loadBalancer => loadBalancer.name);
+
+    for (const zone of vpcItem.privateHostedZones ?? []) {
+      // Validate associated VPCs
+      for (const associatedVpcName of zone.associatedVpcs ?? []) {
+        const associatedVpc = values.vpcs.find(item => item.name === associatedVpcName);
+        if (!associatedVpc) {
+          errors.push(
+            `[VPC ${vpcItem.name} private hosted zone ${zone.name}]: associated VPC "${associatedVpcName}" does not exist`,
+          );
+        } else if (associatedVpc.name === vpcItem.name) {
+          errors.push(
+            `[VPC ${vpcItem.name} private hosted zone ${zone.name}]: associated VPC "${associatedVpcName}" is the VPC of the private hosted zone`,
+          );
+        } else if (associatedVpc.region !== vpcItem.region) {
+          errors.push(
+            `[VPC ${vpcItem.name} private hosted zone ${zone.name}]: associated VPC "${associatedVpcName}" must be in region ${vpcItem.region}`,
+          );
+        }
+      }
+
+      // Validate records
+      for (const record of zone.records ?? []) {
+        if (record.name !== zone.name && !record.name.endsWith(`.${zone.name}`)) {
+          errors.push(
+            `[VPC ${vpcItem.name} private hosted zone ${zone.name}]: record "${record.name}" is not within the private hosted zone`,
+          );
+        }
+        if (!!record.values === !!record.loadBalancer) {
+          errors.push(
+            `[VPC ${vpcItem.name} private hosted zone ${zone.name}]: record "${record.name}" must define one of values or loadBalancer`,
+          );
+        }
+        if (record.type === 'CNAME' && record.values && record.values.length !== 1) {
+          errors.push(
+            `[VPC ${vpcItem.name} private hosted zone ${zone.name}]: CNAME record "${record.name}" must define exactly one value`,
+          );
+        }
+        if (record.loadBalancer) {
+          if (record.type !== 'A') {
+            errors.push(
+              `[VPC ${vpcItem.name} private hosted zone ${zone.name}]: load balancer alias record "${record.name}" must be of type A`,
+            );
+          }
+          if (!loadBalancerNames.includes(record.loadBalancer)) {
+            errors.push(
+              `[VPC ${vpcItem.name} private hosted zone ${zone.name}]: load balancer "${record.loadBalancer}" for record "${record.name}" does not exist in the VPC`,
+            );
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Validate a VPC is not associated with more than one private hosted zone of the same name
+   * @param values
+   * @param helpers
+   * @param errors
+   */
+  private validatePrivateHostedZoneAssociations(
+    values: NetworkConfig,
+    helpers: NetworkValidatorFunctions,
+    errors: string[],
+  ) {
+    const vpcZoneNames = new Map<string, string[]>();
+    for (const vpcItem of [...values.vpcs, ...(values.vpcTemplates ?? [])]) {
+      for (const zone of vpcItem.privateHostedZones ?? []) {
+        for (const vpcName of [vpcItem.name, ...(zone.associatedVpcs ?? [])]) {
+          vpcZoneNames.set(vpcName, [...(vpcZoneNames.get(vpcName) ?? []), zone.name]);
+        }
+      }
+    }
+
+    for (const [vpcName, zoneNames] of vpcZoneNames) {
+      if (helpers.hasDuplicates(zoneNames)) {
+        errors.push(
+          `[VPC ${vpcName}]: VPC is associated with more than one private hosted zone of the same name. Zones associated: ${zoneNames}`,
+        );
+      }
+    }
+  }
+
   /**
    * Validate security group sources
    * @param values
@@ -1959,6 +2448,8 @@ export class VpcValidator {
     this.validateSubnetStructure(vpcItem, errors);
     // Validate subnet CIDR
     this.validateSubnetCidrs(vpcItem, helpers, errors);
+    // Validate subnet IPv6 CIDR
+    this.validateSubnetIpv6Cidrs(vpcItem, helpers, errors);
     // Validate subnet route table
     this.validateSubnetRouteTables(vpcItem, errors);
   }
@@ -1996,11 +2487,38 @@ export class VpcValidator {
           `[VPC ${vpcItem.name} subnet ${subnet.name}]: cannot define both ipv4CidrBlock and ipamAllocation properties`,
         );
       }
-      if (!subnet.ipv4CidrBlock && !subnet.ipamAllocation) {
+      if (!subnet.ipv4CidrBlock && !subnet.ipamAllocation && !subnet.ipv6Native) {
         errors.push(
           `[VPC ${vpcItem.name} subnet ${subnet.name}]: must define either ipv4CidrBlock or ipamAllocation property`,
         );
       }
+      // Validate IPv6 configuration
+      if (subnet.ipv6CidrBlock && subnet.ipv6SubnetIndex !== undefined) {
+        errors.push(
+          `[VPC ${vpcItem.name} subnet ${subnet.name}]: cannot define both ipv6CidrBlock and ipv6SubnetIndex properties`,
+        );
+      }
+      const hasIpv6Cidr = !!subnet.ipv6CidrBlock || subnet.ipv6SubnetIndex !== undefined;
+      if (hasIpv6Cidr && !vpcItem.ipv6Cidrs) {
+        errors.push(
+          `[VPC ${vpcItem.name} subnet ${subnet.name}]: IPv6 CIDR is defined for the subnet, but no IPv6 CIDRs are defined for the VPC`,
+        );
+      }
+      if (subnet.ipv6Native && (subnet.ipv4CidrBlock || subnet.ipamAllocation || subnet.mapPublicIpOnLaunch)) {
+        errors.push(
+          `[VPC ${vpcItem.name} subnet ${subnet.name}]: IPv6-only subnets cannot define ipv4CidrBlock, ipamAllocation, or mapPublicIpOnLaunch properties`,
+        );
+      }
+      if ((subnet.ipv6Native || subnet.assignIpv6AddressOnCreation) && !hasIpv6Cidr) {
+        errors.push(
+          `[VPC ${vpcItem.name} subnet ${subnet.name}]: ipv6Native and assignIpv6AddressOnCreation require either ipv6CidrBlock or ipv6SubnetIndex property`,
+        );
+      }
+      if (subnet.ipamAllocation && subnet.assignIpv6AddressOnCreation) {
+        errors.push(
+          `[VPC ${vpcItem.name} subnet ${subnet.name}]: assignIpv6AddressOnCreation is not supported for subnets using ipamAllocation`,
+        );
+      }
       // Validate an AZ is assigned
       if (subnet.availabilityZone && subnet.outpost) {
         errors.push(
@@ -2044,6 +2562,94 @@ export class VpcValidator {
     });
   }
 
+  /**
+   * Validate subnet IPv6 CIDR
+   * @param vpcItem
+   * @param helpers
+   * @param errors
+   */
+  private validateSubnetIpv6Cidrs(
+    vpcItem: VpcConfig | VpcTemplatesConfig,
+    helpers: NetworkValidatorFunctions,
+    errors: string[],
+  ) {
+    const vpcCidrs = (vpcItem.ipv6Cidrs ?? [])
+      .map(ipv6Cidr => ipv6Cidr.cidrBlock)
+      .filter(cidr => cidr && helpers.isValidIpv6Cidr(cidr))
+      .map(cidr => IPv6CidrRange.fromCidr(cidr!));
+    const subnetCidrs: string[] = [];
+    const subnetIndexes: number[] = [];
+    const maxSubnetIndex = this.getIpv6SubnetCount(vpcItem) - 1;
+
+    vpcItem.subnets?.forEach(subnet => {
+      if (subnet.ipv6CidrBlock) {
+        if (!helpers.isValidIpv6Cidr(subnet.ipv6CidrBlock)) {
+          errors.push(
+            `[VPC ${vpcItem.name} subnet ${subnet.name}]: IPv6 CIDR "${subnet.ipv6CidrBlock}" is invalid. Value must be a valid IPv6 CIDR range`,
+          );
+          return;
+        }
+        // Validate prefix
+        if (subnet.ipv6CidrBlock.split('/')[1] !== '64') {
+          errors.push(
+            `[VPC ${vpcItem.name} subnet ${subnet.name}]: IPv6 CIDR "${subnet.ipv6CidrBlock}" is invalid. CIDR prefix must be /64`,
+          );
+        }
+        // Validate CIDR is within a static VPC IPv6 CIDR
+        const range = IPv6CidrRange.fromCidr(subnet.ipv6CidrBlock);
+        if (!vpcCidrs.find(vpcCidr => range.inside(vpcCidr))) {
+          errors.push(
+            `[VPC ${vpcItem.name} subnet ${subnet.name}]: IPv6 CIDR "${subnet.ipv6CidrBlock}" is not within a static IPv6 CIDR of the VPC`,
+          );
+        }
+        subnetCidrs.push(subnet.ipv6CidrBlock);
+      }
+
+      if (subnet.ipv6SubnetIndex !== undefined) {
+        if (
+          !Number.isInteger(subnet.ipv6SubnetIndex) ||
+          subnet.ipv6SubnetIndex < 0 ||
+          subnet.ipv6SubnetIndex > maxSubnetIndex
+        ) {
+          errors.push(
+            `[VPC ${vpcItem.name} subnet ${subnet.name}]: ipv6SubnetIndex ${subnet.ipv6SubnetIndex} is invalid. Value must be between 0 and ${maxSubnetIndex}`,
+          );
+        }
+        subnetIndexes.push(subnet.ipv6SubnetIndex);
+      }
+    });
+
+    // Validate subnet IPv6 CIDRs do not overlap
+    if (this.hasOverlappingIpv6Cidrs(subnetCidrs)) {
+      errors.push(
+        `[VPC ${vpcItem.name}]: subnet IPv6 CIDRs must not overlap. Subnet IPv6 CIDRs configured: ${subnetCidrs}`,
+      );
+    }
+    if (helpers.hasDuplicates(subnetIndexes.map(index => index.toString()))) {
+      errors.push(
+        `[VPC ${vpcItem.name}]: duplicate ipv6SubnetIndex values defined. Subnet IPv6 indexes configured: ${subnetIndexes}`,
+      );
+    }
+  }
+
+  /**
+   * Returns the number of /64 subnets available in the first IPv6 CIDR of a VPC
+   * @param vpcItem
+   * @returns
+   */
+  private getIpv6SubnetCount(vpcItem: VpcConfig | VpcTemplatesConfig): number {
+    const ipv6Cidr = vpcItem.ipv6Cidrs?.[0];
+    let prefix = 56;
+
+    if (ipv6Cidr?.ipamAllocation) {
+      prefix = ipv6Cidr.ipamAllocation.netmaskLength;
+    } else if (ipv6Cidr?.cidrBlock && ipv6Cidr.cidrBlock.includes('/')) {
+      prefix = parseInt(ipv6Cidr.cidrBlock.split('/')[1]);
+    }
+    // CloudFormation Fn::Cidr supports a maximum of 256 subnets
+    return Math.min(256, Math.pow(2, Math.max(0, 64 - prefix)));
+  }
+
   /**
    * Validate subnet route table associations
    * @param vpcItem
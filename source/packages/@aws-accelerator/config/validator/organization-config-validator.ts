@@ -12,6 +12,7 @@
  */
 import fs from 'fs';
 import path from 'path';
+import * as t from '../lib/common-types';
 import { OrganizationConfig } from '../lib/organization-config';
 import { createLogger } from '@aws-accelerator/utils';
 
@@ -33,7 +34,7 @@ export class OrganizationConfigValidator {
     this.validateBackupPolicyFile(configDir, values, errors);
 
     if (errors.length) {
-      throw new Error(`${OrganizationConfig.FILENAME} has ${errors.length} issues:\n${errors.join('\n')}`);
+      throw t.ConfigValidationError.fromMessages(OrganizationConfig.FILENAME, errors);
     }
   }
 
@@ -13,6 +13,7 @@
 
 import { createLogger } from '@aws-accelerator/utils';
 import fs from 'fs';
+import * as yaml from 'js-yaml';
 import path from 'path';
 import { AccountsConfig } from '../lib/accounts-config';
 import * as t from '../lib/common-types';
@@ -68,6 +69,9 @@ export class SecurityConfigValidator {
     this.macieLifecycleRules(values, errors);
     this.guarddutyLifecycleRules(values, errors);
 
+    // Validate GuardDuty protection plans
+    this.validateGuardDutyProtectionPlans(values, globalConfig, errors);
+
     //
     // Validate Config rule assets
     for (const ruleSet of values.awsConfig.ruleSets ?? []) {
@@ -82,6 +86,9 @@ export class SecurityConfigValidator {
     for (const alarm of values.cloudWatch.alarmSets ?? []) {
       this.validateSnsTopics(globalConfig, alarm, snsTopicNames, errors);
     }
+    this.validateCloudWatchAlarmSets(values, snsTopicNames, errors);
+    this.validateCloudWatchDashboards(values, ouIdNames, accountNames, errors);
+    this.validateCloudWatchObservability(values, ouIdNames, accountNames, errors);
 
     this.validateSecurityHubNotifications(
       snsTopicNames,
@@ -92,8 +99,22 @@ export class SecurityConfigValidator {
 
     this.validateAwsConfigAggregation(globalConfig, accountNames, values, errors);
 
+    this.validateConformancePacks(values, configDir, ouIdNames, accountNames, errors);
+
+    this.validateInspector(values, globalConfig, errors);
+
+    this.validateSecurityLake(values, globalConfig, ouIdNames, accountNames, errors);
+
+    this.validateSecurityHubAutomation(values, globalConfig, accountNames, errors);
+
+    this.validateSecurityHubControlExceptions(values, ouIdNames, accountNames, errors);
+
     this.validateAwsCloudWatchLogGroups(values, errors);
     this.validateAwsCloudWatchLogGroupsRetention(values, errors);
+    //
+    // Validate customer managed S3 buckets
+    //
+    this.validateS3Buckets(values, accountsConfig, globalConfig, configDir, ouIdNames, accountNames, errors);
 
     if (errors.length) {
       logger.error(`${SecurityConfig.FILENAME} has ${errors.length} issues:\n${errors.join('\n')}`);
@@ -620,6 +641,375 @@ export class SecurityConfigValidator {
     }
   }
 
+  /**
+   * Function to validate the anomaly detection, metric math and composite alarms and the alarm actions of CloudWatch alarm sets
+   * @param values
+   * @param snsTopicNames
+   * @param errors
+   */
+  private validateCloudWatchAlarmSets(values: SecurityConfig, snsTopicNames: string[], errors: string[]) {
+    for (const alarmSet of values.cloudWatch.alarmSets ?? []) {
+      // snsTopicName of static threshold alarms is validated by validateSnsTopics
+      const additionalAlarms = [
+        ...(alarmSet.anomalyDetectionAlarms ?? []),
+        ...(alarmSet.metricMathAlarms ?? []),
+        ...(alarmSet.compositeAlarms ?? []),
+      ];
+      const alarmNames = [...alarmSet.alarms, ...additionalAlarms].map(item => item.alarmName);
+
+      for (const alarm of additionalAlarms) {
+        if (alarm.snsTopicName && !snsTopicNames.includes(alarm.snsTopicName)) {
+          errors.push(
+            `Alarm: ${alarm.alarmName} is configured to use snsTopicName ${alarm.snsTopicName} and the topic is not configured in the global config.`,
+          );
+        }
+      }
+      const seenAlarmNames: string[] = [];
+      for (const alarm of [...alarmSet.alarms, ...additionalAlarms]) {
+        if (seenAlarmNames.includes(alarm.alarmName)) {
+          errors.push(`Alarm: ${alarm.alarmName} is defined more than once in the alarm set.`);
+        }
+        seenAlarmNames.push(alarm.alarmName);
+        this.validateCloudWatchAlarmActions(alarm.alarmName, alarm.actions ?? [], snsTopicNames, errors);
+      }
+
+      for (const alarm of alarmSet.metricMathAlarms ?? []) {
+        const metricIds = alarm.metrics.map(item => item.id);
+        if (this.hasDuplicates(metricIds)) {
+          errors.push(`Alarm: ${alarm.alarmName} has duplicate metric ids.`);
+        }
+        for (const metricId of metricIds) {
+          if (!/^[a-z][a-zA-Z0-9_]*$/.test(metricId)) {
+            errors.push(
+              `Alarm: ${alarm.alarmName} metric id ${metricId} must start with a lowercase letter and contain only letters, numbers and underscores.`,
+            );
+          }
+        }
+      }
+
+      for (const alarm of alarmSet.compositeAlarms ?? []) {
+        const referencedAlarmNames = [
+          ...alarm.alarmRule.matchAll(/(?:ALARM|OK|INSUFFICIENT_DATA)\(\s*"?([^")]+?)"?\s*\)/g),
+        ].map(item => item[1]);
+        if (referencedAlarmNames.length === 0) {
+          errors.push(`Composite alarm: ${alarm.alarmName} alarm rule does not reference any alarm.`);
+        }
+        for (const referencedAlarmName of referencedAlarmNames) {
+          if (referencedAlarmName === alarm.alarmName || !alarmNames.includes(referencedAlarmName)) {
+            errors.push(
+              `Composite alarm: ${alarm.alarmName} references alarm ${referencedAlarmName} which is not another alarm of the alarm set.`,
+            );
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Function to validate the actions of a CloudWatch alarm
+   * @param alarmName
+   * @param actions
+   * @param snsTopicNames
+   * @param errors
+   */
+  private validateCloudWatchAlarmActions(
+    alarmName: string,
+    actions: t.TypeOf<typeof SecurityConfigTypes.alarmActionConfig>[],
+    snsTopicNames: string[],
+    errors: string[],
+  ) {
+    for (const action of actions) {
+      switch (action.type) {
+        case 'snsTopic':
+          if (!action.snsTopicName || !snsTopicNames.includes(action.snsTopicName)) {
+            errors.push(
+              `Alarm: ${alarmName} snsTopic action must reference an snsTopicName configured in the global config.`,
+            );
+          }
+          break;
+        case 'opsItem':
+          if (!action.opsItemSeverity) {
+            errors.push(`Alarm: ${alarmName} opsItem action must define an opsItemSeverity.`);
+          }
+          break;
+        case 'autoScalingPolicy':
+          if (!/^arn:[\w-]+:autoscaling:[\w-]+:\d{12}:scalingPolicy:.+$/.test(action.autoScalingPolicyArn ?? '')) {
+            errors.push(`Alarm: ${alarmName} autoScalingPolicy action must define a valid autoScalingPolicyArn.`);
+          }
+          break;
+      }
+    }
+  }
+
+  /**
+   * Function to validate CloudWatch dashboards
+   * Make sure widgets reference metrics of the metric sets and alarms of the alarm sets
+   * @param values
+   * @param ouIdNames
+   * @param accountNames
+   * @param errors
+   */
+  private validateCloudWatchDashboards(
+    values: SecurityConfig,
+    ouIdNames: string[],
+    accountNames: string[],
+    errors: string[],
+  ) {
+    const metricNames = values.cloudWatch.metricSets.flatMap(item => item.metrics.map(metric => metric.metricName));
+    const alarmNames = values.cloudWatch.alarmSets.flatMap(item => [
+      ...item.alarms.map(alarm => alarm.alarmName),
+      ...(item.anomalyDetectionAlarms ?? []).map(alarm => alarm.alarmName),
+      ...(item.metricMathAlarms ?? []).map(alarm => alarm.alarmName),
+      ...(item.compositeAlarms ?? []).map(alarm => alarm.alarmName),
+    ]);
+
+    const dashboardNames: string[] = [];
+    for (const dashboard of values.cloudWatch.dashboards ?? []) {
+      if (dashboardNames.includes(dashboard.dashboardName)) {
+        errors.push(`Duplicate CloudWatch dashboard name ${dashboard.dashboardName}.`);
+      }
+      dashboardNames.push(dashboard.dashboardName);
+
+      for (const ou of dashboard.deploymentTargets.organizationalUnits ?? []) {
+        if (!ouIdNames.includes(ou)) {
+          errors.push(
+            `Deployment target OU ${ou} for CloudWatch dashboard ${dashboard.dashboardName} does not exists in organization-config.yaml file.`,
+          );
+        }
+      }
+      for (const account of dashboard.deploymentTargets.accounts ?? []) {
+        if (!accountNames.includes(account)) {
+          errors.push(
+            `Deployment target account ${account} for CloudWatch dashboard ${dashboard.dashboardName} does not exists in accounts-config.yaml file.`,
+          );
+        }
+      }
+
+      for (const widget of dashboard.widgets) {
+        if (widget.width !== undefined && (widget.width < 1 || widget.width > 24)) {
+          errors.push(`CloudWatch dashboard ${dashboard.dashboardName} widget width must be between 1 and 24.`);
+        }
+        if (widget.type === 'metric' && !widget.metrics?.length) {
+          errors.push(`CloudWatch dashboard ${dashboard.dashboardName} metric widget must define metrics.`);
+        }
+        if (widget.type === 'alarm' && !widget.alarms?.length) {
+          errors.push(`CloudWatch dashboard ${dashboard.dashboardName} alarm widget must define alarms.`);
+        }
+        if (widget.type === 'text' && !widget.markdown) {
+          errors.push(`CloudWatch dashboard ${dashboard.dashboardName} text widget must define markdown.`);
+        }
+        for (const metricName of widget.metrics ?? []) {
+          if (!metricNames.includes(metricName)) {
+            errors.push(
+              `CloudWatch dashboard ${dashboard.dashboardName} references metric ${metricName} which is not defined in metricSets.`,
+            );
+          }
+        }
+        for (const alarmName of widget.alarms ?? []) {
+          if (!alarmNames.includes(alarmName)) {
+            errors.push(
+              `CloudWatch dashboard ${dashboard.dashboardName} references alarm ${alarmName} which is not defined in alarmSets.`,
+            );
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Function to validate CloudWatch cross-account observability configuration
+   * @param values
+   * @param ouIdNames
+   * @param accountNames
+   * @param errors
+   */
+  private validateCloudWatchObservability(
+    values: SecurityConfig,
+    ouIdNames: string[],
+    accountNames: string[],
+    errors: string[],
+  ) {
+    const observability = values.cloudWatch.observability;
+    if (!observability) {
+      return;
+    }
+
+    if (!accountNames.includes(observability.sinkAccount)) {
+      errors.push(
+        `CloudWatch observability sink account ${observability.sinkAccount} does not exists in accounts-config.yaml file.`,
+      );
+    }
+    if (!/^[a-zA-Z0-9_.-]{1,255}$/.test(observability.sinkName)) {
+      errors.push(
+        `CloudWatch observability sink name ${observability.sinkName} must be up to 255 letters, numbers, periods, hyphens or underscores.`,
+      );
+    }
+    if (observability.resourceTypes.length === 0 || this.hasDuplicates(observability.resourceTypes)) {
+      errors.push(`CloudWatch observability resourceTypes must list each of metrics, logs or traces at most once.`);
+    }
+    for (const ou of observability.deploymentTargets.organizationalUnits ?? []) {
+      if (!ouIdNames.includes(ou)) {
+        errors.push(
+          `Deployment target OU ${ou} for CloudWatch observability does not exists in organization-config.yaml file.`,
+        );
+      }
+    }
+    for (const account of observability.deploymentTargets.accounts ?? []) {
+      if (!accountNames.includes(account)) {
+        errors.push(
+          `Deployment target account ${account} for CloudWatch observability does not exists in accounts-config.yaml file.`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Validate customer managed S3 buckets
+   * @param values
+   * @param globalConfig
+   * @param configDir
+   * @param ouIdNames
+   * @param accountNames
+   * @param errors
+   */
+  private validateS3Buckets(
+    values: SecurityConfig,
+    accountsConfig: AccountsConfig,
+    globalConfig: GlobalConfig,
+    configDir: string,
+    ouIdNames: string[],
+    accountNames: string[],
+    errors: string[],
+  ) {
+    const bucketNames = (values.s3Buckets ?? []).map(item => item.name);
+    if (this.hasDuplicates(bucketNames)) {
+      errors.push(`Duplicate S3 bucket names defined [${bucketNames}].`);
+    }
+
+    for (const bucket of values.s3Buckets ?? []) {
+      // The account ID and region are appended to the name, bucket names are limited to 63 characters
+      if (!/^[a-z0-9][a-z0-9-]{1,33}[a-z0-9]$/.test(bucket.name)) {
+        errors.push(
+          `S3 bucket name ${bucket.name} must be 3 to 35 lowercase letters, numbers or hyphens, starting and ending with a letter or number.`,
+        );
+      }
+      for (const region of bucket.regions ?? []) {
+        if (!globalConfig.enabledRegions.includes(region)) {
+          errors.push(`S3 bucket ${bucket.name} region ${region} is not part of the enabledRegions of global-config.`);
+        }
+      }
+      if (bucket.kmsKey) {
+        this.validateS3BucketKey(values, bucket, accountsConfig, globalConfig, errors);
+      }
+      if (bucket.policy && !fs.existsSync(path.join(configDir, bucket.policy))) {
+        errors.push(`S3 bucket ${bucket.name} policy file ${bucket.policy} not found !!!`);
+      }
+      if (bucket.replication && !accountNames.includes(bucket.replication.account)) {
+        errors.push(
+          `S3 bucket ${bucket.name} replication account ${bucket.replication.account} does not exists in accounts-config.yaml file.`,
+        );
+      }
+      if (
+        bucket.objectLock &&
+        (!Number.isInteger(bucket.objectLock.retentionDays) || bucket.objectLock.retentionDays < 1)
+      ) {
+        errors.push(`S3 bucket ${bucket.name} object lock retentionDays must be a positive whole number of days.`);
+      }
+      for (const lifecycleRule of bucket.lifecycleRules ?? []) {
+        if (lifecycleRule.expiration && !lifecycleRule.noncurrentVersionExpiration) {
+          errors.push(`You must supply a value for noncurrentVersionExpiration. S3 bucket ${bucket.name}`);
+        }
+        if (!lifecycleRule.abortIncompleteMultipartUpload) {
+          errors.push(`You must supply a value for abortIncompleteMultipartUpload. S3 bucket ${bucket.name}`);
+        }
+        if (lifecycleRule.expiration && lifecycleRule.expiredObjectDeleteMarker) {
+          errors.push(`You may not configure expiredObjectDeleteMarker with expiration. S3 bucket ${bucket.name}`);
+        }
+      }
+      for (const ou of bucket.deploymentTargets.organizationalUnits ?? []) {
+        if (!ouIdNames.includes(ou)) {
+          errors.push(
+            `Deployment target OU ${ou} for S3 bucket ${bucket.name} does not exists in organization-config.yaml file.`,
+          );
+        }
+      }
+      for (const account of bucket.deploymentTargets.accounts ?? []) {
+        if (!accountNames.includes(account)) {
+          errors.push(
+            `Deployment target account ${account} for S3 bucket ${bucket.name} does not exists in accounts-config.yaml file.`,
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Function to validate that the KMS key of a customer managed S3 bucket is deployed
+   * to every account and region of the bucket
+   * @param values
+   * @param bucket
+   * @param accountsConfig
+   * @param globalConfig
+   * @param errors
+   */
+  private validateS3BucketKey(
+    values: SecurityConfig,
+    bucket: t.TypeOf<typeof SecurityConfigTypes.s3BucketConfig>,
+    accountsConfig: AccountsConfig,
+    globalConfig: GlobalConfig,
+    errors: string[],
+  ) {
+    const keySet = values.keyManagementService.keySets.find(item => item.name === bucket.kmsKey);
+    if (!keySet) {
+      errors.push(`S3 bucket ${bucket.name} KMS key ${bucket.kmsKey} does not exist in keyManagementService keySets.`);
+      return;
+    }
+
+    const keyAccountNames = this.getAccountNamesFromDeploymentTargets(keySet.deploymentTargets, accountsConfig);
+    const missingAccountNames = this.getAccountNamesFromDeploymentTargets(
+      bucket.deploymentTargets,
+      accountsConfig,
+    ).filter(item => !keyAccountNames.includes(item));
+    if (missingAccountNames.length > 0) {
+      errors.push(
+        `S3 bucket ${bucket.name} KMS key ${bucket.kmsKey} is not deployed to bucket accounts [${missingAccountNames}].`,
+      );
+    }
+
+    const bucketExcludedRegions: string[] = bucket.deploymentTargets.excludedRegions ?? [];
+    const keyExcludedRegions: string[] = keySet.deploymentTargets.excludedRegions ?? [];
+    const missingRegions = (bucket.regions ?? [globalConfig.homeRegion]).filter(
+      item => !bucketExcludedRegions.includes(item) && keyExcludedRegions.includes(item),
+    );
+    if (missingRegions.length > 0) {
+      errors.push(
+        `S3 bucket ${bucket.name} KMS key ${bucket.kmsKey} is not deployed to bucket regions [${missingRegions}].`,
+      );
+    }
+  }
+
+  /**
+   * Function to get the account names of deployment targets
+   * @param deploymentTargets
+   * @param accountsConfig
+   * @returns
+   */
+  private getAccountNamesFromDeploymentTargets(
+    deploymentTargets: t.TypeOf<typeof t.deploymentTargets>,
+    accountsConfig: AccountsConfig,
+  ): string[] {
+    const accountNames: string[] = [];
+    for (const account of [...accountsConfig.mandatoryAccounts, ...accountsConfig.workloadAccounts]) {
+      if (
+        (deploymentTargets.organizationalUnits ?? []).some(ou => ou === 'Root' || ou === account.organizationalUnit) ||
+        (deploymentTargets.accounts ?? []).includes(account.name)
+      ) {
+        accountNames.push(account.name);
+      }
+    }
+    return accountNames.filter(item => !(deploymentTargets.excludedAccounts ?? []).includes(item));
+  }
+
   private validateSecurityHubNotifications(
     snsTopicNames: string[],
     snsTopicName: string | undefined,
@@ -678,4 +1068,520 @@ export class SecurityConfigValidator {
       );
     }
   }
+
+  /**
+   * Function to validate the Amazon GuardDuty protection plans
+   * @param values
+   * @param globalConfig
+   * @param errors
+   */
+  private validateGuardDutyProtectionPlans(values: SecurityConfig, globalConfig: GlobalConfig, errors: string[]) {
+    const guardduty = values.centralSecurityServices.guardduty;
+    const protectionPlans = [
+      { name: 'ebsProtection', config: guardduty.ebsProtection },
+      { name: 'rdsProtection', config: guardduty.rdsProtection },
+      { name: 'lambdaProtection', config: guardduty.lambdaProtection },
+      { name: 'runtimeMonitoring', config: guardduty.runtimeMonitoring },
+    ];
+
+    for (const protectionPlan of protectionPlans) {
+      if (!protectionPlan.config?.enable) {
+        continue;
+      }
+      if (!guardduty.enable) {
+        errors.push(
+          `Amazon GuardDuty ${protectionPlan.name} is enabled but Amazon GuardDuty is not, set centralSecurityServices.guardduty.enable to true.`,
+        );
+      }
+      for (const region of protectionPlan.config.excludeRegions ?? []) {
+        if (!globalConfig.enabledRegions.includes(region)) {
+          errors.push(
+            `Amazon GuardDuty ${protectionPlan.name} excluded region ${region} is not part of the enabledRegions of global-config.`,
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Function to validate the custom actions, insights and automation rules of Security Hub
+   * @param values
+   * @param accountNames
+   * @param errors
+   */
+  private validateSecurityHubAutomation(
+    values: SecurityConfig,
+    globalConfig: GlobalConfig,
+    accountNames: string[],
+    errors: string[],
+  ) {
+    const securityHub = values.centralSecurityServices.securityHub;
+    // Custom actions are created in the home region only with region aggregation, otherwise in every Security Hub region
+    const customActionRegions: string[] = securityHub.regionAggregation
+      ? [globalConfig.homeRegion]
+      : globalConfig.enabledRegions.filter(item => !securityHub.excludeRegions.includes(item));
+
+    const customActionIds: string[] = [];
+    for (const customAction of securityHub.customActions ?? []) {
+      if (customAction.name.length > 20) {
+        errors.push(`Security Hub custom action name ${customAction.name} must be up to 20 characters.`);
+      }
+      if (!/^[a-zA-Z0-9]{1,20}$/.test(customAction.id)) {
+        errors.push(`Security Hub custom action id ${customAction.id} must be up to 20 alphanumeric characters.`);
+      }
+      if (customActionIds.includes(customAction.id)) {
+        errors.push(`Duplicate Security Hub custom action id ${customAction.id}.`);
+      }
+      customActionIds.push(customAction.id);
+
+      for (const target of customAction.targets ?? []) {
+        const pattern =
+          target.type === 'lambda'
+            ? /^arn:[\w-]+:lambda:[\w-]+:\d{12}:function:.+$/
+            : /^arn:[\w-]+:events:[\w-]+:\d{12}:event-bus\/.+$/;
+        if (!pattern.test(target.arn)) {
+          errors.push(
+            `Security Hub custom action ${customAction.name} target ${target.arn} is not a valid ${target.type} ARN.`,
+          );
+        } else if (target.type === 'lambda' && customActionRegions.some(item => item !== target.arn.split(':')[3])) {
+          errors.push(
+            `Security Hub custom action ${customAction.name} Lambda target ${target.arn} must be in the region of the custom action [${customActionRegions}].`,
+          );
+        }
+      }
+    }
+
+    const insightNames: string[] = [];
+    for (const insight of securityHub.insights ?? []) {
+      if (insightNames.includes(insight.name)) {
+        errors.push(`Duplicate Security Hub insight name ${insight.name}.`);
+      }
+      insightNames.push(insight.name);
+      this.validateSecurityHubFindingFilters(`insight ${insight.name}`, insight.filters, accountNames, errors);
+    }
+
+    const automationRuleNames: string[] = [];
+    for (const automationRule of securityHub.automationRules ?? []) {
+      if (automationRuleNames.includes(automationRule.name)) {
+        errors.push(`Duplicate Security Hub automation rule name ${automationRule.name}.`);
+      }
+      automationRuleNames.push(automationRule.name);
+
+      if (
+        !Number.isInteger(automationRule.ruleOrder) ||
+        automationRule.ruleOrder < 1 ||
+        automationRule.ruleOrder > 1000
+      ) {
+        errors.push(
+          `Security Hub automation rule ${automationRule.name} ruleOrder must be an integer between 1 and 1000.`,
+        );
+      }
+      if (Object.values(automationRule.criteria ?? {}).every(item => item === undefined || item.length === 0)) {
+        errors.push(`Security Hub automation rule ${automationRule.name} must define at least one criteria.`);
+      }
+      if (
+        !automationRule.actions.workflowStatus &&
+        !automationRule.actions.severityLabel &&
+        !automationRule.actions.note
+      ) {
+        errors.push(
+          `Security Hub automation rule ${automationRule.name} must define at least one of workflowStatus, severityLabel or note actions.`,
+        );
+      }
+      this.validateSecurityHubFindingFilters(
+        `automation rule ${automationRule.name}`,
+        automationRule.criteria,
+        accountNames,
+        errors,
+      );
+    }
+  }
+
+  /**
+   * Function to validate the control overrides and control parameters of Security Hub standards
+   * @param values
+   * @param ouIdNames
+   * @param accountNames
+   * @param errors
+   */
+  private validateSecurityHubControlExceptions(
+    values: SecurityConfig,
+    ouIdNames: string[],
+    accountNames: string[],
+    errors: string[],
+  ) {
+    const controlParameterStandards = new Map<string, string>();
+    for (const standard of values.centralSecurityServices.securityHub.standards) {
+      const overrideControlIds: string[] = [];
+      for (const override of standard.controlOverrides ?? []) {
+        if (overrideControlIds.includes(override.controlId)) {
+          errors.push(`Duplicate Security Hub control override ${override.controlId} for standard ${standard.name}.`);
+        }
+        overrideControlIds.push(override.controlId);
+        this.validateSecurityHubControlTargets(
+          `standard ${standard.name} control override ${override.controlId}`,
+          override.deploymentTargets,
+          ouIdNames,
+          accountNames,
+          errors,
+        );
+      }
+
+      const parameterControlIds: string[] = [];
+      for (const controlParameter of standard.controlParameters ?? []) {
+        if (parameterControlIds.includes(controlParameter.controlId)) {
+          errors.push(
+            `Duplicate Security Hub control parameters ${controlParameter.controlId} for standard ${standard.name}.`,
+          );
+        }
+        parameterControlIds.push(controlParameter.controlId);
+
+        if (controlParameter.parameters.length === 0) {
+          errors.push(
+            `Security Hub standard ${standard.name} control parameters ${controlParameter.controlId} must define at least one parameter.`,
+          );
+        }
+        if (
+          this.hasDuplicates(controlParameter.parameters.map(item => item.name)) ||
+          controlParameter.parameters.some(item => Array.isArray(item.value) && item.value.length === 0)
+        ) {
+          errors.push(
+            `Security Hub standard ${standard.name} control parameters ${controlParameter.controlId} must define each parameter once with a non-empty value.`,
+          );
+        }
+
+        // Control parameters apply to the security control across all standards, so they are defined once
+        const existingStandard = controlParameterStandards.get(controlParameter.controlId);
+        if (existingStandard && existingStandard !== standard.name) {
+          errors.push(
+            `Security Hub control parameters ${controlParameter.controlId} are defined in both standards ${existingStandard} and ${standard.name}, define them in one standard only.`,
+          );
+        }
+        controlParameterStandards.set(controlParameter.controlId, standard.name);
+
+        if (controlParameter.deploymentTargets) {
+          this.validateSecurityHubControlTargets(
+            `standard ${standard.name} control parameters ${controlParameter.controlId}`,
+            controlParameter.deploymentTargets,
+            ouIdNames,
+            accountNames,
+            errors,
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Function to validate the deployment targets of a Security Hub control exception
+   * @param name
+   * @param deploymentTargets
+   * @param ouIdNames
+   * @param accountNames
+   * @param errors
+   */
+  private validateSecurityHubControlTargets(
+    name: string,
+    deploymentTargets: t.DeploymentTargets,
+    ouIdNames: string[],
+    accountNames: string[],
+    errors: string[],
+  ) {
+    if (!deploymentTargets.organizationalUnits?.length && !deploymentTargets.accounts?.length) {
+      errors.push(`Security Hub ${name} must target at least one organizational unit or account.`);
+    }
+    for (const ou of deploymentTargets.organizationalUnits ?? []) {
+      if (!ouIdNames.includes(ou)) {
+        errors.push(
+          `Deployment target OU ${ou} for Security Hub ${name} does not exists in organization-config.yaml file.`,
+        );
+      }
+    }
+    for (const account of [...(deploymentTargets.accounts ?? []), ...(deploymentTargets.excludedAccounts ?? [])]) {
+      if (!accountNames.includes(account)) {
+        errors.push(
+          `Deployment target account ${account} for Security Hub ${name} does not exists in accounts-config.yaml file.`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Function to validate the accounts of Security Hub finding filters
+   * @param name
+   * @param filters
+   * @param accountNames
+   * @param errors
+   */
+  private validateSecurityHubFindingFilters(
+    name: string,
+    filters: t.TypeOf<typeof SecurityConfigTypes.securityHubFindingFiltersConfig>,
+    accountNames: string[],
+    errors: string[],
+  ) {
+    for (const account of filters.accounts ?? []) {
+      if (!accountNames.includes(account) && !/^\d{12}$/.test(account)) {
+        errors.push(
+          `Security Hub ${name} account ${account} is neither an account of accounts-config nor an account id.`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Function to validate Amazon Inspector configuration
+   * @param values
+   * @param globalConfig
+   * @param errors
+   */
+  private validateInspector(values: SecurityConfig, globalConfig: GlobalConfig, errors: string[]) {
+    const inspector = values.centralSecurityServices.inspector;
+    if (!inspector?.enable) {
+      return;
+    }
+
+    if (!(inspector.ec2Scanning ?? true) && !(inspector.ecrScanning ?? true) && !(inspector.lambdaScanning ?? false)) {
+      errors.push(`Amazon Inspector is enabled but none of ec2Scanning, ecrScanning or lambdaScanning is enabled.`);
+    }
+
+    if (values.getDelegatedAccountName() === AccountsConfig.MANAGEMENT_ACCOUNT) {
+      errors.push(
+        `Amazon Inspector delegated admin account can not be the ${AccountsConfig.MANAGEMENT_ACCOUNT} account, update centralSecurityServices.delegatedAdminAccount.`,
+      );
+    }
+
+    for (const region of inspector.excludeRegions ?? []) {
+      if (!globalConfig.enabledRegions.includes(region)) {
+        errors.push(`Amazon Inspector excluded region ${region} is not part of the enabledRegions of global-config.`);
+      }
+    }
+  }
+
+  /**
+   * Function to validate Amazon Security Lake configuration
+   * @param values
+   * @param globalConfig
+   * @param ouIdNames
+   * @param accountNames
+   * @param errors
+   */
+  private validateSecurityLake(
+    values: SecurityConfig,
+    globalConfig: GlobalConfig,
+    ouIdNames: string[],
+    accountNames: string[],
+    errors: string[],
+  ) {
+    const securityLake = values.centralSecurityServices.securityLake;
+    if (!securityLake?.enable) {
+      return;
+    }
+
+    const delegatedAdminAccount = values.getSecurityLakeDelegatedAccountName();
+    if (!accountNames.includes(delegatedAdminAccount)) {
+      errors.push(
+        `Security Lake delegated admin account ${delegatedAdminAccount} does not exist in the accounts-config.yaml file.`,
+      );
+    } else if (delegatedAdminAccount === AccountsConfig.MANAGEMENT_ACCOUNT) {
+      errors.push(`Security Lake delegated admin account can not be the ${AccountsConfig.MANAGEMENT_ACCOUNT} account.`);
+    }
+
+    for (const region of securityLake.excludeRegions ?? []) {
+      if (!globalConfig.enabledRegions.includes(region)) {
+        errors.push(`Security Lake excluded region ${region} is not part of the enabledRegions of global-config.`);
+      }
+    }
+    const regions = globalConfig.enabledRegions.filter(region => !(securityLake.excludeRegions ?? []).includes(region));
+    if (regions.length === 0) {
+      errors.push(`Security Lake excludes every enabled region.`);
+    }
+
+    // Validate lifecycle
+    const expiration = securityLake.lifecycle?.expiration;
+    for (const transition of securityLake.lifecycle?.transitions ?? []) {
+      if (expiration !== undefined && transition.transitionAfter >= expiration) {
+        errors.push(
+          `Security Lake lifecycle transition to ${transition.storageClass} after ${transition.transitionAfter} days must happen before the expiration after ${expiration} days.`,
+        );
+      }
+    }
+
+    // Validate rollup regions
+    const rollupRegions = (securityLake.rollupRegions ?? []).map(item => item.region);
+    const contributingRegions = (securityLake.rollupRegions ?? []).flatMap(item => item.contributingRegions);
+    for (const region of [...rollupRegions, ...contributingRegions]) {
+      if (!regions.includes(region)) {
+        errors.push(`Security Lake rollup configuration region ${region} is not a region of the data lake.`);
+      }
+    }
+    if (this.hasDuplicates(contributingRegions)) {
+      errors.push(`Security Lake contributing regions can only contribute to one rollup region.`);
+    }
+    for (const region of rollupRegions.filter(item => contributingRegions.includes(item))) {
+      errors.push(`Security Lake rollup region ${region} can not be a contributing region.`);
+    }
+
+    // Validate sources
+    const sources = securityLake.sources ?? [];
+    if (this.hasDuplicates(sources.map(source => `${source.name}:${source.version ?? ''}`))) {
+      errors.push(`Duplicate Security Lake sources defined. Each source and version can only be defined once.`);
+    }
+    for (const source of sources) {
+      for (const ou of source.deploymentTargets.organizationalUnits ?? []) {
+        if (!ouIdNames.includes(ou)) {
+          errors.push(
+            `Deployment target OU ${ou} for Security Lake source ${source.name} does not exist in organization-config.yaml file.`,
+          );
+        }
+      }
+      for (const account of [
+        ...(source.deploymentTargets.accounts ?? []),
+        ...(source.deploymentTargets.excludedAccounts ?? []),
+      ]) {
+        if (!accountNames.includes(account)) {
+          errors.push(
+            `Deployment target account ${account} for Security Lake source ${source.name} does not exist in accounts-config.yaml file.`,
+          );
+        }
+      }
+    }
+
+    // Validate subscribers
+    const subscribers = securityLake.subscribers ?? [];
+    if (this.hasDuplicates(subscribers.map(subscriber => subscriber.name))) {
+      errors.push(`Duplicate Security Lake subscriber names defined. Subscriber names must be unique.`);
+    }
+    for (const subscriber of subscribers) {
+      if (!accountNames.includes(subscriber.account) && !/^\d{12}$/.test(subscriber.account)) {
+        errors.push(
+          `Security Lake subscriber ${subscriber.name} account ${subscriber.account} is neither an account of accounts-config.yaml nor an AWS account ID.`,
+        );
+      }
+      if (subscriber.accessTypes.length === 0) {
+        errors.push(`Security Lake subscriber ${subscriber.name} must have at least one access type.`);
+      }
+      for (const sourceName of subscriber.sources) {
+        if (!sources.find(source => source.name === sourceName)) {
+          errors.push(
+            `Security Lake subscriber ${subscriber.name} source ${sourceName} is not a source of the data lake.`,
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Function to validate AWS Config conformance packs, their template files and input parameters
+   * @param values
+   * @param configDir
+   * @param ouIdNames
+   * @param accountNames
+   * @param errors
+   */
+  private validateConformancePacks(
+    values: SecurityConfig,
+    configDir: string,
+    ouIdNames: string[],
+    accountNames: string[],
+    errors: string[],
+  ) {
+    const conformancePacks = values.awsConfig.conformancePacks ?? [];
+    const packNames = conformancePacks.map(pack => pack.name);
+    if (this.hasDuplicates(packNames)) {
+      errors.push(`Duplicate conformance pack names defined [${packNames}].`);
+    }
+
+    for (const pack of conformancePacks) {
+      if (!/^[a-zA-Z][-a-zA-Z0-9]*$/.test(pack.name)) {
+        errors.push(
+          `Conformance pack name ${pack.name} must start with a letter and contain only letters, numbers and hyphens`,
+        );
+      }
+      if (!pack.deploymentTargets === !pack.organization) {
+        errors.push(`Conformance pack ${pack.name} must define either deploymentTargets or organization`);
+      }
+      for (const ou of pack.deploymentTargets?.organizationalUnits ?? []) {
+        if (!ouIdNames.includes(ou)) {
+          errors.push(
+            `Deployment target OU ${ou} for conformance pack ${pack.name} does not exist in organization-config.yaml file.`,
+          );
+        }
+      }
+      for (const account of [
+        ...(pack.deploymentTargets?.accounts ?? []),
+        ...(pack.organization?.excludedAccounts ?? []),
+      ]) {
+        if (!accountNames.includes(account)) {
+          errors.push(
+            `Account ${account} for conformance pack ${pack.name} does not exist in accounts-config.yaml file.`,
+          );
+        }
+      }
+
+      const templateFilePath = path.join(configDir, pack.templateFile);
+      if (!fs.existsSync(templateFilePath)) {
+        errors.push(`Template file ${pack.templateFile} for conformance pack ${pack.name} not found !!!`);
+        continue;
+      }
+
+      let parameters: { [name: string]: { Default?: unknown } } = {};
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const template = yaml.load(fs.readFileSync(templateFilePath, 'utf8'), { schema: CFN_SCHEMA }) as any;
+        parameters = template?.Parameters ?? {};
+      } catch (e) {
+        errors.push(
+          `Template file ${pack.templateFile} for conformance pack ${pack.name} is not a valid template: ${e}`,
+        );
+        continue;
+      }
+      for (const name of Object.keys(pack.inputParameters ?? {})) {
+        if (!(name in parameters)) {
+          errors.push(
+            `Input parameter ${name} of conformance pack ${pack.name} is not defined in template file ${pack.templateFile}`,
+          );
+        }
+      }
+      for (const [name, parameter] of Object.entries(parameters)) {
+        if (parameter?.Default === undefined && !(name in (pack.inputParameters ?? {}))) {
+          errors.push(
+            `Template parameter ${name} without default value is missing from the input parameters of conformance pack ${pack.name}`,
+          );
+        }
+      }
+    }
+  }
 }
+
+/**
+ * YAML schema of CloudFormation templates, with the short form of the intrinsic functions
+ */
+const CFN_SCHEMA = yaml.DEFAULT_SCHEMA.extend(
+  [
+    'And',
+    'Base64',
+    'Cidr',
+    'Condition',
+    'Equals',
+    'FindInMap',
+    'GetAtt',
+    'GetAZs',
+    'If',
+    'ImportValue',
+    'Join',
+    'Not',
+    'Or',
+    'Ref',
+    'Select',
+    'Split',
+    'Sub',
+  ].flatMap(name =>
+    (['scalar', 'sequence', 'mapping'] as const).map(
+      kind =>
+        new yaml.Type(`!${name}`, {
+          kind,
+          construct: data => ({ [['Ref', 'Condition'].includes(name) ? name : `Fn::${name}`]: data }),
+        }),
+    ),
+  ),
+);
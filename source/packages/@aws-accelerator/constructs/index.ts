@@ -51,6 +51,8 @@ export * from './lib/aws-ec2/prefix-list-route';
 export * from './lib/aws-ec2/route-table';
 export * from './lib/aws-ec2/subnet-id-lookup';
 export * from './lib/aws-ec2/transit-gateway';
+export * from './lib/aws-ec2/transit-gateway-connect';
+export * from './lib/aws-ec2/transit-gateway-multicast';
 export * from './lib/aws-ec2/transit-gateway-peering';
 export * from './lib/aws-ec2/transit-gateway-prefix-list-reference';
 export * from './lib/aws-ec2/transit-gateway-route-table';
@@ -75,6 +77,8 @@ export * from './lib/aws-detective/detective-members';
 export * from './lib/aws-detective/detective-organization-admin-account';
 export * from './lib/aws-detective/detective-graph-config';
 export * from './lib/aws-iam/password-policy';
+export * from './lib/aws-inspector/inspector-members';
+export * from './lib/aws-inspector/inspector-organization-admin-account';
 export * from './lib/aws-firehose/cloudwatch-to-s3-firehose';
 export * from './lib/aws-fms/fms-notification-channel';
 export * from './lib/aws-fms/fms-organization-admin-account';
@@ -117,6 +121,15 @@ export * from './lib/aws-securityhub/securityhub-members';
 export * from './lib/aws-securityhub/securityhub-organization-admin-account';
 export * from './lib/aws-securityhub/securityhub-standards';
 export * from './lib/aws-securityhub/securityhub-region-aggregation';
+export * from './lib/aws-securityhub/securityhub-custom-action';
+export * from './lib/aws-securityhub/securityhub-finding-filters';
+export * from './lib/aws-securityhub/securityhub-insight';
+export * from './lib/aws-securityhub/securityhub-automation-rule';
+export * from './lib/aws-securityhub/securityhub-control-parameters';
+export * from './lib/aws-securitylake/securitylake-data-lake';
+export * from './lib/aws-securitylake/securitylake-log-sources';
+export * from './lib/aws-securitylake/securitylake-organization-admin-account';
+export * from './lib/aws-securitylake/securitylake-subscriber';
 export * from './lib/aws-servicecatalog/get-portfolio-id';
 export * from './lib/aws-service-quota/limits-service-quota-definition';
 export * from './lib/aws-servicecatalog/share-portfolio-with-org';
@@ -136,3 +149,4 @@ export * from './lib/aws-certificate-manager/create-certificate';
 export * from './lib/aws-identity-center/identity-center-organization-admin-account';
 export * from './lib/aws-identity-center/identity-center-get-instance-id';
 export * from './lib/aws-identity-center/identity-center-get-permission-set-role-arn';
+export * from './lib/aws-identity-center/identity-center-get-principal-id';
@@ -91,7 +91,7 @@ export class RouteTable extends cdk.Resource implements IRouteTable {
 
       route = new cdk.aws_ec2.CfnRoute(this, id, {
         routeTableId: this.routeTableId,
-        destinationCidrBlock: destination,
+        ...this.getCidrDestination(destination),
         transitGatewayId: transitGatewayId,
       });
     }
@@ -132,7 +132,7 @@ export class RouteTable extends cdk.Resource implements IRouteTable {
 
       route = new cdk.aws_ec2.CfnRoute(this, id, {
         routeTableId: this.routeTableId,
-        destinationCidrBlock: destination,
+        ...this.getCidrDestination(destination),
         natGatewayId: natGatewayId,
       });
     }
@@ -178,7 +178,7 @@ export class RouteTable extends cdk.Resource implements IRouteTable {
 
       route = new cdk.aws_ec2.CfnRoute(this, id, {
         routeTableId: this.routeTableId,
-        destinationCidrBlock: destination,
+        ...this.getCidrDestination(destination),
         gatewayId: this.vpc.internetGateway.ref,
       });
     }
@@ -189,6 +189,47 @@ export class RouteTable extends cdk.Resource implements IRouteTable {
     return route;
   }
 
+  public addEgressOnlyInternetGatewayRoute(
+    id: string,
+    destination?: string,
+    destinationPrefixListId?: string,
+    logGroupKmsKey?: cdk.aws_kms.Key,
+    logRetentionInDays?: number,
+  ): cdk.aws_ec2.CfnRoute | PrefixListRoute {
+    if (!this.vpc.egressOnlyInternetGateway) {
+      throw new Error('Attempting to add Egress-only Internet Gateway route without an EIGW defined.');
+    }
+    let route: cdk.aws_ec2.CfnRoute | PrefixListRoute;
+
+    if (destinationPrefixListId) {
+      if (!logGroupKmsKey) {
+        throw new Error('Attempting to add prefix list route without specifying log group KMS key');
+      }
+      if (!logRetentionInDays) {
+        throw new Error('Attempting to add prefix list route without specifying log group retention period');
+      }
+
+      route = new PrefixListRoute(this, id, {
+        routeTableId: this.routeTableId,
+        destinationPrefixListId,
+        logGroupKmsKey,
+        logRetentionInDays,
+        egressOnlyInternetGatewayId: this.vpc.egressOnlyInternetGateway.ref,
+      });
+    } else {
+      if (!destination) {
+        throw new Error('Attempting to add CIDR route without specifying destination');
+      }
+
+      route = new cdk.aws_ec2.CfnRoute(this, id, {
+        routeTableId: this.routeTableId,
+        ...this.getCidrDestination(destination),
+        egressOnlyInternetGatewayId: this.vpc.egressOnlyInternetGateway.ref,
+      });
+    }
+    return route;
+  }
+
   public addVirtualPrivateGatewayRoute(
     id: string,
     destination?: string,
@@ -222,7 +263,7 @@ export class RouteTable extends cdk.Resource implements IRouteTable {
 
       route = new cdk.aws_ec2.CfnRoute(this, id, {
         routeTableId: this.routeTableId,
-        destinationCidrBlock: destination,
+        ...this.getCidrDestination(destination),
         gatewayId: this.vpc.virtualPrivateGateway.gatewayId,
       });
     }
@@ -250,4 +291,19 @@ export class RouteTable extends cdk.Resource implements IRouteTable {
       association.node.addDependency(this.vpc.virtualPrivateGatewayAttachment!);
     }
   }
+
+  /**
+   * Returns the CIDR destination property for a route,
+   * using `destinationIpv6CidrBlock` for IPv6 CIDRs
+   * @param destination
+   * @returns
+   */
+  private getCidrDestination(destination: string): {
+    destinationCidrBlock?: string;
+    destinationIpv6CidrBlock?: string;
+  } {
+    return destination.includes(':')
+      ? { destinationIpv6CidrBlock: destination }
+      : { destinationCidrBlock: destination };
+  }
 }
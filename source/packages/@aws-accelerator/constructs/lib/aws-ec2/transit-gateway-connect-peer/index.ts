@@ -0,0 +1,214 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as AWS from 'aws-sdk';
+
+import { throttlingBackOff } from '@aws-accelerator/utils';
+
+interface ConnectPeerProps {
+  readonly TransitGatewayAttachmentId: string;
+  readonly PeerAddress: string;
+  readonly InsideCidrBlocks: string[];
+  readonly PeerAsn: string;
+  readonly TransitGatewayAddress?: string;
+  readonly Tags?: AWS.EC2.TagList;
+}
+
+/**
+ * aws-ec2-transit-gateway-connect-peer - lambda handler
+ *
+ * @param event
+ * @returns
+ */
+export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent): Promise<
+  | {
+      PhysicalResourceId: string;
+      Status: string;
+    }
+  | undefined
+> {
+  const props: ConnectPeerProps = event.ResourceProperties['connectPeer'];
+  const solutionId = process.env['SOLUTION_ID'];
+
+  const ec2 = new AWS.EC2({ customUserAgent: solutionId });
+
+  switch (event.RequestType) {
+    case 'Create':
+      return {
+        PhysicalResourceId: await createConnectPeer(ec2, props),
+        Status: 'SUCCESS',
+      };
+
+    case 'Update':
+      const oldProps: ConnectPeerProps = event.OldResourceProperties['connectPeer'];
+
+      // Tags are the only mutable property of a Connect peer
+      if (!hasImmutablePropertyChanges(oldProps, props)) {
+        await updateConnectPeerTags(ec2, event.PhysicalResourceId, oldProps.Tags ?? [], props.Tags ?? []);
+        return {
+          PhysicalResourceId: event.PhysicalResourceId,
+          Status: 'SUCCESS',
+        };
+      }
+
+      //
+      // Inside CIDR blocks must be unique across the Connect peers of a transit gateway,
+      // so the previous peer is deleted before the replacement is created.
+      // CloudFormation then deletes the previous physical ID, which no longer exists.
+      //
+      await deleteConnectPeer(ec2, event.PhysicalResourceId);
+      return {
+        PhysicalResourceId: await createConnectPeer(ec2, props),
+        Status: 'SUCCESS',
+      };
+
+    case 'Delete':
+      await deleteConnectPeer(ec2, event.PhysicalResourceId);
+      return {
+        PhysicalResourceId: event.PhysicalResourceId,
+        Status: 'SUCCESS',
+      };
+  }
+}
+
+/**
+ * Create a Connect peer and wait until it is available
+ * @param ec2
+ * @param props
+ * @returns
+ */
+async function createConnectPeer(ec2: AWS.EC2, props: ConnectPeerProps): Promise<string> {
+  const response = await throttlingBackOff(() =>
+    ec2
+      .createTransitGatewayConnectPeer({
+        TransitGatewayAttachmentId: props.TransitGatewayAttachmentId,
+        PeerAddress: props.PeerAddress,
+        InsideCidrBlocks: props.InsideCidrBlocks,
+        BgpOptions: { PeerAsn: Number(props.PeerAsn) },
+        TransitGatewayAddress: props.TransitGatewayAddress,
+        TagSpecifications: props.Tags
+          ? [{ ResourceType: 'transit-gateway-connect-peer', Tags: props.Tags }]
+          : undefined,
+      })
+      .promise(),
+  );
+  const connectPeerId = response.TransitGatewayConnectPeer?.TransitGatewayConnectPeerId;
+
+  if (!connectPeerId) {
+    throw new Error(
+      `Unable to create Connect peer ${props.PeerAddress} for attachment ${props.TransitGatewayAttachmentId}`,
+    );
+  }
+
+  await waitForConnectPeerState(ec2, connectPeerId, 'available');
+  return connectPeerId;
+}
+
+/**
+ * Delete a Connect peer, if it still exists, and wait until it is deleted
+ * @param ec2
+ * @param connectPeerId
+ */
+async function deleteConnectPeer(ec2: AWS.EC2, connectPeerId: string): Promise<void> {
+  if ((await getConnectPeerState(ec2, connectPeerId)) === 'deleted') {
+    return;
+  }
+  await throttlingBackOff(() =>
+    ec2.deleteTransitGatewayConnectPeer({ TransitGatewayConnectPeerId: connectPeerId }).promise(),
+  );
+  await waitForConnectPeerState(ec2, connectPeerId, 'deleted');
+}
+
+/**
+ * Returns true when a Connect peer property other than the tags changed
+ * @param oldProps
+ * @param props
+ * @returns
+ */
+function hasImmutablePropertyChanges(oldProps: ConnectPeerProps, props: ConnectPeerProps): boolean {
+  return JSON.stringify({ ...oldProps, Tags: undefined }) !== JSON.stringify({ ...props, Tags: undefined });
+}
+
+/**
+ * Update the tags of a Connect peer in place
+ * @param ec2
+ * @param connectPeerId
+ * @param oldTags
+ * @param tags
+ */
+async function updateConnectPeerTags(
+  ec2: AWS.EC2,
+  connectPeerId: string,
+  oldTags: AWS.EC2.TagList,
+  tags: AWS.EC2.TagList,
+): Promise<void> {
+  const removedTags = oldTags.filter(oldTag => !tags.find(tag => tag.Key === oldTag.Key));
+  if (removedTags.length > 0) {
+    await throttlingBackOff(() =>
+      ec2.deleteTags({ Resources: [connectPeerId], Tags: removedTags.map(item => ({ Key: item.Key })) }).promise(),
+    );
+  }
+  if (tags.length > 0) {
+    await throttlingBackOff(() => ec2.createTags({ Resources: [connectPeerId], Tags: tags }).promise());
+  }
+}
+
+/**
+ * Get the state of a Connect peer. Returns `deleted` if the peer no longer exists.
+ * @param ec2
+ * @param connectPeerId
+ * @returns
+ */
+async function getConnectPeerState(ec2: AWS.EC2, connectPeerId: string): Promise<string> {
+  try {
+    const response = await throttlingBackOff(() =>
+      ec2.describeTransitGatewayConnectPeers({ TransitGatewayConnectPeerIds: [connectPeerId] }).promise(),
+    );
+    return response.TransitGatewayConnectPeers?.[0]?.State ?? 'deleted';
+  } catch (e) {
+    if ((e as AWS.AWSError).code === 'InvalidTransitGatewayConnectPeerID.NotFound') {
+      return 'deleted';
+    }
+    throw e;
+  }
+}
+
+/**
+ * Wait for a Connect peer to reach the expected state
+ * @param ec2
+ * @param connectPeerId
+ * @param expectedState
+ */
+async function waitForConnectPeerState(ec2: AWS.EC2, connectPeerId: string, expectedState: string): Promise<void> {
+  // Check state every 15 seconds for up to 12 minutes
+  for (let attempt = 0; attempt < 48; attempt++) {
+    const state = await getConnectPeerState(ec2, connectPeerId);
+    if (state === expectedState) {
+      return;
+    }
+    if (state === 'failed' || (state === 'deleted' && expectedState !== 'deleted')) {
+      throw new Error(`Connect peer ${connectPeerId} is in state ${state}`);
+    }
+    await sleep(15000);
+  }
+  throw new Error(`Timed out waiting for Connect peer ${connectPeerId} to reach state ${expectedState}`);
+}
+
+/**
+ * Sleep for a specified number of milliseconds
+ * @param ms
+ * @returns
+ */
+async function sleep(ms: number) {
+  return new Promise(f => setTimeout(f, ms));
+}
@@ -0,0 +1,169 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import * as path from 'path';
+
+export interface TransitGatewayConnectProps {
+  /**
+   * The name of the Connect attachment. Will be assigned to the Name tag
+   */
+  readonly name: string;
+
+  /**
+   * The ID of the VPC or Direct Connect Gateway attachment used as the transport
+   */
+  readonly transportTransitGatewayAttachmentId: string;
+
+  /**
+   * Tags that will be attached to the Connect attachment
+   */
+  readonly tags?: cdk.CfnTag[];
+}
+
+/**
+ * Creates a Transit Gateway Connect attachment
+ */
+export class TransitGatewayConnect extends cdk.Resource {
+  public readonly transitGatewayAttachmentId: string;
+  public readonly transitGatewayAttachmentName: string;
+
+  constructor(scope: Construct, id: string, props: TransitGatewayConnectProps) {
+    super(scope, id);
+
+    const resource = new cdk.aws_ec2.CfnTransitGatewayConnect(this, 'Resource', {
+      options: { protocol: 'gre' },
+      transportTransitGatewayAttachmentId: props.transportTransitGatewayAttachmentId,
+      tags: props.tags,
+    });
+    cdk.Tags.of(this).add('Name', props.name);
+
+    this.transitGatewayAttachmentId = resource.attrTransitGatewayAttachmentId;
+    this.transitGatewayAttachmentName = props.name;
+  }
+}
+
+export interface TransitGatewayConnectPeerProps {
+  /**
+   * The name of the Connect peer. Will be assigned to the Name tag
+   */
+  readonly name: string;
+
+  /**
+   * The ID of the Connect attachment
+   */
+  readonly transitGatewayAttachmentId: string;
+
+  /**
+   * The peer IP address (GRE outer IP address) on the appliance side of the Connect peer
+   */
+  readonly peerAddress: string;
+
+  /**
+   * The range of inside IP addresses used for BGP peering
+   */
+  readonly insideCidrBlocks: string[];
+
+  /**
+   * The BGP ASN of the appliance
+   */
+  readonly peerAsn: number;
+
+  /**
+   * The peer IP address (GRE outer IP address) on the transit gateway side of the Connect peer
+   */
+  readonly transitGatewayAddress?: string;
+
+  /**
+   * Custom resource lambda log group encryption key
+   */
+  readonly logGroupKmsKey: cdk.aws_kms.IKey;
+
+  /**
+   * Custom resource lambda log retention in days
+   */
+  readonly logRetentionInDays: number;
+
+  /**
+   * Tags that will be attached to the Connect peer
+   */
+  readonly tags?: cdk.CfnTag[];
+}
+
+/**
+ * Creates a Transit Gateway Connect peer
+ */
+export class TransitGatewayConnectPeer extends cdk.Resource {
+  public readonly transitGatewayConnectPeerId: string;
+
+  constructor(scope: Construct, id: string, props: TransitGatewayConnectPeerProps) {
+    super(scope, id);
+
+    const provider = cdk.CustomResourceProvider.getOrCreateProvider(this, 'Custom::TransitGatewayConnectPeer', {
+      codeDirectory: path.join(__dirname, 'transit-gateway-connect-peer/dist'),
+      runtime: cdk.CustomResourceProviderRuntime.NODEJS_16_X,
+      policyStatements: [
+        {
+          Sid: 'AllowModifyTgwConnectPeers',
+          Effect: 'Allow',
+          Action: [
+            'ec2:CreateTags',
+            'ec2:CreateTransitGatewayConnectPeer',
+            'ec2:DeleteTags',
+            'ec2:DeleteTransitGatewayConnectPeer',
+            'ec2:DescribeTransitGatewayConnectPeers',
+          ],
+          Resource: '*',
+        },
+      ],
+    });
+
+    const resource = new cdk.CustomResource(this, 'Resource', {
+      resourceType: 'Custom::TransitGatewayConnectPeer',
+      serviceToken: provider.serviceToken,
+      properties: {
+        connectPeer: {
+          TransitGatewayAttachmentId: props.transitGatewayAttachmentId,
+          PeerAddress: props.peerAddress,
+          InsideCidrBlocks: props.insideCidrBlocks,
+          PeerAsn: props.peerAsn,
+          TransitGatewayAddress: props.transitGatewayAddress,
+          Tags: [
+            { Key: 'Name', Value: props.name },
+            ...(props.tags ?? []).map(tag => {
+              return { Key: tag.key, Value: tag.value };
+            }),
+          ],
+        },
+      },
+    });
+
+    /**
+     * Singleton pattern to define the log group for the singleton function
+     * in the stack
+     */
+    const stack = cdk.Stack.of(scope);
+    const logGroup =
+      (stack.node.tryFindChild(`${provider.node.id}LogGroup`) as cdk.aws_logs.LogGroup) ??
+      new cdk.aws_logs.LogGroup(stack, `${provider.node.id}LogGroup`, {
+        logGroupName: `/aws/lambda/${(provider.node.findChild('Handler') as cdk.aws_lambda.CfnFunction).ref}`,
+        retention: props.logRetentionInDays,
+        encryptionKey: props.logGroupKmsKey,
+        removalPolicy: cdk.RemovalPolicy.DESTROY,
+      });
+    resource.node.addDependency(logGroup);
+
+    this.transitGatewayConnectPeerId = resource.ref;
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+
+export interface ITransitGatewayMulticastDomain extends cdk.IResource {
+  /**
+   * The identifier of the transit gateway multicast domain
+   *
+   * @attribute
+   */
+  readonly transitGatewayMulticastDomainId: string;
+
+  /**
+   * The ARN of the transit gateway multicast domain
+   *
+   * @attribute
+   */
+  readonly transitGatewayMulticastDomainArn: string;
+}
+
+export interface TransitGatewayMulticastDomainProps {
+  /**
+   * The name of the multicast domain. Will be assigned to the Name tag
+   */
+  readonly name: string;
+
+  /**
+   * The ID of the transit gateway
+   */
+  readonly transitGatewayId: string;
+
+  /**
+   * Enable or disable IGMPv2 support. Disabled by default.
+   */
+  readonly igmpv2Support?: string;
+
+  /**
+   * Enable or disable support for statically configuring multicast group sources. Disabled by default.
+   */
+  readonly staticSourcesSupport?: string;
+
+  /**
+   * Enable or disable automatic acceptance of cross-account subnet associations. Disabled by default.
+   */
+  readonly autoAcceptSharedAssociations?: string;
+
+  /**
+   * Tags that will be attached to the multicast domain
+   */
+  readonly tags?: cdk.CfnTag[];
+}
+
+/**
+ * Creates a Transit Gateway multicast domain
+ */
+export class TransitGatewayMulticastDomain extends cdk.Resource implements ITransitGatewayMulticastDomain {
+  readonly transitGatewayMulticastDomainId: string;
+
+  readonly transitGatewayMulticastDomainArn: string;
+
+  constructor(scope: Construct, id: string, props: TransitGatewayMulticastDomainProps) {
+    super(scope, id);
+
+    const resource = new cdk.aws_ec2.CfnTransitGatewayMulticastDomain(this, 'Resource', {
+      transitGatewayId: props.transitGatewayId,
+      options: {
+        Igmpv2Support: props.igmpv2Support ?? 'disable',
+        StaticSourcesSupport: props.staticSourcesSupport ?? 'disable',
+        AutoAcceptSharedAssociations: props.autoAcceptSharedAssociations ?? 'disable',
+      },
+      tags: props.tags,
+    });
+    cdk.Tags.of(this).add('Name', props.name);
+
+    this.transitGatewayMulticastDomainId = resource.attrTransitGatewayMulticastDomainId;
+    this.transitGatewayMulticastDomainArn = resource.attrTransitGatewayMulticastDomainArn;
+  }
+}
+
+export interface TransitGatewayMulticastDomainAssociationProps {
+  readonly transitGatewayMulticastDomainId: string;
+  readonly transitGatewayAttachmentId: string;
+  readonly subnetId: string;
+}
+
+/**
+ * Associates a VPC attachment subnet with a Transit Gateway multicast domain
+ */
+export class TransitGatewayMulticastDomainAssociation extends cdk.Resource {
+  constructor(scope: Construct, id: string, props: TransitGatewayMulticastDomainAssociationProps) {
+    super(scope, id);
+
+    new cdk.aws_ec2.CfnTransitGatewayMulticastDomainAssociation(this, 'Resource', {
+      transitGatewayMulticastDomainId: props.transitGatewayMulticastDomainId,
+      transitGatewayAttachmentId: props.transitGatewayAttachmentId,
+      subnetId: props.subnetId,
+    });
+  }
+}
+
+export interface TransitGatewayMulticastGroupProps {
+  readonly transitGatewayMulticastDomainId: string;
+  readonly groupIpAddress: string;
+  readonly networkInterfaceId: string;
+}
+
+/**
+ * Registers a network interface as a static member of a Transit Gateway multicast group
+ */
+export class TransitGatewayMulticastGroupMember extends cdk.Resource {
+  constructor(scope: Construct, id: string, props: TransitGatewayMulticastGroupProps) {
+    super(scope, id);
+
+    new cdk.aws_ec2.CfnTransitGatewayMulticastGroupMember(this, 'Resource', {
+      transitGatewayMulticastDomainId: props.transitGatewayMulticastDomainId,
+      groupIpAddress: props.groupIpAddress,
+      networkInterfaceId: props.networkInterfaceId,
+    });
+  }
+}
+
+/**
+ * Registers a network interface as a static source of a Transit Gateway multicast group
+ */
+export class TransitGatewayMulticastGroupSource extends cdk.Resource {
+  constructor(scope: Construct, id: string, props: TransitGatewayMulticastGroupProps) {
+    super(scope, id);
+
+    new cdk.aws_ec2.CfnTransitGatewayMulticastGroupSource(this, 'Resource', {
+      transitGatewayMulticastDomainId: props.transitGatewayMulticastDomainId,
+      groupIpAddress: props.groupIpAddress,
+      networkInterfaceId: props.networkInterfaceId,
+    });
+  }
+}
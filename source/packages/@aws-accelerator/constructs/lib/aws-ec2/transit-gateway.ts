@@ -313,6 +313,11 @@ export interface TransitGatewayProps {
    */
   readonly vpnEcmpSupport?: string;
 
+  /**
+   * One or more IPv4 or IPv6 CIDR blocks for the transit gateway. Required for Connect peers.
+   */
+  readonly transitGatewayCidrBlocks?: string[];
+
   /**
    * Tags that will be attached to the transit gateway
    */
@@ -338,7 +343,9 @@ export class TransitGateway extends cdk.Resource implements ITransitGateway {
       defaultRouteTableAssociation: props.defaultRouteTableAssociation,
       defaultRouteTablePropagation: props.defaultRouteTablePropagation,
       dnsSupport: props.dnsSupport,
+      multicastSupport: props.multicastSupport,
       vpnEcmpSupport: props.vpnEcmpSupport,
+      transitGatewayCidrBlocks: props.transitGatewayCidrBlocks,
       tags: props.tags,
     });
     cdk.Tags.of(this).add('Name', props.name);
@@ -61,6 +61,9 @@ export interface SubnetProps {
   readonly basePool?: string[];
   readonly ipamAllocation?: IpamAllocationConfig;
   readonly ipv4CidrBlock?: string;
+  readonly ipv6CidrBlock?: string;
+  readonly ipv6Native?: boolean;
+  readonly assignIpv6AddressOnCreation?: boolean;
   readonly kmsKey?: cdk.aws_kms.Key;
   readonly logRetentionInDays?: number;
   readonly tags?: cdk.CfnTag[];
@@ -71,7 +74,8 @@ export interface SubnetProps {
 export class Subnet extends cdk.Resource implements ISubnet {
   public readonly subnetName: string;
   public readonly availabilityZone: string;
-  public readonly ipv4CidrBlock: string;
+  public readonly ipv4CidrBlock: string | undefined;
+  public readonly ipv6CidrBlock: string | undefined;
   public readonly mapPublicIpOnLaunch?: boolean;
   public readonly routeTable: IRouteTable;
   public readonly subnetId: string;
@@ -86,15 +90,24 @@ export class Subnet extends cdk.Resource implements ISubnet {
     this.mapPublicIpOnLaunch = props.mapPublicIpOnLaunch;
     this.routeTable = props.routeTable;
     this.outpostArn = props.outpost?.arn;
+    this.ipv6CidrBlock = props.ipv6CidrBlock;
     // Determine if IPAM subnet or native
     let resource: cdk.aws_ec2.CfnSubnet | IpamSubnet;
 
-    if (props.ipv4CidrBlock) {
+    if (props.ipv4CidrBlock || props.ipv6Native) {
+      if (props.ipv6Native && !props.ipv6CidrBlock) {
+        throw new Error(
+          `Error creating subnet ${props.name}: must specify ipv6CidrBlock property when using ipv6Native`,
+        );
+      }
       this.ipv4CidrBlock = props.ipv4CidrBlock;
 
       resource = new cdk.aws_ec2.CfnSubnet(this, 'Resource', {
         vpcId: props.vpc.vpcId,
         cidrBlock: props.ipv4CidrBlock,
+        ipv6CidrBlock: props.ipv6CidrBlock,
+        ipv6Native: props.ipv6Native,
+        assignIpv6AddressOnCreation: props.assignIpv6AddressOnCreation,
         availabilityZone: props.availabilityZone,
         mapPublicIpOnLaunch: props.mapPublicIpOnLaunch,
         tags: props.tags,
@@ -152,6 +165,14 @@ export class Subnet extends cdk.Resource implements ISubnet {
         arnFormat: cdk.ArnFormat.SLASH_RESOURCE_NAME,
         resourceName: resource.subnetId,
       });
+
+      // IPAM subnets are created by a custom resource, so the IPv6 CIDR is associated separately
+      if (props.ipv6CidrBlock) {
+        new cdk.aws_ec2.CfnSubnetCidrBlock(this, 'Ipv6CidrBlock', {
+          subnetId: this.subnetId,
+          ipv6CidrBlock: props.ipv6CidrBlock,
+        });
+      }
     }
 
     new cdk.aws_ec2.CfnSubnetRouteTableAssociation(this, 'RouteTableAssociation', {
@@ -495,6 +516,7 @@ export interface VpcProps {
   readonly dhcpOptions?: string;
   readonly enableDnsHostnames?: boolean;
   readonly enableDnsSupport?: boolean;
+  readonly egressOnlyInternetGateway?: boolean;
   readonly instanceTenancy?: 'default' | 'dedicated';
   readonly internetGateway?: boolean;
   readonly ipv4CidrBlock?: string;
@@ -511,8 +533,11 @@ export class Vpc extends cdk.Resource implements IVpc {
   public readonly name: string;
   public readonly vpcId: string;
   public readonly cidrs: cdk.aws_ec2.CfnVPCCidrBlock[];
+  public readonly ipv6Cidrs: cdk.aws_ec2.CfnVPCCidrBlock[];
+  public readonly ipv6CidrBlocks: string[];
   public readonly internetGateway: cdk.aws_ec2.CfnInternetGateway | undefined;
   public readonly internetGatewayAttachment: cdk.aws_ec2.CfnVPCGatewayAttachment | undefined;
+  public readonly egressOnlyInternetGateway: cdk.aws_ec2.CfnEgressOnlyInternetGateway | undefined;
   public readonly dhcpOptionsAssociation: cdk.aws_ec2.CfnVPCDHCPOptionsAssociation | undefined;
   public readonly virtualPrivateGateway: cdk.aws_ec2.VpnGateway | undefined;
   public readonly virtualPrivateGatewayAttachment: cdk.aws_ec2.CfnVPCGatewayAttachment | undefined;
@@ -534,6 +559,8 @@ export class Vpc extends cdk.Resource implements IVpc {
 
     this.vpcId = resource.ref;
     this.cidrs = [];
+    this.ipv6Cidrs = [];
+    this.ipv6CidrBlocks = resource.attrIpv6CidrBlocks;
     if (props.internetGateway) {
       this.internetGateway = new cdk.aws_ec2.CfnInternetGateway(this, 'InternetGateway', {});
 
@@ -543,6 +570,12 @@ export class Vpc extends cdk.Resource implements IVpc {
       });
     }
 
+    if (props.egressOnlyInternetGateway) {
+      this.egressOnlyInternetGateway = new cdk.aws_ec2.CfnEgressOnlyInternetGateway(this, 'EgressOnlyInternetGateway', {
+        vpcId: this.vpcId,
+      });
+    }
+
     if (props.virtualPrivateGateway) {
       this.virtualPrivateGateway = new cdk.aws_ec2.VpnGateway(this, `VirtualPrivateGateway`, {
         amazonSideAsn: props.virtualPrivateGateway.asn,
@@ -674,6 +707,33 @@ export class Vpc extends cdk.Resource implements IVpc {
       }),
     );
   }
+
+  public addIpv6Cidr(options: {
+    amazonProvidedIpv6CidrBlock?: boolean;
+    ipv6CidrBlock?: string;
+    ipv6IpamPoolId?: string;
+    ipv6NetmaskLength?: number;
+    ipv6Pool?: string;
+  }) {
+    // IPv6 CIDRs are tracked separately from IPv4 CIDRs so that
+    // adding an IPv4 CIDR does not change their logical IDs.
+    let logicalId = 'VpcIpv6CidrBlock';
+    if (this.ipv6Cidrs.length > 0) {
+      logicalId = `VpcIpv6CidrBlock${this.ipv6Cidrs.length}`;
+    }
+
+    // Associate an IPv6 CIDR
+    this.ipv6Cidrs.push(
+      new cdk.aws_ec2.CfnVPCCidrBlock(this, logicalId, {
+        amazonProvidedIpv6CidrBlock: options.amazonProvidedIpv6CidrBlock,
+        ipv6CidrBlock: options.ipv6CidrBlock,
+        ipv6IpamPoolId: options.ipv6IpamPoolId,
+        ipv6NetmaskLength: options.ipv6NetmaskLength,
+        ipv6Pool: options.ipv6Pool,
+        vpcId: this.vpcId,
+      }),
+    );
+  }
 }
 
 /**
@@ -24,6 +24,14 @@ export interface IApplicationLoadBalancerResource extends cdk.IResource {
    * The name of the ApplicationLoadBalancer
    */
   readonly applicationLoadBalancerName: string;
+  /**
+   * The DNS name of the ApplicationLoadBalancer
+   */
+  readonly applicationLoadBalancerDnsName: string;
+  /**
+   * The canonical hosted zone ID of the ApplicationLoadBalancer
+   */
+  readonly applicationLoadBalancerCanonicalHostedZoneId: string;
 }
 
 export type albAttributesType = {
@@ -107,6 +115,8 @@ export interface ApplicationLoadBalancerProps {
 export class ApplicationLoadBalancer extends cdk.Resource implements IApplicationLoadBalancerResource {
   public readonly applicationLoadBalancerArn: string;
   public readonly applicationLoadBalancerName: string;
+  public readonly applicationLoadBalancerDnsName: string;
+  public readonly applicationLoadBalancerCanonicalHostedZoneId: string;
   constructor(scope: Construct, id: string, props: ApplicationLoadBalancerProps) {
     super(scope, id);
     const resource = new cdk.aws_elasticloadbalancingv2.CfnLoadBalancer(this, 'Resource', {
@@ -124,6 +134,8 @@ export class ApplicationLoadBalancer extends cdk.Resource implements IApplicatio
     // Set initial properties
     this.applicationLoadBalancerArn = resource.ref;
     this.applicationLoadBalancerName = resource.attrLoadBalancerName;
+    this.applicationLoadBalancerDnsName = resource.attrDnsName;
+    this.applicationLoadBalancerCanonicalHostedZoneId = resource.attrCanonicalHostedZoneId;
 
     for (const listener of props.listeners ?? []) {
       const listenerAction: cdk.aws_elasticloadbalancingv2.CfnListener.ActionProperty =
@@ -23,6 +23,14 @@ export interface INetworkLoadBalancerResource extends cdk.IResource {
    * The name of the NetworkLoadBalancer
    */
   readonly networkLoadBalancerName: string;
+  /**
+   * The DNS name of the NetworkLoadBalancer
+   */
+  readonly networkLoadBalancerDnsName: string;
+  /**
+   * The canonical hosted zone ID of the NetworkLoadBalancer
+   */
+  readonly networkLoadBalancerCanonicalHostedZoneId: string;
 }
 
 export type NetworkLoadBalancerListener = {
@@ -97,6 +105,8 @@ export interface NetworkLoadBalancerProps {
 export class NetworkLoadBalancer extends cdk.Resource implements INetworkLoadBalancerResource {
   public readonly networkLoadBalancerArn: string;
   public readonly networkLoadBalancerName: string;
+  public readonly networkLoadBalancerDnsName: string;
+  public readonly networkLoadBalancerCanonicalHostedZoneId: string;
   constructor(scope: Construct, id: string, props: NetworkLoadBalancerProps) {
     super(scope, id);
     const resource = new cdk.aws_elasticloadbalancingv2.CfnLoadBalancer(this, 'Resource', {
@@ -134,6 +144,8 @@ export class NetworkLoadBalancer extends cdk.Resource implements INetworkLoadBal
     // Set initial properties
     this.networkLoadBalancerArn = resource.ref;
     this.networkLoadBalancerName = resource.attrLoadBalancerName;
+    this.networkLoadBalancerDnsName = resource.attrDnsName;
+    this.networkLoadBalancerCanonicalHostedZoneId = resource.attrCanonicalHostedZoneId;
 
     for (const listener of props.listeners ?? []) {
       const targetGroupArn = this.getTargetGroupArn(listener.targetGroup, props.vpcName, props.appName);
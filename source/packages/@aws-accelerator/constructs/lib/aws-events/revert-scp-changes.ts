@@ -18,6 +18,8 @@ import { Construct } from 'constructs';
 import * as fs from 'fs';
 import * as path from 'path';
 
+import { ConfigIncludes, ReplacementsConfig } from '@aws-accelerator/config';
+
 /**
  * Organizations Revert Scp Changes
  * This construct creates a Lambda function and eventbridge rule to trigger on
@@ -208,14 +210,20 @@ export class RevertScpChanges extends Construct {
   }
 
   // Copies a list of files from the configuration directory to the Lambda deployment package
+  // with replacements expanded and include files merged, so the Lambda function can parse each file as is
   private copyConfigsToDeploymentPackage(fileNames: string[], configDirPath: string) {
     const deploymentPackagePath = path.join(__dirname, 'revert-scp-changes/dist');
+    const replacementsConfig = ReplacementsConfig.load(configDirPath);
 
     // Make config folder
     fs.mkdirSync(path.join(deploymentPackagePath, 'config'), { recursive: true });
 
     for (const fileName of fileNames) {
-      fs.copyFileSync(path.join(configDirPath, fileName), path.join(deploymentPackagePath, 'config', fileName));
+      fs.writeFileSync(
+        path.join(deploymentPackagePath, 'config', fileName),
+        ConfigIncludes.load(configDirPath, fileName, replacementsConfig).toString(),
+        'utf8',
+      );
     }
   }
 }
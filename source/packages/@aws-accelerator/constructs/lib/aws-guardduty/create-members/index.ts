@@ -14,6 +14,7 @@
 import { throttlingBackOff } from '@aws-accelerator/utils';
 import * as AWS from 'aws-sdk';
 import { GuardDuty } from 'aws-sdk';
+import { getProtectionPlans } from '../protection-plans';
 AWS.config.logger = console;
 
 /**
@@ -108,6 +109,33 @@ export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent
         }
       }
 
+      const protectionPlans = getProtectionPlans(
+        event.ResourceProperties,
+        event.RequestType === 'Update' ? event.OldResourceProperties : undefined,
+      );
+      if (protectionPlans.length > 0) {
+        console.log(`starting - UpdateOrganizationConfiguration features ${JSON.stringify(protectionPlans)}`);
+        await throttlingBackOff(() =>
+          guardDutyClient
+            .updateOrganizationConfiguration({
+              AutoEnable: true,
+              DetectorId: detectorId!,
+              Features: protectionPlans.map(item => ({
+                Name: item.name,
+                AutoEnable: item.enable ? 'NEW' : 'NONE',
+                AdditionalConfiguration:
+                  item.additionalConfiguration.length > 0
+                    ? item.additionalConfiguration.map(additionalItem => ({
+                        Name: additionalItem.name,
+                        AutoEnable: additionalItem.enable ? 'NEW' : 'NONE',
+                      }))
+                    : undefined,
+              })),
+            })
+            .promise(),
+        );
+      }
+
       console.log('Returning Success');
       return { Status: 'Success', StatusCode: 200 };
 
@@ -39,6 +39,34 @@ export interface GuardDutyDetectorConfigProps {
    * EKS Protection
    */
   readonly enableEksProtection: boolean;
+  /**
+   * EBS Malware Protection enable flag
+   */
+  readonly enableEbsProtection?: boolean;
+  /**
+   * RDS Protection enable flag
+   */
+  readonly enableRdsProtection?: boolean;
+  /**
+   * Lambda Protection enable flag
+   */
+  readonly enableLambdaProtection?: boolean;
+  /**
+   * Runtime Monitoring enable flag
+   */
+  readonly enableRuntimeMonitoring?: boolean;
+  /**
+   * Runtime Monitoring EKS add-on management enable flag
+   */
+  readonly enableEksAddonManagement?: boolean;
+  /**
+   * Runtime Monitoring ECS Fargate agent management enable flag
+   */
+  readonly enableEcsFargateAgentManagement?: boolean;
+  /**
+   * Runtime Monitoring EC2 agent management enable flag
+   */
+  readonly enableEc2AgentManagement?: boolean;
   /**
    * Custom resource lambda log group encryption key
    */
@@ -76,6 +104,12 @@ export class GuardDutyDetectorConfig extends Construct {
           ],
           Resource: '*',
         },
+        {
+          Sid: 'GuardDutyUpdateDetectorTaskServiceLinkedRole',
+          Effect: 'Allow',
+          Action: ['iam:CreateServiceLinkedRole'],
+          Resource: '*',
+        },
       ],
     });
 
@@ -87,6 +121,13 @@ export class GuardDutyDetectorConfig extends Construct {
         exportFrequency: props.exportFrequency,
         enableS3Protection: props.enableS3Protection,
         enableEksProtection: props.enableEksProtection,
+        enableEbsProtection: props.enableEbsProtection,
+        enableRdsProtection: props.enableRdsProtection,
+        enableLambdaProtection: props.enableLambdaProtection,
+        enableRuntimeMonitoring: props.enableRuntimeMonitoring,
+        enableEksAddonManagement: props.enableEksAddonManagement,
+        enableEcsFargateAgentManagement: props.enableEcsFargateAgentManagement,
+        enableEc2AgentManagement: props.enableEc2AgentManagement,
       },
     });
 
@@ -28,6 +28,34 @@ export interface GuardDutyMembersProps {
    * EKS Protection enable flag
    */
   readonly enableEksProtection: boolean;
+  /**
+   * EBS Malware Protection enable flag
+   */
+  readonly enableEbsProtection?: boolean;
+  /**
+   * RDS Protection enable flag
+   */
+  readonly enableRdsProtection?: boolean;
+  /**
+   * Lambda Protection enable flag
+   */
+  readonly enableLambdaProtection?: boolean;
+  /**
+   * Runtime Monitoring enable flag
+   */
+  readonly enableRuntimeMonitoring?: boolean;
+  /**
+   * Runtime Monitoring EKS add-on management enable flag
+   */
+  readonly enableEksAddonManagement?: boolean;
+  /**
+   * Runtime Monitoring ECS Fargate agent management enable flag
+   */
+  readonly enableEcsFargateAgentManagement?: boolean;
+  /**
+   * Runtime Monitoring EC2 agent management enable flag
+   */
+  readonly enableEc2AgentManagement?: boolean;
   /**
    * Custom resource lambda log group encryption key
    */
@@ -101,6 +129,13 @@ export class GuardDutyMembers extends Construct {
         partition: cdk.Aws.PARTITION,
         enableS3Protection: props.enableS3Protection,
         enableEksProtection: props.enableEksProtection,
+        enableEbsProtection: props.enableEbsProtection,
+        enableRdsProtection: props.enableRdsProtection,
+        enableLambdaProtection: props.enableLambdaProtection,
+        enableRuntimeMonitoring: props.enableRuntimeMonitoring,
+        enableEksAddonManagement: props.enableEksAddonManagement,
+        enableEcsFargateAgentManagement: props.enableEcsFargateAgentManagement,
+        enableEc2AgentManagement: props.enableEc2AgentManagement,
       },
     });
 
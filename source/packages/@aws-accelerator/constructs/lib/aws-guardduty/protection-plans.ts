@@ -0,0 +1,57 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+/**
+ * GuardDuty protection plans configured by the custom resource properties
+ */
+const protectionPlans = [
+  { name: 'EBS_MALWARE_PROTECTION', property: 'enableEbsProtection', additionalConfiguration: [] },
+  { name: 'RDS_LOGIN_EVENTS', property: 'enableRdsProtection', additionalConfiguration: [] },
+  { name: 'LAMBDA_NETWORK_LOGS', property: 'enableLambdaProtection', additionalConfiguration: [] },
+  {
+    name: 'RUNTIME_MONITORING',
+    property: 'enableRuntimeMonitoring',
+    additionalConfiguration: [
+      { name: 'EKS_ADDON_MANAGEMENT', property: 'enableEksAddonManagement' },
+      { name: 'ECS_FARGATE_AGENT_MANAGEMENT', property: 'enableEcsFargateAgentManagement' },
+      { name: 'EC2_AGENT_MANAGEMENT', property: 'enableEc2AgentManagement' },
+    ],
+  },
+];
+
+/**
+ * Returns the protection plans to configure, a protection plan removed from the properties is disabled
+ * @param properties
+ * @param oldProperties
+ * @returns
+ */
+export function getProtectionPlans(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  properties: { [key: string]: any },
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  oldProperties?: { [key: string]: any },
+): { name: string; enable: boolean; additionalConfiguration: { name: string; enable: boolean }[] }[] {
+  return protectionPlans
+    .filter(item => properties[item.property] !== undefined || oldProperties?.[item.property] !== undefined)
+    .map(item => {
+      const enable = properties[item.property] === 'true';
+      return {
+        name: item.name,
+        enable,
+        additionalConfiguration: item.additionalConfiguration.map(additionalItem => ({
+          name: additionalItem.name,
+          enable: enable && properties[additionalItem.property] === 'true',
+        })),
+      };
+    });
+}
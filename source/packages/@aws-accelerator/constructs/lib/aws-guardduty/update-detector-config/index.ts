@@ -13,6 +13,7 @@
 
 import { throttlingBackOff } from '@aws-accelerator/utils';
 import * as AWS from 'aws-sdk';
+import { getProtectionPlans } from '../protection-plans';
 AWS.config.logger = console;
 
 /**
@@ -128,6 +129,14 @@ export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent
         }
       }
 
+      const protectionPlans = getProtectionPlans(
+        event.ResourceProperties,
+        event.RequestType === 'Update' ? event.OldResourceProperties : undefined,
+      );
+      if (protectionPlans.length > 0) {
+        await updateFeatures(guardDutyClient, detectorId, existingMemberAccountIds, getFeatures(protectionPlans));
+      }
+
       return { Status: 'Success', StatusCode: 200 };
 
     case 'Delete':
@@ -156,10 +165,71 @@ export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent
           .promise(),
       );
 
+      const protectionPlansToRemove = getProtectionPlans(event.ResourceProperties).map(item => ({
+        ...item,
+        enable: false,
+      }));
+      if (protectionPlansToRemove.length > 0) {
+        await updateFeatures(
+          guardDutyClient,
+          detectorId,
+          existingMemberAccountIds,
+          getFeatures(protectionPlansToRemove),
+        );
+      }
+
       return { Status: 'Success', StatusCode: 200 };
   }
 }
 
+/**
+ * Update the features of the detector and the member detectors
+ * @param guardDutyClient
+ * @param detectorId
+ * @param memberAccountIds
+ * @param features
+ */
+async function updateFeatures(
+  guardDutyClient: AWS.GuardDuty,
+  detectorId: string,
+  memberAccountIds: string[],
+  features: AWS.GuardDuty.DetectorFeatureConfigurations,
+) {
+  console.log(`starting - UpdateMemberDetectors features ${JSON.stringify(features)}`);
+  if (memberAccountIds.length > 0) {
+    await throttlingBackOff(() =>
+      guardDutyClient
+        .updateMemberDetectors({ DetectorId: detectorId, AccountIds: memberAccountIds, Features: features })
+        .promise(),
+    );
+  }
+  console.log(`starting - UpdateDetector features ${JSON.stringify(features)}`);
+  await throttlingBackOff(() =>
+    guardDutyClient.updateDetector({ DetectorId: detectorId, Features: features }).promise(),
+  );
+}
+
+/**
+ * Returns the detector features of the protection plans
+ * @param protectionPlans
+ * @returns
+ */
+function getFeatures(
+  protectionPlans: { name: string; enable: boolean; additionalConfiguration: { name: string; enable: boolean }[] }[],
+): AWS.GuardDuty.DetectorFeatureConfigurations {
+  return protectionPlans.map(item => ({
+    Name: item.name,
+    Status: item.enable ? 'ENABLED' : 'DISABLED',
+    AdditionalConfiguration:
+      item.additionalConfiguration.length > 0
+        ? item.additionalConfiguration.map(additionalItem => ({
+            Name: additionalItem.name,
+            Status: additionalItem.enable ? 'ENABLED' : 'DISABLED',
+          }))
+        : undefined,
+  }));
+}
+
 async function getDetectorId(guardDutyClient: AWS.GuardDuty): Promise<string> {
   const response = await throttlingBackOff(() => guardDutyClient.listDetectors({}).promise());
   console.log(response);
@@ -0,0 +1,117 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { throttlingBackOff } from '@aws-accelerator/utils';
+import * as AWS from 'aws-sdk';
+AWS.config.logger = console;
+
+/**
+ * Identity store attribute used to look up the principal by its display name
+ */
+const PRINCIPAL_ATTRIBUTE_PATHS: { [principalType: string]: string } = {
+  USER: 'UserName',
+  GROUP: 'DisplayName',
+};
+
+/**
+ * get-principal-id - lambda handler
+ *
+ * @param event
+ * @returns
+ */
+export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent): Promise<
+  | {
+      PhysicalResourceId: string | undefined;
+      Data?: { principalId: string } | undefined;
+      Status: string;
+    }
+  | undefined
+> {
+  const principalType: string = event.ResourceProperties['principalType'];
+  const principalName: string = event.ResourceProperties['principalName'];
+  const solutionId = process.env['SOLUTION_ID'];
+
+  switch (event.RequestType) {
+    case 'Create':
+    case 'Update':
+      const identityStoreId = await getIdentityStoreId(new AWS.SSOAdmin({ customUserAgent: solutionId }));
+      const principalId = await getPrincipalId(
+        new AWS.IdentityStore({ customUserAgent: solutionId }),
+        identityStoreId,
+        principalType,
+        principalName,
+      );
+      console.log(`Identity Center ${principalType} ${principalName} has principal id ${principalId}`);
+
+      return { PhysicalResourceId: principalId, Data: { principalId }, Status: 'SUCCESS' };
+
+    case 'Delete':
+      return { PhysicalResourceId: event.PhysicalResourceId, Status: 'SUCCESS' };
+  }
+}
+
+/**
+ * Function to get the identity store id of the Identity Center instance
+ * @param ssoAdminClient
+ * @returns
+ */
+async function getIdentityStoreId(ssoAdminClient: AWS.SSOAdmin): Promise<string> {
+  const response = await throttlingBackOff(() => ssoAdminClient.listInstances().promise());
+  const identityStoreId = response.Instances?.[0]?.IdentityStoreId;
+  if (!identityStoreId) {
+    throw new Error('No Identity Center instance found');
+  }
+  return identityStoreId;
+}
+
+/**
+ * Function to get the principal id of a user or group from its display name
+ * @param identityStoreClient
+ * @param identityStoreId
+ * @param principalType
+ * @param principalName
+ * @returns
+ */
+async function getPrincipalId(
+  identityStoreClient: AWS.IdentityStore,
+  identityStoreId: string,
+  principalType: string,
+  principalName: string,
+): Promise<string> {
+  const alternateIdentifier = {
+    UniqueAttribute: { AttributePath: PRINCIPAL_ATTRIBUTE_PATHS[principalType], AttributeValue: principalName },
+  };
+  try {
+    if (principalType === 'GROUP') {
+      const response = await throttlingBackOff(() =>
+        identityStoreClient
+          .getGroupId({ IdentityStoreId: identityStoreId, AlternateIdentifier: alternateIdentifier })
+          .promise(),
+      );
+      return response.GroupId;
+    }
+    const response = await throttlingBackOff(() =>
+      identityStoreClient
+        .getUserId({ IdentityStoreId: identityStoreId, AlternateIdentifier: alternateIdentifier })
+        .promise(),
+    );
+    return response.UserId;
+  } catch (e: unknown) {
+    if ((e as AWS.AWSError).code === 'ResourceNotFoundException') {
+      throw new Error(
+        `Identity Center ${principalType} ${principalName} not found in identity store ${identityStoreId}`,
+      );
+    }
+    throw e;
+  }
+}
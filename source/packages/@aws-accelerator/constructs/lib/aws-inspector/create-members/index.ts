@@ -0,0 +1,179 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { throttlingBackOff } from '@aws-accelerator/utils';
+import * as AWS from 'aws-sdk';
+AWS.config.logger = console;
+
+/**
+ * Maximum number of accounts accepted by the Inspector Enable and Disable APIs
+ */
+const MAX_ACCOUNTS_PER_REQUEST = 100;
+
+/**
+ * create-inspector-members - lambda handler
+ *
+ * @param event
+ * @returns
+ */
+export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent): Promise<
+  | {
+      Status: string | undefined;
+      StatusCode: number | undefined;
+    }
+  | undefined
+> {
+  const region = event.ResourceProperties['region'];
+  const partition = event.ResourceProperties['partition'];
+  const adminAccountId = event.ResourceProperties['adminAccountId'];
+  const autoEnable: boolean = event.ResourceProperties['autoEnable'] === 'true';
+  const resourceTypes = getResourceTypes(event.ResourceProperties);
+  const solutionId = process.env['SOLUTION_ID'];
+
+  let organizationsClient: AWS.Organizations;
+  if (partition === 'aws-us-gov') {
+    organizationsClient = new AWS.Organizations({ region: 'us-gov-west-1', customUserAgent: solutionId });
+  } else if (partition === 'aws-cn') {
+    organizationsClient = new AWS.Organizations({ region: 'cn-northwest-1', customUserAgent: solutionId });
+  } else {
+    organizationsClient = new AWS.Organizations({ region: 'us-east-1', customUserAgent: solutionId });
+  }
+
+  const inspectorClient = new AWS.Inspector2({ region: region, customUserAgent: solutionId });
+
+  const existingMemberAccountIds = await getMemberAccountIds(inspectorClient);
+
+  switch (event.RequestType) {
+    case 'Create':
+    case 'Update':
+      console.log(`Resource types: ${resourceTypes.join(',')}, auto enable: ${autoEnable}`);
+
+      console.log('starting - UpdateOrganizationConfiguration');
+      await throttlingBackOff(() =>
+        inspectorClient
+          .updateOrganizationConfiguration({
+            autoEnable: {
+              ec2: autoEnable && resourceTypes.includes('EC2'),
+              ecr: autoEnable && resourceTypes.includes('ECR'),
+              lambda: autoEnable && resourceTypes.includes('LAMBDA'),
+            },
+          })
+          .promise(),
+      );
+
+      console.log('starting - AssociateMember');
+      const accountIds: string[] = [adminAccountId];
+      let nextToken: string | undefined = undefined;
+      do {
+        const page = await throttlingBackOff(() =>
+          organizationsClient.listAccounts({ NextToken: nextToken }).promise(),
+        );
+        for (const account of page.Accounts ?? []) {
+          if (account.Id === adminAccountId || account.Status !== 'ACTIVE') {
+            continue;
+          }
+          if (!existingMemberAccountIds.includes(account.Id!)) {
+            await throttlingBackOff(() => inspectorClient.associateMember({ accountId: account.Id! }).promise());
+          }
+          accountIds.push(account.Id!);
+        }
+        nextToken = page.NextToken;
+      } while (nextToken);
+
+      if (resourceTypes.length > 0) {
+        console.log('starting - Enable');
+        await enableResourceTypes(inspectorClient, accountIds, resourceTypes, true);
+      }
+
+      // Disable the scanning types removed from the configuration
+      if (event.RequestType === 'Update') {
+        const removedResourceTypes = getResourceTypes(event.OldResourceProperties).filter(
+          item => !resourceTypes.includes(item),
+        );
+        if (removedResourceTypes.length > 0) {
+          console.log('starting - Disable');
+          await enableResourceTypes(inspectorClient, accountIds, removedResourceTypes, false);
+        }
+      }
+
+      return { Status: 'Success', StatusCode: 200 };
+
+    case 'Delete':
+      await enableResourceTypes(
+        inspectorClient,
+        [adminAccountId, ...existingMemberAccountIds],
+        ['EC2', 'ECR', 'LAMBDA'],
+        false,
+      );
+      for (const accountId of existingMemberAccountIds) {
+        await throttlingBackOff(() => inspectorClient.disassociateMember({ accountId }).promise());
+      }
+
+      return { Status: 'Success', StatusCode: 200 };
+  }
+}
+
+/**
+ * Returns the Inspector resource types enabled in the custom resource properties
+ * @param properties
+ * @returns
+ */
+function getResourceTypes(properties: { [key: string]: string }): string[] {
+  const resourceTypes: string[] = [];
+  if (properties['enableEc2Scanning'] === 'true') {
+    resourceTypes.push('EC2');
+  }
+  if (properties['enableEcrScanning'] === 'true') {
+    resourceTypes.push('ECR');
+  }
+  if (properties['enableLambdaScanning'] === 'true') {
+    resourceTypes.push('LAMBDA');
+  }
+  return resourceTypes;
+}
+
+async function getMemberAccountIds(inspectorClient: AWS.Inspector2): Promise<string[]> {
+  const memberAccountIds: string[] = [];
+  let nextToken: string | undefined = undefined;
+  do {
+    const page = await throttlingBackOff(() =>
+      inspectorClient.listMembers({ onlyAssociated: true, nextToken: nextToken }).promise(),
+    );
+    for (const member of page.members ?? []) {
+      memberAccountIds.push(member.accountId!);
+    }
+    nextToken = page.nextToken;
+  } while (nextToken);
+  return memberAccountIds;
+}
+
+async function enableResourceTypes(
+  inspectorClient: AWS.Inspector2,
+  accountIds: string[],
+  resourceTypes: string[],
+  enable: boolean,
+) {
+  for (let i = 0; i < accountIds.length; i += MAX_ACCOUNTS_PER_REQUEST) {
+    const request = { accountIds: accountIds.slice(i, i + MAX_ACCOUNTS_PER_REQUEST), resourceTypes };
+    const response = await throttlingBackOff(() =>
+      enable ? inspectorClient.enable(request).promise() : inspectorClient.disable(request).promise(),
+    );
+    for (const failedAccount of response.failedAccounts ?? []) {
+      console.warn(
+        `Unable to ${enable ? 'enable' : 'disable'} Inspector for account ${failedAccount.accountId}: ${
+          failedAccount.errorMessage
+        }`,
+      );
+    }
+  }
+}
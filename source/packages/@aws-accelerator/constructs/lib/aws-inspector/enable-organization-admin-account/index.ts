@@ -0,0 +1,104 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { throttlingBackOff } from '@aws-accelerator/utils';
+import * as AWS from 'aws-sdk';
+AWS.config.logger = console;
+
+/**
+ * enable-inspector - lambda handler
+ *
+ * @param event
+ * @returns
+ */
+export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent): Promise<
+  | {
+      Status: string | undefined;
+      StatusCode: number | undefined;
+    }
+  | undefined
+> {
+  const region = event.ResourceProperties['region'];
+  const adminAccountId = event.ResourceProperties['adminAccountId'];
+  const solutionId = process.env['SOLUTION_ID'];
+
+  const inspectorClient = new AWS.Inspector2({ region: region, customUserAgent: solutionId });
+
+  const inspectorAdminAccount = await isInspectorEnable(inspectorClient, adminAccountId);
+
+  switch (event.RequestType) {
+    case 'Create':
+    case 'Update':
+      if (inspectorAdminAccount.accountId === undefined) {
+        console.log(
+          `Started enableDelegatedAdminAccount function in ${event.ResourceProperties['region']} region for account ${adminAccountId}`,
+        );
+        await throttlingBackOff(() =>
+          inspectorClient.enableDelegatedAdminAccount({ delegatedAdminAccountId: adminAccountId }).promise(),
+        );
+      } else if (inspectorAdminAccount.accountId === adminAccountId) {
+        console.warn(
+          `Inspector admin account ${inspectorAdminAccount.accountId} is already an admin account as status is ${inspectorAdminAccount.status}, in ${region} region. No action needed`,
+        );
+      } else {
+        console.warn(
+          `Inspector delegated admin is already set to ${inspectorAdminAccount.accountId} account can not assign another delegated account`,
+        );
+      }
+
+      return { Status: 'Success', StatusCode: 200 };
+
+    case 'Delete':
+      if (inspectorAdminAccount.accountId === adminAccountId) {
+        console.log(
+          `Started disableDelegatedAdminAccount function in ${event.ResourceProperties['region']} region for account ${adminAccountId}`,
+        );
+        await throttlingBackOff(() =>
+          inspectorClient.disableDelegatedAdminAccount({ delegatedAdminAccountId: adminAccountId }).promise(),
+        );
+      } else if (inspectorAdminAccount.accountId) {
+        console.warn(
+          `Inspector delegated admin is already set to ${inspectorAdminAccount.accountId} account which differs from the config. Skipping the removal of the delegated admin for Amazon Inspector.`,
+        );
+      }
+
+      return { Status: 'Success', StatusCode: 200 };
+  }
+}
+
+async function isInspectorEnable(
+  inspectorClient: AWS.Inspector2,
+  adminAccountId: string,
+): Promise<{ accountId: string | undefined; status: string | undefined }> {
+  const adminAccounts: AWS.Inspector2.DelegatedAdminAccount[] = [];
+  let nextToken: string | undefined = undefined;
+  do {
+    const page = await throttlingBackOff(() =>
+      inspectorClient.listDelegatedAdminAccounts({ nextToken: nextToken }).promise(),
+    );
+    adminAccounts.push(...(page.delegatedAdminAccounts ?? []));
+    nextToken = page.nextToken;
+  } while (nextToken);
+  if (adminAccounts.length === 0) {
+    return { accountId: undefined, status: undefined };
+  }
+  if (adminAccounts.length > 1) {
+    throw new Error('Multiple admin accounts for Inspector in organization');
+  }
+
+  if (adminAccounts[0].accountId === adminAccountId && adminAccounts[0].status === 'DISABLE_IN_PROGRESS') {
+    throw new Error(`Admin account ${adminAccounts[0].accountId} is in ${adminAccounts[0].status}`);
+  }
+
+  return { accountId: adminAccounts[0].accountId, status: adminAccounts[0].status };
+}
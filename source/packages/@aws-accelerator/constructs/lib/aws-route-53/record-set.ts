@@ -27,6 +27,14 @@ export interface RecordSetProps {
   readonly hostedZone: IHostedZone;
   readonly dnsName?: string;
   readonly hostedZoneId?: string;
+  /**
+   * Record values, creates a standard record instead of an alias record when defined
+   */
+  readonly resourceRecords?: string[];
+  /**
+   * Record TTL in seconds, only used with resourceRecords
+   */
+  readonly ttl?: number;
 }
 
 export class RecordSet extends cdk.Resource implements IRecordSet {
@@ -39,10 +47,14 @@ export class RecordSet extends cdk.Resource implements IRecordSet {
       type: props.type,
       name: props.name,
       hostedZoneId: props.hostedZone.hostedZoneId,
-      aliasTarget: {
-        dnsName: props.dnsName ?? '',
-        hostedZoneId: props.hostedZoneId ?? '',
-      },
+      aliasTarget: props.resourceRecords
+        ? undefined
+        : {
+            dnsName: props.dnsName ?? '',
+            hostedZoneId: props.hostedZoneId ?? '',
+          },
+      resourceRecords: props.resourceRecords,
+      ttl: props.resourceRecords ? (props.ttl ?? 300).toString() : undefined,
     });
 
     this.recordSetId = resource.ref;
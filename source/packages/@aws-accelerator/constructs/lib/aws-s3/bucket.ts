@@ -139,6 +139,11 @@ export interface BucketProps {
    * Optional bucket prefix property
    */
   bucketPrefixProps?: BucketPrefixProps;
+
+  /**
+   * Optional default object lock retention, object lock is enabled on the bucket when defined
+   */
+  objectLockDefaultRetention?: s3.ObjectLockRetention;
 }
 
 /**
@@ -188,6 +193,7 @@ export class Bucket extends Construct {
       serverAccessLogsBucket: this.serverAccessLogBucket,
       // Trailing slash for folder-like prefix in S3
       serverAccessLogsPrefix: this.serverAccessLogsPrefix?.concat('/'),
+      objectLockDefaultRetention: props.objectLockDefaultRetention,
     });
     // Had to be removed to allow CloudTrail access
     // this.bucket.addToResourcePolicy(
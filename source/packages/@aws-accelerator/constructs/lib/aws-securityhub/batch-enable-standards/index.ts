@@ -92,13 +92,13 @@ export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent
       const controlsToModify = await getControlArnsToModify(securityHubClient, inputStandards, awsSecurityHubStandards);
 
       // Enable standard controls
-      for (const controlArnToModify of controlsToModify.disableStandardControlArns) {
+      for (const controlToModify of controlsToModify.disableStandardControls) {
         await throttlingBackOff(() =>
           securityHubClient
             .updateStandardsControl({
-              StandardsControlArn: controlArnToModify,
+              StandardsControlArn: controlToModify.arn,
               ControlStatus: 'DISABLED',
-              DisabledReason: 'Control disabled by Accelerator',
+              DisabledReason: controlToModify.reason,
             })
             .promise(),
         );
@@ -190,11 +190,16 @@ async function getExistingEnabledStandards(
  */
 async function getControlArnsToModify(
   securityHubClient: AWS.SecurityHub,
-  inputStandards: { name: string; enable: string; controlsToDisable: string[] | undefined }[],
+  inputStandards: {
+    name: string;
+    enable: string;
+    controlsToDisable: string[] | undefined;
+    disabledReasons?: { [controlId: string]: string };
+  }[],
   awsSecurityHubStandards: { [name: string]: string }[],
-): Promise<{ disableStandardControlArns: string[]; enableStandardControlArns: string[] }> {
+): Promise<{ disableStandardControls: { arn: string; reason: string }[]; enableStandardControlArns: string[] }> {
   const existingEnabledStandards = await getExistingEnabledStandards(securityHubClient);
-  const disableStandardControls: string[] = [];
+  const disableStandardControls: { arn: string; reason: string }[] = [];
   const enableStandardControls: string[] = [];
 
   let nextToken: string | undefined = undefined;
@@ -250,7 +255,10 @@ async function getControlArnsToModify(
             for (const control of standardsControl) {
               if (inputStandard.controlsToDisable?.includes(control.ControlId!)) {
                 console.log(control.ControlId!);
-                disableStandardControls.push(control.StandardsControlArn!);
+                disableStandardControls.push({
+                  arn: control.StandardsControlArn!,
+                  reason: inputStandard.disabledReasons?.[control.ControlId!] ?? 'Control disabled by Accelerator',
+                });
               } else {
                 if (control.ControlStatus == 'DISABLED') {
                   console.log('following is disabled need to be enable now');
@@ -265,7 +273,7 @@ async function getControlArnsToModify(
     }
   }
 
-  return { disableStandardControlArns: disableStandardControls, enableStandardControlArns: enableStandardControls };
+  return { disableStandardControls: disableStandardControls, enableStandardControlArns: enableStandardControls };
 }
 
 /**
@@ -0,0 +1,113 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { throttlingBackOff } from '@aws-accelerator/utils';
+import * as AWS from 'aws-sdk';
+AWS.config.logger = console;
+
+/**
+ * create-action-target - lambda handler
+ *
+ * @param event
+ * @returns
+ */
+export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent): Promise<
+  | {
+      PhysicalResourceId: string | undefined;
+      Status: string;
+    }
+  | undefined
+> {
+  const region = event.ResourceProperties['region'];
+  const name: string = event.ResourceProperties['name'];
+  const id: string = event.ResourceProperties['id'];
+  const description: string = event.ResourceProperties['description'];
+  const solutionId = process.env['SOLUTION_ID'];
+
+  const securityHubClient = new AWS.SecurityHub({ region: region, customUserAgent: solutionId });
+
+  switch (event.RequestType) {
+    case 'Create':
+    case 'Update':
+      // The id of a custom action can not be updated, a new custom action replaces the existing one
+      if (event.RequestType === 'Update' && event.OldResourceProperties['id'] === id) {
+        console.log(`starting - UpdateActionTarget ${event.PhysicalResourceId}`);
+        await throttlingBackOff(() =>
+          securityHubClient
+            .updateActionTarget({ ActionTargetArn: event.PhysicalResourceId, Name: name, Description: description })
+            .promise(),
+        );
+        return { PhysicalResourceId: event.PhysicalResourceId, Status: 'SUCCESS' };
+      }
+
+      console.log(`starting - CreateActionTarget ${id}`);
+      try {
+        const response = await throttlingBackOff(() =>
+          securityHubClient.createActionTarget({ Name: name, Id: id, Description: description }).promise(),
+        );
+        return { PhysicalResourceId: response.ActionTargetArn, Status: 'SUCCESS' };
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      } catch (e: any) {
+        if (e.code !== 'ResourceConflictException') {
+          throw e;
+        }
+      }
+
+      // The custom action already exists, update it
+      const actionTargetArn = await getActionTargetArn(securityHubClient, id);
+      console.log(`starting - UpdateActionTarget ${actionTargetArn}`);
+      await throttlingBackOff(() =>
+        securityHubClient
+          .updateActionTarget({ ActionTargetArn: actionTargetArn, Name: name, Description: description })
+          .promise(),
+      );
+      return { PhysicalResourceId: actionTargetArn, Status: 'SUCCESS' };
+
+    case 'Delete':
+      console.log(`starting - DeleteActionTarget ${event.PhysicalResourceId}`);
+      try {
+        await throttlingBackOff(() =>
+          securityHubClient.deleteActionTarget({ ActionTargetArn: event.PhysicalResourceId }).promise(),
+        );
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      } catch (e: any) {
+        if (e.code !== 'ResourceNotFoundException') {
+          throw e;
+        }
+        console.warn(`Custom action ${event.PhysicalResourceId} does not exist. No action needed`);
+      }
+      return { PhysicalResourceId: event.PhysicalResourceId, Status: 'SUCCESS' };
+  }
+}
+
+/**
+ * Returns the ARN of an existing custom action
+ * @param securityHubClient
+ * @param id
+ * @returns
+ */
+async function getActionTargetArn(securityHubClient: AWS.SecurityHub, id: string): Promise<string> {
+  let nextToken: string | undefined = undefined;
+  do {
+    const page = await throttlingBackOff(() =>
+      securityHubClient.describeActionTargets({ NextToken: nextToken }).promise(),
+    );
+    for (const actionTarget of page.ActionTargets) {
+      if (actionTarget.ActionTargetArn.endsWith(`/custom/${id}`)) {
+        return actionTarget.ActionTargetArn;
+      }
+    }
+    nextToken = page.NextToken;
+  } while (nextToken);
+  throw new Error(`Custom action ${id} not found`);
+}
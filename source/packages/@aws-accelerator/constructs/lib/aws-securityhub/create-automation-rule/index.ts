@@ -0,0 +1,107 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { throttlingBackOff } from '@aws-accelerator/utils';
+import {
+  AutomationRulesAction,
+  AutomationRulesFindingFilters,
+  BatchDeleteAutomationRulesCommand,
+  BatchUpdateAutomationRulesCommand,
+  CreateAutomationRuleCommand,
+  RuleStatus,
+  SecurityHubClient,
+} from '@aws-sdk/client-securityhub';
+
+/**
+ * create-automation-rule - lambda handler
+ *
+ * @param event
+ * @returns
+ */
+export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent): Promise<
+  | {
+      PhysicalResourceId: string | undefined;
+      Status: string;
+    }
+  | undefined
+> {
+  const ruleName: string = event.ResourceProperties['name'];
+  const description: string = event.ResourceProperties['description'];
+  // CloudFormation passes every property value as a string
+  const ruleOrder = Number(event.ResourceProperties['ruleOrder']);
+  const ruleStatus: RuleStatus = event.ResourceProperties['ruleStatus'];
+  const isTerminal = event.ResourceProperties['isTerminal'] === 'true';
+  const criteria: AutomationRulesFindingFilters = event.ResourceProperties['criteria'];
+  const actions: AutomationRulesAction[] = event.ResourceProperties['actions'];
+  const solutionId = process.env['SOLUTION_ID'];
+
+  const securityHubClient = new SecurityHubClient({ customUserAgent: solutionId });
+
+  switch (event.RequestType) {
+    case 'Create':
+      console.log(`starting - CreateAutomationRule ${ruleName}`);
+      const response = await throttlingBackOff(() =>
+        securityHubClient.send(
+          new CreateAutomationRuleCommand({
+            RuleName: ruleName,
+            Description: description,
+            RuleOrder: ruleOrder,
+            RuleStatus: ruleStatus,
+            IsTerminal: isTerminal,
+            Criteria: criteria,
+            Actions: actions,
+          }),
+        ),
+      );
+      return { PhysicalResourceId: response.RuleArn, Status: 'SUCCESS' };
+
+    case 'Update':
+      console.log(`starting - BatchUpdateAutomationRules ${event.PhysicalResourceId}`);
+      const updateResponse = await throttlingBackOff(() =>
+        securityHubClient.send(
+          new BatchUpdateAutomationRulesCommand({
+            UpdateAutomationRulesRequestItems: [
+              {
+                RuleArn: event.PhysicalResourceId,
+                RuleName: ruleName,
+                Description: description,
+                RuleOrder: ruleOrder,
+                RuleStatus: ruleStatus,
+                IsTerminal: isTerminal,
+                Criteria: criteria,
+                Actions: actions,
+              },
+            ],
+          }),
+        ),
+      );
+      if ((updateResponse.UnprocessedAutomationRules ?? []).length > 0) {
+        throw new Error(
+          `Error updating automation rule ${ruleName}: ${JSON.stringify(updateResponse.UnprocessedAutomationRules)}`,
+        );
+      }
+      return { PhysicalResourceId: event.PhysicalResourceId, Status: 'SUCCESS' };
+
+    case 'Delete':
+      console.log(`starting - BatchDeleteAutomationRules ${event.PhysicalResourceId}`);
+      const deleteResponse = await throttlingBackOff(() =>
+        securityHubClient.send(
+          new BatchDeleteAutomationRulesCommand({ AutomationRulesArns: [event.PhysicalResourceId] }),
+        ),
+      );
+      for (const unprocessed of deleteResponse.UnprocessedAutomationRules ?? []) {
+        console.warn(`Unable to delete automation rule ${unprocessed.RuleArn}: ${unprocessed.ErrorMessage}`);
+      }
+      return { PhysicalResourceId: event.PhysicalResourceId, Status: 'SUCCESS' };
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { throttlingBackOff } from '@aws-accelerator/utils';
+import * as AWS from 'aws-sdk';
+AWS.config.logger = console;
+
+/**
+ * create-insight - lambda handler
+ *
+ * @param event
+ * @returns
+ */
+export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent): Promise<
+  | {
+      PhysicalResourceId: string | undefined;
+      Status: string;
+    }
+  | undefined
+> {
+  const region = event.ResourceProperties['region'];
+  const name: string = event.ResourceProperties['name'];
+  const groupByAttribute: string = event.ResourceProperties['groupByAttribute'];
+  const filters: AWS.SecurityHub.AwsSecurityFindingFilters = event.ResourceProperties['filters'];
+  const solutionId = process.env['SOLUTION_ID'];
+
+  const securityHubClient = new AWS.SecurityHub({ region: region, customUserAgent: solutionId });
+
+  switch (event.RequestType) {
+    case 'Create':
+      console.log(`starting - CreateInsight ${name}`);
+      const response = await throttlingBackOff(() =>
+        securityHubClient.createInsight({ Name: name, GroupByAttribute: groupByAttribute, Filters: filters }).promise(),
+      );
+      return { PhysicalResourceId: response.InsightArn, Status: 'SUCCESS' };
+
+    case 'Update':
+      console.log(`starting - UpdateInsight ${event.PhysicalResourceId}`);
+      await throttlingBackOff(() =>
+        securityHubClient
+          .updateInsight({
+            InsightArn: event.PhysicalResourceId,
+            Name: name,
+            GroupByAttribute: groupByAttribute,
+            Filters: filters,
+          })
+          .promise(),
+      );
+      return { PhysicalResourceId: event.PhysicalResourceId, Status: 'SUCCESS' };
+
+    case 'Delete':
+      console.log(`starting - DeleteInsight ${event.PhysicalResourceId}`);
+      try {
+        await throttlingBackOff(() =>
+          securityHubClient.deleteInsight({ InsightArn: event.PhysicalResourceId }).promise(),
+        );
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      } catch (e: any) {
+        if (e.code !== 'ResourceNotFoundException') {
+          throw e;
+        }
+        console.warn(`Insight ${event.PhysicalResourceId} does not exist. No action needed`);
+      }
+      return { PhysicalResourceId: event.PhysicalResourceId, Status: 'SUCCESS' };
+  }
+}
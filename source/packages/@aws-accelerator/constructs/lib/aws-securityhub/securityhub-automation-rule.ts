@@ -0,0 +1,135 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { getSecurityHubFindingFilters, SecurityHubFindingFilters } from './securityhub-finding-filters';
+
+const path = require('path');
+
+/**
+ * Initialized SecurityHubAutomationRuleProps properties
+ */
+export interface SecurityHubAutomationRuleProps {
+  /**
+   * Name of the automation rule
+   */
+  readonly name: string;
+  /**
+   * Description of the automation rule
+   */
+  readonly description: string;
+  /**
+   * Order in which the automation rule is applied
+   */
+  readonly ruleOrder: number;
+  /**
+   * Automation rule enable flag
+   */
+  readonly enable: boolean;
+  /**
+   * Indicates whether rules with a higher rule order are not applied to the matching findings
+   */
+  readonly isTerminal: boolean;
+  /**
+   * Criteria of the findings the automation rule is applied to
+   */
+  readonly criteria: SecurityHubFindingFilters;
+  /**
+   * Updates of the matching findings
+   */
+  readonly actions: {
+    workflowStatus?: string;
+    severityLabel?: string;
+    note?: string;
+  };
+  /**
+   * Custom resource lambda log group encryption key
+   */
+  readonly kmsKey: cdk.aws_kms.IKey;
+  /**
+   * Custom resource lambda log retention in days
+   */
+  readonly logRetentionInDays: number;
+}
+
+/**
+ * Class to create a Security Hub automation rule
+ */
+export class SecurityHubAutomationRule extends Construct {
+  public readonly id: string;
+
+  constructor(scope: Construct, id: string, props: SecurityHubAutomationRuleProps) {
+    super(scope, id);
+
+    const RESOURCE_TYPE = 'Custom::SecurityHubAutomationRule';
+
+    const provider = cdk.CustomResourceProvider.getOrCreateProvider(this, RESOURCE_TYPE, {
+      codeDirectory: path.join(__dirname, 'create-automation-rule/dist'),
+      runtime: cdk.CustomResourceProviderRuntime.NODEJS_16_X,
+      policyStatements: [
+        {
+          Sid: 'SecurityHubAutomationRuleTaskSecurityHubActions',
+          Effect: 'Allow',
+          Action: [
+            'securityhub:BatchDeleteAutomationRules',
+            'securityhub:BatchGetAutomationRules',
+            'securityhub:BatchUpdateAutomationRules',
+            'securityhub:CreateAutomationRule',
+          ],
+          Resource: '*',
+        },
+      ],
+    });
+
+    const resource = new cdk.CustomResource(this, 'Resource', {
+      resourceType: RESOURCE_TYPE,
+      serviceToken: provider.serviceToken,
+      properties: {
+        name: props.name,
+        description: props.description,
+        ruleOrder: props.ruleOrder,
+        ruleStatus: props.enable ? 'ENABLED' : 'DISABLED',
+        isTerminal: props.isTerminal,
+        criteria: getSecurityHubFindingFilters(props.criteria),
+        actions: [
+          {
+            Type: 'FINDING_FIELDS_UPDATE',
+            FindingFieldsUpdate: {
+              Workflow: props.actions.workflowStatus ? { Status: props.actions.workflowStatus } : undefined,
+              Severity: props.actions.severityLabel ? { Label: props.actions.severityLabel } : undefined,
+              Note: props.actions.note ? { Text: props.actions.note, UpdatedBy: props.name } : undefined,
+            },
+          },
+        ],
+      },
+    });
+
+    /**
+     * Singleton pattern to define the log group for the singleton function
+     * in the stack
+     */
+    const stack = cdk.Stack.of(scope);
+    const logGroup =
+      (stack.node.tryFindChild(`${provider.node.id}LogGroup`) as cdk.aws_logs.LogGroup) ??
+      new cdk.aws_logs.LogGroup(stack, `${provider.node.id}LogGroup`, {
+        logGroupName: `/aws/lambda/${(provider.node.findChild('Handler') as cdk.aws_lambda.CfnFunction).ref}`,
+        retention: props.logRetentionInDays,
+        encryptionKey: props.kmsKey,
+        removalPolicy: cdk.RemovalPolicy.DESTROY,
+      });
+    resource.node.addDependency(logGroup);
+
+    this.id = resource.ref;
+  }
+}
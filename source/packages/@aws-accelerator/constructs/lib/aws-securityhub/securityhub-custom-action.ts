@@ -0,0 +1,107 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+
+const path = require('path');
+
+/**
+ * Initialized SecurityHubCustomActionProps properties
+ */
+export interface SecurityHubCustomActionProps {
+  /**
+   * Name of the custom action
+   */
+  readonly name: string;
+  /**
+   * Id of the custom action
+   */
+  readonly actionId: string;
+  /**
+   * Description of the custom action
+   */
+  readonly description: string;
+  /**
+   * Custom resource lambda log group encryption key
+   */
+  readonly kmsKey: cdk.aws_kms.IKey;
+  /**
+   * Custom resource lambda log retention in days
+   */
+  readonly logRetentionInDays: number;
+}
+
+/**
+ * Class to create a Security Hub custom action
+ */
+export class SecurityHubCustomAction extends Construct {
+  public readonly id: string;
+  /**
+   * ARN of the custom action, used as the resource of the EventBridge events of the custom action
+   */
+  public readonly actionTargetArn: string;
+
+  constructor(scope: Construct, id: string, props: SecurityHubCustomActionProps) {
+    super(scope, id);
+
+    const RESOURCE_TYPE = 'Custom::SecurityHubCustomAction';
+
+    const provider = cdk.CustomResourceProvider.getOrCreateProvider(this, RESOURCE_TYPE, {
+      codeDirectory: path.join(__dirname, 'create-action-target/dist'),
+      runtime: cdk.CustomResourceProviderRuntime.NODEJS_16_X,
+      policyStatements: [
+        {
+          Sid: 'SecurityHubCustomActionTaskSecurityHubActions',
+          Effect: 'Allow',
+          Action: [
+            'securityhub:CreateActionTarget',
+            'securityhub:DeleteActionTarget',
+            'securityhub:DescribeActionTargets',
+            'securityhub:UpdateActionTarget',
+          ],
+          Resource: '*',
+        },
+      ],
+    });
+
+    const resource = new cdk.CustomResource(this, 'Resource', {
+      resourceType: RESOURCE_TYPE,
+      serviceToken: provider.serviceToken,
+      properties: {
+        region: cdk.Stack.of(this).region,
+        name: props.name,
+        id: props.actionId,
+        description: props.description,
+      },
+    });
+
+    /**
+     * Singleton pattern to define the log group for the singleton function
+     * in the stack
+     */
+    const stack = cdk.Stack.of(scope);
+    const logGroup =
+      (stack.node.tryFindChild(`${provider.node.id}LogGroup`) as cdk.aws_logs.LogGroup) ??
+      new cdk.aws_logs.LogGroup(stack, `${provider.node.id}LogGroup`, {
+        logGroupName: `/aws/lambda/${(provider.node.findChild('Handler') as cdk.aws_lambda.CfnFunction).ref}`,
+        retention: props.logRetentionInDays,
+        encryptionKey: props.kmsKey,
+        removalPolicy: cdk.RemovalPolicy.DESTROY,
+      });
+    resource.node.addDependency(logGroup);
+
+    this.id = resource.ref;
+    this.actionTargetArn = resource.ref;
+  }
+}
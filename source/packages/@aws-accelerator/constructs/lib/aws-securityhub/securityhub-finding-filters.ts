@@ -0,0 +1,74 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+/**
+ * Security Hub finding filters, a finding matches when it matches at least one value of every filter defined
+ */
+export interface SecurityHubFindingFilters {
+  /**
+   * Names of the products that generated the findings
+   */
+  readonly productNames?: string[];
+  /**
+   * Account ids of the findings
+   */
+  readonly accountIds?: string[];
+  /**
+   * Security control ids of the findings
+   */
+  readonly controlIds?: string[];
+  /**
+   * Resource types of the findings
+   */
+  readonly resourceTypes?: string[];
+  /**
+   * Tags of the resources of the findings
+   */
+  readonly resourceTags?: { key: string; value: string }[];
+  /**
+   * Severity labels of the findings
+   */
+  readonly severityLabels?: string[];
+  /**
+   * Workflow statuses of the findings
+   */
+  readonly workflowStatuses?: string[];
+  /**
+   * Record states of the findings
+   */
+  readonly recordStates?: string[];
+}
+
+/**
+ * Returns the Security Hub API representation of the finding filters
+ * @param filters
+ * @returns
+ */
+export function getSecurityHubFindingFilters(filters: SecurityHubFindingFilters) {
+  const stringFilters = (values?: string[]) =>
+    values && values.length > 0 ? values.map(value => ({ Value: value, Comparison: 'EQUALS' })) : undefined;
+
+  return {
+    ProductName: stringFilters(filters.productNames),
+    AwsAccountId: stringFilters(filters.accountIds),
+    ComplianceSecurityControlId: stringFilters(filters.controlIds),
+    ResourceType: stringFilters(filters.resourceTypes),
+    ResourceTags:
+      filters.resourceTags && filters.resourceTags.length > 0
+        ? filters.resourceTags.map(tag => ({ Key: tag.key, Value: tag.value, Comparison: 'EQUALS' }))
+        : undefined,
+    SeverityLabel: stringFilters(filters.severityLabels),
+    WorkflowStatus: stringFilters(filters.workflowStatuses),
+    RecordState: stringFilters(filters.recordStates),
+  };
+}
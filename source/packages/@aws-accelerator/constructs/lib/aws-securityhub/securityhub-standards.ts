@@ -21,9 +21,14 @@ const path = require('path');
  */
 export interface SecurityHubStandardsProps {
   /**
-   * Security hun standard
+   * Security hun standard, disabledReasons maps control ids to the reason recorded when the control is disabled
    */
-  readonly standards: { name: string; enable: boolean; controlsToDisable: string[] | undefined }[];
+  readonly standards: {
+    name: string;
+    enable: boolean;
+    controlsToDisable: string[] | undefined;
+    disabledReasons?: { [controlId: string]: string };
+  }[];
   /**
    * Custom resource lambda log group encryption key
    */
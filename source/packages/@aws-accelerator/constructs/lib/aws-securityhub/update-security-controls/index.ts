@@ -0,0 +1,201 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { throttlingBackOff } from '@aws-accelerator/utils';
+import {
+  GetSecurityControlDefinitionCommand,
+  ParameterConfiguration,
+  ParameterValue,
+  SecurityHubClient,
+  UpdateSecurityControlCommand,
+} from '@aws-sdk/client-securityhub';
+
+/**
+ * Security control parameters as passed by the SecurityHubControlParameters construct
+ */
+type SecurityControlInput = {
+  controlId: string;
+  parameters: { name: string; value: string | string[] }[];
+  justification: string;
+};
+
+/**
+ * update-security-controls - lambda handler
+ *
+ * @param event
+ * @returns
+ */
+export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent): Promise<
+  | {
+      Status: string | undefined;
+      StatusCode: number | undefined;
+    }
+  | undefined
+> {
+  const controls: SecurityControlInput[] = event.ResourceProperties['controls'];
+  const solutionId = process.env['SOLUTION_ID'];
+
+  const securityHubClient = new SecurityHubClient({ customUserAgent: solutionId });
+
+  switch (event.RequestType) {
+    case 'Create':
+    case 'Update':
+      // Reset the parameters which are no longer customized to their default value
+      if (event.RequestType === 'Update') {
+        const oldControls: SecurityControlInput[] = event.OldResourceProperties['controls'] ?? [];
+        for (const oldControl of oldControls) {
+          const control = controls.find(item => item.controlId === oldControl.controlId);
+          const removedParameterNames = oldControl.parameters
+            .map(item => item.name)
+            .filter(name => !control?.parameters.find(item => item.name === name));
+          await resetSecurityControlParameters(securityHubClient, oldControl.controlId, removedParameterNames);
+        }
+      }
+
+      for (const control of controls) {
+        console.log(`starting - UpdateSecurityControl ${control.controlId}`);
+        const parameterTypes = await getParameterTypes(securityHubClient, control.controlId);
+        const parameters: Record<string, ParameterConfiguration> = {};
+        for (const parameter of control.parameters) {
+          const parameterType = parameterTypes[parameter.name];
+          if (!parameterType) {
+            throw new Error(`Security control ${control.controlId} does not support parameter ${parameter.name}`);
+          }
+          parameters[parameter.name] = {
+            ValueType: 'CUSTOM',
+            Value: getParameterValue(parameterType, parameter.value),
+          };
+        }
+        await throttlingBackOff(() =>
+          securityHubClient.send(
+            new UpdateSecurityControlCommand({
+              SecurityControlId: control.controlId,
+              Parameters: parameters,
+              LastUpdateReason: getLastUpdateReason(control.justification),
+            }),
+          ),
+        );
+      }
+
+      return { Status: 'Success', StatusCode: 200 };
+
+    case 'Delete':
+      for (const control of controls) {
+        await resetSecurityControlParameters(
+          securityHubClient,
+          control.controlId,
+          control.parameters.map(item => item.name),
+        );
+      }
+
+      return { Status: 'Success', StatusCode: 200 };
+  }
+}
+
+/**
+ * Function to get the value type of each parameter of a security control
+ * @param securityHubClient
+ * @param controlId
+ * @returns
+ */
+async function getParameterTypes(
+  securityHubClient: SecurityHubClient,
+  controlId: string,
+): Promise<{ [name: string]: string }> {
+  const response = await throttlingBackOff(() =>
+    securityHubClient.send(new GetSecurityControlDefinitionCommand({ SecurityControlId: controlId })),
+  );
+
+  const parameterTypes: { [name: string]: string } = {};
+  for (const [name, definition] of Object.entries(response.SecurityControlDefinition?.ParameterDefinitions ?? {})) {
+    const parameterType = Object.keys(definition.ConfigurationOptions ?? {})[0];
+    if (parameterType) {
+      parameterTypes[name] = parameterType;
+    }
+  }
+  return parameterTypes;
+}
+
+/**
+ * Function to convert a parameter value to the given value type, CloudFormation passes every property value as a string
+ * @param parameterType
+ * @param value
+ * @returns
+ */
+function getParameterValue(parameterType: string, value: string | string[]): ParameterValue {
+  const values = Array.isArray(value) ? value : [value];
+  switch (parameterType) {
+    case 'Integer':
+      return { Integer: Number(values[0]) };
+    case 'Double':
+      return { Double: Number(values[0]) };
+    case 'Boolean':
+      return { Boolean: values[0] === 'true' };
+    case 'String':
+      return { String: values[0] };
+    case 'Enum':
+      return { Enum: values[0] };
+    case 'IntegerList':
+      return { IntegerList: values.map(item => Number(item)) };
+    case 'StringList':
+      return { StringList: values };
+    case 'EnumList':
+      return { EnumList: values };
+    default:
+      throw new Error(`Unsupported security control parameter type ${parameterType}`);
+  }
+}
+
+/**
+ * Function to convert a justification to a valid LastUpdateReason, which only allows alphanumeric characters, spaces, hyphens and underscores
+ * @param justification
+ * @returns
+ */
+function getLastUpdateReason(justification: string): string {
+  return justification
+    .replace(/[^-_ a-zA-Z0-9\u0080-\uffff]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .substring(0, 256);
+}
+
+/**
+ * Function to reset the given parameters of a security control to their default value
+ * @param securityHubClient
+ * @param controlId
+ * @param parameterNames
+ */
+async function resetSecurityControlParameters(
+  securityHubClient: SecurityHubClient,
+  controlId: string,
+  parameterNames: string[],
+): Promise<void> {
+  if (parameterNames.length === 0) {
+    return;
+  }
+  console.log(`Resetting parameters ${parameterNames.join(',')} of security control ${controlId}`);
+
+  const parameters: Record<string, ParameterConfiguration> = {};
+  for (const name of parameterNames) {
+    parameters[name] = { ValueType: 'DEFAULT' };
+  }
+  await throttlingBackOff(() =>
+    securityHubClient.send(
+      new UpdateSecurityControlCommand({
+        SecurityControlId: controlId,
+        Parameters: parameters,
+        LastUpdateReason: 'Parameters reset by Accelerator',
+      }),
+    ),
+  );
+}
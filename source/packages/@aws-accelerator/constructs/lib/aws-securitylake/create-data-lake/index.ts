@@ -0,0 +1,151 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { delay, throttlingBackOff } from '@aws-accelerator/utils';
+import {
+  ConflictException,
+  CreateDataLakeCommand,
+  DataLakeConfiguration,
+  DeleteDataLakeCommand,
+  ListDataLakesCommand,
+  SecurityLakeClient,
+  UpdateDataLakeCommand,
+} from '@aws-sdk/client-securitylake';
+
+/**
+ * create-security-lake-data-lake - lambda handler
+ *
+ * @param event
+ * @returns
+ */
+export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent): Promise<
+  | {
+      Status: string | undefined;
+      StatusCode: number | undefined;
+    }
+  | undefined
+> {
+  const metaStoreManagerRoleArn: string = event.ResourceProperties['metaStoreManagerRoleArn'];
+  const configurations = getConfigurations(event.ResourceProperties['configurations']);
+  const regions = getRegions(configurations);
+  const solutionId = process.env['SOLUTION_ID'];
+
+  const securityLakeClient = new SecurityLakeClient({ customUserAgent: solutionId });
+
+  switch (event.RequestType) {
+    case 'Create':
+    case 'Update':
+      try {
+        console.log(`starting - CreateDataLake in regions ${regions.join(',')}`);
+        await throttlingBackOff(() =>
+          securityLakeClient.send(new CreateDataLakeCommand({ configurations, metaStoreManagerRoleArn })),
+        );
+      } catch (e) {
+        if (!(e instanceof ConflictException)) {
+          throw e;
+        }
+        console.log(`starting - UpdateDataLake in regions ${regions.join(',')}`);
+        await throttlingBackOff(() =>
+          securityLakeClient.send(new UpdateDataLakeCommand({ configurations, metaStoreManagerRoleArn })),
+        );
+      }
+
+      // Remove the data lake from the regions removed from the configuration
+      if (event.RequestType === 'Update') {
+        const removedRegions = getRegions(getConfigurations(event.OldResourceProperties['configurations'])).filter(
+          item => !regions.includes(item),
+        );
+        if (removedRegions.length > 0) {
+          console.log(`starting - DeleteDataLake in regions ${removedRegions.join(',')}`);
+          await throttlingBackOff(() =>
+            securityLakeClient.send(new DeleteDataLakeCommand({ regions: removedRegions })),
+          );
+        }
+      }
+
+      await waitForDataLakes(securityLakeClient, regions);
+
+      return { Status: 'Success', StatusCode: 200 };
+
+    case 'Delete':
+      console.log(`starting - DeleteDataLake in regions ${regions.join(',')}`);
+      await throttlingBackOff(() => securityLakeClient.send(new DeleteDataLakeCommand({ regions })));
+
+      return { Status: 'Success', StatusCode: 200 };
+  }
+}
+
+/**
+ * Returns the data lake configurations of the custom resource properties,
+ * CloudFormation passes every property value as a string
+ * @param configurations
+ * @returns
+ */
+function getConfigurations(configurations: DataLakeConfiguration[]): DataLakeConfiguration[] {
+  return configurations.map(item => ({
+    region: item.region,
+    lifecycleConfiguration: {
+      expiration: item.lifecycleConfiguration?.expiration
+        ? { days: Number(item.lifecycleConfiguration.expiration.days) }
+        : undefined,
+      transitions: item.lifecycleConfiguration?.transitions?.map(transition => ({
+        days: Number(transition.days),
+        storageClass: transition.storageClass,
+      })),
+    },
+    replicationConfiguration: item.replicationConfiguration,
+  }));
+}
+
+/**
+ * Returns the regions of the data lake configurations
+ * @param configurations
+ * @returns
+ */
+function getRegions(configurations: DataLakeConfiguration[]): string[] {
+  return configurations.map(item => item.region).filter((item): item is string => item !== undefined);
+}
+
+/**
+ * Wait until the data lake of every region is created and updated
+ * @param securityLakeClient
+ * @param regions
+ */
+async function waitForDataLakes(securityLakeClient: SecurityLakeClient, regions: string[]) {
+  let retries = 0;
+  while (retries < 60) {
+    const response = await throttlingBackOff(() => securityLakeClient.send(new ListDataLakesCommand({ regions })));
+    const dataLakes = response.dataLakes ?? [];
+    const failed = dataLakes.filter(item => item.createStatus === 'FAILED' || item.updateStatus?.status === 'FAILED');
+    if (failed.length > 0) {
+      throw new Error(
+        `Security Lake data lake failed in regions ${failed.map(item => item.region).join(',')}: ${JSON.stringify(
+          failed.map(item => item.updateStatus?.exception),
+        )}`,
+      );
+    }
+    if (
+      dataLakes.length === regions.length &&
+      dataLakes.every(
+        item =>
+          item.createStatus === 'COMPLETED' && (!item.updateStatus?.status || item.updateStatus.status === 'COMPLETED'),
+      )
+    ) {
+      return;
+    }
+    console.log(`Waiting for the data lake of regions ${regions.join(',')}`);
+    await delay(10000);
+    retries = retries + 1;
+  }
+  throw new Error(`Timed out waiting for the Security Lake data lake of regions ${regions.join(',')}`);
+}
@@ -0,0 +1,115 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { throttlingBackOff } from '@aws-accelerator/utils';
+import {
+  AwsLogSourceConfiguration,
+  CreateAwsLogSourceCommand,
+  DeleteAwsLogSourceCommand,
+  SecurityLakeClient,
+} from '@aws-sdk/client-securitylake';
+
+/**
+ * create-security-lake-log-sources - lambda handler
+ *
+ * @param event
+ * @returns
+ */
+export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent): Promise<
+  | {
+      Status: string | undefined;
+      StatusCode: number | undefined;
+    }
+  | undefined
+> {
+  const sources: AwsLogSourceConfiguration[] = event.ResourceProperties['sources'];
+  const solutionId = process.env['SOLUTION_ID'];
+
+  const securityLakeClient = new SecurityLakeClient({ customUserAgent: solutionId });
+
+  switch (event.RequestType) {
+    case 'Create':
+    case 'Update':
+      // Stop collecting the accounts and regions removed from the configuration
+      if (event.RequestType === 'Update') {
+        const removedSources = getRemovedSources(event.OldResourceProperties['sources'], sources);
+        if (removedSources.length > 0) {
+          console.log(`starting - DeleteAwsLogSource ${JSON.stringify(removedSources)}`);
+          await deleteSources(securityLakeClient, removedSources);
+        }
+      }
+
+      if (sources.length > 0) {
+        console.log(`starting - CreateAwsLogSource ${JSON.stringify(sources)}`);
+        const response = await throttlingBackOff(() =>
+          securityLakeClient.send(new CreateAwsLogSourceCommand({ sources })),
+        );
+        const failedAccounts = response.failed ?? [];
+        if (failedAccounts.length > 0) {
+          console.warn(`Security Lake failed to add the log sources of accounts ${failedAccounts.join(',')}`);
+        }
+      }
+
+      return { Status: 'Success', StatusCode: 200 };
+
+    case 'Delete':
+      if (sources.length > 0) {
+        console.log(`starting - DeleteAwsLogSource ${JSON.stringify(sources)}`);
+        await deleteSources(securityLakeClient, sources);
+      }
+
+      return { Status: 'Success', StatusCode: 200 };
+  }
+}
+
+/**
+ * Returns the accounts and regions of the previous log sources that are no longer collected
+ * @param oldSources
+ * @param sources
+ * @returns
+ */
+function getRemovedSources(
+  oldSources: AwsLogSourceConfiguration[],
+  sources: AwsLogSourceConfiguration[],
+): AwsLogSourceConfiguration[] {
+  const removedSources: AwsLogSourceConfiguration[] = [];
+  for (const oldSource of oldSources) {
+    const source = sources.find(
+      item => item.sourceName === oldSource.sourceName && item.sourceVersion === oldSource.sourceVersion,
+    );
+    if (!source) {
+      removedSources.push(oldSource);
+      continue;
+    }
+
+    const removedAccounts = (oldSource.accounts ?? []).filter(item => !(source.accounts ?? []).includes(item));
+    if (removedAccounts.length > 0) {
+      removedSources.push({ ...oldSource, accounts: removedAccounts });
+    }
+
+    const keptAccounts = (oldSource.accounts ?? []).filter(item => (source.accounts ?? []).includes(item));
+    const removedRegions = (oldSource.regions ?? []).filter(item => !(source.regions ?? []).includes(item));
+    if (keptAccounts.length > 0 && removedRegions.length > 0) {
+      removedSources.push({ ...oldSource, accounts: keptAccounts, regions: removedRegions });
+    }
+  }
+  return removedSources;
+}
+
+async function deleteSources(securityLakeClient: SecurityLakeClient, sources: AwsLogSourceConfiguration[]) {
+  const response = await throttlingBackOff(() => securityLakeClient.send(new DeleteAwsLogSourceCommand({ sources })));
+  const failedAccounts = response.failed ?? [];
+  if (failedAccounts.length > 0) {
+    console.warn(`Security Lake failed to remove the log sources of accounts ${failedAccounts.join(',')}`);
+  }
+}
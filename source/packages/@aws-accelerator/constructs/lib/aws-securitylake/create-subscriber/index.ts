@@ -0,0 +1,125 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { throttlingBackOff } from '@aws-accelerator/utils';
+import {
+  AccessType,
+  AwsLogSourceResource,
+  CreateSubscriberCommand,
+  DeleteSubscriberCommand,
+  ResourceNotFoundException,
+  SecurityLakeClient,
+  UpdateSubscriberCommand,
+} from '@aws-sdk/client-securitylake';
+
+/**
+ * create-security-lake-subscriber - lambda handler
+ *
+ * @param event
+ * @returns
+ */
+export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent): Promise<
+  | {
+      PhysicalResourceId: string | undefined;
+      Status: string;
+    }
+  | undefined
+> {
+  const subscriberName: string = event.ResourceProperties['name'];
+  const subscriberDescription: string | undefined = event.ResourceProperties['description'];
+  const subscriberIdentity = {
+    principal: event.ResourceProperties['accountId'],
+    externalId: event.ResourceProperties['externalId'],
+  };
+  const accessTypes: AccessType[] = event.ResourceProperties['accessTypes'];
+  const sources = (event.ResourceProperties['sources'] as AwsLogSourceResource[]).map(awsLogSource => ({
+    awsLogSource,
+  }));
+  const solutionId = process.env['SOLUTION_ID'];
+
+  const securityLakeClient = new SecurityLakeClient({ customUserAgent: solutionId });
+
+  switch (event.RequestType) {
+    case 'Create':
+      return {
+        PhysicalResourceId: await createSubscriber(),
+        Status: 'SUCCESS',
+      };
+
+    case 'Update':
+      // The access types of a subscriber can not be updated, a new subscriber replaces the existing one
+      if (JSON.stringify(event.OldResourceProperties['accessTypes']) !== JSON.stringify(accessTypes)) {
+        console.log(`Access types of subscriber ${subscriberName} changed, replacing the subscriber`);
+        return {
+          PhysicalResourceId: await createSubscriber(),
+          Status: 'SUCCESS',
+        };
+      }
+
+      console.log(`starting - UpdateSubscriber ${event.PhysicalResourceId}`);
+      await throttlingBackOff(() =>
+        securityLakeClient.send(
+          new UpdateSubscriberCommand({
+            subscriberId: event.PhysicalResourceId,
+            subscriberName,
+            subscriberDescription,
+            subscriberIdentity,
+            sources,
+          }),
+        ),
+      );
+
+      return {
+        PhysicalResourceId: event.PhysicalResourceId,
+        Status: 'SUCCESS',
+      };
+
+    case 'Delete':
+      console.log(`starting - DeleteSubscriber ${event.PhysicalResourceId}`);
+      try {
+        await throttlingBackOff(() =>
+          securityLakeClient.send(new DeleteSubscriberCommand({ subscriberId: event.PhysicalResourceId })),
+        );
+      } catch (e) {
+        if (e instanceof ResourceNotFoundException) {
+          console.warn(`Subscriber ${event.PhysicalResourceId} does not exist. No action needed`);
+        } else {
+          throw e;
+        }
+      }
+
+      return {
+        PhysicalResourceId: event.PhysicalResourceId,
+        Status: 'SUCCESS',
+      };
+  }
+
+  async function createSubscriber(): Promise<string> {
+    console.log(`starting - CreateSubscriber ${subscriberName}`);
+    const response = await throttlingBackOff(() =>
+      securityLakeClient.send(
+        new CreateSubscriberCommand({
+          subscriberName,
+          subscriberDescription,
+          subscriberIdentity,
+          accessTypes,
+          sources,
+        }),
+      ),
+    );
+    if (!response.subscriber?.subscriberId) {
+      throw new Error(`Error creating Security Lake subscriber ${subscriberName}; unable to retrieve ID value.`);
+    }
+    return response.subscriber.subscriberId;
+  }
+}
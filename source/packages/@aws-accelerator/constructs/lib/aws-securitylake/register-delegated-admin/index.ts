@@ -0,0 +1,74 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { throttlingBackOff } from '@aws-accelerator/utils';
+import {
+  ConflictException,
+  DeregisterDataLakeDelegatedAdministratorCommand,
+  RegisterDataLakeDelegatedAdministratorCommand,
+  ResourceNotFoundException,
+  SecurityLakeClient,
+} from '@aws-sdk/client-securitylake';
+
+/**
+ * register-security-lake-delegated-admin - lambda handler
+ *
+ * @param event
+ * @returns
+ */
+export async function handler(event: AWSLambda.CloudFormationCustomResourceEvent): Promise<
+  | {
+      Status: string | undefined;
+      StatusCode: number | undefined;
+    }
+  | undefined
+> {
+  const region = event.ResourceProperties['region'];
+  const adminAccountId = event.ResourceProperties['adminAccountId'];
+  const solutionId = process.env['SOLUTION_ID'];
+
+  const securityLakeClient = new SecurityLakeClient({ region: region, customUserAgent: solutionId });
+
+  switch (event.RequestType) {
+    case 'Create':
+    case 'Update':
+      console.log(
+        `Started registerDataLakeDelegatedAdministrator function in ${region} region for account ${adminAccountId}`,
+      );
+      try {
+        await throttlingBackOff(() =>
+          securityLakeClient.send(new RegisterDataLakeDelegatedAdministratorCommand({ accountId: adminAccountId })),
+        );
+      } catch (e) {
+        if (e instanceof ConflictException) {
+          console.warn(`Security Lake delegated admin is already registered in ${region} region. No action needed`);
+        } else {
+          throw e;
+        }
+      }
+      return { Status: 'Success', StatusCode: 200 };
+
+    case 'Delete':
+      console.log(`Started deregisterDataLakeDelegatedAdministrator function in ${region} region`);
+      try {
+        await throttlingBackOff(() => securityLakeClient.send(new DeregisterDataLakeDelegatedAdministratorCommand({})));
+      } catch (e) {
+        if (e instanceof ResourceNotFoundException) {
+          console.warn(`Security Lake delegated admin is not registered in ${region} region. No action needed`);
+        } else {
+          throw e;
+        }
+      }
+      return { Status: 'Success', StatusCode: 200 };
+  }
+}
@@ -0,0 +1,322 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+
+const path = require('path');
+
+/**
+ * Security Lake data lifecycle transition
+ */
+export interface SecurityLakeTransition {
+  /**
+   * S3 storage class of the transition
+   */
+  readonly storageClass: string;
+  /**
+   * Number of days after which the data transitions to the storage class
+   */
+  readonly transitionAfter: number;
+}
+
+/**
+ * Security Lake rollup region
+ */
+export interface SecurityLakeRollupRegion {
+  /**
+   * Region the data of the contributing regions is replicated to
+   */
+  readonly region: string;
+  /**
+   * Regions contributing their data to the rollup region
+   */
+  readonly contributingRegions: string[];
+}
+
+/**
+ * Initialized SecurityLakeDataLakeProps properties
+ */
+export interface SecurityLakeDataLakeProps {
+  /**
+   * Regions of the data lake
+   */
+  readonly regions: string[];
+  /**
+   * Number of days after which the data of the data lake expires
+   */
+  readonly expiration?: number;
+  /**
+   * Transitions of the data of the data lake to other S3 storage classes
+   */
+  readonly transitions?: SecurityLakeTransition[];
+  /**
+   * Rollup regions of the data lake
+   */
+  readonly rollupRegions?: SecurityLakeRollupRegion[];
+  /**
+   * Custom resource lambda log group encryption key
+   */
+  readonly kmsKey: cdk.aws_kms.IKey;
+  /**
+   * Custom resource lambda log retention in days
+   */
+  readonly logRetentionInDays: number;
+}
+
+/**
+ * Class to create the Security Lake data lake of the delegated admin account
+ */
+export class SecurityLakeDataLake extends Construct {
+  public readonly id: string;
+
+  constructor(scope: Construct, id: string, props: SecurityLakeDataLakeProps) {
+    super(scope, id);
+
+    const RESOURCE_TYPE = 'Custom::SecurityLakeDataLake';
+
+    // Role used by Security Lake to manage the partitions of the data lake tables
+    const metaStoreManagerRole = new cdk.aws_iam.Role(this, 'MetaStoreManagerRole', {
+      assumedBy: new cdk.aws_iam.ServicePrincipal('lambda.amazonaws.com'),
+      managedPolicies: [
+        cdk.aws_iam.ManagedPolicy.fromAwsManagedPolicyName('service-role/AmazonSecurityLakeMetastoreManager'),
+      ],
+    });
+
+    // Role used by S3 to replicate the data of contributing regions to rollup regions
+    let replicationRole: cdk.aws_iam.Role | undefined;
+    if ((props.rollupRegions ?? []).length > 0) {
+      replicationRole = new cdk.aws_iam.Role(this, 'ReplicationRole', {
+        assumedBy: new cdk.aws_iam.ServicePrincipal('s3.amazonaws.com'),
+      });
+      replicationRole.addToPolicy(
+        new cdk.aws_iam.PolicyStatement({
+          sid: 'AllowReadS3ReplicationSetting',
+          actions: [
+            's3:ListBucket',
+            's3:GetReplicationConfiguration',
+            's3:GetObjectVersionForReplication',
+            's3:GetObjectVersion',
+            's3:GetObjectVersionAcl',
+            's3:GetObjectVersionTagging',
+            's3:GetObjectRetention',
+            's3:GetObjectLegalHold',
+          ],
+          resources: [
+            `arn:${cdk.Aws.PARTITION}:s3:::aws-security-data-lake*`,
+            `arn:${cdk.Aws.PARTITION}:s3:::aws-security-data-lake*/*`,
+          ],
+          conditions: { StringEquals: { 'aws:ResourceAccount': [cdk.Stack.of(this).account] } },
+        }),
+      );
+      replicationRole.addToPolicy(
+        new cdk.aws_iam.PolicyStatement({
+          sid: 'AllowS3Replication',
+          actions: ['s3:ReplicateObject', 's3:ReplicateDelete', 's3:ReplicateTags', 's3:GetObjectVersionTagging'],
+          resources: [`arn:${cdk.Aws.PARTITION}:s3:::aws-security-data-lake*/*`],
+          conditions: { StringEquals: { 'aws:ResourceAccount': [cdk.Stack.of(this).account] } },
+        }),
+      );
+    }
+
+    // Roles passed by Security Lake to the partition updater function and to S3 replication
+    const roleArns = [metaStoreManagerRole.roleArn];
+    if (replicationRole) {
+      roleArns.push(replicationRole.roleArn);
+    }
+
+    const provider = cdk.CustomResourceProvider.getOrCreateProvider(this, RESOURCE_TYPE, {
+      codeDirectory: path.join(__dirname, 'create-data-lake/dist'),
+      runtime: cdk.CustomResourceProviderRuntime.NODEJS_16_X,
+      timeout: cdk.Duration.minutes(15),
+      policyStatements: [
+        {
+          Sid: 'SecurityLakeDataLakeTaskSecurityLakeActions',
+          Effect: 'Allow',
+          Action: [
+            'securitylake:CreateDataLake',
+            'securitylake:DeleteDataLake',
+            'securitylake:ListDataLakes',
+            'securitylake:UpdateDataLake',
+          ],
+          Resource: '*',
+        },
+        {
+          // Security Lake creates the data lake buckets with the permissions of the caller
+          Sid: 'SecurityLakeDataLakeTaskS3Actions',
+          Effect: 'Allow',
+          Action: [
+            's3:CreateBucket',
+            's3:GetBucketLocation',
+            's3:GetBucketNotification',
+            's3:GetBucketPolicy',
+            's3:GetLifecycleConfiguration',
+            's3:GetReplicationConfiguration',
+            's3:ListBucket',
+            's3:PutBucketNotification',
+            's3:PutBucketPolicy',
+            's3:PutBucketPublicAccessBlock',
+            's3:PutBucketTagging',
+            's3:PutBucketVersioning',
+            's3:PutEncryptionConfiguration',
+            's3:PutLifecycleConfiguration',
+            's3:PutReplicationConfiguration',
+          ],
+          Resource: `arn:${cdk.Aws.PARTITION}:s3:::aws-security-data-lake-*`,
+        },
+        {
+          Sid: 'SecurityLakeDataLakeTaskSqsActions',
+          Effect: 'Allow',
+          Action: [
+            'sqs:CreateQueue',
+            'sqs:DeleteQueue',
+            'sqs:GetQueueAttributes',
+            'sqs:GetQueueUrl',
+            'sqs:SetQueueAttributes',
+            'sqs:TagQueue',
+          ],
+          Resource: `arn:${cdk.Aws.PARTITION}:sqs:*:${cdk.Aws.ACCOUNT_ID}:SecurityLake_*`,
+        },
+        {
+          Sid: 'SecurityLakeDataLakeTaskLambdaActions',
+          Effect: 'Allow',
+          Action: [
+            'lambda:AddPermission',
+            'lambda:CreateFunction',
+            'lambda:DeleteFunction',
+            'lambda:GetFunction',
+            'lambda:TagResource',
+          ],
+          Resource: `arn:${cdk.Aws.PARTITION}:lambda:*:${cdk.Aws.ACCOUNT_ID}:function:SecurityLake_*`,
+        },
+        {
+          Sid: 'SecurityLakeDataLakeTaskLambdaEventSourceMappingActions',
+          Effect: 'Allow',
+          Action: [
+            'lambda:CreateEventSourceMapping',
+            'lambda:DeleteEventSourceMapping',
+            'lambda:GetEventSourceMapping',
+          ],
+          Resource: '*',
+          Condition: {
+            ArnLike: {
+              'lambda:FunctionArn': `arn:${cdk.Aws.PARTITION}:lambda:*:${cdk.Aws.ACCOUNT_ID}:function:SecurityLake_*`,
+            },
+          },
+        },
+        {
+          Sid: 'SecurityLakeDataLakeTaskGlueActions',
+          Effect: 'Allow',
+          Action: [
+            'glue:CreateDatabase',
+            'glue:CreateTable',
+            'glue:DeleteTable',
+            'glue:GetDatabase',
+            'glue:GetTable',
+            'glue:GetTables',
+            'glue:UpdateTable',
+          ],
+          Resource: [
+            `arn:${cdk.Aws.PARTITION}:glue:*:${cdk.Aws.ACCOUNT_ID}:catalog`,
+            `arn:${cdk.Aws.PARTITION}:glue:*:${cdk.Aws.ACCOUNT_ID}:database/amazon_security_lake_glue_db*`,
+            `arn:${cdk.Aws.PARTITION}:glue:*:${cdk.Aws.ACCOUNT_ID}:table/amazon_security_lake_glue_db*/*`,
+          ],
+        },
+        {
+          // Lake Formation does not support resource level permissions
+          Sid: 'SecurityLakeDataLakeTaskLakeFormationActions',
+          Effect: 'Allow',
+          Action: [
+            'lakeformation:GetDataLakeSettings',
+            'lakeformation:GrantPermissions',
+            'lakeformation:ListPermissions',
+            'lakeformation:PutDataLakeSettings',
+            'lakeformation:RegisterResource',
+            'lakeformation:RevokePermissions',
+          ],
+          Resource: '*',
+        },
+        {
+          Sid: 'SecurityLakeDataLakeTaskIamActions',
+          Effect: 'Allow',
+          Action: ['iam:GetRole', 'iam:ListAttachedRolePolicies'],
+          Resource: roleArns,
+        },
+        {
+          Sid: 'SecurityLakeDataLakeTaskPassRole',
+          Effect: 'Allow',
+          Action: ['iam:PassRole'],
+          Resource: roleArns,
+          Condition: {
+            StringEquals: {
+              'iam:PassedToService': ['lambda.amazonaws.com', 's3.amazonaws.com'],
+            },
+          },
+        },
+        {
+          Sid: 'ServiceLinkedRoleSecurityLake',
+          Effect: 'Allow',
+          Action: ['iam:CreateServiceLinkedRole'],
+          Resource: '*',
+          Condition: {
+            StringLike: {
+              'iam:AWSServiceName': ['lakeformation.amazonaws.com', 'securitylake.amazonaws.com'],
+            },
+          },
+        },
+      ],
+    });
+
+    const resource = new cdk.CustomResource(this, 'Resource', {
+      resourceType: RESOURCE_TYPE,
+      serviceToken: provider.serviceToken,
+      properties: {
+        metaStoreManagerRoleArn: metaStoreManagerRole.roleArn,
+        configurations: props.regions.map(region => {
+          const rollupRegion = props.rollupRegions?.find(item => item.contributingRegions.includes(region));
+          return {
+            region,
+            lifecycleConfiguration: {
+              expiration: props.expiration ? { days: props.expiration } : undefined,
+              transitions: props.transitions?.map(item => ({
+                days: item.transitionAfter,
+                storageClass: item.storageClass,
+              })),
+            },
+            replicationConfiguration: rollupRegion
+              ? { regions: [rollupRegion.region], roleArn: replicationRole!.roleArn }
+              : undefined,
+          };
+        }),
+      },
+    });
+    resource.node.addDependency(metaStoreManagerRole);
+
+    /**
+     * Singleton pattern to define the log group for the singleton function
+     * in the stack
+     */
+    const stack = cdk.Stack.of(scope);
+    const logGroup =
+      (stack.node.tryFindChild(`${provider.node.id}LogGroup`) as cdk.aws_logs.LogGroup) ??
+      new cdk.aws_logs.LogGroup(stack, `${provider.node.id}LogGroup`, {
+        logGroupName: `/aws/lambda/${(provider.node.findChild('Handler') as cdk.aws_lambda.CfnFunction).ref}`,
+        retention: props.logRetentionInDays,
+        encryptionKey: props.kmsKey,
+        removalPolicy: cdk.RemovalPolicy.DESTROY,
+      });
+    resource.node.addDependency(logGroup);
+
+    this.id = resource.ref;
+  }
+}
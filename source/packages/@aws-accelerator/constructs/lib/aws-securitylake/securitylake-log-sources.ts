@@ -0,0 +1,120 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+
+const path = require('path');
+
+/**
+ * Security Lake AWS log source collected from accounts and regions
+ */
+export interface SecurityLakeLogSource {
+  /**
+   * Name of the AWS log source
+   */
+  readonly sourceName: string;
+  /**
+   * Version of the AWS log source
+   */
+  readonly sourceVersion?: string;
+  /**
+   * Account ids the log source is collected from
+   */
+  readonly accounts: string[];
+  /**
+   * Regions the log source is collected from
+   */
+  readonly regions: string[];
+}
+
+/**
+ * Initialized SecurityLakeLogSourcesProps properties
+ */
+export interface SecurityLakeLogSourcesProps {
+  /**
+   * AWS log sources of the data lake
+   */
+  readonly sources: SecurityLakeLogSource[];
+  /**
+   * Custom resource lambda log group encryption key
+   */
+  readonly kmsKey: cdk.aws_kms.IKey;
+  /**
+   * Custom resource lambda log retention in days
+   */
+  readonly logRetentionInDays: number;
+}
+
+/**
+ * Class to configure the AWS log sources of the Security Lake data lake
+ */
+export class SecurityLakeLogSources extends Construct {
+  public readonly id: string;
+
+  constructor(scope: Construct, id: string, props: SecurityLakeLogSourcesProps) {
+    super(scope, id);
+
+    const RESOURCE_TYPE = 'Custom::SecurityLakeLogSources';
+
+    const provider = cdk.CustomResourceProvider.getOrCreateProvider(this, RESOURCE_TYPE, {
+      codeDirectory: path.join(__dirname, 'create-log-sources/dist'),
+      runtime: cdk.CustomResourceProviderRuntime.NODEJS_16_X,
+      policyStatements: [
+        {
+          Sid: 'SecurityLakeLogSourcesTaskSecurityLakeActions',
+          Effect: 'Allow',
+          Action: ['securitylake:CreateAwsLogSource', 'securitylake:DeleteAwsLogSource'],
+          Resource: '*',
+        },
+        {
+          Sid: 'SecurityLakeLogSourcesTaskOrganizationActions',
+          Effect: 'Allow',
+          Action: ['organizations:DescribeOrganization', 'organizations:ListAccounts'],
+          Resource: '*',
+        },
+        {
+          Sid: 'SecurityLakeLogSourcesTaskResourceActions',
+          Effect: 'Allow',
+          Action: ['glue:CreateTable', 'glue:GetTable', 'glue:UpdateTable', 'iam:CreateServiceLinkedRole'],
+          Resource: '*',
+        },
+      ],
+    });
+
+    const resource = new cdk.CustomResource(this, 'Resource', {
+      resourceType: RESOURCE_TYPE,
+      serviceToken: provider.serviceToken,
+      properties: {
+        sources: props.sources,
+      },
+    });
+
+    /**
+     * Singleton pattern to define the log group for the singleton function
+     * in the stack
+     */
+    const stack = cdk.Stack.of(scope);
+    const logGroup =
+      (stack.node.tryFindChild(`${provider.node.id}LogGroup`) as cdk.aws_logs.LogGroup) ??
+      new cdk.aws_logs.LogGroup(stack, `${provider.node.id}LogGroup`, {
+        logGroupName: `/aws/lambda/${(provider.node.findChild('Handler') as cdk.aws_lambda.CfnFunction).ref}`,
+        retention: props.logRetentionInDays,
+        encryptionKey: props.kmsKey,
+        removalPolicy: cdk.RemovalPolicy.DESTROY,
+      });
+    resource.node.addDependency(logGroup);
+
+    this.id = resource.ref;
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+
+const path = require('path');
+
+/**
+ * Initialized SecurityLakeSubscriberProps properties
+ */
+export interface SecurityLakeSubscriberProps {
+  /**
+   * Name of the subscriber
+   */
+  readonly name: string;
+  /**
+   * Description of the subscriber
+   */
+  readonly description?: string;
+  /**
+   * AWS account id of the subscriber
+   */
+  readonly accountId: string;
+  /**
+   * External ID used by the subscriber to access the data lake
+   */
+  readonly externalId: string;
+  /**
+   * Access types of the subscriber
+   */
+  readonly accessTypes: string[];
+  /**
+   * AWS log sources the subscriber has access to
+   */
+  readonly sources: { sourceName: string; sourceVersion?: string }[];
+  /**
+   * Custom resource lambda log group encryption key
+   */
+  readonly kmsKey: cdk.aws_kms.IKey;
+  /**
+   * Custom resource lambda log retention in days
+   */
+  readonly logRetentionInDays: number;
+}
+
+/**
+ * Class to register a subscriber of the Security Lake data lake
+ */
+export class SecurityLakeSubscriber extends Construct {
+  public readonly id: string;
+
+  constructor(scope: Construct, id: string, props: SecurityLakeSubscriberProps) {
+    super(scope, id);
+
+    const RESOURCE_TYPE = 'Custom::SecurityLakeSubscriber';
+
+    const provider = cdk.CustomResourceProvider.getOrCreateProvider(this, RESOURCE_TYPE, {
+      codeDirectory: path.join(__dirname, 'create-subscriber/dist'),
+      runtime: cdk.CustomResourceProviderRuntime.NODEJS_16_X,
+      policyStatements: [
+        {
+          Sid: 'SecurityLakeSubscriberTaskSecurityLakeActions',
+          Effect: 'Allow',
+          Action: [
+            'securitylake:CreateSubscriber',
+            'securitylake:DeleteSubscriber',
+            'securitylake:GetSubscriber',
+            'securitylake:UpdateSubscriber',
+          ],
+          Resource: '*',
+        },
+        {
+          // Security Lake creates the subscriber access with the permissions of the caller
+          Sid: 'SecurityLakeSubscriberTaskResourceActions',
+          Effect: 'Allow',
+          Action: [
+            'glue:GetDatabase',
+            'glue:GetTable',
+            'iam:CreateRole',
+            'iam:DeleteRole',
+            'iam:DeleteRolePolicy',
+            'iam:GetRole',
+            'iam:PassRole',
+            'iam:PutRolePolicy',
+            'lakeformation:GrantPermissions',
+            'lakeformation:ListPermissions',
+            'lakeformation:RegisterResource',
+            'lakeformation:RevokePermissions',
+            'ram:GetResourceShareAssociations',
+            'ram:GetResourceShares',
+            'ram:UpdateResourceShare',
+            's3:PutObject',
+          ],
+          Resource: '*',
+        },
+      ],
+    });
+
+    const resource = new cdk.CustomResource(this, 'Resource', {
+      resourceType: RESOURCE_TYPE,
+      serviceToken: provider.serviceToken,
+      properties: {
+        name: props.name,
+        description: props.description,
+        accountId: props.accountId,
+        externalId: props.externalId,
+        accessTypes: props.accessTypes,
+        sources: props.sources,
+      },
+    });
+
+    /**
+     * Singleton pattern to define the log group for the singleton function
+     * in the stack
+     */
+    const stack = cdk.Stack.of(scope);
+    const logGroup =
+      (stack.node.tryFindChild(`${provider.node.id}LogGroup`) as cdk.aws_logs.LogGroup) ??
+      new cdk.aws_logs.LogGroup(stack, `${provider.node.id}LogGroup`, {
+        logGroupName: `/aws/lambda/${(provider.node.findChild('Handler') as cdk.aws_lambda.CfnFunction).ref}`,
+        retention: props.logRetentionInDays,
+        encryptionKey: props.kmsKey,
+        removalPolicy: cdk.RemovalPolicy.DESTROY,
+      });
+    resource.node.addDependency(logGroup);
+
+    this.id = resource.ref;
+  }
+}
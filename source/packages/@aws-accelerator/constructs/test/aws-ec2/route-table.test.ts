@@ -160,5 +160,28 @@ describe('RouteTable', () => {
     }
     expect(noDest).toThrow(new Error('Attempting to add CIDR route without specifying destination'));
   });
+  it('addEgressOnlyInternetGatewayRoute without egress-only IGW throws error', () => {
+    function noEigw() {
+      rt.addEgressOnlyInternetGatewayRoute('testEigwRoute', '::/0', undefined, key, 10);
+    }
+    expect(noEigw).toThrow(new Error('Attempting to add Egress-only Internet Gateway route without an EIGW defined.'));
+  });
+  it('IPv6 destinations use destinationIpv6CidrBlock', () => {
+    const ipv6Stack = new cdk.Stack();
+    const ipv6Vpc = new Vpc(ipv6Stack, 'TestVpc', {
+      name: 'Test',
+      ipv4CidrBlock: '10.0.0.0/16',
+      internetGateway: true,
+      egressOnlyInternetGateway: true,
+    });
+    ipv6Vpc.addIpv6Cidr({ amazonProvidedIpv6CidrBlock: true });
+    const ipv6Rt = new RouteTable(ipv6Stack, 'RouteTable', { name: 'TestRouteTable', vpc: ipv6Vpc });
+    const eigwRoute = ipv6Rt.addEgressOnlyInternetGatewayRoute('testEigwRoute', '::/0') as cdk.aws_ec2.CfnRoute;
+    const igwRoute = ipv6Rt.addInternetGatewayRoute('testIgwRoute', '2001:db8::/32') as cdk.aws_ec2.CfnRoute;
+
+    expect(eigwRoute.destinationIpv6CidrBlock).toEqual('::/0');
+    expect(eigwRoute.destinationCidrBlock).toBeUndefined();
+    expect(igwRoute.destinationIpv6CidrBlock).toEqual('2001:db8::/32');
+  });
   snapShotTest(testNamePrefix, stack);
 });
@@ -0,0 +1,45 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as cdk from 'aws-cdk-lib';
+import { TransitGatewayConnect, TransitGatewayConnectPeer } from '../../lib/aws-ec2/transit-gateway-connect';
+import { snapShotTest } from '../snapshot-test';
+import { describe } from '@jest/globals';
+
+const testNamePrefix = 'Construct(TransitGatewayConnect): ';
+
+//Initialize stack for snapshot test and resource configuration test
+const stack = new cdk.Stack();
+
+const connect = new TransitGatewayConnect(stack, 'TestTransitGatewayConnect', {
+  name: 'SdWan',
+  transportTransitGatewayAttachmentId: 'tgw-attach-test',
+  tags: [{ key: 'Test', value: 'test' }],
+});
+
+new TransitGatewayConnectPeer(stack, 'TestTransitGatewayConnectPeer', {
+  name: 'SdWanPeer',
+  transitGatewayAttachmentId: connect.transitGatewayAttachmentId,
+  peerAddress: '10.0.0.10',
+  insideCidrBlocks: ['169.254.100.0/29'],
+  peerAsn: 65100,
+  logGroupKmsKey: new cdk.aws_kms.Key(stack, 'TestKms', {}),
+  logRetentionInDays: 3653,
+});
+
+/**
+ * Transit gateway Connect construct test
+ */
+describe('TransitGatewayConnect', () => {
+  snapShotTest(testNamePrefix, stack);
+});
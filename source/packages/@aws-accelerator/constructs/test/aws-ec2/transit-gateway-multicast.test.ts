@@ -0,0 +1,59 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as cdk from 'aws-cdk-lib';
+import {
+  TransitGatewayMulticastDomain,
+  TransitGatewayMulticastDomainAssociation,
+  TransitGatewayMulticastGroupMember,
+  TransitGatewayMulticastGroupSource,
+} from '../../lib/aws-ec2/transit-gateway-multicast';
+import { snapShotTest } from '../snapshot-test';
+import { describe } from '@jest/globals';
+
+const testNamePrefix = 'Construct(TransitGatewayMulticastDomain): ';
+
+//Initialize stack for snapshot test and resource configuration test
+const stack = new cdk.Stack();
+
+const domain = new TransitGatewayMulticastDomain(stack, 'TestTransitGatewayMulticastDomain', {
+  name: 'MarketData',
+  transitGatewayId: 'tgw-test',
+  staticSourcesSupport: 'enable',
+  tags: [{ key: 'Test', value: 'test' }],
+});
+
+new TransitGatewayMulticastDomainAssociation(stack, 'TestTransitGatewayMulticastDomainAssociation', {
+  transitGatewayMulticastDomainId: domain.transitGatewayMulticastDomainId,
+  transitGatewayAttachmentId: 'tgw-attach-test',
+  subnetId: 'subnet-test',
+});
+
+new TransitGatewayMulticastGroupMember(stack, 'TestTransitGatewayMulticastGroupMember', {
+  transitGatewayMulticastDomainId: domain.transitGatewayMulticastDomainId,
+  groupIpAddress: '239.0.0.1',
+  networkInterfaceId: 'eni-member',
+});
+
+new TransitGatewayMulticastGroupSource(stack, 'TestTransitGatewayMulticastGroupSource', {
+  transitGatewayMulticastDomainId: domain.transitGatewayMulticastDomainId,
+  groupIpAddress: '239.0.0.1',
+  networkInterfaceId: 'eni-source',
+});
+
+/**
+ * Transit gateway multicast domain construct test
+ */
+describe('TransitGatewayMulticastDomain', () => {
+  snapShotTest(testNamePrefix, stack);
+});
@@ -24,6 +24,13 @@ new GuardDutyDetectorConfig(stack, 'GuardDutyDetectorConfig', {
   exportFrequency: 'FIFTEEN_MINUTES',
   enableS3Protection: true,
   enableEksProtection: true,
+  enableEbsProtection: true,
+  enableRdsProtection: true,
+  enableLambdaProtection: false,
+  enableRuntimeMonitoring: true,
+  enableEksAddonManagement: true,
+  enableEcsFargateAgentManagement: true,
+  enableEc2AgentManagement: false,
   kmsKey: new cdk.aws_kms.Key(stack, 'CustomKey', {}),
   logRetentionInDays: 3653,
 });
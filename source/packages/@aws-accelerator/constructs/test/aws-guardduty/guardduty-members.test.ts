@@ -23,6 +23,13 @@ const stack = new cdk.Stack();
 new GuardDutyMembers(stack, 'GuardDutyMembers', {
   enableS3Protection: true,
   enableEksProtection: true,
+  enableEbsProtection: true,
+  enableRdsProtection: true,
+  enableLambdaProtection: false,
+  enableRuntimeMonitoring: true,
+  enableEksAddonManagement: true,
+  enableEcsFargateAgentManagement: true,
+  enableEc2AgentManagement: false,
   kmsKey: new cdk.aws_kms.Key(stack, 'CustomKey', {}),
   logRetentionInDays: 3653,
 });
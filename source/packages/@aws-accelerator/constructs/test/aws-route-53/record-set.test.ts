@@ -83,6 +83,15 @@ describe('RecordSet', () => {
       hostedZone: hostedZone,
     });
   });
+  it('test with resource records', () => {
+    new RecordSet(stack, `TestRecordSet2`, {
+      type: 'CNAME',
+      name: `app.${hostedZoneName}`,
+      hostedZone: hostedZone,
+      resourceRecords: ['app.example.com'],
+      ttl: 60,
+    });
+  });
   snapShotTest(testNamePrefix, stack);
   const sagemakerHostedZone = RecordSet.getHostedZoneNameFromService('notebook', 'us-east-1');
   expect(sagemakerHostedZone).toBe('notebook.us-east-1.sagemaker.aws');
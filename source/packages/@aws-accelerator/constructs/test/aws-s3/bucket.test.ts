@@ -232,6 +232,15 @@ describe('Bucket', () => {
       ],
     });
   });
+  it('test with object lock retention provided', () => {
+    new Bucket(stack, 'BucketObjectLock', {
+      encryptionType: BucketEncryptionType.SSE_KMS,
+      s3BucketName: `example-data-${cdk.Aws.ACCOUNT_ID}-${cdk.Aws.REGION}`,
+      kmsKey: new cdk.aws_kms.Key(stack, 'CustomKeyObjectLock', {}),
+      serverAccessLogsBucketName: `aws-accelerator-s3-access-logs-${cdk.Aws.ACCOUNT_ID}-${cdk.Aws.REGION}`,
+      objectLockDefaultRetention: cdk.aws_s3.ObjectLockRetention.governance(cdk.Duration.days(365)),
+    });
+  });
 
   snapShotTest(testNamePrefix, stack);
 });
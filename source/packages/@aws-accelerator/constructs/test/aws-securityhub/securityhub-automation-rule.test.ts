@@ -0,0 +1,44 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as cdk from 'aws-cdk-lib';
+import { SecurityHubAutomationRule } from '../../lib/aws-securityhub/securityhub-automation-rule';
+import { snapShotTest } from '../snapshot-test';
+
+const testNamePrefix = 'Construct(SecurityHubAutomationRule): ';
+
+//Initialize stack for snapshot test and resource configuration test
+const stack = new cdk.Stack();
+
+new SecurityHubAutomationRule(stack, 'SecurityHubAutomationRule', {
+  name: 'Suppress sandbox default VPC findings',
+  description: 'Default VPCs are accepted in sandbox accounts',
+  ruleOrder: 1,
+  enable: true,
+  isTerminal: false,
+  criteria: {
+    accountIds: ['111111111111'],
+    controlIds: ['EC2.2'],
+    resourceTags: [{ key: 'Environment', value: 'Sandbox' }],
+  },
+  actions: { workflowStatus: 'SUPPRESSED', note: 'Accepted risk' },
+  kmsKey: new cdk.aws_kms.Key(stack, 'CustomKey', {}),
+  logRetentionInDays: 3653,
+});
+
+/**
+ * SecurityHubAutomationRule construct test
+ */
+describe('SecurityHubAutomationRule', () => {
+  snapShotTest(testNamePrefix, stack);
+});
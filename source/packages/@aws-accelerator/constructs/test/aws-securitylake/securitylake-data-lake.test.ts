@@ -0,0 +1,37 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as cdk from 'aws-cdk-lib';
+import { SecurityLakeDataLake } from '../../lib/aws-securitylake/securitylake-data-lake';
+import { snapShotTest } from '../snapshot-test';
+
+const testNamePrefix = 'Construct(SecurityLakeDataLake): ';
+
+//Initialize stack for snapshot test and resource configuration test
+const stack = new cdk.Stack();
+
+new SecurityLakeDataLake(stack, 'SecurityLakeDataLake', {
+  regions: ['us-east-1', 'us-west-2'],
+  expiration: 365,
+  transitions: [{ storageClass: 'GLACIER', transitionAfter: 90 }],
+  rollupRegions: [{ region: 'us-east-1', contributingRegions: ['us-west-2'] }],
+  kmsKey: new cdk.aws_kms.Key(stack, 'CustomKey', {}),
+  logRetentionInDays: 3653,
+});
+
+/**
+ * SecurityLakeDataLake construct test
+ */
+describe('SecurityLakeDataLake', () => {
+  snapShotTest(testNamePrefix, stack);
+});
@@ -0,0 +1,38 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as cdk from 'aws-cdk-lib';
+import { SecurityLakeSubscriber } from '../../lib/aws-securitylake/securitylake-subscriber';
+import { snapShotTest } from '../snapshot-test';
+
+const testNamePrefix = 'Construct(SecurityLakeSubscriber): ';
+
+//Initialize stack for snapshot test and resource configuration test
+const stack = new cdk.Stack();
+
+new SecurityLakeSubscriber(stack, 'SecurityLakeSubscriber', {
+  name: 'SOC',
+  accountId: '111111111111',
+  externalId: 'soc-external-id',
+  accessTypes: ['S3'],
+  sources: [{ sourceName: 'CLOUD_TRAIL_MGMT' }],
+  kmsKey: new cdk.aws_kms.Key(stack, 'CustomKey', {}),
+  logRetentionInDays: 3653,
+});
+
+/**
+ * SecurityLakeSubscriber construct test
+ */
+describe('SecurityLakeSubscriber', () => {
+  snapShotTest(testNamePrefix, stack);
+});
@@ -0,0 +1,71 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+import yargs from 'yargs';
+
+import { createLogger } from '@aws-accelerator/utils';
+import { OrganizationsClient } from '@aws-sdk/client-organizations';
+
+import { ConfigGenerator } from './lib/classes/config-generator';
+
+/**
+ * AWS Accelerator configuration generator tool entry point.
+ * Generates organization-config.yaml, accounts-config.yaml and the organization policy files
+ * from an existing AWS Organization. Must be run with management account credentials.
+ * Script Options:
+ * <ul>
+ * <li>--output-dir Directory the configuration files are written to
+ * <li>--log-archive-account-id Account ID of the log archive account, identified by account name when omitted
+ * <li>--audit-account-id Account ID of the audit account, identified by account name when omitted
+ * </ul>
+ * @example
+ * ts-node config-generator.ts --output-dir <value> --log-archive-account-id <value> --audit-account-id <value>
+ */
+
+const logger = createLogger(['config-generator']);
+const scriptUsage =
+  'Usage: yarn run ts-node --transpile-only config-generator.ts --output-dir <OUTPUT_DIR> [--log-archive-account-id] <ACCOUNT_ID> [--audit-account-id] <ACCOUNT_ID>';
+
+async function main(): Promise<string> {
+  const argv = yargs(process.argv.slice(2))
+    .options({
+      outputDir: { type: 'string' },
+      logArchiveAccountId: { type: 'string' },
+      auditAccountId: { type: 'string' },
+    })
+    .parseSync();
+
+  if (!argv.outputDir) {
+    throw new Error(`** Script Usage ** ${scriptUsage}`);
+  }
+
+  const configGenerator = new ConfigGenerator(new OrganizationsClient({}), {
+    logArchiveAccountId: argv.logArchiveAccountId,
+    auditAccountId: argv.auditAccountId,
+  });
+  await configGenerator.generate(argv.outputDir);
+
+  return `[config-generator] Configuration generated successfully in ${argv.outputDir}`;
+}
+
+process.on('unhandledRejection', reason => {
+  console.error(reason);
+  // eslint-disable-next-line no-process-exit
+  process.exit(1);
+});
+
+/**
+ * Call Main function
+ */
+main().then(data => {
+  logger.info(data);
+});
@@ -12,4 +12,7 @@
  */
 
 export * from './lib/classes/accelerator-tool';
+export * from './lib/classes/config-generator';
+export * from './lib/classes/network-topology';
+export * from './lib/classes/securityhub-exceptions-register';
 export * from './uninstaller';
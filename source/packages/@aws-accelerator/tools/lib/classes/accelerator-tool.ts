@@ -15,7 +15,7 @@ import * as os from 'os';
 import * as path from 'path';
 import * as winston from 'winston';
 
-import { GlobalConfig, SecurityConfig } from '@aws-accelerator/config';
+import { GlobalConfig, ReplacementsConfig, SecurityConfig } from '@aws-accelerator/config';
 import { createLogger, throttlingBackOff } from '@aws-accelerator/utils';
 import { BackupClient, DeleteBackupVaultCommand } from '@aws-sdk/client-backup';
 import {
@@ -770,7 +770,7 @@ export class AcceleratorTool {
 
     const tempDirPath = fs.mkdtempSync(path.join(os.tmpdir(), 'accel-config'));
     fs.writeFileSync(path.join(tempDirPath, 'global-config.yaml'), response.fileContent!, 'utf8');
-    return GlobalConfig.load(tempDirPath);
+    return GlobalConfig.load(tempDirPath, await this.getReplacementsConfig(tempDirPath));
   }
 
   /**
@@ -790,7 +790,35 @@ export class AcceleratorTool {
 
     const tempDirPath = fs.mkdtempSync(path.join(os.tmpdir(), 'accel-config'));
     fs.writeFileSync(path.join(tempDirPath, 'security-config.yaml'), response.fileContent!, 'utf8');
-    return SecurityConfig.load(tempDirPath);
+    return SecurityConfig.load(tempDirPath, await this.getReplacementsConfig(tempDirPath));
+  }
+
+  /**
+   * Function to get ReplacementsConfig object from the repo content, the replacements file is optional
+   * @param tempDirPath
+   * @private
+   */
+  private async getReplacementsConfig(tempDirPath: string): Promise<ReplacementsConfig> {
+    const codeCommitClient = new CodeCommitClient({});
+    try {
+      const response = await throttlingBackOff(() =>
+        codeCommitClient.send(
+          new GetFileCommand({
+            repositoryName: this.pipelineConfigSourceRepo!.repositoryName,
+            filePath: ReplacementsConfig.FILENAME,
+          }),
+        ),
+      );
+      fs.writeFileSync(path.join(tempDirPath, ReplacementsConfig.FILENAME), response.fileContent!, 'utf8');
+    } catch (
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      e: any
+    ) {
+      if (e.name !== 'FileDoesNotExistException') {
+        throw e;
+      }
+    }
+    return ReplacementsConfig.load(tempDirPath);
   }
 
   /**
@@ -0,0 +1,356 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import * as path from 'path';
+
+import {
+  AccountsConfig,
+  AccountsConfigValidator,
+  OrganizationConfig,
+  OrganizationConfigValidator,
+} from '@aws-accelerator/config';
+import { createLogger, throttlingBackOff } from '@aws-accelerator/utils';
+import {
+  DescribeOrganizationCommand,
+  DescribePolicyCommand,
+  ListAccountsForParentCommand,
+  ListOrganizationalUnitsForParentCommand,
+  ListPoliciesCommand,
+  ListRootsCommand,
+  ListTargetsForPolicyCommand,
+  OrganizationsClient,
+  PolicyTargetSummary,
+  PolicyType,
+} from '@aws-sdk/client-organizations';
+
+const logger = createLogger(['config-generator']);
+
+/**
+ * Organization policy types written to the generated configuration
+ */
+const policyTypes: { type: PolicyType; property: string; dirName: string }[] = [
+  { type: PolicyType.SERVICE_CONTROL_POLICY, property: 'serviceControlPolicies', dirName: 'service-control-policies' },
+  { type: PolicyType.TAG_POLICY, property: 'taggingPolicies', dirName: 'tagging-policies' },
+  { type: PolicyType.BACKUP_POLICY, property: 'backupPolicies', dirName: 'backup-policies' },
+];
+
+/**
+ * Account of the organization, named as it will be in accounts-config.yaml
+ */
+type GeneratedAccount = {
+  id: string;
+  name: string;
+  description: string;
+  email: string;
+  organizationalUnit: string;
+};
+
+/**
+ * Organization policy, as it will be defined in organization-config.yaml
+ */
+type GeneratedPolicy = {
+  name: string;
+  description: string;
+  policy: string;
+  type?: string;
+  deploymentTargets: { organizationalUnits: string[]; accounts: string[] };
+};
+
+export interface ConfigGeneratorProps {
+  /**
+   * Account ID of the log archive account. When undefined, the account is identified by its name.
+   */
+  readonly logArchiveAccountId?: string;
+  /**
+   * Account ID of the audit account. When undefined, the account is identified by its name.
+   */
+  readonly auditAccountId?: string;
+}
+
+/**
+ * Generates an initial organization-config.yaml, accounts-config.yaml and the organization policy files
+ * from the OU tree, accounts and policies of an existing AWS Organization. The generated configuration is
+ * validated with the accelerator configuration validators.
+ */
+export class ConfigGenerator {
+  constructor(
+    private readonly organizationsClient: OrganizationsClient,
+    private readonly props: ConfigGeneratorProps = {},
+  ) {}
+
+  /**
+   * Generate the configuration files in the given directory
+   * @param outputDirPath
+   * @returns
+   */
+  async generate(
+    outputDirPath: string,
+  ): Promise<{ accountsConfig: AccountsConfig; organizationConfig: OrganizationConfig }> {
+    const organization = (
+      await throttlingBackOff(() => this.organizationsClient.send(new DescribeOrganizationCommand({})))
+    ).Organization;
+    const root = (await throttlingBackOff(() => this.organizationsClient.send(new ListRootsCommand({})))).Roots?.[0];
+    if (!organization?.MasterAccountId || !root?.Id) {
+      throw new Error('Unable to describe the organization, the tool must be run from the management account');
+    }
+    logger.info(`Generating configuration for organization ${organization.Id}`);
+
+    // Organizational unit paths keyed by id, parents first
+    const organizationalUnits = new Map<string, string>([[root.Id, 'Root']]);
+    await this.getOrganizationalUnits(root.Id, '', organizationalUnits);
+
+    const accounts = await this.getAccounts(organizationalUnits, organization.MasterAccountId);
+    const targetNames = new Map<string, string>([
+      ...organizationalUnits.entries(),
+      ...accounts.map((account): [string, string] => [account.id, account.name]),
+    ]);
+
+    fs.mkdirSync(outputDirPath, { recursive: true });
+    const organizationValues: { [key: string]: unknown } = {
+      enable: true,
+      organizationalUnits: [...organizationalUnits.values()].slice(1).map(name => ({ name })),
+    };
+    for (const policyType of policyTypes) {
+      const enabled = root.PolicyTypes?.find(item => item.Type === policyType.type)?.Status === 'ENABLED';
+      organizationValues[policyType.property] = enabled
+        ? await this.getPolicies(policyType.type, policyType.dirName, targetNames, outputDirPath)
+        : [];
+    }
+
+    const accountsValues = {
+      mandatoryAccounts: [
+        this.getMandatoryAccount(accounts, AccountsConfig.MANAGEMENT_ACCOUNT),
+        this.getMandatoryAccount(accounts, AccountsConfig.LOG_ARCHIVE_ACCOUNT),
+        this.getMandatoryAccount(accounts, AccountsConfig.AUDIT_ACCOUNT),
+      ],
+      workloadAccounts: accounts
+        .filter(account => !this.isMandatoryAccountName(account.name))
+        .map(ConfigGenerator.toAccountConfig),
+      accountIds: accounts.map(account => ({ email: account.email, accountId: account.id })),
+    };
+
+    const header = `# Generated from organization ${organization.Id}, review before use\n`;
+    fs.writeFileSync(
+      path.join(outputDirPath, OrganizationConfig.FILENAME),
+      header + yaml.dump(organizationValues),
+      'utf8',
+    );
+    fs.writeFileSync(path.join(outputDirPath, AccountsConfig.FILENAME), header + yaml.dump(accountsValues), 'utf8');
+    logger.info(`Configuration written to ${outputDirPath}`);
+
+    // Validate the generated files as the pipeline would
+    const organizationConfig = OrganizationConfig.load(outputDirPath);
+    const accountsConfig = AccountsConfig.load(outputDirPath);
+    new OrganizationConfigValidator(organizationConfig, outputDirPath);
+    new AccountsConfigValidator(accountsConfig, organizationConfig);
+    return { accountsConfig, organizationConfig };
+  }
+
+  /**
+   * Function to get the organizational unit paths under a parent, i.e. `Workloads/Sandbox`
+   * @param parentId
+   * @param parentPath
+   * @param organizationalUnits
+   * @private
+   */
+  private async getOrganizationalUnits(
+    parentId: string,
+    parentPath: string,
+    organizationalUnits: Map<string, string>,
+  ): Promise<void> {
+    let nextToken: string | undefined = undefined;
+    do {
+      const page = await throttlingBackOff(() =>
+        this.organizationsClient.send(
+          new ListOrganizationalUnitsForParentCommand({ ParentId: parentId, NextToken: nextToken }),
+        ),
+      );
+      for (const organizationalUnit of page.OrganizationalUnits ?? []) {
+        const ouPath = `${parentPath}${organizationalUnit.Name}`;
+        organizationalUnits.set(organizationalUnit.Id!, ouPath);
+        await this.getOrganizationalUnits(organizationalUnit.Id!, `${ouPath}/`, organizationalUnits);
+      }
+      nextToken = page.NextToken;
+    } while (nextToken);
+  }
+
+  /**
+   * Function to get the active accounts of the organization, with unique names without spaces
+   * @param organizationalUnits
+   * @param managementAccountId
+   * @private
+   */
+  private async getAccounts(
+    organizationalUnits: Map<string, string>,
+    managementAccountId: string,
+  ): Promise<GeneratedAccount[]> {
+    const accounts: GeneratedAccount[] = [];
+    for (const [parentId, organizationalUnit] of organizationalUnits.entries()) {
+      let nextToken: string | undefined = undefined;
+      do {
+        const page = await throttlingBackOff(() =>
+          this.organizationsClient.send(new ListAccountsForParentCommand({ ParentId: parentId, NextToken: nextToken })),
+        );
+        for (const account of page.Accounts ?? []) {
+          if (account.Status !== 'ACTIVE') {
+            logger.warn(`Skipping account ${account.Id} with status ${account.Status}`);
+            continue;
+          }
+          accounts.push({
+            id: account.Id!,
+            name: this.getAccountName(account.Id!, account.Name!, managementAccountId),
+            description: account.Name!,
+            email: account.Email!,
+            organizationalUnit,
+          });
+        }
+        nextToken = page.NextToken;
+      } while (nextToken);
+    }
+
+    // Account names must be unique
+    const names = new Set<string>();
+    for (const account of accounts) {
+      if (names.has(account.name)) {
+        account.name = `${account.name}-${account.id}`;
+      }
+      names.add(account.name);
+    }
+    return accounts;
+  }
+
+  /**
+   * Function to get the accounts-config.yaml name of an account. Mandatory accounts are given
+   * their reserved names, spaces are removed from other account names.
+   * @param accountId
+   * @param accountName
+   * @param managementAccountId
+   * @private
+   */
+  private getAccountName(accountId: string, accountName: string, managementAccountId: string): string {
+    if (accountId === managementAccountId) {
+      return AccountsConfig.MANAGEMENT_ACCOUNT;
+    }
+    if (
+      this.props.logArchiveAccountId ? accountId === this.props.logArchiveAccountId : /log.?archive/i.test(accountName)
+    ) {
+      return AccountsConfig.LOG_ARCHIVE_ACCOUNT;
+    }
+    if (this.props.auditAccountId ? accountId === this.props.auditAccountId : /audit/i.test(accountName)) {
+      return AccountsConfig.AUDIT_ACCOUNT;
+    }
+    const name = accountName.trim().replace(/\s+/g, '-');
+    return this.isMandatoryAccountName(name) ? `${name}-${accountId}` : name;
+  }
+
+  /**
+   * Function to get the policies of the given type and write their content to the output directory
+   * @param policyType
+   * @param dirName
+   * @param targetNames
+   * @param outputDirPath
+   * @private
+   */
+  private async getPolicies(
+    policyType: PolicyType,
+    dirName: string,
+    targetNames: Map<string, string>,
+    outputDirPath: string,
+  ): Promise<GeneratedPolicy[]> {
+    const policies: GeneratedPolicy[] = [];
+    let nextToken: string | undefined = undefined;
+    do {
+      const page = await throttlingBackOff(() =>
+        this.organizationsClient.send(new ListPoliciesCommand({ Filter: policyType, NextToken: nextToken })),
+      );
+      for (const policySummary of page.Policies ?? []) {
+        const policy = (
+          await throttlingBackOff(() =>
+            this.organizationsClient.send(new DescribePolicyCommand({ PolicyId: policySummary.Id })),
+          )
+        ).Policy;
+        const policyFile = `${dirName}/${policySummary.Name!.replace(/[^\w.-]+/g, '-')}.json`;
+        fs.mkdirSync(path.join(outputDirPath, dirName), { recursive: true });
+        fs.writeFileSync(
+          path.join(outputDirPath, policyFile),
+          JSON.stringify(JSON.parse(policy!.Content!), null, 2) + '\n',
+          'utf8',
+        );
+
+        const targets = await this.getPolicyTargets(policySummary.Id!);
+        policies.push({
+          name: policySummary.Name!,
+          description: policySummary.Description || policySummary.Name!,
+          policy: policyFile,
+          ...(policyType === PolicyType.SERVICE_CONTROL_POLICY
+            ? { type: policySummary.AwsManaged ? 'awsManaged' : 'customerManaged' }
+            : {}),
+          deploymentTargets: {
+            organizationalUnits: targets
+              .filter(target => target.Type !== 'ACCOUNT')
+              .map(target => targetNames.get(target.TargetId!)!),
+            accounts: targets
+              .filter(target => target.Type === 'ACCOUNT')
+              .map(target => targetNames.get(target.TargetId!)!),
+          },
+        });
+      }
+      nextToken = page.NextToken;
+    } while (nextToken);
+    return policies;
+  }
+
+  /**
+   * Function to get the roots, organizational units and accounts a policy is attached to
+   * @param policyId
+   * @private
+   */
+  private async getPolicyTargets(policyId: string): Promise<PolicyTargetSummary[]> {
+    const targets: PolicyTargetSummary[] = [];
+    let nextToken: string | undefined = undefined;
+    do {
+      const page = await throttlingBackOff(() =>
+        this.organizationsClient.send(new ListTargetsForPolicyCommand({ PolicyId: policyId, NextToken: nextToken })),
+      );
+      targets.push(...(page.Targets ?? []));
+      nextToken = page.NextToken;
+    } while (nextToken);
+    return targets;
+  }
+
+  private getMandatoryAccount(accounts: GeneratedAccount[], name: string) {
+    const account = accounts.find(item => item.name === name);
+    if (!account) {
+      throw new Error(`Unable to identify the ${name} account of the organization, provide its account ID`);
+    }
+    return ConfigGenerator.toAccountConfig(account);
+  }
+
+  private isMandatoryAccountName(name: string): boolean {
+    return [
+      AccountsConfig.MANAGEMENT_ACCOUNT,
+      AccountsConfig.LOG_ARCHIVE_ACCOUNT,
+      AccountsConfig.AUDIT_ACCOUNT,
+    ].includes(name);
+  }
+
+  private static toAccountConfig(account: GeneratedAccount) {
+    return {
+      name: account.name,
+      description: account.description,
+      email: account.email,
+      organizationalUnit: account.organizationalUnit,
+    };
+  }
+}
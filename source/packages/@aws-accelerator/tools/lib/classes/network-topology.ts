@@ -0,0 +1,667 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import {
+  AccountsConfig,
+  DeploymentTargets,
+  NetworkConfig,
+  NetworkConfigTypes,
+  TransitGatewayConfig,
+  TransitGatewayRouteTableConnectEntryConfig,
+  TransitGatewayRouteTableDxGatewayEntryConfig,
+  TransitGatewayRouteTableTgwPeeringEntryConfig,
+  TransitGatewayRouteTableVpcEntryConfig,
+  TransitGatewayRouteTableVpnEntryConfig,
+} from '@aws-accelerator/config';
+import { createLogger } from '@aws-accelerator/utils';
+
+const logger = createLogger(['network-topology']);
+
+export type NetworkTopologyNodeType =
+  | 'vpc'
+  | 'transitGateway'
+  | 'transitGatewayRouteTable'
+  | 'transitGatewayPeering'
+  | 'transitGatewayConnect'
+  | 'directConnectGateway'
+  | 'vpnConnection'
+  | 'networkFirewall'
+  | 'gatewayLoadBalancer'
+  | 'gatewayLoadBalancerEndpoint'
+  | 'blackhole';
+
+export type NetworkTopologyEdgeType =
+  | 'attachment'
+  | 'association'
+  | 'propagation'
+  | 'staticRoute'
+  | 'vpcPeering'
+  | 'transport'
+  | 'endpoint'
+  | 'deployment';
+
+/**
+ * Network resource of the topology. Transit gateway route tables reference their transit gateway as parent.
+ */
+export type NetworkTopologyNode = {
+  id: string;
+  type: NetworkTopologyNodeType;
+  name: string;
+  account?: string;
+  region?: string;
+  parent?: string;
+};
+
+/**
+ * Connection between two network resources
+ */
+export type NetworkTopologyEdge = {
+  source: string;
+  target: string;
+  type: NetworkTopologyEdgeType;
+  label: string;
+};
+
+export type NetworkTopologyGraph = {
+  nodes: NetworkTopologyNode[];
+  edges: NetworkTopologyEdge[];
+};
+
+export type NetworkTopologyFormat = 'json' | 'mermaid' | 'dot';
+
+const fileNames: { [key in NetworkTopologyFormat]: string } = {
+  json: 'network-topology.json',
+  mermaid: 'network-topology.mmd',
+  dot: 'network-topology.dot',
+};
+
+const mermaidShapes: { [key in NetworkTopologyNodeType]: [string, string] } = {
+  vpc: ['[', ']'],
+  transitGateway: ['{{', '}}'],
+  transitGatewayRouteTable: ['(', ')'],
+  transitGatewayPeering: ['[[', ']]'],
+  transitGatewayConnect: ['[[', ']]'],
+  directConnectGateway: ['[[', ']]'],
+  vpnConnection: ['[[', ']]'],
+  networkFirewall: ['[/', '/]'],
+  gatewayLoadBalancer: ['[/', '/]'],
+  gatewayLoadBalancerEndpoint: ['[/', '/]'],
+  blackhole: ['((', '))'],
+};
+
+const dotShapes: { [key in NetworkTopologyNodeType]: string } = {
+  vpc: 'box',
+  transitGateway: 'hexagon',
+  transitGatewayRouteTable: 'ellipse',
+  transitGatewayPeering: 'component',
+  transitGatewayConnect: 'component',
+  directConnectGateway: 'component',
+  vpnConnection: 'component',
+  networkFirewall: 'parallelogram',
+  gatewayLoadBalancer: 'parallelogram',
+  gatewayLoadBalancerEndpoint: 'parallelogram',
+  blackhole: 'doublecircle',
+};
+
+const mermaidArrows: { [key in NetworkTopologyEdgeType]: string } = {
+  attachment: '-->',
+  association: '-->',
+  propagation: '-.->',
+  staticRoute: '==>',
+  vpcPeering: '<-->',
+  transport: '-.->',
+  endpoint: '-->',
+  deployment: '-.->',
+};
+
+const dotStyles: { [key in NetworkTopologyEdgeType]: string } = {
+  attachment: 'solid',
+  association: 'solid',
+  propagation: 'dashed',
+  staticRoute: 'bold',
+  vpcPeering: 'solid',
+  transport: 'dashed',
+  endpoint: 'solid',
+  deployment: 'dotted',
+};
+
+/**
+ * Generates the network topology described by network-config.yaml as a JSON graph, with Mermaid and
+ * Graphviz DOT renderings. The graph shows the transit gateway attachments of VPCs, DX gateways, VPN connections,
+ * peerings and Connect attachments, their route table associations and propagations, and the static routes
+ * of each transit gateway route table. VPC templates are resolved to their target accounts from accounts-config.yaml,
+ * so the tool runs offline from the configuration directory only.
+ */
+export class NetworkTopology {
+  private readonly nodes = new Map<string, NetworkTopologyNode>();
+  private readonly edges: NetworkTopologyEdge[] = [];
+
+  constructor(private readonly networkConfig: NetworkConfig, private readonly accountsConfig: AccountsConfig) {}
+
+  /**
+   * Get the topology graph. Edges referencing resources that are not defined in the configuration are omitted.
+   * @returns
+   */
+  getGraph(): NetworkTopologyGraph {
+    this.nodes.clear();
+    this.edges.length = 0;
+
+    this.addVpcs();
+    this.addTransitGateways();
+    this.addVpcAttachments();
+    this.addDirectConnectGateways();
+    this.addVpnConnections();
+    this.addTransitGatewayPeerings();
+    this.addTransitGatewayConnects();
+    this.addStaticRoutes();
+    this.addVpcPeerings();
+    this.addCentralNetworkServices();
+
+    const edges = this.edges.filter(edge => {
+      const exists = this.nodes.has(edge.source) && this.nodes.has(edge.target);
+      if (!exists) {
+        logger.warn(`Skipping ${edge.type} ${edge.label} from ${edge.source} to undefined resource ${edge.target}`);
+      }
+      return exists;
+    });
+    return { nodes: [...this.nodes.values()], edges };
+  }
+
+  /**
+   * Write the topology as network-topology.json, network-topology.mmd and network-topology.dot
+   * in the given directory
+   * @param outputDirPath
+   * @param formats
+   * @returns
+   */
+  generate(outputDirPath: string, formats: NetworkTopologyFormat[] = ['json', 'mermaid', 'dot']): NetworkTopologyGraph {
+    const graph = this.getGraph();
+    const renderers: { [key in NetworkTopologyFormat]: (graph: NetworkTopologyGraph) => string } = {
+      json: item => this.toJson(item),
+      mermaid: item => this.toMermaid(item),
+      dot: item => this.toDot(item),
+    };
+
+    fs.mkdirSync(outputDirPath, { recursive: true });
+    for (const format of formats) {
+      fs.writeFileSync(path.join(outputDirPath, fileNames[format]), renderers[format](graph), 'utf8');
+    }
+    logger.info(
+      `Wrote network topology with ${graph.nodes.length} resources and ${graph.edges.length} connections to ${outputDirPath}`,
+    );
+
+    return graph;
+  }
+
+  /**
+   * Format the topology as JSON
+   * @param graph
+   * @returns
+   */
+  toJson(graph: NetworkTopologyGraph): string {
+    return JSON.stringify(graph, null, 2) + '\n';
+  }
+
+  /**
+   * Format the topology as a Mermaid flowchart, grouping each transit gateway with its route tables
+   * @param graph
+   * @returns
+   */
+  toMermaid(graph: NetworkTopologyGraph): string {
+    const ids = this.getRenderIds(graph);
+    const escape = (value: string) => value.replace(/"/g, '#quot;');
+    const renderNode = (node: NetworkTopologyNode) => {
+      const [open, close] = mermaidShapes[node.type];
+      return `${ids.get(node.id)}${open}"${escape(this.getLabel(node).join('<br/>'))}"${close}`;
+    };
+
+    const lines = ['flowchart LR'];
+    for (const node of graph.nodes.filter(item => !item.parent)) {
+      const children = graph.nodes.filter(item => item.parent === node.id);
+      if (children.length > 0) {
+        lines.push(`  subgraph ${ids.get(node.id)}_group["${escape(node.name)}"]`);
+        lines.push(...[node, ...children].map(item => `    ${renderNode(item)}`));
+        lines.push('  end');
+      } else {
+        lines.push(`  ${renderNode(node)}`);
+      }
+    }
+    for (const edge of graph.edges) {
+      lines.push(
+        `  ${ids.get(edge.source)} ${mermaidArrows[edge.type]}|"${escape(edge.label)}"| ${ids.get(edge.target)}`,
+      );
+    }
+    return lines.map(line => `${line}\n`).join('');
+  }
+
+  /**
+   * Format the topology as a Graphviz DOT digraph, clustering each transit gateway with its route tables
+   * @param graph
+   * @returns
+   */
+  toDot(graph: NetworkTopologyGraph): string {
+    const ids = this.getRenderIds(graph);
+    const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+    const renderNode = (node: NetworkTopologyNode) =>
+      `${ids.get(node.id)} [label="${escape(this.getLabel(node).join('\\n'))}", shape=${dotShapes[node.type]}];`;
+
+    const lines = ['digraph network {', '  rankdir=LR;'];
+    for (const node of graph.nodes.filter(item => !item.parent)) {
+      const children = graph.nodes.filter(item => item.parent === node.id);
+      if (children.length > 0) {
+        lines.push(`  subgraph cluster_${ids.get(node.id)} {`);
+        lines.push(`    label="${escape(node.name)}";`);
+        lines.push(...[node, ...children].map(item => `    ${renderNode(item)}`));
+        lines.push('  }');
+      } else {
+        lines.push(`  ${renderNode(node)}`);
+      }
+    }
+    for (const edge of graph.edges) {
+      lines.push(
+        `  ${ids.get(edge.source)} -> ${ids.get(edge.target)} [label="${escape(edge.label)}", style=${
+          dotStyles[edge.type]
+        }${edge.type === 'vpcPeering' ? ', dir=both' : ''}];`,
+      );
+    }
+    lines.push('}');
+    return lines.map(line => `${line}\n`).join('');
+  }
+
+  /**
+   * Function to add the VPCs, resolving VPC templates to one VPC per target account
+   * @private
+   */
+  private addVpcs() {
+    for (const vpcItem of this.networkConfig.vpcs) {
+      this.addNode('vpc', vpcItem.name, { account: vpcItem.account, region: vpcItem.region });
+    }
+    for (const vpcItem of this.networkConfig.vpcTemplates ?? []) {
+      for (const account of this.getTargetAccounts(vpcItem.deploymentTargets)) {
+        this.addNode('vpc', vpcItem.name, { account, region: vpcItem.region });
+      }
+    }
+  }
+
+  /**
+   * Function to add the transit gateways and their route tables
+   * @private
+   */
+  private addTransitGateways() {
+    for (const tgwItem of this.networkConfig.transitGateways) {
+      const tgwId = this.addNode('transitGateway', tgwItem.name, { account: tgwItem.account, region: tgwItem.region });
+      for (const routeTableItem of tgwItem.routeTables) {
+        this.addNode('transitGatewayRouteTable', routeTableItem.name, {
+          account: tgwItem.account,
+          region: tgwItem.region,
+          scope: tgwItem.name,
+          parent: tgwId,
+        });
+      }
+    }
+  }
+
+  /**
+   * Function to add the transit gateway attachments of VPCs
+   * @private
+   */
+  private addVpcAttachments() {
+    const vpcs = [
+      ...this.networkConfig.vpcs.map(item => ({ vpcItem: item, accounts: [item.account] })),
+      ...(this.networkConfig.vpcTemplates ?? []).map(item => ({
+        vpcItem: item,
+        accounts: this.getTargetAccounts(item.deploymentTargets),
+      })),
+    ];
+
+    for (const { vpcItem, accounts } of vpcs) {
+      for (const account of accounts) {
+        const vpcId = this.getNodeId('vpc', vpcItem.name, account);
+        for (const attachmentItem of vpcItem.transitGatewayAttachments ?? []) {
+          const tgwItem = this.getTransitGateway(
+            attachmentItem.transitGateway.name,
+            attachmentItem.transitGateway.account,
+          );
+          this.addAttachment(vpcId, tgwItem, attachmentItem.name, {
+            routeTableAssociations: attachmentItem.routeTableAssociations,
+            routeTablePropagations: attachmentItem.routeTablePropagations,
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Function to add the DX gateways and their transit gateway associations
+   * @private
+   */
+  private addDirectConnectGateways() {
+    for (const dxgwItem of this.networkConfig.directConnectGateways ?? []) {
+      const dxgwId = this.addNode('directConnectGateway', dxgwItem.name, { account: dxgwItem.account });
+      for (const associationItem of dxgwItem.transitGatewayAssociations ?? []) {
+        this.addAttachment(
+          dxgwId,
+          this.getTransitGateway(associationItem.name, associationItem.account),
+          associationItem.allowedPrefixes.join(', '),
+          associationItem,
+        );
+      }
+    }
+  }
+
+  /**
+   * Function to add the VPN connections to transit gateways and virtual private gateways
+   * @private
+   */
+  private addVpnConnections() {
+    for (const cgwItem of this.networkConfig.customerGateways ?? []) {
+      for (const vpnItem of cgwItem.vpnConnections ?? []) {
+        const vpnId = this.addNode('vpnConnection', vpnItem.name, { account: cgwItem.account, region: cgwItem.region });
+        if (vpnItem.transitGateway) {
+          this.addAttachment(
+            vpnId,
+            this.getTransitGateway(vpnItem.transitGateway, cgwItem.account),
+            cgwItem.ipAddress,
+            vpnItem,
+          );
+        }
+        if (vpnItem.vpc) {
+          this.addEdge(vpnId, this.getNodeId('vpc', vpnItem.vpc, cgwItem.account), 'attachment', cgwItem.ipAddress);
+        }
+      }
+    }
+  }
+
+  /**
+   * Function to add the transit gateway peerings and their route table associations
+   * @private
+   */
+  private addTransitGatewayPeerings() {
+    for (const peeringItem of this.networkConfig.transitGatewayPeering ?? []) {
+      const peeringId = this.addNode('transitGatewayPeering', peeringItem.name);
+      for (const peer of [peeringItem.requester, peeringItem.accepter]) {
+        this.addAttachment(peeringId, this.getTransitGateway(peer.transitGatewayName, peer.account), peer.region, {
+          routeTableAssociations: [peer.routeTableAssociations],
+        });
+      }
+    }
+  }
+
+  /**
+   * Function to add the transit gateway Connect attachments and their transport attachments
+   * @private
+   */
+  private addTransitGatewayConnects() {
+    for (const tgwItem of this.networkConfig.transitGateways) {
+      for (const connectItem of tgwItem.connects ?? []) {
+        const connectId = this.addNode('transitGatewayConnect', connectItem.name, {
+          account: tgwItem.account,
+          region: tgwItem.region,
+          scope: tgwItem.name,
+        });
+        this.addAttachment(connectId, tgwItem, 'GRE', connectItem);
+        this.addEdge(
+          connectId,
+          this.getAttachmentNodeId(tgwItem, connectItem.transportAttachment),
+          'transport',
+          'transport',
+        );
+      }
+    }
+  }
+
+  /**
+   * Function to add the static routes of each transit gateway route table
+   * @private
+   */
+  private addStaticRoutes() {
+    for (const tgwItem of this.networkConfig.transitGateways) {
+      for (const routeTableItem of tgwItem.routeTables) {
+        const routeTableId = this.getNodeId(
+          'transitGatewayRouteTable',
+          routeTableItem.name,
+          tgwItem.account,
+          tgwItem.name,
+        );
+        for (const routeItem of routeTableItem.routes ?? []) {
+          const destination = routeItem.destinationCidrBlock ?? routeItem.destinationPrefixList ?? '';
+          if (routeItem.blackhole) {
+            this.addEdge(routeTableId, this.addNode('blackhole', 'blackhole'), 'staticRoute', destination);
+          } else if (routeItem.attachment) {
+            this.addEdge(
+              routeTableId,
+              this.getAttachmentNodeId(tgwItem, routeItem.attachment),
+              'staticRoute',
+              destination,
+            );
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Function to add the VPC peering connections
+   * @private
+   */
+  private addVpcPeerings() {
+    for (const peeringItem of this.networkConfig.vpcPeering ?? []) {
+      const [requester, accepter] = peeringItem.vpcs.map(vpcName => {
+        const vpcItem = this.networkConfig.vpcs.find(item => item.name === vpcName);
+        return this.getNodeId('vpc', vpcName, vpcItem?.account);
+      });
+      this.addEdge(requester, accepter, 'vpcPeering', peeringItem.name);
+    }
+  }
+
+  /**
+   * Function to add the network firewalls and Gateway Load Balancers with their endpoints
+   * @private
+   */
+  private addCentralNetworkServices() {
+    const centralNetworkServices = this.networkConfig.centralNetworkServices;
+
+    for (const firewallItem of centralNetworkServices?.networkFirewall?.firewalls ?? []) {
+      for (const vpcId of this.getVpcNodeIds(firewallItem.vpc)) {
+        const vpcNode = this.nodes.get(vpcId)!;
+        const firewallId = this.addNode('networkFirewall', firewallItem.name, {
+          account: vpcNode.account,
+          region: vpcNode.region,
+        });
+        this.addEdge(firewallId, vpcId, 'deployment', firewallItem.subnets.join(', '));
+      }
+    }
+
+    for (const gwlbItem of centralNetworkServices?.gatewayLoadBalancers ?? []) {
+      for (const vpcId of this.getVpcNodeIds(gwlbItem.vpc)) {
+        const vpcNode = this.nodes.get(vpcId)!;
+        const gwlbId = this.addNode('gatewayLoadBalancer', gwlbItem.name, {
+          account: vpcNode.account,
+          region: vpcNode.region,
+        });
+        this.addEdge(gwlbId, vpcId, 'deployment', gwlbItem.subnets.join(', '));
+
+        for (const endpointItem of gwlbItem.endpoints) {
+          const endpointVpcId = this.getNodeId('vpc', endpointItem.vpc, endpointItem.account);
+          const endpointId = this.addNode('gatewayLoadBalancerEndpoint', endpointItem.name, {
+            account: endpointItem.account,
+            region: this.nodes.get(endpointVpcId)?.region,
+          });
+          this.addEdge(gwlbId, endpointId, 'endpoint', endpointItem.name);
+          this.addEdge(endpointId, endpointVpcId, 'deployment', endpointItem.subnet);
+        }
+      }
+    }
+  }
+
+  /**
+   * Function to add a transit gateway attachment with its route table associations and propagations
+   * @param sourceId
+   * @param tgwItem
+   * @param label
+   * @param routeTables
+   * @private
+   */
+  private addAttachment(
+    sourceId: string,
+    tgwItem: TransitGatewayConfig | undefined,
+    label: string,
+    routeTables: { routeTableAssociations?: string[]; routeTablePropagations?: string[] },
+  ) {
+    if (!tgwItem) {
+      logger.warn(`Skipping attachment of ${sourceId} to undefined transit gateway`);
+      return;
+    }
+    const tgwId = this.getNodeId('transitGateway', tgwItem.name, tgwItem.account);
+    this.addEdge(sourceId, tgwId, 'attachment', label);
+    for (const routeTableName of routeTables.routeTableAssociations ?? []) {
+      this.addEdge(
+        sourceId,
+        this.getNodeId('transitGatewayRouteTable', routeTableName, tgwItem.account, tgwItem.name),
+        'association',
+        'association',
+      );
+    }
+    for (const routeTableName of routeTables.routeTablePropagations ?? []) {
+      this.addEdge(
+        sourceId,
+        this.getNodeId('transitGatewayRouteTable', routeTableName, tgwItem.account, tgwItem.name),
+        'propagation',
+        'propagation',
+      );
+    }
+  }
+
+  /**
+   * Returns the node ID of a transit gateway route table attachment entry
+   * @param tgwItem
+   * @param attachment
+   * @returns
+   */
+  private getAttachmentNodeId(
+    tgwItem: TransitGatewayConfig,
+    attachment:
+      | TransitGatewayRouteTableVpcEntryConfig
+      | TransitGatewayRouteTableDxGatewayEntryConfig
+      | TransitGatewayRouteTableVpnEntryConfig
+      | TransitGatewayRouteTableTgwPeeringEntryConfig
+      | TransitGatewayRouteTableConnectEntryConfig,
+  ): string {
+    if (NetworkConfigTypes.transitGatewayRouteTableVpcEntryConfig.is(attachment)) {
+      return this.getNodeId('vpc', attachment.vpcName, attachment.account);
+    }
+    if (NetworkConfigTypes.transitGatewayRouteTableDxGatewayEntryConfig.is(attachment)) {
+      const dxgwItem = this.networkConfig.directConnectGateways?.find(
+        item => item.name === attachment.directConnectGatewayName,
+      );
+      return this.getNodeId('directConnectGateway', attachment.directConnectGatewayName, dxgwItem?.account);
+    }
+    if (NetworkConfigTypes.transitGatewayRouteTableVpnEntryConfig.is(attachment)) {
+      const cgwItem = this.networkConfig.customerGateways?.find(item =>
+        item.vpnConnections?.find(vpn => vpn.name === attachment.vpnConnectionName),
+      );
+      return this.getNodeId('vpnConnection', attachment.vpnConnectionName, cgwItem?.account);
+    }
+    if (NetworkConfigTypes.transitGatewayRouteTableTgwPeeringEntryConfig.is(attachment)) {
+      return this.getNodeId('transitGatewayPeering', attachment.transitGatewayPeeringName);
+    }
+    return this.getNodeId(
+      'transitGatewayConnect',
+      (attachment as TransitGatewayRouteTableConnectEntryConfig).transitGatewayConnectName,
+      tgwItem.account,
+      tgwItem.name,
+    );
+  }
+
+  /**
+   * Function to add a node, returning its ID. The scope is the name of the transit gateway
+   * for resources whose names are only unique per transit gateway.
+   * @param type
+   * @param name
+   * @param options
+   * @returns
+   * @private
+   */
+  private addNode(
+    type: NetworkTopologyNodeType,
+    name: string,
+    options: { account?: string; region?: string; scope?: string; parent?: string } = {},
+  ): string {
+    const id = this.getNodeId(type, name, options.account, options.scope);
+    if (!this.nodes.has(id)) {
+      this.nodes.set(id, { id, type, name, account: options.account, region: options.region, parent: options.parent });
+    }
+    return id;
+  }
+
+  private addEdge(source: string, target: string, type: NetworkTopologyEdgeType, label: string) {
+    this.edges.push({ source, target, type, label });
+  }
+
+  private getNodeId(type: NetworkTopologyNodeType, name: string, account?: string, scope?: string): string {
+    return [type, scope, name, account].filter(item => item !== undefined).join(':');
+  }
+
+  /**
+   * Returns the node IDs of every deployed instance of a VPC or VPC template
+   * @param vpcName
+   * @returns
+   */
+  private getVpcNodeIds(vpcName: string): string[] {
+    return [...this.nodes.values()].filter(item => item.type === 'vpc' && item.name === vpcName).map(item => item.id);
+  }
+
+  private getTransitGateway(name: string, account: string): TransitGatewayConfig | undefined {
+    return this.networkConfig.transitGateways.find(item => item.name === name && item.account === account);
+  }
+
+  /**
+   * Returns the names of the accounts included in the deployment targets
+   * @param deploymentTargets
+   * @returns
+   */
+  private getTargetAccounts(deploymentTargets: DeploymentTargets): string[] {
+    return [...this.accountsConfig.mandatoryAccounts, ...this.accountsConfig.workloadAccounts]
+      .filter(
+        account =>
+          !deploymentTargets.excludedAccounts?.includes(account.name) &&
+          ((deploymentTargets.accounts ?? []).includes(account.name) ||
+            (deploymentTargets.organizationalUnits ?? []).some(
+              ou => ou === 'Root' || ou === account.organizationalUnit,
+            )),
+      )
+      .map(account => account.name);
+  }
+
+  /**
+   * Returns the label lines of a node
+   * @param node
+   * @returns
+   */
+  private getLabel(node: NetworkTopologyNode): string[] {
+    const location = [node.account, node.region].filter(item => item !== undefined).join(' ');
+    return location ? [node.name, location] : [node.name];
+  }
+
+  /**
+   * Returns identifiers safe to use in Mermaid and DOT for each node of the graph
+   * @param graph
+   * @returns
+   */
+  private getRenderIds(graph: NetworkTopologyGraph): Map<string, string> {
+    return new Map(graph.nodes.map((node, index): [string, string] => [node.id, `n${index}`]));
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { AccountsConfig, DeploymentTargets, GlobalConfig, Region, SecurityConfig } from '@aws-accelerator/config';
+import { createLogger } from '@aws-accelerator/utils';
+
+const logger = createLogger(['securityhub-exceptions-register']);
+
+/**
+ * Security Hub control exception of an account, as reported in the register
+ */
+export type SecurityHubControlException = {
+  standard: string;
+  controlId: string;
+  account: string;
+  organizationalUnit: string;
+  regions: Region[];
+  status: 'DISABLED' | 'ENABLED' | 'CUSTOM_PARAMETERS';
+  parameters: string;
+  justification: string;
+};
+
+const columns: { header: string; value: (item: SecurityHubControlException) => string }[] = [
+  { header: 'Standard', value: item => item.standard },
+  { header: 'Control', value: item => item.controlId },
+  { header: 'Account', value: item => item.account },
+  { header: 'Organizational Unit', value: item => item.organizationalUnit },
+  { header: 'Regions', value: item => item.regions.join(' ') },
+  { header: 'Status', value: item => item.status },
+  { header: 'Parameters', value: item => item.parameters },
+  { header: 'Justification', value: item => item.justification },
+];
+
+/**
+ * Generates a register of the Security Hub controls disabled, re-enabled or customized in each account
+ * from the standards of security-config.yaml, so auditors can see which control is off where and why.
+ * Deployment targets are resolved the same way the accelerator stacks resolve them.
+ */
+export class SecurityHubExceptionsRegister {
+  constructor(
+    private readonly securityConfig: SecurityConfig,
+    private readonly accountsConfig: AccountsConfig,
+    private readonly globalConfig: GlobalConfig,
+  ) {}
+
+  /**
+   * Get the control exceptions of every account, ordered by standard, control and account
+   * @returns
+   */
+  getExceptions(): SecurityHubControlException[] {
+    const securityHub = this.securityConfig.centralSecurityServices.securityHub;
+    if (!securityHub.enable) {
+      return [];
+    }
+    const regions = this.globalConfig.enabledRegions.filter(item => !securityHub.excludeRegions.includes(item));
+
+    const exceptions: SecurityHubControlException[] = [];
+    for (const standard of securityHub.standards.filter(item => item.enable)) {
+      for (const account of [...this.accountsConfig.mandatoryAccounts, ...this.accountsConfig.workloadAccounts]) {
+        if (standard.deploymentTargets && !this.isIncluded(standard.deploymentTargets, account.name)) {
+          continue;
+        }
+        const standardRegions = this.getRegions(regions, standard.deploymentTargets);
+        const addException = (
+          controlId: string,
+          deploymentTargets: DeploymentTargets | undefined,
+          exception: Pick<SecurityHubControlException, 'status' | 'parameters' | 'justification'>,
+        ) => {
+          const exceptionRegions = this.getRegions(standardRegions, deploymentTargets);
+          if (exceptionRegions.length > 0) {
+            exceptions.push({
+              standard: standard.name,
+              controlId,
+              account: account.name,
+              organizationalUnit: account.organizationalUnit,
+              regions: exceptionRegions,
+              ...exception,
+            });
+          }
+        };
+
+        const overrides = (standard.controlOverrides ?? []).filter(item =>
+          this.isIncluded(item.deploymentTargets, account.name),
+        );
+        for (const controlId of standard.controlsToDisable ?? []) {
+          if (!overrides.find(item => item.controlId === controlId)) {
+            addException(controlId, undefined, {
+              status: 'DISABLED',
+              parameters: '',
+              justification: 'Disabled for all deployment targets of the standard',
+            });
+          }
+        }
+        for (const override of overrides) {
+          addException(override.controlId, override.deploymentTargets, {
+            status: override.enable ? 'ENABLED' : 'DISABLED',
+            parameters: '',
+            justification: override.justification,
+          });
+        }
+        for (const controlParameter of standard.controlParameters ?? []) {
+          if (
+            controlParameter.deploymentTargets &&
+            !this.isIncluded(controlParameter.deploymentTargets, account.name)
+          ) {
+            continue;
+          }
+          addException(controlParameter.controlId, controlParameter.deploymentTargets, {
+            status: 'CUSTOM_PARAMETERS',
+            parameters: controlParameter.parameters
+              .map(item => `${item.name}=${Array.isArray(item.value) ? item.value.join(',') : item.value}`)
+              .join('; '),
+            justification: controlParameter.justification,
+          });
+        }
+      }
+    }
+
+    return exceptions.sort(
+      (a, b) =>
+        a.standard.localeCompare(b.standard) ||
+        a.controlId.localeCompare(b.controlId, undefined, { numeric: true }) ||
+        a.account.localeCompare(b.account),
+    );
+  }
+
+  /**
+   * Write the register as securityhub-exceptions-register.csv and securityhub-exceptions-register.md
+   * in the given directory
+   * @param outputDirPath
+   * @returns
+   */
+  generate(outputDirPath: string): SecurityHubControlException[] {
+    const exceptions = this.getExceptions();
+
+    fs.mkdirSync(outputDirPath, { recursive: true });
+    fs.writeFileSync(path.join(outputDirPath, 'securityhub-exceptions-register.csv'), this.toCsv(exceptions));
+    fs.writeFileSync(path.join(outputDirPath, 'securityhub-exceptions-register.md'), this.toMarkdown(exceptions));
+    logger.info(`Wrote ${exceptions.length} Security Hub control exceptions to ${outputDirPath}`);
+
+    return exceptions;
+  }
+
+  /**
+   * Format the exceptions as CSV
+   * @param exceptions
+   * @returns
+   */
+  toCsv(exceptions: SecurityHubControlException[]): string {
+    const quote = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+    return [
+      columns.map(column => column.header).join(','),
+      ...exceptions.map(item => columns.map(column => quote(column.value(item))).join(',')),
+    ]
+      .map(line => `${line}\n`)
+      .join('');
+  }
+
+  /**
+   * Format the exceptions as a Markdown table
+   * @param exceptions
+   * @returns
+   */
+  toMarkdown(exceptions: SecurityHubControlException[]): string {
+    const escape = (value: string) => value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+    return [
+      '# Security Hub Exceptions Register',
+      '',
+      `| ${columns.map(column => column.header).join(' | ')} |`,
+      `| ${columns.map(() => '---').join(' | ')} |`,
+      ...exceptions.map(item => `| ${columns.map(column => escape(column.value(item))).join(' | ')} |`),
+    ]
+      .map(line => `${line}\n`)
+      .join('');
+  }
+
+  /**
+   * Returns true when the deployment targets include the given account
+   * @param deploymentTargets
+   * @param accountName
+   * @returns
+   */
+  private isIncluded(deploymentTargets: DeploymentTargets, accountName: string): boolean {
+    if (deploymentTargets.excludedAccounts?.includes(accountName)) {
+      return false;
+    }
+    const account = this.accountsConfig.getAccount(accountName);
+    return (
+      (deploymentTargets.accounts ?? []).includes(accountName) ||
+      (deploymentTargets.organizationalUnits ?? []).some(ou => ou === 'Root' || ou === account.organizationalUnit)
+    );
+  }
+
+  /**
+   * Returns the given regions without the excluded regions of the deployment targets
+   * @param regions
+   * @param deploymentTargets
+   * @returns
+   */
+  private getRegions(regions: Region[], deploymentTargets: DeploymentTargets | undefined): Region[] {
+    return regions.filter(item => !(deploymentTargets?.excludedRegions ?? []).includes(item));
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import yargs from 'yargs';
+
+import { AccountsConfig, ConfigOverlay, NetworkConfig, ReplacementsConfig } from '@aws-accelerator/config';
+import { createLogger } from '@aws-accelerator/utils';
+
+import { NetworkTopology, NetworkTopologyFormat } from './lib/classes/network-topology';
+
+/**
+ * AWS Accelerator network topology tool entry point.
+ * Generates a JSON graph, a Mermaid flowchart and a Graphviz DOT diagram of the network described by
+ * network-config.yaml. Runs offline from the configuration directory.
+ * Script Options:
+ * <ul>
+ * <li>--config-dir Directory of the accelerator configuration files
+ * <li>--output-dir Directory the topology files are written to
+ * <li>--format Output format, one of json, mermaid or dot. All formats are written when omitted
+ * <li>--environment Environment overlay applied to the configuration directory, defaults to the ACCELERATOR_ENVIRONMENT environment variable
+ * </ul>
+ * @example
+ * ts-node network-topology.ts --config-dir <value> --output-dir <value> --format <value>
+ */
+
+const logger = createLogger(['network-topology']);
+const scriptUsage =
+  'Usage: yarn run ts-node --transpile-only network-topology.ts --config-dir <CONFIG_DIR> --output-dir <OUTPUT_DIR> [--format <json|mermaid|dot>] [--environment <ENVIRONMENT>]';
+
+async function main(): Promise<string> {
+  const argv = yargs(process.argv.slice(2))
+    .options({
+      configDir: { type: 'string' },
+      outputDir: { type: 'string' },
+      format: { type: 'string', choices: ['json', 'mermaid', 'dot'] },
+      environment: { type: 'string' },
+    })
+    .parseSync();
+
+  if (!argv.configDir || !argv.outputDir) {
+    throw new Error(`** Script Usage ** ${scriptUsage}`);
+  }
+
+  const environment = argv.environment ?? process.env['ACCELERATOR_ENVIRONMENT'];
+  const configDirPath = ConfigOverlay.resolve(argv.configDir, environment);
+  const replacementsConfig = ReplacementsConfig.load(configDirPath, environment);
+
+  const topology = new NetworkTopology(
+    NetworkConfig.load(configDirPath, replacementsConfig),
+    AccountsConfig.load(configDirPath, replacementsConfig),
+  );
+  topology.generate(argv.outputDir, argv.format ? [argv.format as NetworkTopologyFormat] : undefined);
+
+  return `[network-topology] Topology generated successfully in ${argv.outputDir}`;
+}
+
+process.on('unhandledRejection', reason => {
+  console.error(reason);
+  // eslint-disable-next-line no-process-exit
+  process.exit(1);
+});
+
+/**
+ * Call Main function
+ */
+main().then(data => {
+  logger.info(data);
+});
@@ -0,0 +1,83 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import yargs from 'yargs';
+
+import {
+  AccountsConfig,
+  ConfigOverlay,
+  GlobalConfig,
+  ReplacementsConfig,
+  SecurityConfig,
+} from '@aws-accelerator/config';
+import { createLogger } from '@aws-accelerator/utils';
+
+import { SecurityHubExceptionsRegister } from './lib/classes/securityhub-exceptions-register';
+
+/**
+ * AWS Accelerator Security Hub exceptions register tool entry point.
+ * Generates a CSV and Markdown register of the Security Hub controls disabled, re-enabled or customized
+ * in each account from the standards of security-config.yaml.
+ * Script Options:
+ * <ul>
+ * <li>--config-dir Directory of the accelerator configuration files
+ * <li>--output-dir Directory the register files are written to
+ * <li>--environment Environment overlay applied to the configuration directory, defaults to the ACCELERATOR_ENVIRONMENT environment variable
+ * </ul>
+ * @example
+ * ts-node securityhub-exceptions-register.ts --config-dir <value> --output-dir <value>
+ */
+
+const logger = createLogger(['securityhub-exceptions-register']);
+const scriptUsage =
+  'Usage: yarn run ts-node --transpile-only securityhub-exceptions-register.ts --config-dir <CONFIG_DIR> --output-dir <OUTPUT_DIR> [--environment <ENVIRONMENT>]';
+
+async function main(): Promise<string> {
+  const argv = yargs(process.argv.slice(2))
+    .options({
+      configDir: { type: 'string' },
+      outputDir: { type: 'string' },
+      environment: { type: 'string' },
+    })
+    .parseSync();
+
+  if (!argv.configDir || !argv.outputDir) {
+    throw new Error(`** Script Usage ** ${scriptUsage}`);
+  }
+
+  const environment = argv.environment ?? process.env['ACCELERATOR_ENVIRONMENT'];
+  const configDirPath = ConfigOverlay.resolve(argv.configDir, environment);
+  const replacementsConfig = ReplacementsConfig.load(configDirPath, environment);
+
+  const register = new SecurityHubExceptionsRegister(
+    SecurityConfig.load(configDirPath, replacementsConfig),
+    AccountsConfig.load(configDirPath, replacementsConfig),
+    GlobalConfig.load(configDirPath, replacementsConfig),
+  );
+  register.generate(argv.outputDir);
+
+  return `[securityhub-exceptions-register] Register generated successfully in ${argv.outputDir}`;
+}
+
+process.on('unhandledRejection', reason => {
+  console.error(reason);
+  // eslint-disable-next-line no-process-exit
+  process.exit(1);
+});
+
+/**
+ * Call Main function
+ */
+main().then(data => {
+  logger.info(data);
+});
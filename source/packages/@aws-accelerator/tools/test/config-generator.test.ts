@@ -0,0 +1,148 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { OrganizationsClient } from '@aws-sdk/client-organizations';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigGenerator } from '../lib/classes/config-generator';
+
+type Recording = { command: string; input: { [key: string]: unknown }; output: object };
+
+const recordings: Recording[] = JSON.parse(
+  fs.readFileSync(path.join(__dirname, 'recordings', 'organization.json'), 'utf8'),
+);
+
+/**
+ * Returns a client replaying the recorded Organizations API responses,
+ * matching each call on its command name and input
+ * @param items
+ * @returns
+ */
+function replay(items: Recording[]): OrganizationsClient {
+  return {
+    send: async (command: { constructor: { name: string }; input: object }) => {
+      const name = command.constructor.name.replace(/Command$/, '');
+      const input = JSON.stringify(command.input);
+      const recording = items.find(item => item.command === name && JSON.stringify(item.input) === input);
+      if (!recording) {
+        throw new Error(`No recording for ${name} ${input}`);
+      }
+      return recording.output;
+    },
+  } as unknown as OrganizationsClient;
+}
+
+describe('ConfigGenerator', () => {
+  let outputDirPath: string;
+
+  beforeEach(() => {
+    outputDirPath = fs.mkdtempSync(path.join(os.tmpdir(), 'accel-generated'));
+  });
+
+  it('generates a valid configuration from the organization', async () => {
+    const { accountsConfig, organizationConfig } = await new ConfigGenerator(replay(recordings)).generate(
+      outputDirPath,
+    );
+
+    expect(organizationConfig.organizationalUnits.map(item => item.name)).toStrictEqual([
+      'Security',
+      'Workloads',
+      'Workloads/Sandbox',
+    ]);
+    expect(organizationConfig.serviceControlPolicies).toEqual([
+      {
+        name: 'FullAWSAccess',
+        description: 'Allows access to every operation',
+        policy: 'service-control-policies/FullAWSAccess.json',
+        type: 'awsManaged',
+        deploymentTargets: { organizationalUnits: ['Root'], accounts: ['Management'] },
+      },
+      {
+        name: 'Workload Guardrails',
+        description: 'Workload Guardrails',
+        policy: 'service-control-policies/Workload-Guardrails.json',
+        type: 'customerManaged',
+        deploymentTargets: { organizationalUnits: ['Workloads/Sandbox'], accounts: ['Shared-Services'] },
+      },
+    ]);
+    expect(organizationConfig.taggingPolicies.map(item => item.policy)).toStrictEqual([
+      'tagging-policies/TagPolicy.json',
+    ]);
+    expect(organizationConfig.backupPolicies).toStrictEqual([]);
+    expect(
+      JSON.parse(fs.readFileSync(path.join(outputDirPath, 'service-control-policies/Workload-Guardrails.json'), 'utf8'))
+        .Statement[0].Effect,
+    ).toEqual('Deny');
+
+    expect(accountsConfig.mandatoryAccounts.map(item => [item.name, item.organizationalUnit])).toStrictEqual([
+      ['Management', 'Root'],
+      ['LogArchive', 'Security'],
+      ['Audit', 'Security'],
+    ]);
+    expect(accountsConfig.workloadAccounts.map(item => [item.name, item.organizationalUnit])).toStrictEqual([
+      ['Shared-Services', 'Workloads'],
+      ['Shared-Services-666666666666', 'Workloads/Sandbox'],
+    ]);
+    expect(accountsConfig.accountIds?.length).toEqual(5);
+  });
+
+  it('identifies mandatory accounts by account ID', async () => {
+    const { accountsConfig } = await new ConfigGenerator(replay(recordings), {
+      logArchiveAccountId: '444444444444',
+      auditAccountId: '666666666666',
+    }).generate(outputDirPath);
+
+    expect(accountsConfig.mandatoryAccounts.map(item => [item.name, item.description])).toStrictEqual([
+      ['Management', 'Management Account'],
+      ['LogArchive', 'Shared Services'],
+      ['Audit', 'Shared Services'],
+    ]);
+    expect(accountsConfig.workloadAccounts.map(item => item.name)).toStrictEqual(['Log-Archive', 'Audit-333333333333']);
+  });
+
+  it('skips policy types that are not enabled', async () => {
+    const client = replay(
+      recordings.map(item => {
+        if (item.command === 'ListRoots') {
+          return { ...item, output: { Roots: [{ Id: 'r-a1b2', Name: 'Root' }] } };
+        }
+        if (item.command === 'ListAccountsForParent' && item.input['ParentId'] === 'ou-a1b2-33333333') {
+          return { ...item, output: {} };
+        }
+        return item;
+      }),
+    );
+    const { accountsConfig, organizationConfig } = await new ConfigGenerator(client).generate(outputDirPath);
+
+    expect(organizationConfig.serviceControlPolicies).toStrictEqual([]);
+    expect(organizationConfig.taggingPolicies).toStrictEqual([]);
+    expect(accountsConfig.workloadAccounts.map(item => item.name)).toStrictEqual(['Shared-Services']);
+  });
+
+  it('throws when a mandatory account is not found', async () => {
+    await expect(
+      new ConfigGenerator(replay(recordings), { auditAccountId: '999999999999' }).generate(outputDirPath),
+    ).rejects.toThrow('Unable to identify the Audit account of the organization, provide its account ID');
+  });
+
+  it('throws when the organization cannot be described', async () => {
+    for (const command of ['DescribeOrganization', 'ListRoots']) {
+      const client = replay(recordings.map(item => (item.command === command ? { ...item, output: {} } : item)));
+      await expect(new ConfigGenerator(client).generate(outputDirPath)).rejects.toThrow(
+        'Unable to describe the organization',
+      );
+    }
+  });
+});
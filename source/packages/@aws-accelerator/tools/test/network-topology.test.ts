@@ -0,0 +1,134 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { AccountsConfig, NetworkConfig } from '@aws-accelerator/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { NetworkTopology, NetworkTopologyEdge } from '../lib/classes/network-topology';
+
+const configDirPath = path.resolve('../accelerator/test/configs/all-enabled');
+
+describe('NetworkTopology', () => {
+  const accountsConfig = AccountsConfig.load(configDirPath);
+  const topology = new NetworkTopology(NetworkConfig.load(configDirPath), accountsConfig);
+  const graph = topology.getGraph();
+
+  function findEdge(source: string, target: string, type: string): NetworkTopologyEdge | undefined {
+    return graph.edges.find(item => item.source === source && item.target === target && item.type === type);
+  }
+
+  it('adds vpc and transit gateway attachments', () => {
+    const vpcId = 'vpc:Network-Endpoints:Network';
+    expect(graph.nodes.find(item => item.id === vpcId)?.region).toBe('us-east-1');
+    expect(findEdge(vpcId, 'transitGateway:Network-Main:Network', 'attachment')?.label).toBe('Network-Endpoints');
+    expect(
+      findEdge(vpcId, 'transitGatewayRouteTable:Network-Main:Network-Main-Shared:Network', 'association'),
+    ).toBeDefined();
+    expect(
+      findEdge(vpcId, 'transitGatewayRouteTable:Network-Main:Network-Main-Core:Network', 'propagation'),
+    ).toBeDefined();
+  });
+
+  it('adds transit gateway static routes', () => {
+    const routeTableId = 'transitGatewayRouteTable:Network-Main:Network-Main-Core:Network';
+    expect(findEdge(routeTableId, 'vpc:Network-Endpoints:Network', 'staticRoute')?.label).toBe('10.100.0.0/16');
+    expect(findEdge(routeTableId, 'directConnectGateway:Network-DXGW:Network', 'staticRoute')?.label).toBe(
+      '10.200.0.0/16',
+    );
+    expect(findEdge(routeTableId, 'blackhole:blackhole', 'staticRoute')?.label).toBe('1.1.1.1/32');
+  });
+
+  it('adds peering, connect and central network service resources', () => {
+    expect(findEdge('vpc:Network-Endpoints:Network', 'vpc:Network-Inspection:Network', 'vpcPeering')?.label).toBe(
+      'NetworkEndpointsToInspection',
+    );
+    expect(
+      findEdge(
+        'transitGatewayPeering:Network-Main-And-SharedServices-Main-Peering',
+        'transitGateway:SharedServices-Main:SharedServices',
+        'attachment',
+      ),
+    ).toBeDefined();
+    expect(
+      findEdge(
+        'transitGatewayConnect:Network-Main:Network-Main-SdWan:Network',
+        'vpc:Network-Endpoints:Network',
+        'transport',
+      ),
+    ).toBeDefined();
+    expect(
+      findEdge('networkFirewall:accelerator-firewall:Network', 'vpc:Network-Inspection:Network', 'deployment'),
+    ).toBeDefined();
+    expect(
+      findEdge(
+        'gatewayLoadBalancer:Accelerator-GWLB:Network',
+        'gatewayLoadBalancerEndpoint:Endpoint-A:Network',
+        'endpoint',
+      ),
+    ).toBeDefined();
+  });
+
+  it('only references existing nodes', () => {
+    const nodeIds = new Set(graph.nodes.map(item => item.id));
+    expect(graph.edges.every(item => nodeIds.has(item.source) && nodeIds.has(item.target))).toBe(true);
+  });
+
+  it('renders mermaid and dot output', () => {
+    const mermaid = topology.toMermaid(graph);
+    expect(mermaid.startsWith('flowchart LR')).toBe(true);
+    expect(mermaid).toContain('subgraph');
+    expect(mermaid).toContain('10.100.0.0/16');
+
+    const dot = topology.toDot(graph);
+    expect(dot.startsWith('digraph network {')).toBe(true);
+    expect(dot).toContain('subgraph cluster_');
+    expect(dot).toContain('dir=both');
+  });
+
+  it('expands vpc templates per account', () => {
+    const networkConfig = NetworkConfig.loadFromString(
+      [
+        'defaultVpc:',
+        '  delete: false',
+        'endpointPolicies: []',
+        'transitGateways: []',
+        'vpcs: []',
+        'vpcTemplates:',
+        '  - name: Workload',
+        '    region: us-east-1',
+        '    deploymentTargets:',
+        '      accounts:',
+        '        - SharedServices',
+        '        - Network',
+      ].join('\n'),
+    );
+    const templateGraph = new NetworkTopology(networkConfig!, accountsConfig).getGraph();
+    expect(templateGraph.nodes.map(item => item.id)).toStrictEqual([
+      'vpc:Workload:SharedServices',
+      'vpc:Workload:Network',
+    ]);
+  });
+
+  it('writes the topology files', () => {
+    const outputDirPath = fs.mkdtempSync(path.join(os.tmpdir(), 'accel-network-topology-'));
+    topology.generate(outputDirPath, ['json', 'mermaid']);
+
+    const json = JSON.parse(fs.readFileSync(path.join(outputDirPath, 'network-topology.json'), 'utf8'));
+    expect(json.nodes.length).toBe(graph.nodes.length);
+    expect(fs.existsSync(path.join(outputDirPath, 'network-topology.mmd'))).toBe(true);
+    expect(fs.existsSync(path.join(outputDirPath, 'network-topology.dot'))).toBe(false);
+    fs.rmSync(outputDirPath, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ *  Copyright 2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance
+ *  with the License. A copy of the License is located at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  or in the 'license' file accompanying this file. This file is distributed on an 'AS IS' BASIS, WITHOUT WARRANTIES
+ *  OR CONDITIONS OF ANY KIND, express or implied. See the License for the specific language governing permissions
+ *  and limitations under the License.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { AccountsConfig, GlobalConfig, SecurityConfig } from '@aws-accelerator/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SecurityHubExceptionsRegister } from '../lib/classes/securityhub-exceptions-register';
+
+const configDirPath = path.resolve('../accelerator/test/configs/all-enabled');
+
+describe('SecurityHubExceptionsRegister', () => {
+  const register = new SecurityHubExceptionsRegister(
+    SecurityConfig.load(configDirPath),
+    AccountsConfig.load(configDirPath),
+    GlobalConfig.load(configDirPath),
+  );
+
+  it('resolves control exceptions per account', () => {
+    const exceptions = register
+      .getExceptions()
+      .filter(item => item.standard === 'AWS Foundational Security Best Practices v1.0.0');
+
+    expect(exceptions.filter(item => item.controlId === 'IAM.1').map(item => [item.account, item.status])).toEqual(
+      expect.arrayContaining([
+        ['Management', 'ENABLED'],
+        ['Network', 'DISABLED'],
+      ]),
+    );
+    expect(exceptions.filter(item => item.controlId === 'IAM.6').map(item => item.account)).toStrictEqual([
+      'Network',
+      'SharedServices',
+    ]);
+    expect(exceptions.find(item => item.controlId === 'ACM.1')).toEqual({
+      standard: 'AWS Foundational Security Best Practices v1.0.0',
+      controlId: 'ACM.1',
+      account: 'Management',
+      organizationalUnit: 'Root',
+      regions: ['us-east-1'],
+      status: 'CUSTOM_PARAMETERS',
+      parameters: 'daysToExpiration=30',
+      justification: 'Certificates are renewed 30 days before expiry',
+    });
+  });
+
+  it('writes the register files', () => {
+    const outputDirPath = fs.mkdtempSync(path.join(os.tmpdir(), 'accel-register'));
+    const exceptions = register.generate(outputDirPath);
+
+    const csv = fs.readFileSync(path.join(outputDirPath, 'securityhub-exceptions-register.csv'), 'utf8').split('\n');
+    expect(csv[0]).toBe('Standard,Control,Account,Organizational Unit,Regions,Status,Parameters,Justification');
+    expect(csv.length).toBe(exceptions.length + 2);
+    expect(fs.readFileSync(path.join(outputDirPath, 'securityhub-exceptions-register.md'), 'utf8')).toContain(
+      '| IAM.6 | Network | Infrastructure | us-east-1 | DISABLED |  | Hardware MFA is not issued for infrastructure root users |',
+    );
+  });
+});
@@ -17,6 +17,14 @@ export enum SsmResourceType {
    */
   STACK_ID = '/${0}/stack-id',
   VERSION = '/${0}/version',
+  /**
+   * CloudWatch resources
+   */
+  OAM_SINK = '/cloudwatch/observability/sinks/${0}/arn',
+  /**
+   * S3 resources
+   */
+  S3_BUCKET = '/s3/buckets/${0}/name',
   /**
    * Global network resources
    */
@@ -27,6 +35,7 @@ export enum SsmResourceType {
   TGW = '/network/transitGateways/${0}/id',
   TGW_PEERING = '/network/transitGateways/${0}/peering/${1}/id',
   TGW_ROUTE_TABLE = '/network/transitGateways/${0}/routeTables/${1}/id',
+  TGW_MULTICAST_DOMAIN = '/network/transitGateways/${0}/multicastDomains/${1}/id',
   TGW_VPN = '/network/vpnConnection/${0}/id',
   PREFIX_LIST = '/network/prefixList/${0}/id',
   /**
@@ -47,6 +56,7 @@ export enum SsmResourceType {
   ENDPOINT_DNS = '/network/vpc/${0}/endpoints/${1}/dns',
   ENDPOINT_ZONE_ID = '/network/vpc/${0}/endpoints/${1}/hostedZoneId',
   PHZ_ID = '/network/vpc/${0}/route53/hostedZone/${1}/id',
+  PRIVATE_HOSTED_ZONE_ID = '/network/vpc/${0}/route53/privateHostedZone/${1}/id',
   QUERY_LOGS = '/network/route53Resolver/queryLogConfigs/${0}/id',
   RESOLVER_ENDPOINT = '/network/route53Resolver/endpoints/${0}/id',
   RESOLVER_RULE = '/network/route53Resolver/rules/${0}/id',
@@ -63,7 +73,11 @@ export enum SsmResourceType {
    * Load balancers
    */
   ALB = '/network/vpc/${0}/alb/${1}/id',
+  ALB_DNS = '/network/vpc/${0}/alb/${1}/dns',
+  ALB_ZONE_ID = '/network/vpc/${0}/alb/${1}/hostedZoneId',
   NLB = '/network/vpc/${0}/nlb/${1}/id',
+  NLB_DNS = '/network/vpc/${0}/nlb/${1}/dns',
+  NLB_ZONE_ID = '/network/vpc/${0}/nlb/${1}/hostedZoneId',
   GWLB_ARN = '/network/gwlb/${0}/arn',
   GWLB_SERVICE = '/network/gwlb/${0}/endpointService/id',
 }